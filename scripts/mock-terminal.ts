@@ -0,0 +1,43 @@
+#!/usr/bin/env bun
+
+import { parseArgs } from 'node:util'
+import { type MockTerminalFault, startMockTerminal } from '../src/mock/MockTerminal'
+
+// Run the mock ThetaData Terminal until interrupted, e.g.
+//   bun run mock-terminal --latency 200 --rate-limit-rate 0.1 --fixtures ./fixtures
+const { values } = parseArgs({
+  args: process.argv.slice(2),
+  options: {
+    port: { type: 'string', default: '25510' },
+    latency: { type: 'string', default: '0' },
+    seed: { type: 'string', default: '1' },
+    fixtures: { type: 'string' },
+    'rate-limit-rate': { type: 'string', default: '0' },
+    'server-error-rate': { type: 'string', default: '0' },
+    'malformed-rate': { type: 'string', default: '0' },
+    'disconnect-rate': { type: 'string', default: '0' },
+  },
+})
+
+const faultRates: Record<MockTerminalFault, number> = {
+  'rate-limit': Number(values['rate-limit-rate']),
+  'server-error': Number(values['server-error-rate']),
+  malformed: Number(values['malformed-rate']),
+  disconnect: Number(values['disconnect-rate']),
+}
+
+const terminal = startMockTerminal({
+  port: Number(values.port),
+  latencyMs: Number(values.latency),
+  seed: Number(values.seed),
+  fixtureDir: values.fixtures,
+  faultRates,
+})
+
+console.log(`Mock ThetaData Terminal listening on ${terminal.url}`)
+console.log(`Point the CLI at it with CONFIG_THETADATA_BASE_URL=${terminal.url}`)
+
+process.on('SIGINT', () => {
+  terminal.stop()
+  process.exit(0)
+})
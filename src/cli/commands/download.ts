@@ -1,32 +1,59 @@
 import * as path from 'node:path'
-import * as Args from '@effect/cli/Args'
 import * as Command from '@effect/cli/Command'
 import * as Options from '@effect/cli/Options'
-import { format, isValid, parse } from 'date-fns'
-import { Effect, Stream } from 'effect'
+import { format } from 'date-fns'
+import { Effect, Either, Option, Ref, Stream } from 'effect'
 import { AppConfig } from '@/config/AppConfig'
-import { BulkGreeksProcessor } from '@/services/BulkGreeksProcessor'
+import {
+  BulkGreeksProcessor,
+  type ExpirationResult,
+  type StrikeFilter,
+} from '@/services/BulkGreeksProcessor'
 import { DataPipeline, type PipelineConfig } from '@/services/DataPipeline'
-import { ThetaDataApiClient } from '@/services/ThetaDataApiClient'
-
-// Date validation function - strict YYYY-MM-DD format only
-const parseDate = (input: string): Date => {
-  // First check the format with regex
-  const dateRegex = /^\d{4}-\d{2}-\d{2}$/
-  if (!dateRegex.test(input)) {
-    throw new Error(`Invalid date format. Must be YYYY-MM-DD, got: ${input}`)
-  }
-  
-  const date = parse(input, 'yyyy-MM-dd', new Date())
-  if (!isValid(date)) {
-    throw new Error(`Invalid date. Please provide a valid date in YYYY-MM-DD format, got: ${input}`)
-  }
-  return date
-}
+import type { CsvCompression } from '@/services/DataWriter'
+import { DownloadCheckpoint } from '@/services/DownloadCheckpoint'
+import { type OptionsDataset, ThetaDataApiClient } from '@/services/ThetaDataApiClient'
+import { TradingCalendar, type TradingSession } from '@/services/TradingCalendar'
+import { estimateStrikeFilter } from '@/utils'
+import {
+  calendarError,
+  checkFields,
+  compressionOption,
+  datasetOption,
+  dateArg,
+  daysBackOption,
+  describeStrikeFilter,
+  describeTimeWindow,
+  endDateOption,
+  endTimeOption,
+  expirationPath,
+  extendedHoursOption,
+  fieldsOption,
+  formatMsOfDay,
+  formatOption,
+  intervalOption,
+  maxDeltaOption,
+  maxStrikeOption,
+  minDeltaOption,
+  minStrikeOption,
+  moneynessOption,
+  type OutputLayout,
+  outputExtension,
+  parquetCodecOption,
+  partitionExistingExpirations,
+  resolveStrikeFilter,
+  resolveTimeWindowSpec,
+  resolveTradeDates,
+  sessionTimeWindow,
+  startDateOption,
+  startTimeOption,
+  streamOption,
+  type TimeWindowSpec,
+  tradeDateLayout,
+  windowOption,
+} from '../utils'
 
 // Command arguments and options
-const dateArg = Args.text({ name: 'date' }).pipe(Args.withDescription('Date in YYYY-MM-DD format'))
-
 const dryRunOption = Options.boolean('dry-run').pipe(
   Options.withAlias('d'),
   Options.withDescription('Preview what would be downloaded without fetching data'),
@@ -34,147 +61,748 @@ const dryRunOption = Options.boolean('dry-run').pipe(
 )
 
 const dteOption = Options.integer('dte').pipe(
-  Options.withDescription('Maximum days to expiration (0 = current day only)'),
+  Options.withDescription('Maximum trading days to expiration (0 = current day only)'),
   Options.withDefault(0),
 )
 
-const intervalOption = Options.integer('interval').pipe(
-  Options.withDescription('Data interval in milliseconds (60000=1min, 3600000=1hr)'),
-  Options.withDefault(60000),
+const forceOption = Options.boolean('force').pipe(
+  Options.withDescription('Re-download expirations even if their files are already complete'),
+  Options.withDefault(false),
 )
 
-// Main download command
-export const download = Command.make(
-  'download',
-  { date: dateArg, dryRun: dryRunOption, dte: dteOption, interval: intervalOption },
-  ({ date, dryRun, dte, interval }) =>
-    Effect.gen(function* (_) {
-      // Validate date format
-      const tradeDate = yield* _(
-        Effect.try({
-          try: () => parseDate(date),
-          catch: () => new Error(`Invalid date format. Expected YYYY-MM-DD, got: ${date}`),
-        }),
-      )
+const fillGapsOption = Options.boolean('fill-gaps').pipe(
+  Options.withDescription(
+    'With a date range, skip trade dates already complete and fetch only missing expirations',
+  ),
+  Options.withDefault(false),
+)
 
-      console.log(`Starting download for trade date: ${format(tradeDate, 'yyyy-MM-dd')}`)
+const rootOption = Options.text('root').pipe(
+  Options.withDescription(
+    'Option root symbol, e.g. SPXW, SPX, XSP, NDXP, RUTW or VIX (repeatable, default: SPXW)',
+  ),
+  Options.repeated,
+)
 
-      if (dryRun) {
-        console.log('DRY RUN MODE - No data will be downloaded')
-      }
+const DEFAULT_ROOT = 'SPXW'
 
-      // Get services and config
-      const config = yield* _(AppConfig)
-      const client = yield* _(ThetaDataApiClient)
-      const processor = yield* _(BulkGreeksProcessor)
-      const pipeline = yield* _(DataPipeline)
-
-      // Create output directory using configured data directory
-      const outputDir = path.join(config.storage.dataDirectory, format(tradeDate, 'yyyyMMdd'))
-
-      if (!dryRun) {
-        yield* _(
-          Effect.tryPromise({
-            try: async () => {
-              const fs = await import('node:fs/promises')
-              await fs.mkdir(outputDir, { recursive: true })
-            },
-            catch: (error) => new Error(`Failed to create output directory: ${error}`),
-          }),
+// Index each root's options settle on, where the two symbols differ
+const UNDERLYING_INDEX: Record<string, string> = { SPXW: 'SPX', NDXP: 'NDX', RUTW: 'RUT' }
+
+interface DayDownloadOptions {
+  readonly roots: ReadonlyArray<string>
+  readonly dataset: OptionsDataset
+  readonly dryRun: boolean
+  readonly force: boolean
+  readonly dte: number
+  readonly interval: number
+  readonly stream: boolean
+  readonly outputFormat: 'csv' | 'parquet' | 'jsonl'
+  readonly parquetCodec: 'snappy' | 'zstd'
+  readonly compression: CsvCompression
+  readonly fields: Option.Option<string>
+  readonly strikeFilter?: StrikeFilter
+  readonly timeWindow?: TimeWindowSpec
+}
+
+/**
+ * Estimate how many contracts a strike filter keeps across the expirations to fetch
+ * Lists each expiration's strikes and prices them off the index's opening price;
+ * without a price for the day, only the strike bounds are counted
+ */
+const estimateFilteredContracts = (
+  tradeDate: Date,
+  root: string,
+  expirations: ReadonlyArray<string>,
+  filter: StrikeFilter,
+) =>
+  Effect.gen(function* (_) {
+    const client = yield* _(ThetaDataApiClient)
+    const calendar = yield* _(TradingCalendar)
+    const day = format(tradeDate, 'yyyyMMdd')
+
+    const needsPrice =
+      filter.moneyness !== undefined ||
+      filter.minDelta !== undefined ||
+      filter.maxDelta !== undefined
+    const underlyingPrice = needsPrice
+      ? yield* _(
+          client
+            .getIndexOhlc({
+              root: UNDERLYING_INDEX[root] ?? root,
+              startDate: day,
+              endDate: day,
+              rth: true,
+            })
+            .pipe(
+              Effect.map((bars) => Option.fromNullable(bars[0]?.open)),
+              Effect.orElseSucceed(() => Option.none<number>()),
+            ),
         )
-      }
+      : Option.none<number>()
 
-      // Get expirations for the trade date
-      console.log('Fetching available expirations...')
-      const allExpirations = yield* client
-        .listExpirations()
-        .pipe(Effect.mapError((error) => new Error(`Failed to fetch expirations: ${error}`)))
+    const perExpiration = new Map<string, { kept: number; total: number }>()
+    for (const expiration of expirations) {
+      const strikes = yield* _(
+        client
+          .listStrikes(root, expiration)
+          .pipe(Effect.mapError((error) => new Error(`Failed to list strikes: ${error.message}`))),
+      )
+      const tradingDays = yield* _(
+        calendar.tradingDaysToExpiration(day, expiration).pipe(Effect.mapError(calendarError)),
+      )
+      perExpiration.set(
+        expiration,
+        estimateStrikeFilter(
+          filter,
+          strikes,
+          Option.getOrUndefined(
+            Option.map(underlyingPrice, (price) => ({ underlyingPrice: price, tradingDays })),
+          ),
+        ),
+      )
+    }
 
-      // Filter expirations based on trade date (simplified for now)
-      const expirations = allExpirations.map((exp) => new Date(exp.date))
-      const expirationCount = expirations.length
+    return { underlyingPrice, perExpiration }
+  })
 
-      console.log(`Found ${expirationCount} expirations for ${format(tradeDate, 'yyyy-MM-dd')}`)
+/**
+ * Outcome of downloading a single trade date
+ */
+interface DaySummary {
+  readonly tradeDate: Date
+  readonly totalExpirations: number
+  readonly successfulExpirations: number
+  readonly failedExpirations: number
+  readonly skippedExpirations: number
+  readonly totalRecords: number
+  readonly durationMs: number
+}
 
-      // Handle dry run mode
-      if (dryRun) {
-        console.log('\nDry run summary:')
-        console.log(`  Trade date: ${format(tradeDate, 'yyyy-MM-dd')}`)
-        console.log(`  DTE filter: ${dte === 0 ? 'Current day only' : `Up to ${dte} days`}`)
+/**
+ * Expiration and record counts for one root on a trade date
+ */
+type RootSummary = Omit<DaySummary, 'tradeDate' | 'durationMs'>
+
+/**
+ * Download (or preview) one root's expirations for a trade date
+ */
+const downloadRootExpirations = (
+  tradeDate: Date,
+  root: string,
+  session: TradingSession,
+  layout: OutputLayout,
+  options: DayDownloadOptions,
+) =>
+  Effect.gen(function* (_) {
+    const { outputDir } = layout
+    const {
+      dataset,
+      dryRun,
+      force,
+      dte,
+      interval,
+      stream: streamRecords,
+      outputFormat,
+      parquetCodec,
+      compression,
+      fields,
+      strikeFilter,
+    } = options
+    const extension = outputExtension(outputFormat, compression)
+    const timeWindow = options.timeWindow && sessionTimeWindow(options.timeWindow, session)
+
+    const config = yield* _(AppConfig)
+    const client = yield* _(ThetaDataApiClient)
+    const processor = yield* _(BulkGreeksProcessor)
+    const pipeline = yield* _(DataPipeline)
+    const calendar = yield* _(TradingCalendar)
+
+    // Get expirations for the trade date
+    console.log(`Fetching available ${root} expirations...`)
+    const allExpirations = yield* client
+      .listExpirations(root)
+      .pipe(Effect.mapError((error) => new Error(`Failed to fetch expirations: ${error}`)))
+
+    // Apply the same trading-day DTE filter the processor uses
+    const expirations = yield* _(
+      processor
+        .filterExpirations(allExpirations, format(tradeDate, 'yyyyMMdd'), dte)
+        .pipe(
+          Effect.mapError((error) => new Error(`Failed to filter expirations: ${error.message}`)),
+        ),
+    )
+    const expirationCount = expirations.length
+
+    console.log(
+      `Found ${expirationCount} ${root} expirations for ${format(tradeDate, 'yyyy-MM-dd')}`,
+    )
+
+    // Expirations whose final file is already complete are skipped unless --force is given
+    const { existing, missing } = force
+      ? { existing: [], missing: expirations.map((exp) => exp.date.replace(/-/g, '')) }
+      : yield* _(
+          partitionExistingExpirations(
+            layout,
+            root,
+            expirations.map((exp) => exp.date.replace(/-/g, '')),
+            extension,
+          ),
+        )
+    const skipped = new Set(existing)
+
+    // Handle dry run mode
+    if (dryRun) {
+      console.log('\nDry run summary:')
+      console.log(`  Trade date: ${format(tradeDate, 'yyyy-MM-dd')}`)
+      console.log(`  Root: ${root}`)
+      console.log(`  Dataset: ${dataset}`)
+      console.log(
+        `  Session: ${formatMsOfDay(session.openMsOfDay ?? 0)}-${formatMsOfDay(session.closeMsOfDay ?? 0)} ET` +
+          `${session.isHalfDay ? ' (early close)' : ''}`,
+      )
+      console.log(`  Time window: ${describeTimeWindow(timeWindow)}`)
+      console.log(`  DTE filter: ${dte === 0 ? 'Current day only' : `Up to ${dte} trading days`}`)
+      console.log(
+        `  Data interval: ${interval === 60000 ? '1 minute' : interval === 3600000 ? '1 hour' : `${interval}ms`}`,
+      )
+      console.log(`  Output directory: ${outputDir}`)
+      console.log(
+        `  Output format: ${outputFormat}${outputFormat === 'parquet' ? ` (${parquetCodec})` : compression !== 'none' ? ` (${compression})` : ''}`,
+      )
+      console.log(`  Expirations to download: ${missing.length}`)
+      console.log(`  Expirations already complete (skipped): ${existing.length}`)
+      console.log(`  Estimated files: ${missing.length}`)
+      console.log(`  Strike filter: ${describeStrikeFilter(strikeFilter)}`)
+
+      const estimate = strikeFilter
+        ? yield* _(estimateFilteredContracts(tradeDate, root, missing, strikeFilter))
+        : undefined
+      if (estimate) {
+        const kept = [...estimate.perExpiration.values()].reduce((sum, e) => sum + e.kept, 0)
+        const total = [...estimate.perExpiration.values()].reduce((sum, e) => sum + e.total, 0)
+        const reduction = total > 0 ? Math.round((1 - kept / total) * 100) : 0
         console.log(
-          `  Data interval: ${interval === 60000 ? '1 minute' : interval === 3600000 ? '1 hour' : `${interval}ms`}`,
+          `  Estimated contracts kept: ${kept.toLocaleString()} of ${total.toLocaleString()} ` +
+            `(~${reduction}% fewer rows)`,
         )
-        console.log(`  Output directory: ${outputDir}`)
-        console.log(`  Expirations to download: ${expirationCount}`)
-        console.log(`  Estimated files: ${expirationCount}`)
-        console.log('\nExpirations:')
-
-        for (let index = 0; index < expirations.length; index++) {
-          const exp = expirations[index]
-          const fileName = `spxw_exp_${format(exp, 'yyyyMMdd')}.csv`
-          console.log(
-            `  [${index + 1}/${expirationCount}] ${format(exp, 'yyyy-MM-dd')} -> ${fileName}`,
-          )
-        }
+        console.log(
+          Option.match(estimate.underlyingPrice, {
+            onNone: () =>
+              strikeFilter?.moneyness !== undefined ||
+              strikeFilter?.minDelta !== undefined ||
+              strikeFilter?.maxDelta !== undefined
+                ? '  (No underlying price for the day: moneyness and delta bounds not estimated)'
+                : '  (From the listed strikes)',
+            onSome: (price) =>
+              `  (From the listed strikes at an underlying of ${price}, assuming 20% volatility)`,
+          }),
+        )
+      }
+      console.log('\nExpirations:')
 
-        return
+      for (let index = 0; index < expirations.length; index++) {
+        const exp = expirations[index]
+        const tradingDte = yield* _(
+          calendar
+            .tradingDaysToExpiration(format(tradeDate, 'yyyyMMdd'), exp.date)
+            .pipe(Effect.mapError(calendarError)),
+        )
+        const fileName = path.relative(
+          layout.dataDirectory ?? outputDir,
+          yield* _(expirationPath(layout, root, exp.date, extension)),
+        )
+        const action = skipped.has(exp.date.replace(/-/g, '')) ? 'skip (complete)' : 'fetch'
+        const contracts = estimate?.perExpiration.get(exp.date.replace(/-/g, ''))
+        console.log(
+          `  [${index + 1}/${expirationCount}] ${exp.date} (${tradingDte} DTE) -> ${fileName} [${action}]` +
+            `${contracts ? ` ~${contracts.kept}/${contracts.total} contracts` : ''}`,
+        )
       }
 
-      // Process the data through the pipeline
-      console.log('Starting data download and processing...')
+      return {
+        totalExpirations: expirationCount,
+        successfulExpirations: 0,
+        failedExpirations: 0,
+        skippedExpirations: existing.length,
+        totalRecords: 0,
+      } satisfies RootSummary
+    }
 
-      const pipelineConfig: PipelineConfig = {
-        outputDir,
-        chunkSize: 1000,
-        compression: false,
-        fileNamePattern: 'spxw_exp_{expiration}.csv',
-      }
+    if (existing.length > 0) {
+      console.log(
+        `Skipping ${existing.length} expirations already complete on disk (use --force to re-download)`,
+      )
+    }
+
+    if (missing.length === 0) {
+      console.log(`✓ All ${expirationCount} expirations already downloaded`)
+      return {
+        totalExpirations: expirationCount,
+        successfulExpirations: 0,
+        failedExpirations: 0,
+        skippedExpirations: existing.length,
+        totalRecords: 0,
+      } satisfies RootSummary
+    }
+
+    // Process the data through the pipeline
+    console.log('Starting data download and processing...')
 
-      // Stream bulk greeks data through the pipeline
-      const stream = processor
-        .streamBulkGreeks({
-          root: 'SPXW',
-          tradeDate: format(tradeDate, 'yyyyMMdd'),
-          maxDTE: dte,
-          interval: interval,
+    // So that 'resume' writes any expirations left over the same way
+    const checkpoint = yield* _(DownloadCheckpoint)
+    yield* _(
+      checkpoint
+        .recordSettings(outputDir, {
+          dataset,
+          interval,
+          format: outputFormat,
+          compression,
+          parquetCodec,
+          pathTemplate: layout.fileNamePattern,
+          fields: Option.getOrUndefined(fields),
+          strikeFilter,
+          timeWindow,
         })
         .pipe(
-          // Convert stream errors to defects (die on error)
-          Stream.orDie,
-        )
+          Effect.mapError((error) => new Error(`Failed to record download settings: ${error}`)),
+        ),
+    )
+
+    const pipelineConfig: PipelineConfig = {
+      outputDir,
+      chunkSize: 1000,
+      concurrency: config.thetaData.maxConcurrentRequests,
+      compression: compression !== 'none',
+      root,
+      fileNamePattern: layout.fileNamePattern,
+      dataDirectory: layout.dataDirectory,
+      expirations: missing,
+      dataset,
+      timeWindow,
+      tradeDate: format(tradeDate, 'yyyyMMdd'),
+      interval,
+      strikeFilter,
+    }
+
+    // Tally results as they flow into the pipeline for the per-day summary
+    const tallyRef = yield* _(Ref.make({ total: 0, successful: 0, failed: 0, records: 0 }))
+
+    // Streamed rows are only counted as the pipeline reads them. A response that fails partway
+    // turns a successful fetch into a failed one, until a later fetch of it succeeds
+    const tallyStreamed = (result: ExpirationResult): ExpirationResult => {
+      const { records, retry } = result
+      if (!records) {
+        return result
+      }
+      return {
+        ...result,
+        records: Stream.unwrap(
+          Effect.map(Ref.make(0), (read) =>
+            records.pipe(
+              Stream.mapChunksEffect((chunk) =>
+                Effect.zipRight(
+                  Ref.update(read, (n) => n + chunk.length),
+                  Ref.update(tallyRef, (t) => ({ ...t, records: t.records + chunk.length })),
+                ).pipe(Effect.as(chunk)),
+              ),
+              Stream.tapError(() =>
+                Effect.flatMap(Ref.get(read), (n) =>
+                  Ref.update(tallyRef, (t) => ({
+                    ...t,
+                    successful: t.successful - 1,
+                    failed: t.failed + 1,
+                    records: t.records - n,
+                  })),
+                ),
+              ),
+            ),
+          ),
+        ),
+        retry:
+          retry &&
+          ((error) =>
+            retry(error).pipe(
+              Effect.tap((next) =>
+                next.success
+                  ? Ref.update(tallyRef, (t) => ({
+                      ...t,
+                      successful: t.successful + 1,
+                      failed: t.failed - 1,
+                    }))
+                  : Effect.void,
+              ),
+              Effect.map(tallyStreamed),
+            )),
+      }
+    }
+
+    // Stream bulk greeks data through the pipeline
+    const stream = processor
+      .streamBulkGreeks({
+        root,
+        tradeDate: format(tradeDate, 'yyyyMMdd'),
+        maxDTE: dte,
+        interval: interval,
+        expirations: missing,
+        streamRecords: interval === 0 || streamRecords,
+        dataset,
+        strikeFilter,
+        timeWindow,
+      })
+      .pipe(
+        Stream.map(tallyStreamed),
+        Stream.tap((result) =>
+          Ref.update(tallyRef, (t) => ({
+            total: t.total + 1,
+            successful: t.successful + (result.success ? 1 : 0),
+            failed: t.failed + (result.success ? 0 : 1),
+            records: t.records + (result.success ? result.recordCount : 0),
+          })),
+        ),
+        // Convert stream errors to defects (die on error)
+        Stream.orDie,
+      )
+
+    yield* _(
+      pipeline
+        .process(stream, pipelineConfig)
+        .pipe(
+          Effect.catchAll((error) =>
+            Effect.fail(new Error(`Pipeline processing failed: ${error}`)),
+          ),
+        ),
+    )
+
+    // Get final progress for summary
+    const progress = yield* pipeline.getProgress()
+
+    // Display summary
+    console.log(`\n${'='.repeat(60)}`)
+    console.log('Download Complete')
+    console.log('='.repeat(60))
+    console.log(`Trade Date: ${format(tradeDate, 'yyyy-MM-dd')}`)
+    console.log(`Root: ${root}`)
+    console.log(`Dataset: ${dataset}`)
+    if (strikeFilter) {
+      console.log(`Strike Filter: ${describeStrikeFilter(strikeFilter)}`)
+    }
+    if (timeWindow) {
+      console.log(`Time Window: ${describeTimeWindow(timeWindow)}`)
+    }
+    console.log(`Output Directory: ${outputDir}`)
+    console.log(`Total Expirations: ${expirationCount}`)
+    if (existing.length > 0) {
+      console.log(`Skipped (already complete): ${existing.length}`)
+    }
+
+    if (progress) {
+      console.log(`Total Records: ${progress.totalRecords.toLocaleString()}`)
+
+      const durationMs = Date.now() - progress.startTime.getTime()
+      const durationSec = durationMs / 1000
+      const recordsPerSec = Math.round(progress.totalRecords / durationSec)
+
+      console.log(
+        `Processing Time: ${Math.floor(durationSec / 60)}m ${Math.floor(durationSec % 60)}s`,
+      )
+      console.log(`Throughput: ${recordsPerSec.toLocaleString()} records/sec`)
+    }
+
+    const tally = yield* _(Ref.get(tallyRef))
+
+    return {
+      totalExpirations: tally.total,
+      successfulExpirations: tally.successful,
+      failedExpirations: tally.failed,
+      skippedExpirations: existing.length,
+      totalRecords: tally.records,
+    } satisfies RootSummary
+  })
 
+/**
+ * Download (or preview) all expirations of every requested root for a single trade date
+ */
+const downloadTradeDate = (tradeDate: Date, options: DayDownloadOptions) =>
+  Effect.gen(function* (_) {
+    const { dryRun } = options
+    const startedAt = Date.now()
+
+    console.log(`Starting download for trade date: ${format(tradeDate, 'yyyy-MM-dd')}`)
+
+    // Get services and config
+    const config = yield* _(AppConfig)
+    const calendar = yield* _(TradingCalendar)
+
+    const session = yield* _(
+      calendar.getSession(format(tradeDate, 'yyyyMMdd')).pipe(Effect.mapError(calendarError)),
+    )
+
+    // No data exists for weekends and holidays, so skip without contacting the terminal
+    if (!session.isTradingDay) {
+      console.log(
+        `Skipping ${format(tradeDate, 'yyyy-MM-dd')}: not a trading day (${session.holiday ?? 'weekend'})`,
+      )
+      return {
+        tradeDate,
+        totalExpirations: 0,
+        successfulExpirations: 0,
+        failedExpirations: 0,
+        skippedExpirations: 0,
+        totalRecords: 0,
+        durationMs: Date.now() - startedAt,
+      } satisfies DaySummary
+    }
+
+    if (dryRun) {
+      console.log('DRY RUN MODE - No data will be downloaded')
+    }
+
+    // Create output directory using configured data directory
+    const layout = tradeDateLayout(config.storage, tradeDate, options.dataset)
+    const { outputDir } = layout
+
+    if (!dryRun) {
       yield* _(
-        pipeline
-          .process(stream, pipelineConfig)
-          .pipe(
-            Effect.catchAll((error) =>
-              Effect.fail(new Error(`Pipeline processing failed: ${error}`)),
+        Effect.tryPromise({
+          try: async () => {
+            const fs = await import('node:fs/promises')
+            await fs.mkdir(outputDir, { recursive: true })
+          },
+          catch: (error) => new Error(`Failed to create output directory: ${error}`),
+        }),
+      )
+    }
+
+    // Roots share the trade-date directory and are downloaded one after another
+    const rootSummaries: RootSummary[] = []
+    for (const root of options.roots) {
+      rootSummaries.push(
+        yield* _(downloadRootExpirations(tradeDate, root, session, layout, options)),
+      )
+    }
+
+    const total = (field: keyof RootSummary) =>
+      rootSummaries.reduce((sum, summary) => sum + summary[field], 0)
+
+    return {
+      tradeDate,
+      totalExpirations: total('totalExpirations'),
+      successfulExpirations: total('successfulExpirations'),
+      failedExpirations: total('failedExpirations'),
+      skippedExpirations: total('skippedExpirations'),
+      totalRecords: total('totalRecords'),
+      durationMs: Date.now() - startedAt,
+    } satisfies DaySummary
+  })
+
+const formatDuration = (durationMs: number) => {
+  const durationSec = durationMs / 1000
+  return `${Math.floor(durationSec / 60)}m ${Math.floor(durationSec % 60)}s`
+}
+
+/**
+ * Print the aggregate summary for a multi-day download
+ */
+const printRangeSummary = (
+  summaries: ReadonlyArray<DaySummary>,
+  failures: ReadonlyArray<{ readonly tradeDate: Date; readonly error: unknown }>,
+  skippedDates: ReadonlyArray<Date>,
+  durationMs: number,
+) => {
+  const totalRecords = summaries.reduce((sum, s) => sum + s.totalRecords, 0)
+  const totalExpirations = summaries.reduce((sum, s) => sum + s.totalExpirations, 0)
+  const failedExpirations = summaries.reduce((sum, s) => sum + s.failedExpirations, 0)
+  const skippedExpirations = summaries.reduce((sum, s) => sum + s.skippedExpirations, 0)
+
+  console.log(`\n${'='.repeat(60)}`)
+  console.log('Range Download Summary')
+  console.log('='.repeat(60))
+  console.log(`Trade Dates: ${summaries.length + failures.length + skippedDates.length}`)
+  console.log(`Completed: ${summaries.length}`)
+  console.log(`Failed: ${failures.length}`)
+  if (skippedDates.length > 0) {
+    console.log(`Skipped (already complete): ${skippedDates.length}`)
+  }
+  console.log(
+    `Total Expirations: ${totalExpirations} (${failedExpirations} failed, ${skippedExpirations} skipped)`,
+  )
+  console.log(`Total Records: ${totalRecords.toLocaleString()}`)
+  console.log(`Total Time: ${formatDuration(durationMs)}`)
+
+  if (failures.length > 0) {
+    console.log('\nFailed trade dates:')
+    for (const failure of failures) {
+      console.log(`  ✗ ${format(failure.tradeDate, 'yyyy-MM-dd')}: ${failure.error}`)
+    }
+  }
+}
+
+// Main download command
+export const download = Command.make(
+  'download',
+  {
+    date: dateArg,
+    dryRun: dryRunOption,
+    dte: dteOption,
+    root: rootOption,
+    dataset: datasetOption,
+    interval: intervalOption,
+    stream: streamOption,
+    format: formatOption,
+    parquetCodec: parquetCodecOption,
+    compression: compressionOption,
+    fields: fieldsOption,
+    startDate: startDateOption,
+    endDate: endDateOption,
+    daysBack: daysBackOption,
+    force: forceOption,
+    fillGaps: fillGapsOption,
+    minStrike: minStrikeOption,
+    maxStrike: maxStrikeOption,
+    moneyness: moneynessOption,
+    minDelta: minDeltaOption,
+    maxDelta: maxDeltaOption,
+    startTime: startTimeOption,
+    endTime: endTimeOption,
+    window: windowOption,
+    extendedHours: extendedHoursOption,
+  },
+  ({
+    date,
+    startDate,
+    endDate,
+    daysBack,
+    fillGaps,
+    root,
+    format: outputFormat,
+    fields,
+    minStrike,
+    maxStrike,
+    moneyness,
+    minDelta,
+    maxDelta,
+    startTime,
+    endTime,
+    window,
+    extendedHours,
+    ...options
+  }) =>
+    Effect.gen(function* (_) {
+      const roots =
+        root.length > 0 ? [...new Set(root.map((r) => r.toUpperCase()))] : [DEFAULT_ROOT]
+      const invalidRoot = roots.find((r) => !/^[A-Z]{1,6}$/.test(r))
+      if (invalidRoot) {
+        return yield* _(Effect.fail(new Error(`Invalid root symbol: ${invalidRoot}`)))
+      }
+
+      // ThetaData aggregates OHLC bars over an interval; there are no tick-level bars
+      if (options.dataset === 'ohlc' && options.interval === 0) {
+        return yield* _(Effect.fail(new Error('--dataset ohlc requires an --interval above 0')))
+      }
+
+      if (outputFormat === 'parquet' && options.compression !== 'none') {
+        return yield* _(
+          Effect.fail(
+            new Error(
+              '--compression applies to CSV and JSON Lines output; use --parquet-codec for Parquet',
             ),
           ),
+        )
+      }
+
+      yield* _(checkFields(fields, outputFormat, options.dataset))
+
+      if (fillGaps && options.force) {
+        return yield* _(Effect.fail(new Error('--fill-gaps cannot be combined with --force')))
+      }
+      if (fillGaps && Option.isNone(startDate) && Option.isNone(daysBack)) {
+        return yield* _(
+          Effect.fail(new Error('--fill-gaps requires --start-date/--end-date or --days-back')),
+        )
+      }
+
+      const strikeFilter = yield* _(
+        resolveStrikeFilter(
+          { minStrike, maxStrike, moneyness, minDelta, maxDelta },
+          options.dataset,
+        ),
+      )
+
+      const timeWindow = yield* _(
+        resolveTimeWindowSpec({ startTime, endTime, window, extendedHours }),
+      )
+
+      const tradeDates = yield* _(resolveTradeDates(date, startDate, endDate, daysBack))
+      const dayOptions: DayDownloadOptions = {
+        ...options,
+        roots,
+        outputFormat,
+        fields,
+        strikeFilter,
+        timeWindow,
+      }
+
+      // A single date keeps the original fail-fast behaviour
+      if (tradeDates.length === 1 && Option.isNone(daysBack) && !fillGaps) {
+        yield* _(downloadTradeDate(tradeDates[0], dayOptions))
+        return
+      }
+
+      if (tradeDates.length === 0) {
+        console.log('No trading days in the requested range')
+        return
+      }
+
+      console.log(
+        `Downloading ${tradeDates.length} trading days: ` +
+          `${format(tradeDates[0], 'yyyy-MM-dd')} to ${format(tradeDates[tradeDates.length - 1], 'yyyy-MM-dd')}`,
       )
 
-      // Get final progress for summary
-      const progress = yield* pipeline.getProgress()
+      const rangeStart = Date.now()
+      const summaries: DaySummary[] = []
+      const failures: Array<{ tradeDate: Date; error: unknown }> = []
+      const skippedDates: Date[] = []
 
-      // Display summary
-      console.log(`\n${'='.repeat(60)}`)
-      console.log('Download Complete')
-      console.log('='.repeat(60))
-      console.log(`Trade Date: ${format(tradeDate, 'yyyy-MM-dd')}`)
-      console.log(`Output Directory: ${outputDir}`)
-      console.log(`Total Expirations: ${expirationCount}`)
+      // Days run sequentially; a failed day is recorded and the range continues
+      for (const [index, tradeDate] of tradeDates.entries()) {
+        console.log(`\n[${index + 1}/${tradeDates.length}] ${format(tradeDate, 'yyyy-MM-dd')}`)
 
-      if (progress) {
-        console.log(`Total Records: ${progress.totalRecords.toLocaleString()}`)
+        const outcome = yield* _(Effect.either(downloadTradeDate(tradeDate, dayOptions)))
 
-        const durationMs = Date.now() - progress.startTime.getTime()
-        const durationSec = durationMs / 1000
-        const recordsPerSec = Math.round(progress.totalRecords / durationSec)
+        // Each requested root's expirations are listed and only the incomplete ones fetched, so
+        // a day whose every expiration was already on disk is reported as skipped
+        if (
+          fillGaps &&
+          Either.isRight(outcome) &&
+          outcome.right.totalExpirations > 0 &&
+          outcome.right.skippedExpirations === outcome.right.totalExpirations
+        ) {
+          skippedDates.push(tradeDate)
+          console.log(
+            `${options.dryRun ? 'Would skip' : 'Skipped'} ${format(tradeDate, 'yyyy-MM-dd')}: already complete`,
+          )
+        } else if (Either.isRight(outcome)) {
+          const summary = outcome.right
+          summaries.push(summary)
+          console.log(
+            `✓ ${format(tradeDate, 'yyyy-MM-dd')}: ${summary.successfulExpirations}/${summary.totalExpirations} expirations, ` +
+              `${summary.totalRecords.toLocaleString()} records in ${formatDuration(summary.durationMs)}`,
+          )
+        } else {
+          failures.push({ tradeDate, error: outcome.left })
+          console.log(`✗ ${format(tradeDate, 'yyyy-MM-dd')}: ${outcome.left}`)
+        }
+      }
 
-        console.log(
-          `Processing Time: ${Math.floor(durationSec / 60)}m ${Math.floor(durationSec % 60)}s`,
+      printRangeSummary(summaries, failures, skippedDates, Date.now() - rangeStart)
+
+      if (failures.length > 0) {
+        return yield* _(
+          Effect.fail(
+            new Error(`${failures.length} of ${tradeDates.length} trade dates failed to download`),
+          ),
         )
-        console.log(`Throughput: ${recordsPerSec.toLocaleString()} records/sec`)
       }
     }).pipe(
       Effect.catchAll((error) =>
@@ -190,4 +818,4 @@ export const download = Command.make(
         }),
       ),
     ),
-).pipe(Command.withDescription('Download SPX options data for a specific date'))
+).pipe(Command.withDescription('Download index options data for a date or a range of dates'))
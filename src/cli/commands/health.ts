@@ -23,6 +23,8 @@ export const health = Command.make('health', {}, () =>
       // Display configuration
       console.log('\nConfiguration:')
       console.log(`  Max concurrent requests: ${config.thetaData.maxConcurrentRequests}`)
+      console.log(`  Requests per second: ${config.thetaData.requestsPerSecond}`)
+      console.log(`  Concurrency mode: ${config.thetaData.concurrencyMode}`)
       console.log(`  Max retries: ${config.thetaData.maxRetries}`)
       console.log(`  Retry base delay: ${config.thetaData.retryBaseDelayMs}ms`)
       console.log(`  Request timeout: ${config.thetaData.requestTimeoutMs}ms`)
@@ -0,0 +1,152 @@
+import * as path from 'node:path'
+import * as Command from '@effect/cli/Command'
+import * as Options from '@effect/cli/Options'
+import { format } from 'date-fns'
+import { Effect, Option } from 'effect'
+import { DownloadCheckpoint } from '@/services/DownloadCheckpoint'
+import { type InventoryIndex, InventoryService } from '@/services/InventoryService'
+import { TradingCalendar } from '@/services/TradingCalendar'
+import { parseDateEffect } from '../utils'
+
+const startDateOption = Options.text('start-date').pipe(
+  Options.withDescription('Only report trade dates on or after this YYYY-MM-DD date'),
+  Options.optional,
+)
+
+const endDateOption = Options.text('end-date').pipe(
+  Options.withDescription('Only report trade dates on or before this YYYY-MM-DD date'),
+  Options.optional,
+)
+
+const refreshOption = Options.boolean('refresh').pipe(
+  Options.withDescription('Re-read every file instead of using the inventory cache'),
+  Options.withDefault(false),
+)
+
+// HH:mm of an ISO timestamp, in UTC like the files themselves
+const formatTime = (timestamp: string | undefined) =>
+  timestamp ? `${timestamp.slice(11, 16)}Z` : '--:--'
+
+const compactDate = (date: string) => date.replace(/-/g, '')
+
+/**
+ * Trade dates in the index, restricted to the requested range (YYYYMMDD bounds)
+ */
+const selectTradeDates = (index: InventoryIndex, start: string, end: string) =>
+  index.tradeDates.filter(
+    (entry) => compactDate(entry.tradeDate) >= start && compactDate(entry.tradeDate) <= end,
+  )
+
+// Report what has been downloaded and where the gaps are
+export const inventory = Command.make(
+  'inventory',
+  {
+    startDate: startDateOption,
+    endDate: endDateOption,
+    refresh: refreshOption,
+  },
+  ({ startDate, endDate, refresh }) =>
+    Effect.gen(function* (_) {
+      const inventoryService = yield* _(InventoryService)
+      const calendar = yield* _(TradingCalendar)
+      const checkpoint = yield* _(DownloadCheckpoint)
+
+      const index = yield* _(
+        (refresh ? inventoryService.refresh() : inventoryService.getIndex()).pipe(
+          Effect.mapError((error) => new Error(error.message)),
+        ),
+      )
+
+      console.log(`Data directory: ${index.dataDirectory}`)
+
+      const start = Option.isSome(startDate)
+        ? format(yield* _(parseDateEffect(startDate.value)), 'yyyyMMdd')
+        : compactDate(index.tradeDates[0]?.tradeDate ?? '')
+      const end = Option.isSome(endDate)
+        ? format(yield* _(parseDateEffect(endDate.value)), 'yyyyMMdd')
+        : compactDate(index.tradeDates.at(-1)?.tradeDate ?? '')
+
+      if (start === '' || end === '') {
+        console.log('No downloaded data found')
+        return
+      }
+      if (start > end) {
+        return yield* _(Effect.fail(new Error('--start-date is after --end-date')))
+      }
+
+      const tradeDates = selectTradeDates(index, start, end)
+      const totalExpirations = tradeDates.reduce((sum, t) => sum + t.expirations.length, 0)
+      const totalRows = tradeDates.reduce((sum, t) => sum + t.rowCount, 0)
+
+      console.log(
+        `Trade dates: ${tradeDates.length}, expirations: ${totalExpirations}, rows: ${totalRows.toLocaleString()}`,
+      )
+
+      for (const tradeDate of tradeDates) {
+        console.log(
+          `\n${tradeDate.tradeDate}  ${tradeDate.expirations.length} expirations  ` +
+            `${tradeDate.rowCount.toLocaleString()} rows  ` +
+            `${formatTime(tradeDate.firstTimestamp)}-${formatTime(tradeDate.lastTimestamp)}`,
+        )
+        for (const entry of tradeDate.expirations) {
+          console.log(
+            `  ${entry.root} ${entry.expiration}  ${entry.rowCount.toLocaleString()} rows  ` +
+              `${entry.strikes.length} strikes  ` +
+              `${formatTime(entry.firstTimestamp)}-${formatTime(entry.lastTimestamp)}`,
+          )
+        }
+      }
+
+      // Gaps: trading days with no files, and expirations the last download never finished
+      const tradingDays = yield* _(
+        calendar
+          .tradingDaysBetween(start, end)
+          .pipe(Effect.mapError((error) => new Error(error.message))),
+      )
+      const present = new Set(tradeDates.map((t) => compactDate(t.tradeDate)))
+      const missingDays = tradingDays.filter((day) => !present.has(day))
+
+      const incomplete: string[] = []
+      for (const tradeDate of tradeDates) {
+        const status = yield* _(
+          checkpoint
+            .load(path.join(index.dataDirectory, compactDate(tradeDate.tradeDate)))
+            .pipe(Effect.mapError((error) => new Error(error.message))),
+        )
+        if (Option.isNone(status)) continue
+
+        for (const entry of Object.values(status.value.expirations)) {
+          if (entry.status !== 'complete') {
+            incomplete.push(
+              `${tradeDate.tradeDate} ${entry.root} exp ${entry.expiration} (${entry.status})`,
+            )
+          }
+        }
+      }
+
+      console.log('\nGaps:')
+      if (missingDays.length === 0 && incomplete.length === 0) {
+        console.log('  None')
+        return
+      }
+      if (missingDays.length > 0) {
+        console.log(`  Missing trading days (${missingDays.length}):`)
+        for (const day of missingDays) {
+          console.log(`    ${day.slice(0, 4)}-${day.slice(4, 6)}-${day.slice(6, 8)}`)
+        }
+      }
+      if (incomplete.length > 0) {
+        console.log(`  Incomplete expirations (${incomplete.length}):`)
+        for (const entry of incomplete) {
+          console.log(`    ${entry}`)
+        }
+      }
+    }).pipe(
+      Effect.catchAll((error) =>
+        Effect.gen(function* () {
+          console.log(`✗ Inventory failed: ${error}`)
+          yield* Effect.fail(error)
+        }),
+      ),
+    ),
+).pipe(Command.withDescription('List downloaded trade dates and expirations and report gaps'))
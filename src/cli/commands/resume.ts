@@ -0,0 +1,280 @@
+import * as path from 'node:path'
+import * as Args from '@effect/cli/Args'
+import * as Command from '@effect/cli/Command'
+import { format } from 'date-fns'
+import { Effect, Option, Stream } from 'effect'
+import { AppConfig } from '@/config/AppConfig'
+import { BulkGreeksProcessor } from '@/services/BulkGreeksProcessor'
+import { DataPipeline, type PipelineConfig } from '@/services/DataPipeline'
+import {
+  DownloadCheckpoint,
+  type DownloadSettings,
+  type ExpirationCheckpoint,
+  type TradeDateCheckpoint,
+} from '@/services/DownloadCheckpoint'
+import type { OptionsDataset } from '@/services/ThetaDataApiClient'
+import {
+  calendarError,
+  checkFields,
+  datasetOption,
+  describeStrikeFilter,
+  describeTimeWindow,
+  expirationPath,
+  type OutputLayout,
+  outputExtension,
+  parseDateEffect,
+  streamOption,
+  tradeDateLayout,
+} from '../utils'
+
+const dateArg = Args.text({ name: 'date' }).pipe(
+  Args.withDescription('Trade date of the interrupted download in YYYY-MM-DD format'),
+)
+
+// What the download command writes by default, for status files that predate recorded settings
+const DEFAULT_SETTINGS: Omit<DownloadSettings, 'dataset' | 'pathTemplate'> = {
+  interval: 60000,
+  format: 'csv',
+  compression: 'none',
+  parquetCodec: 'snappy',
+}
+
+const settingsOf = (
+  status: Option.Option<TradeDateCheckpoint>,
+  dataset: OptionsDataset,
+  pathTemplate: string | undefined,
+): DownloadSettings =>
+  Option.getOrElse(
+    Option.flatMapNullable(status, (s) => s.settings),
+    () => ({
+      ...DEFAULT_SETTINGS,
+      dataset,
+      pathTemplate,
+      // Finished files record the time window of the original download
+      timeWindow: Option.getOrUndefined(
+        Option.flatMapNullable(
+          status,
+          (s) => Object.values(s.expirations).find((entry) => entry.timeWindow)?.timeWindow,
+        ),
+      ),
+    }),
+  )
+
+/**
+ * Settings of the download being resumed, as recorded in its status.json
+ * Falls back to the download defaults and the configured path template when none are recorded
+ */
+export const recordedSettings = (date: string, dataset: OptionsDataset) =>
+  Effect.gen(function* (_) {
+    const tradeDate = yield* _(parseDateEffect(date))
+    const config = yield* _(AppConfig)
+    const checkpoint = yield* _(DownloadCheckpoint)
+    const { outputDir } = tradeDateLayout(config.storage, tradeDate, dataset)
+    const status = yield* _(
+      checkpoint.load(outputDir).pipe(Effect.orElseSucceed(() => Option.none())),
+    )
+    return settingsOf(status, dataset, config.storage.pathTemplate)
+  })
+
+/**
+ * Remove the partial files a writer left behind for expirations it never renamed into place
+ */
+const removeTempFiles = (
+  layout: OutputLayout,
+  entries: ReadonlyArray<ExpirationCheckpoint>,
+  extension: string,
+) =>
+  Effect.gen(function* (_) {
+    const removed: string[] = []
+    for (const entry of entries) {
+      const finalPath = yield* _(
+        expirationPath(layout, entry.root, entry.expiration, extension).pipe(
+          Effect.mapError(calendarError),
+        ),
+      )
+      const tempPath = `${finalPath}.tmp`
+      if (yield* _(Effect.promise(() => Bun.file(tempPath).exists()))) {
+        yield* _(
+          Effect.tryPromise({
+            try: () => Bun.$`rm -f ${tempPath}`.quiet(),
+            catch: (error) => new Error(`Failed to remove partial file ${tempPath}: ${error}`),
+          }),
+        )
+        removed.push(path.relative(layout.dataDirectory ?? layout.outputDir, tempPath))
+      }
+    }
+    return removed
+  })
+
+/**
+ * Expirations that still need downloading: anything not complete, or complete
+ * but whose output file has since gone missing
+ */
+const findIncompleteExpirations = (checkpoint: TradeDateCheckpoint) =>
+  Effect.promise(async () => {
+    const incomplete: ExpirationCheckpoint[] = []
+    for (const entry of Object.values(checkpoint.expirations)) {
+      const fileMissing =
+        entry.status === 'complete' &&
+        entry.filePath !== undefined &&
+        !(await Bun.file(entry.filePath).exists())
+
+      if (entry.status !== 'complete' || fileMissing) {
+        incomplete.push(entry)
+      }
+    }
+    return incomplete.sort(
+      (a, b) => a.root.localeCompare(b.root) || a.expiration.localeCompare(b.expiration),
+    )
+  })
+
+const describeEntries = (entries: ReadonlyArray<ExpirationCheckpoint>) =>
+  entries.map((entry) => `${entry.root} ${entry.expiration}`).join(', ')
+
+// Resume an interrupted download from its status.json checkpoint, with the settings it recorded
+export const resume = Command.make(
+  'resume',
+  {
+    date: dateArg,
+    dataset: datasetOption,
+    stream: streamOption,
+  },
+  ({ date, dataset, stream: streamRecords }) =>
+    Effect.gen(function* (_) {
+      const tradeDate = yield* _(parseDateEffect(date))
+
+      const config = yield* _(AppConfig)
+      const processor = yield* _(BulkGreeksProcessor)
+      const pipeline = yield* _(DataPipeline)
+      const checkpoint = yield* _(DownloadCheckpoint)
+
+      const { outputDir } = tradeDateLayout(config.storage, tradeDate, dataset)
+
+      const status = yield* _(
+        checkpoint
+          .load(outputDir)
+          .pipe(Effect.mapError((error) => new Error(`Failed to read download status: ${error}`))),
+      )
+
+      if (Option.isNone(status)) {
+        return yield* _(
+          Effect.fail(
+            new Error(
+              `No download status found in ${outputDir}. Run 'download ${date}${dataset === 'greeks' ? '' : ` --dataset ${dataset}`}' first`,
+            ),
+          ),
+        )
+      }
+
+      const settings = settingsOf(status, dataset, config.storage.pathTemplate)
+      const { interval, compression, strikeFilter, timeWindow } = settings
+      yield* _(checkFields(Option.fromNullable(settings.fields), settings.format, settings.dataset))
+
+      const layout: OutputLayout = {
+        ...tradeDateLayout(config.storage, tradeDate, settings.dataset),
+        fileNamePattern: settings.pathTemplate,
+      }
+      const extension = outputExtension(settings.format, compression)
+
+      console.log(`Resuming download for trade date: ${format(tradeDate, 'yyyy-MM-dd')}`)
+      console.log(
+        `Recorded settings: ${settings.dataset}, ${interval}ms interval, ${extension} files` +
+          `${settings.format === 'parquet' ? ` (${settings.parquetCodec})` : ''}`,
+      )
+      console.log(`Strike filter: ${describeStrikeFilter(strikeFilter)}`)
+      console.log(`Time window: ${describeTimeWindow(timeWindow)}`)
+
+      const total = Object.keys(status.value.expirations).length
+      const incomplete = yield* _(findIncompleteExpirations(status.value))
+
+      if (incomplete.length === 0) {
+        console.log(`✓ All ${total} expirations are already complete`)
+        return
+      }
+
+      const removed = yield* _(removeTempFiles(layout, incomplete, extension))
+      if (removed.length > 0) {
+        console.log(`Removed ${removed.length} partial file(s): ${removed.join(', ')}`)
+      }
+
+      console.log(
+        `Re-running ${incomplete.length} of ${total} expirations: ${describeEntries(incomplete)}`,
+      )
+
+      // Each root is a separate pipeline run over the same trade-date directory
+      for (const root of new Set(incomplete.map((entry) => entry.root))) {
+        const expirations = incomplete
+          .filter((entry) => entry.root === root)
+          .map((entry) => entry.expiration)
+
+        const pipelineConfig: PipelineConfig = {
+          root,
+          outputDir,
+          chunkSize: 1000,
+          concurrency: config.thetaData.maxConcurrentRequests,
+          compression: compression !== 'none',
+          fileNamePattern: layout.fileNamePattern,
+          dataDirectory: layout.dataDirectory,
+          expirations,
+          dataset: settings.dataset,
+          timeWindow,
+          tradeDate: format(tradeDate, 'yyyyMMdd'),
+          interval,
+          strikeFilter,
+        }
+
+        // maxDTE is not applied: the checkpoint already fixed which expirations belong to the run
+        const stream = processor
+          .streamBulkGreeks({
+            root,
+            tradeDate: format(tradeDate, 'yyyyMMdd'),
+            interval,
+            expirations,
+            streamRecords: interval === 0 || streamRecords,
+            dataset: settings.dataset,
+            strikeFilter,
+            timeWindow,
+          })
+          .pipe(Stream.orDie)
+
+        yield* _(
+          pipeline
+            .process(stream, pipelineConfig)
+            .pipe(
+              Effect.catchAll((error) =>
+                Effect.fail(new Error(`Pipeline processing failed: ${error}`)),
+              ),
+            ),
+        )
+      }
+
+      // Report from the checkpoint the pipeline just updated
+      const finalStatus = yield* _(
+        checkpoint
+          .load(outputDir)
+          .pipe(Effect.mapError((error) => new Error(`Failed to read download status: ${error}`))),
+      )
+      const stillIncomplete = Option.isSome(finalStatus)
+        ? yield* _(findIncompleteExpirations(finalStatus.value))
+        : incomplete
+
+      if (stillIncomplete.length > 0) {
+        return yield* _(
+          Effect.fail(
+            new Error(
+              `${stillIncomplete.length} expirations still incomplete: ${describeEntries(stillIncomplete)}`,
+            ),
+          ),
+        )
+      }
+
+      console.log(`✓ Resume complete: all ${total} expirations downloaded`)
+    }).pipe(
+      Effect.catchAll((error) =>
+        Effect.gen(function* () {
+          console.log(`✗ Resume failed: ${error}`)
+          yield* Effect.fail(error)
+        }),
+      ),
+    ),
+).pipe(Command.withDescription('Resume an interrupted download, re-running incomplete expirations'))
@@ -0,0 +1,176 @@
+import * as path from 'node:path'
+import * as Args from '@effect/cli/Args'
+import * as Command from '@effect/cli/Command'
+import * as Options from '@effect/cli/Options'
+import { format } from 'date-fns'
+import { Effect, Option, Stream } from 'effect'
+import { AppConfig } from '@/config/AppConfig'
+import { BulkGreeksProcessor } from '@/services/BulkGreeksProcessor'
+import { DataPipeline, type PipelineConfig } from '@/services/DataPipeline'
+import { DeadLetterQueue, type DeadLetterRun } from '@/services/DeadLetterQueue'
+import { OPTIONS_DATASETS } from '@/services/ThetaDataApiClient'
+import {
+  checkFields,
+  compressionOption,
+  fieldsOption,
+  formatOption,
+  parquetCodecOption,
+  parseDateEffect,
+  streamOption,
+} from '../utils'
+
+const dateArg = Args.text({ name: 'date' }).pipe(
+  Args.withDescription('Trade date whose failed expirations to fetch again, in YYYY-MM-DD format'),
+)
+
+const runOption = Options.text('run').pipe(
+  Options.withDescription('Only replay the failed expirations of this run id'),
+  Options.optional,
+)
+
+const describeRun = (run: DeadLetterRun) =>
+  `${run.root}${run.dataset && run.dataset !== 'greeks' ? ` ${run.dataset}` : ''} ` +
+  `(run ${run.runId}): ${run.entries.map((entry) => entry.expiration).join(', ')}`
+
+// Fetch again the expirations that were still failing when earlier runs finished
+export const retryFailed = Command.make(
+  'retry-failed',
+  {
+    date: dateArg,
+    run: runOption,
+    stream: streamOption,
+    format: formatOption,
+    parquetCodec: parquetCodecOption,
+    compression: compressionOption,
+    fields: fieldsOption,
+  },
+  ({ date, run: runId, stream: streamRecords, format: outputFormat, compression, fields }) =>
+    Effect.gen(function* (_) {
+      const tradeDate = yield* _(parseDateEffect(date))
+
+      const config = yield* _(AppConfig)
+      const processor = yield* _(BulkGreeksProcessor)
+      const pipeline = yield* _(DataPipeline)
+      const deadLetters = yield* _(DeadLetterQueue)
+
+      // Greeks are written to the trade-date directory, other datasets to a subdirectory each
+      const tradeDateDir = path.join(config.storage.dataDirectory, format(tradeDate, 'yyyyMMdd'))
+      const outputDirs = OPTIONS_DATASETS.map((dataset) =>
+        dataset === 'greeks' ? tradeDateDir : path.join(tradeDateDir, dataset),
+      )
+
+      const listRuns = Effect.forEach(outputDirs, (outputDir) => deadLetters.list(outputDir)).pipe(
+        Effect.map((runs) => runs.flat()),
+        Effect.mapError(
+          (error) => new Error(`Failed to read failed expirations: ${error.message}`),
+        ),
+      )
+
+      const recorded = yield* _(listRuns)
+      const runs = Option.match(runId, {
+        onNone: () => recorded,
+        onSome: (id) => recorded.filter((run) => run.runId === id),
+      })
+
+      if (runs.length === 0) {
+        console.log(
+          Option.isSome(runId)
+            ? `No failed expirations recorded for run ${runId.value} on ${date}`
+            : `✓ No failed expirations recorded for ${date}`,
+        )
+        return
+      }
+
+      // Check --fields against every run's dataset before replaying any of them
+      yield* _(Effect.forEach(runs, (run) => checkFields(fields, outputFormat, run.dataset)))
+
+      console.log(`Retrying failed expirations for trade date: ${format(tradeDate, 'yyyy-MM-dd')}`)
+
+      for (const run of runs) {
+        console.log(`Replaying ${run.entries.length} expirations of ${describeRun(run)}`)
+
+        const expirations = run.entries.map((entry) => entry.expiration)
+        const interval = run.interval ?? 60000
+
+        // The replay is a new run: whatever fails again is recorded under its own id
+        const pipelineConfig: PipelineConfig = {
+          root: run.root,
+          outputDir: run.outputDir,
+          chunkSize: 1000,
+          concurrency: config.thetaData.maxConcurrentRequests,
+          compression: compression !== 'none',
+          fileNamePattern: config.storage.pathTemplate,
+          dataDirectory: config.storage.dataDirectory,
+          expirations,
+          dataset: run.dataset,
+          timeWindow: run.timeWindow,
+          tradeDate: run.tradeDate ?? format(tradeDate, 'yyyyMMdd'),
+          interval,
+          strikeFilter: run.strikeFilter,
+        }
+
+        const stream = processor
+          .streamBulkGreeks({
+            root: run.root,
+            tradeDate: run.tradeDate ?? format(tradeDate, 'yyyyMMdd'),
+            interval,
+            expirations,
+            streamRecords: interval === 0 || streamRecords,
+            dataset: run.dataset,
+            strikeFilter: run.strikeFilter,
+            timeWindow: run.timeWindow,
+          })
+          .pipe(Stream.orDie)
+
+        yield* _(
+          pipeline
+            .process(stream, pipelineConfig)
+            .pipe(
+              Effect.catchAll((error) =>
+                Effect.fail(new Error(`Pipeline processing failed: ${error}`)),
+              ),
+            ),
+        )
+
+        yield* _(
+          deadLetters
+            .remove(run.outputDir, run.runId)
+            .pipe(
+              Effect.mapError(
+                (error) =>
+                  new Error(`Failed to remove replayed run ${run.runId}: ${error.message}`),
+              ),
+            ),
+        )
+      }
+
+      // Runs recorded by the replays hold whatever is still failing
+      const replayedIds = new Set(recorded.map((run) => run.runId))
+      const stillFailing = (yield* _(listRuns)).filter((run) => !replayedIds.has(run.runId))
+
+      if (stillFailing.length > 0) {
+        const count = stillFailing.reduce((sum, run) => sum + run.entries.length, 0)
+        return yield* _(
+          Effect.fail(
+            new Error(
+              `${count} expirations still failing: ${stillFailing.map(describeRun).join('; ')}`,
+            ),
+          ),
+        )
+      }
+
+      const replayed = runs.reduce((sum, run) => sum + run.entries.length, 0)
+      console.log(`✓ Retry complete: all ${replayed} failed expirations downloaded`)
+    }).pipe(
+      Effect.catchAll((error) =>
+        Effect.gen(function* () {
+          console.log(`✗ Retry failed: ${error}`)
+          yield* Effect.fail(error)
+        }),
+      ),
+    ),
+).pipe(
+  Command.withDescription(
+    'Fetch again the expirations still failing at the end of earlier downloads of a trade date',
+  ),
+)
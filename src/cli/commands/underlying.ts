@@ -0,0 +1,190 @@
+import * as path from 'node:path'
+import * as Command from '@effect/cli/Command'
+import * as Options from '@effect/cli/Options'
+import { format } from 'date-fns'
+import { Effect, Either } from 'effect'
+import { AppConfig } from '@/config/AppConfig'
+import { DataWriter, type OutputLocation } from '@/services/DataWriter'
+import { ThetaDataApiClient } from '@/services/ThetaDataApiClient'
+import { TradingCalendar } from '@/services/TradingCalendar'
+import {
+  calendarError,
+  checkFields,
+  compressionOption,
+  dateArg,
+  daysBackOption,
+  endDateOption,
+  fieldsOption,
+  formatOption,
+  intervalOption,
+  parquetCodecOption,
+  resolveTradeDates,
+  startDateOption,
+} from '../utils'
+
+const CHUNK_SIZE = 1000
+
+const rootOption = Options.text('root').pipe(
+  Options.withDescription('Index symbol, e.g. SPX, NDX, RUT or VIX'),
+  Options.withDefault('SPX'),
+)
+
+const forceOption = Options.boolean('force').pipe(
+  Options.withDescription('Re-download trade dates whose index file already exists'),
+  Options.withDefault(false),
+)
+
+type DayOutcome = 'written' | 'skipped' | 'empty'
+
+/**
+ * Fetch one trade date's index bars and write them to <root>_index.<format> in the
+ * trade-date directory, next to the options files
+ */
+const downloadIndexDay = (
+  tradeDate: Date,
+  options: { readonly root: string; readonly interval: number; readonly force: boolean },
+) =>
+  Effect.gen(function* (_) {
+    const config = yield* _(AppConfig)
+    const client = yield* _(ThetaDataApiClient)
+    const calendar = yield* _(TradingCalendar)
+    const writer = yield* _(DataWriter)
+
+    const day = format(tradeDate, 'yyyyMMdd')
+    const session = yield* _(calendar.getSession(day).pipe(Effect.mapError(calendarError)))
+    if (!session.isTradingDay) {
+      console.log(`Skipping ${format(tradeDate, 'yyyy-MM-dd')}: not a trading day`)
+      return { outcome: 'skipped' as DayOutcome, bars: 0 }
+    }
+
+    const location: OutputLocation = {
+      root: options.root,
+      expiration: day,
+      outputDir: path.join(config.storage.dataDirectory, day),
+      dataset: 'index',
+      fileNamePattern: config.storage.pathTemplate,
+      dataDirectory: config.storage.dataDirectory,
+      tradeDate: day,
+      dte: 0,
+    }
+    const filePath = writer.getOutputPath(location)
+
+    // The writer only renames a file into place once every bar is written
+    const file = Bun.file(filePath)
+    if (!options.force && (yield* _(Effect.promise(() => file.exists()))) && file.size > 0) {
+      console.log(`Skipping ${format(tradeDate, 'yyyy-MM-dd')}: ${filePath} already exists`)
+      return { outcome: 'skipped' as DayOutcome, bars: 0 }
+    }
+
+    const bars = yield* _(
+      client
+        .getIndexOhlc({
+          root: options.root,
+          startDate: day,
+          endDate: day,
+          interval: options.interval,
+          rth: true,
+        })
+        .pipe(
+          Effect.mapError((error) => new Error(`Failed to fetch index bars: ${error.message}`)),
+        ),
+    )
+
+    if (bars.length === 0) {
+      console.log(`No ${options.root} bars for ${format(tradeDate, 'yyyy-MM-dd')}`)
+      return { outcome: 'empty' as DayOutcome, bars: 0 }
+    }
+
+    const chunkCount = Math.ceil(bars.length / CHUNK_SIZE)
+    for (let i = 0; i < chunkCount; i++) {
+      yield* _(
+        writer
+          .writeChunk(bars.slice(i * CHUNK_SIZE, (i + 1) * CHUNK_SIZE), {
+            ...location,
+            isFirstChunk: i === 0,
+            isLastChunk: i === chunkCount - 1,
+            chunkIndex: i,
+            totalRecords: bars.length,
+          })
+          .pipe(
+            Effect.mapError((error) => new Error(`Failed to write ${filePath}: ${error.message}`)),
+          ),
+      )
+    }
+
+    console.log(`✓ ${format(tradeDate, 'yyyy-MM-dd')}: ${bars.length} bars -> ${filePath}`)
+    return { outcome: 'written' as DayOutcome, bars: bars.length }
+  })
+
+// Download the underlying index price history next to the options files
+export const downloadUnderlying = Command.make(
+  'download-underlying',
+  {
+    date: dateArg,
+    root: rootOption,
+    interval: intervalOption,
+    format: formatOption,
+    parquetCodec: parquetCodecOption,
+    compression: compressionOption,
+    fields: fieldsOption,
+    startDate: startDateOption,
+    endDate: endDateOption,
+    daysBack: daysBackOption,
+    force: forceOption,
+  },
+  ({ date, root, interval, format: outputFormat, fields, startDate, endDate, daysBack, force }) =>
+    Effect.gen(function* (_) {
+      const symbol = root.toUpperCase()
+      if (!/^[A-Z]{1,6}$/.test(symbol)) {
+        return yield* _(Effect.fail(new Error(`Invalid index symbol: ${root}`)))
+      }
+      if (interval <= 0) {
+        return yield* _(Effect.fail(new Error('--interval must be above 0 for index bars')))
+      }
+      yield* _(checkFields(fields, outputFormat, 'index'))
+
+      const writer = yield* _(DataWriter)
+      const tradeDates = yield* _(resolveTradeDates(date, startDate, endDate, daysBack))
+
+      console.log(`Downloading ${symbol} index bars for ${tradeDates.length} trade date(s)`)
+
+      // Days run one after another; a failed day is reported and the rest continue
+      const totals = { written: 0, skipped: 0, empty: 0, bars: 0 }
+      const failures: Array<{ tradeDate: Date; error: unknown }> = []
+      for (const tradeDate of tradeDates) {
+        const outcome = yield* _(
+          Effect.either(downloadIndexDay(tradeDate, { root: symbol, interval, force })),
+        )
+        if (Either.isRight(outcome)) {
+          totals[outcome.right.outcome]++
+          totals.bars += outcome.right.bars
+        } else {
+          failures.push({ tradeDate, error: outcome.left })
+          console.log(`✗ ${format(tradeDate, 'yyyy-MM-dd')}: ${outcome.left.message}`)
+        }
+      }
+
+      yield* _(writer.finalize().pipe(Effect.mapError((error) => new Error(error.message))))
+
+      console.log(
+        `\n${symbol}: ${totals.written} day(s) written, ${totals.skipped} skipped, ` +
+          `${totals.empty} without data, ${failures.length} failed, ` +
+          `${totals.bars.toLocaleString()} bars`,
+      )
+
+      if (failures.length > 0) {
+        return yield* _(
+          Effect.fail(
+            new Error(`${failures.length} of ${tradeDates.length} trade dates failed to download`),
+          ),
+        )
+      }
+    }).pipe(
+      Effect.catchAll((error) =>
+        Effect.gen(function* () {
+          console.log(`✗ Underlying download failed: ${error}`)
+          yield* Effect.fail(error)
+        }),
+      ),
+    ),
+).pipe(Command.withDescription('Download index price bars (e.g. SPX) into per-day files'))
@@ -2,14 +2,60 @@
 
 import * as Command from '@effect/cli/Command'
 import { BunContext } from '@effect/platform-bun'
-import { Effect, Layer } from 'effect'
+import { Effect, Layer, Option } from 'effect'
+import { AppConfig } from '@/config/AppConfig'
 import { BulkGreeksProcessorLive } from '@/layers/BulkGreeksProcessorLive'
 import { DataPipelineLive } from '@/layers/DataPipelineLive'
-import { DataWriterCsvLive } from '@/layers/DataWriterCsvLive'
+import { DataValidationLive } from '@/layers/DataValidationLive'
+import { makeDataWriterCsvLive } from '@/layers/DataWriterCsvLive'
+import { makeDataWriterJsonlLive } from '@/layers/DataWriterJsonlLive'
+import { makeDataWriterParquetLive } from '@/layers/DataWriterParquetLive'
+import { InventoryServiceLive } from '@/layers/InventoryServiceLive'
+import { JsonDeadLetterQueueLive } from '@/layers/JsonDeadLetterQueue'
+import { JsonDownloadCheckpointLive } from '@/layers/JsonDownloadCheckpoint'
 import { JsonMetricsWriterLive } from '@/layers/JsonMetricsWriter'
+import { RateLimiterLive } from '@/layers/RateLimiterLive'
+import {
+  makeThetaDataApiClientRecording,
+  makeThetaDataApiClientReplay,
+} from '@/layers/ThetaDataApiClientCassette'
 import { ThetaDataApiClientLive } from '@/layers/ThetaDataApiClientLive'
+import { TradingCalendarLive } from '@/layers/TradingCalendarLive'
+import type { CsvCompression } from '@/services/DataWriter'
 import { download } from './commands/download'
 import { health } from './commands/health'
+import { inventory } from './commands/inventory'
+import { recordedSettings, resume } from './commands/resume'
+import { retryFailed } from './commands/retryFailed'
+import { downloadUnderlying } from './commands/underlying'
+import { parseFields } from './utils'
+
+// Select the DataWriter implementation for the requested output format
+const makeDataWriterLayer = (options: {
+  readonly format: 'csv' | 'parquet' | 'jsonl'
+  readonly parquetCodec: 'snappy' | 'zstd'
+  readonly compression?: CsvCompression
+  readonly fields?: Option.Option<string>
+}) =>
+  options.format === 'parquet'
+    ? makeDataWriterParquetLive({
+        compression: options.parquetCodec === 'zstd' ? 'ZSTD' : 'SNAPPY',
+      })
+    : options.format === 'jsonl'
+      ? makeDataWriterJsonlLive({
+          compression: options.compression,
+          fields: options.fields && Option.getOrUndefined(Option.map(options.fields, parseFields)),
+        })
+      : makeDataWriterCsvLive({ compression: options.compression })
+
+// DataPipelineLive needs DataWriter, MetricsWriter and DataValidationService;
+// DownloadCheckpoint and DeadLetterQueue come from MainLive
+const makeDataPipelineLayer = (options: Parameters<typeof makeDataWriterLayer>[0]) =>
+  DataPipelineLive.pipe(
+    Layer.provide(
+      Layer.mergeAll(makeDataWriterLayer(options), JsonMetricsWriterLive, DataValidationLive),
+    ),
+  )
 
 // Main CLI Application
 const cliApp = Command.make('spx-data', {}, () =>
@@ -19,25 +65,54 @@ const cliApp = Command.make('spx-data', {}, () =>
   }),
 ).pipe(
   Command.withDescription('SPX Options Data Pipeline Tool'),
-  Command.withSubcommands([health, download]),
+  Command.withSubcommands([
+    health,
+    // The writer depends on --format, so the pipeline is built per download invocation
+    Command.provide(download, makeDataPipelineLayer),
+    // A resume writes the rest of a download the way it started, whatever the defaults now are
+    Command.provide(resume, ({ date, dataset }) =>
+      Layer.unwrapEffect(
+        Effect.map(recordedSettings(date, dataset), (settings) =>
+          makeDataPipelineLayer({ ...settings, fields: Option.fromNullable(settings.fields) }),
+        ),
+      ),
+    ),
+    Command.provide(retryFailed, makeDataPipelineLayer),
+    Command.provide(downloadUnderlying, makeDataWriterLayer),
+    inventory,
+  ]),
 )
 
-// Compose layers properly with their dependencies
-// BulkGreeksProcessorLive needs ThetaDataApiClient
-const BulkProcessorWithDeps = BulkGreeksProcessorLive.pipe(Layer.provide(ThetaDataApiClientLive))
+// Talk to the terminal directly, or record/replay its responses per CONFIG_THETADATA_CASSETTE_MODE
+const ThetaDataApiClientLayer = Layer.unwrapEffect(
+  Effect.map(AppConfig, ({ thetaData }) => {
+    switch (thetaData.cassetteMode) {
+      case 'record':
+        return makeThetaDataApiClientRecording(thetaData.cassetteDirectory)
+      case 'replay':
+        return makeThetaDataApiClientReplay(thetaData.cassetteDirectory)
+      default:
+        return ThetaDataApiClientLive
+    }
+  }),
+)
 
-// DataPipelineLive needs DataWriter and MetricsWriter
-const DataPipelineWithDeps = DataPipelineLive.pipe(
-  Layer.provide(Layer.merge(DataWriterCsvLive, JsonMetricsWriterLive)),
+// Compose layers properly with their dependencies
+// BulkGreeksProcessorLive needs ThetaDataApiClient and TradingCalendar
+const BulkProcessorWithDeps = BulkGreeksProcessorLive.pipe(
+  Layer.provide(Layer.merge(ThetaDataApiClientLayer, TradingCalendarLive)),
 )
 
-// Merge all layers together
+// Merge all layers together; one RateLimiter is shared by every request the process makes
 const MainLive = Layer.mergeAll(
-  ThetaDataApiClientLive,
+  ThetaDataApiClientLayer,
+  TradingCalendarLive,
+  JsonDownloadCheckpointLive,
+  JsonDeadLetterQueueLive,
+  InventoryServiceLive,
   BulkProcessorWithDeps,
-  DataPipelineWithDeps,
   BunContext.layer,
-)
+).pipe(Layer.provideMerge(RateLimiterLive))
 
 // Initialize and run the CLI application
 const cli = Command.run(cliApp, {
@@ -0,0 +1,98 @@
+import { format, isValid, parse } from 'date-fns'
+import { Effect, Option } from 'effect'
+import { TradingCalendar, type TradingCalendarError } from '@/services/TradingCalendar'
+
+// Date validation function - strict YYYY-MM-DD format only
+export const parseDate = (input: string): Date => {
+  // First check the format with regex
+  const dateRegex = /^\d{4}-\d{2}-\d{2}$/
+  if (!dateRegex.test(input)) {
+    throw new Error(`Invalid date format. Must be YYYY-MM-DD, got: ${input}`)
+  }
+
+  const date = parse(input, 'yyyy-MM-dd', new Date())
+  if (!isValid(date)) {
+    throw new Error(`Invalid date. Please provide a valid date in YYYY-MM-DD format, got: ${input}`)
+  }
+  return date
+}
+
+export const parseDateEffect = (input: string) =>
+  Effect.try({
+    try: () => parseDate(input),
+    catch: () => new Error(`Invalid date format. Expected YYYY-MM-DD, got: ${input}`),
+  })
+
+// The calendar speaks YYYYMMDD strings; the command works with Date values
+const fromCalendarDates = (dates: ReadonlyArray<string>) =>
+  dates.map((date) => parse(date, 'yyyyMMdd', new Date()))
+
+export const calendarError = (error: TradingCalendarError) => new Error(error.message)
+
+/**
+ * Resolve the trade dates to download from the positional date and the range options
+ */
+export const resolveTradeDates = (
+  date: Option.Option<string>,
+  startDate: Option.Option<string>,
+  endDate: Option.Option<string>,
+  daysBack: Option.Option<number>,
+) =>
+  Effect.gen(function* (_) {
+    const calendar = yield* _(TradingCalendar)
+    const isRange = Option.isSome(startDate) || Option.isSome(endDate)
+
+    if (isRange && Option.isSome(daysBack)) {
+      return yield* _(Effect.fail(new Error('Use either --start-date/--end-date or --days-back')))
+    }
+
+    if (isRange) {
+      if (Option.isNone(startDate) || Option.isNone(endDate)) {
+        return yield* _(
+          Effect.fail(new Error('--start-date and --end-date must be provided together')),
+        )
+      }
+      if (Option.isSome(date)) {
+        return yield* _(
+          Effect.fail(new Error('A positional date cannot be combined with --start-date')),
+        )
+      }
+
+      const start = yield* _(parseDateEffect(startDate.value))
+      const end = yield* _(parseDateEffect(endDate.value))
+      if (start > end) {
+        return yield* _(
+          Effect.fail(
+            new Error(`--start-date ${startDate.value} is after --end-date ${endDate.value}`),
+          ),
+        )
+      }
+      const tradingDays = yield* _(
+        calendar
+          .tradingDaysBetween(format(start, 'yyyyMMdd'), format(end, 'yyyyMMdd'))
+          .pipe(Effect.mapError(calendarError)),
+      )
+      return fromCalendarDates(tradingDays)
+    }
+
+    if (Option.isSome(daysBack)) {
+      if (daysBack.value < 1) {
+        return yield* _(Effect.fail(new Error('--days-back must be at least 1')))
+      }
+      const end = Option.isSome(date) ? yield* _(parseDateEffect(date.value)) : new Date()
+      const tradingDays = yield* _(
+        calendar
+          .previousTradingDays(format(end, 'yyyyMMdd'), daysBack.value)
+          .pipe(Effect.mapError(calendarError)),
+      )
+      return fromCalendarDates(tradingDays)
+    }
+
+    if (Option.isNone(date)) {
+      return yield* _(
+        Effect.fail(new Error('Provide a date, --start-date/--end-date or --days-back')),
+      )
+    }
+
+    return [yield* _(parseDateEffect(date.value))]
+  })
@@ -0,0 +1,128 @@
+import * as path from 'node:path'
+import { format } from 'date-fns'
+import { Effect, Option } from 'effect'
+import type { AppConfig } from '@/config/AppConfig'
+import {
+  type CsvCompression,
+  csvExtension,
+  jsonlExtension,
+  type OutputLocation,
+  outputPath,
+} from '@/services/DataWriter'
+import { checkpointKey, DownloadCheckpoint } from '@/services/DownloadCheckpoint'
+import type { OptionsDataset } from '@/services/ThetaDataApiClient'
+import { TradingCalendar } from '@/services/TradingCalendar'
+import { sha256File } from '@/utils/fileChecksum'
+import { pathTemplatePlaceholders } from '@/utils/pathTemplate'
+
+// Extension of the files written for an output format, e.g. csv.gz for gzipped CSV
+export const outputExtension = (outputFormat: string, compression: CsvCompression = 'none') =>
+  outputFormat === 'csv'
+    ? csvExtension(compression)
+    : outputFormat === 'jsonl'
+      ? jsonlExtension(compression)
+      : outputFormat
+
+/**
+ * Where a trade date's files are written: outputDir holds status.json and, without a path
+ * template, the files themselves
+ */
+export type OutputLayout = Omit<OutputLocation, 'root' | 'expiration' | 'dte'>
+
+// Greeks stay directly in the trade-date directory; other datasets get a subdirectory each
+// A configured path template places the files elsewhere but status.json stays here
+export const tradeDateLayout = (
+  storage: AppConfig['storage'],
+  tradeDate: Date,
+  dataset: OptionsDataset,
+): OutputLayout => {
+  const day = format(tradeDate, 'yyyyMMdd')
+  return {
+    outputDir:
+      dataset === 'greeks'
+        ? path.join(storage.dataDirectory, day)
+        : path.join(storage.dataDirectory, day, dataset),
+    dataset,
+    fileNamePattern: storage.pathTemplate,
+    dataDirectory: storage.dataDirectory,
+    tradeDate: day,
+  }
+}
+
+// Final (non-.tmp) path of a root's expiration, as written by the pipeline
+export const expirationPath = (
+  layout: OutputLayout,
+  root: string,
+  expiration: string,
+  extension: string,
+) =>
+  Effect.gen(function* (_) {
+    const { fileNamePattern, tradeDate } = layout
+    // Only templates using {dte} need the trading calendar
+    const dte =
+      fileNamePattern !== undefined &&
+      tradeDate !== undefined &&
+      pathTemplatePlaceholders(fileNamePattern).includes('dte')
+        ? yield* _(
+            Effect.flatMap(TradingCalendar, (calendar) =>
+              calendar.tradingDaysToExpiration(tradeDate, expiration),
+            ),
+          )
+        : undefined
+
+    return outputPath({ ...layout, root, expiration: expiration.replace(/-/g, ''), dte }, extension)
+  })
+
+/**
+ * Split a root's expirations (YYYYMMDD) into those already complete on disk and those still to fetch.
+ * An expiration status.json records as complete is only skipped if its file still matches the
+ * recorded SHA-256; one it records as unfinished is always fetched again. Without an entry (files
+ * written before status.json existed), a non-empty final file counts as complete, since writers
+ * only rename the .tmp file into place once an expiration is fully written
+ */
+export const partitionExistingExpirations = (
+  layout: OutputLayout,
+  root: string,
+  expirations: ReadonlyArray<string>,
+  extension: string,
+) =>
+  Effect.gen(function* (_) {
+    const checkpoint = yield* _(DownloadCheckpoint)
+    // An unreadable status.json only means we fall back to the files themselves
+    const status = yield* _(
+      checkpoint.load(layout.outputDir).pipe(Effect.orElseSucceed(() => Option.none())),
+    )
+
+    const existing: string[] = []
+    const missing: string[] = []
+
+    for (const expiration of expirations) {
+      const filePath = yield* _(expirationPath(layout, root, expiration, extension))
+      const entry = Option.flatMap(status, (s) =>
+        Option.fromNullable(s.expirations[checkpointKey(root, expiration)]),
+      )
+      const complete = yield* _(
+        Effect.promise(async () => {
+          const file = Bun.file(filePath)
+          const nonEmpty = (await file.exists()) && file.size > 0
+          return Option.match(entry, {
+            onNone: () => nonEmpty,
+            onSome: async (e) => {
+              if (e.status !== 'complete' || !nonEmpty) return false
+              // A checksum is recorded for every file written with records
+              if (e.checksum !== undefined) return (await sha256File(filePath)) === e.checksum
+              return e.recordCount > 0
+            },
+          })
+        }),
+      )
+
+      if (complete) {
+        existing.push(expiration)
+      } else {
+        missing.push(expiration)
+      }
+    }
+
+    return { existing, missing }
+  })
@@ -0,0 +1,41 @@
+import { Effect, Option } from 'effect'
+import type { WriteDataset } from '@/services/DataWriter'
+import { columnsFor } from '@/utils'
+
+// Column names of a --fields value
+export const parseFields = (fields: string) =>
+  fields
+    .split(',')
+    .map((field) => field.trim())
+    .filter((field) => field.length > 0)
+
+/**
+ * Check --fields is only given for JSON Lines output and names columns of the dataset
+ */
+export const checkFields = (
+  fields: Option.Option<string>,
+  outputFormat: string,
+  dataset: WriteDataset = 'greeks',
+): Effect.Effect<void, Error> =>
+  Effect.gen(function* (_) {
+    if (Option.isNone(fields)) {
+      return
+    }
+    if (outputFormat !== 'jsonl') {
+      return yield* _(Effect.fail(new Error('--fields applies to --format jsonl only')))
+    }
+
+    const columns = columnsFor(dataset).map((column) => column.name)
+    const selected = parseFields(fields.value)
+    const unknown = selected.filter((field) => !columns.includes(field))
+    if (selected.length === 0 || unknown.length > 0) {
+      return yield* _(
+        Effect.fail(
+          new Error(
+            `${selected.length === 0 ? 'No --fields given' : `Unknown --fields: ${unknown.join(', ')}`}; ` +
+              `${dataset} columns are ${columns.join(', ')}`,
+          ),
+        ),
+      )
+    }
+  })
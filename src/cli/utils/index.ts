@@ -1 +1,6 @@
-export {}
+export * from './dates'
+export * from './existing'
+export * from './fields'
+export * from './options'
+export * from './strikes'
+export * from './timeWindow'
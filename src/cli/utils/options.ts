@@ -0,0 +1,120 @@
+import * as Args from '@effect/cli/Args'
+import * as Options from '@effect/cli/Options'
+import { CSV_COMPRESSIONS } from '@/services/DataWriter'
+import { OPTIONS_DATASETS } from '@/services/ThetaDataApiClient'
+import { TIME_WINDOW_PRESETS } from './timeWindow'
+
+// Options shared by the commands that fetch and write data
+
+// Trade dates: a single date, a range or the last N trading days
+export const dateArg = Args.text({ name: 'date' }).pipe(
+  Args.withDescription('Date in YYYY-MM-DD format (omit when using --start-date or --days-back)'),
+  Args.optional,
+)
+
+export const startDateOption = Options.text('start-date').pipe(
+  Options.withDescription('First trade date of a range in YYYY-MM-DD format'),
+  Options.optional,
+)
+
+export const endDateOption = Options.text('end-date').pipe(
+  Options.withDescription('Last trade date of a range in YYYY-MM-DD format (inclusive)'),
+  Options.optional,
+)
+
+export const daysBackOption = Options.integer('days-back').pipe(
+  Options.withDescription('Download the last N trading days, ending at <date> or today'),
+  Options.optional,
+)
+
+export const intervalOption = Options.integer('interval').pipe(
+  Options.withDescription('Data interval in milliseconds (60000=1min, 3600000=1hr)'),
+  Options.withDefault(60000),
+)
+
+// Tick-level (--interval 0) responses are always streamed
+export const streamOption = Options.boolean('stream').pipe(
+  Options.withDescription(
+    'Parse and write responses as they arrive instead of holding each expiration in memory',
+  ),
+  Options.withDefault(false),
+)
+
+export const formatOption = Options.choice('format', ['csv', 'parquet', 'jsonl']).pipe(
+  Options.withDescription('Output file format'),
+  Options.withDefault('csv'),
+)
+
+export const parquetCodecOption = Options.choice('parquet-codec', ['snappy', 'zstd']).pipe(
+  Options.withDescription('Compression codec for Parquet output'),
+  Options.withDefault('snappy'),
+)
+
+export const compressionOption = Options.choice('compression', CSV_COMPRESSIONS).pipe(
+  Options.withDescription('Compress CSV or JSON Lines output as it is written (.gz or .zst)'),
+  Options.withDefault('none' as const),
+)
+
+export const fieldsOption = Options.text('fields').pipe(
+  Options.withDescription(
+    'Comma-separated columns to keep in JSON Lines output, e.g. timestamp,contract,delta',
+  ),
+  Options.optional,
+)
+export const datasetOption = Options.choice('dataset', OPTIONS_DATASETS).pipe(
+  Options.withDescription(
+    'Dataset to download; datasets other than greeks are written to a subdirectory named after them',
+  ),
+  Options.withDefault('greeks' as const),
+)
+
+// Contract filters, applied to rows as they are parsed
+export const minStrikeOption = Options.float('min-strike').pipe(
+  Options.withDescription('Lowest strike to keep, in index points'),
+  Options.optional,
+)
+
+export const maxStrikeOption = Options.float('max-strike').pipe(
+  Options.withDescription('Highest strike to keep, in index points'),
+  Options.optional,
+)
+
+export const moneynessOption = Options.float('moneyness').pipe(
+  Options.withDescription(
+    'Keep strikes within this percentage of the underlying price, e.g. 5 for ±5% (greeks only)',
+  ),
+  Options.optional,
+)
+
+export const minDeltaOption = Options.float('min-delta').pipe(
+  Options.withDescription('Lowest absolute delta to keep, e.g. 0.05 (greeks only)'),
+  Options.optional,
+)
+
+export const maxDeltaOption = Options.float('max-delta').pipe(
+  Options.withDescription('Highest absolute delta to keep, e.g. 0.95 (greeks only)'),
+  Options.optional,
+)
+
+// Time of day to download; presets follow the trade date's session, including early closes
+export const startTimeOption = Options.text('start-time').pipe(
+  Options.withDescription('First time of day to download, HH:mm ET'),
+  Options.optional,
+)
+
+export const endTimeOption = Options.text('end-time').pipe(
+  Options.withDescription('Last time of day to download, HH:mm ET'),
+  Options.optional,
+)
+
+export const windowOption = Options.choice('window', TIME_WINDOW_PRESETS).pipe(
+  Options.withDescription(
+    'Named time window: open (first 30 minutes), close (last 15 minutes) or last-hour',
+  ),
+  Options.optional,
+)
+
+export const extendedHoursOption = Options.boolean('extended-hours').pipe(
+  Options.withDescription('Include rows outside regular trading hours'),
+  Options.withDefault(false),
+)
@@ -0,0 +1,83 @@
+import { Effect, Option } from 'effect'
+import type { StrikeFilter } from '@/services/BulkGreeksProcessor'
+import type { OptionsDataset } from '@/services/ThetaDataApiClient'
+import { isStrikeFilterActive } from '@/utils'
+
+/**
+ * Build the strike filter from the filter options, or undefined when none is given
+ * Fails on inverted bounds and on Greeks-only bounds for other datasets
+ */
+export const resolveStrikeFilter = (
+  options: {
+    readonly minStrike: Option.Option<number>
+    readonly maxStrike: Option.Option<number>
+    readonly moneyness: Option.Option<number>
+    readonly minDelta: Option.Option<number>
+    readonly maxDelta: Option.Option<number>
+  },
+  dataset: OptionsDataset = 'greeks',
+): Effect.Effect<StrikeFilter | undefined, Error> =>
+  Effect.gen(function* (_) {
+    const filter: StrikeFilter = {
+      minStrike: Option.getOrUndefined(options.minStrike),
+      maxStrike: Option.getOrUndefined(options.maxStrike),
+      moneyness: Option.getOrUndefined(Option.map(options.moneyness, (percent) => percent / 100)),
+      minDelta: Option.getOrUndefined(options.minDelta),
+      maxDelta: Option.getOrUndefined(options.maxDelta),
+    }
+
+    const fail = (message: string) => Effect.fail(new Error(message))
+    if (
+      filter.minStrike !== undefined &&
+      filter.maxStrike !== undefined &&
+      filter.minStrike > filter.maxStrike
+    ) {
+      return yield* _(fail('--min-strike must not be above --max-strike'))
+    }
+    if (filter.moneyness !== undefined && filter.moneyness <= 0) {
+      return yield* _(fail('--moneyness must be above 0'))
+    }
+    for (const delta of [filter.minDelta, filter.maxDelta]) {
+      if (delta !== undefined && (delta < 0 || delta > 1)) {
+        return yield* _(fail('--min-delta and --max-delta must be between 0 and 1'))
+      }
+    }
+    if (
+      filter.minDelta !== undefined &&
+      filter.maxDelta !== undefined &&
+      filter.minDelta > filter.maxDelta
+    ) {
+      return yield* _(fail('--min-delta must not be above --max-delta'))
+    }
+    // Only Greeks rows carry a delta and the underlying price
+    if (
+      dataset !== 'greeks' &&
+      [filter.moneyness, filter.minDelta, filter.maxDelta].some((bound) => bound !== undefined)
+    ) {
+      return yield* _(
+        fail('--moneyness, --min-delta and --max-delta only apply to --dataset greeks'),
+      )
+    }
+
+    return isStrikeFilterActive(filter) ? filter : undefined
+  })
+
+/**
+ * One-line description of a strike filter for summaries
+ */
+export const describeStrikeFilter = (filter?: StrikeFilter) => {
+  if (!filter) {
+    return 'All strikes'
+  }
+  const parts: string[] = []
+  if (filter.minStrike !== undefined || filter.maxStrike !== undefined) {
+    parts.push(`strikes ${filter.minStrike ?? '-∞'} to ${filter.maxStrike ?? '∞'}`)
+  }
+  if (filter.moneyness !== undefined) {
+    parts.push(`±${Number((filter.moneyness * 100).toFixed(4))}% of underlying`)
+  }
+  if (filter.minDelta !== undefined || filter.maxDelta !== undefined) {
+    parts.push(`|delta| ${filter.minDelta ?? 0} to ${filter.maxDelta ?? 1}`)
+  }
+  return parts.join(', ')
+}
@@ -0,0 +1,116 @@
+import { Effect, Option } from 'effect'
+import type { TimeWindow } from '@/services/BulkGreeksProcessor'
+import type { TradingSession } from '@/services/TradingCalendar'
+
+export const TIME_WINDOW_PRESETS = ['open', 'close', 'last-hour'] as const
+
+export type TimeWindowPreset = (typeof TIME_WINDOW_PRESETS)[number]
+
+const MINUTE_MS = 60_000
+
+// Regular session hours, used when the calendar has none for the day
+const DEFAULT_OPEN_MS = (9 * 60 + 30) * MINUTE_MS
+const DEFAULT_CLOSE_MS = 16 * 60 * MINUTE_MS
+
+/**
+ * Time window options before they are placed in a trade date's session
+ * Presets move with early closes, so they are resolved per day
+ */
+export interface TimeWindowSpec {
+  readonly preset?: TimeWindowPreset
+  readonly startTime?: number
+  readonly endTime?: number
+  readonly extendedHours: boolean
+}
+
+// Milliseconds since midnight as HH:mm
+export const formatMsOfDay = (ms: number) =>
+  `${String(Math.floor(ms / 3_600_000)).padStart(2, '0')}:${String(
+    Math.floor((ms % 3_600_000) / MINUTE_MS),
+  ).padStart(2, '0')}`
+
+/**
+ * Parse an HH:mm time of day (ET) into milliseconds since midnight
+ */
+export const parseTimeOfDay = (input: string, flag: string) => {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(input)
+  const hours = Number(match?.[1])
+  const minutes = Number(match?.[2])
+  if (!match || hours > 23 || minutes > 59) {
+    return Effect.fail(new Error(`${flag} must be a time of day in HH:mm format, got: ${input}`))
+  }
+  return Effect.succeed((hours * 60 + minutes) * MINUTE_MS)
+}
+
+/**
+ * Validate the time window options, or undefined when they select the whole session
+ */
+export const resolveTimeWindowSpec = (options: {
+  readonly startTime: Option.Option<string>
+  readonly endTime: Option.Option<string>
+  readonly window: Option.Option<TimeWindowPreset>
+  readonly extendedHours: boolean
+}): Effect.Effect<TimeWindowSpec | undefined, Error> =>
+  Effect.gen(function* (_) {
+    if (Option.isSome(options.window)) {
+      if (Option.isSome(options.startTime) || Option.isSome(options.endTime)) {
+        return yield* _(
+          Effect.fail(new Error('--window cannot be combined with --start-time or --end-time')),
+        )
+      }
+      return { preset: options.window.value, extendedHours: options.extendedHours }
+    }
+
+    const startTime = Option.isSome(options.startTime)
+      ? yield* _(parseTimeOfDay(options.startTime.value, '--start-time'))
+      : undefined
+    const endTime = Option.isSome(options.endTime)
+      ? yield* _(parseTimeOfDay(options.endTime.value, '--end-time'))
+      : undefined
+    if (startTime !== undefined && endTime !== undefined && startTime >= endTime) {
+      return yield* _(Effect.fail(new Error('--start-time must be before --end-time')))
+    }
+
+    if (startTime === undefined && endTime === undefined && !options.extendedHours) {
+      return undefined
+    }
+    return { startTime, endTime, extendedHours: options.extendedHours }
+  })
+
+/**
+ * Place a time window in a trade date's session
+ * - open: the first 30 minutes
+ * - close: the last 15 minutes
+ * - last-hour: the last 60 minutes
+ */
+export const sessionTimeWindow = (spec: TimeWindowSpec, session: TradingSession): TimeWindow => {
+  const open = session.openMsOfDay ?? DEFAULT_OPEN_MS
+  const close = session.closeMsOfDay ?? DEFAULT_CLOSE_MS
+  const extended = spec.extendedHours ? { extendedHours: true } : {}
+  switch (spec.preset) {
+    case 'open':
+      return { startTime: open, endTime: open + 30 * MINUTE_MS, ...extended }
+    case 'close':
+      return { startTime: close - 15 * MINUTE_MS, endTime: close, ...extended }
+    case 'last-hour':
+      return { startTime: close - 60 * MINUTE_MS, endTime: close, ...extended }
+    default:
+      return { startTime: spec.startTime, endTime: spec.endTime, ...extended }
+  }
+}
+
+/**
+ * One-line description of a time window for summaries
+ */
+export const describeTimeWindow = (window?: TimeWindow) => {
+  if (!window) {
+    return 'Regular session'
+  }
+  const from = window.startTime === undefined ? 'session start' : formatMsOfDay(window.startTime)
+  const to = window.endTime === undefined ? 'session end' : formatMsOfDay(window.endTime)
+  const range =
+    window.startTime === undefined && window.endTime === undefined
+      ? 'Whole day'
+      : `${from}-${to} ET`
+  return window.extendedHours ? `${range}, extended hours` : range
+}
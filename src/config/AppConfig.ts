@@ -1,20 +1,56 @@
 import { Schema } from '@effect/schema'
-import { Config } from 'effect'
+import { Config, ConfigError, Either, Option } from 'effect'
+import { type PathPlaceholder, validatePathTemplate } from '../utils/pathTemplate'
+
+const ValidationPolicySchema = Schema.Literal('drop', 'warn', 'fail')
+
+// Per-rule validation policy: drop the row, warn about it, or fail the expiration
+const validationPolicy = (name: string, defaultPolicy: 'drop' | 'warn' | 'fail') =>
+  Config.literal('drop', 'warn', 'fail')(name).pipe(Config.withDefault(defaultPolicy))
+
+// A template relative to the data directory must tell apart every file of every trade date
+const STORAGE_TEMPLATE_PLACEHOLDERS: ReadonlyArray<PathPlaceholder> = [
+  'root',
+  'tradeDate',
+  'expiration',
+  'dataset',
+]
 
 // Configuration schema
 const ConfigSchema = Schema.Struct({
   thetaData: Schema.Struct({
     baseUrl: Schema.String,
     maxConcurrentRequests: Schema.Number,
+    requestsPerSecond: Schema.Number,
+    concurrencyMode: Schema.Literal('fixed', 'adaptive'),
+    minConcurrency: Schema.Number,
+    targetLatencyMs: Schema.Number,
     maxRetries: Schema.Number,
     retryBaseDelayMs: Schema.Number,
     requestTimeoutMs: Schema.Number,
+    circuitFailureThreshold: Schema.Number,
+    circuitProbeIntervalMs: Schema.Number,
+    circuitMaxPauseMs: Schema.Number,
+    cassetteMode: Schema.Literal('off', 'record', 'replay'),
+    cassetteDirectory: Schema.String,
   }),
   download: Schema.Struct({
     maxDTE: Schema.Number,
+    expirationRetries: Schema.Number,
+    expirationRetryDelayMs: Schema.Number,
   }),
   storage: Schema.Struct({
     dataDirectory: Schema.String,
+    pathTemplate: Schema.optional(Schema.String),
+  }),
+  validation: Schema.Struct({
+    maxImpliedVolatility: Schema.Number,
+    maxIvError: Schema.Number,
+    crossedMarketPolicy: ValidationPolicySchema,
+    negativePricePolicy: ValidationPolicySchema,
+    impliedVolatilityPolicy: ValidationPolicySchema,
+    ivErrorPolicy: ValidationPolicySchema,
+    underlyingPricePolicy: ValidationPolicySchema,
   }),
 })
 
@@ -29,6 +65,20 @@ export const AppConfig = Config.all({
     maxConcurrentRequests: Config.number('CONFIG_THETADATA_MAX_CONCURRENT_REQUESTS').pipe(
       Config.withDefault(2),
     ),
+    // Average request rate across every command and stream in the process; 0 for no limit
+    requestsPerSecond: Config.number('CONFIG_THETADATA_REQUESTS_PER_SECOND').pipe(
+      Config.withDefault(20),
+    ),
+    // adaptive: fetch between minConcurrency and the fixed concurrency expirations at once,
+    // backing off on 429s, connection failures and fetches slower than targetLatencyMs
+    concurrencyMode: Config.literal(
+      'fixed',
+      'adaptive',
+    )('CONFIG_THETADATA_CONCURRENCY_MODE').pipe(Config.withDefault('fixed')),
+    minConcurrency: Config.number('CONFIG_THETADATA_MIN_CONCURRENCY').pipe(Config.withDefault(1)),
+    targetLatencyMs: Config.number('CONFIG_THETADATA_TARGET_LATENCY_MS').pipe(
+      Config.withDefault(10000),
+    ),
     maxRetries: Config.number('CONFIG_THETADATA_MAX_RETRIES').pipe(Config.withDefault(3)),
     retryBaseDelayMs: Config.number('CONFIG_THETADATA_RETRY_BASE_DELAY_MS').pipe(
       Config.withDefault(1000),
@@ -36,13 +86,66 @@ export const AppConfig = Config.all({
     requestTimeoutMs: Config.number('CONFIG_THETADATA_REQUEST_TIMEOUT_MS').pipe(
       Config.withDefault(30000),
     ),
+    // Consecutive connection failures that open the circuit, 0 to never open it; while open,
+    // requests fail fast and the terminal is probed every circuitProbeIntervalMs
+    circuitFailureThreshold: Config.number('CONFIG_THETADATA_CIRCUIT_FAILURE_THRESHOLD').pipe(
+      Config.withDefault(5),
+    ),
+    circuitProbeIntervalMs: Config.number('CONFIG_THETADATA_CIRCUIT_PROBE_INTERVAL_MS').pipe(
+      Config.withDefault(5000),
+    ),
+    // How long an expiration waits for the circuit to close before it is recorded as failed
+    circuitMaxPauseMs: Config.number('CONFIG_THETADATA_CIRCUIT_MAX_PAUSE_MS').pipe(
+      Config.withDefault(600000),
+    ),
+    // record: save every terminal response to cassetteDirectory; replay: answer from it offline
+    cassetteMode: Config.literal(
+      'off',
+      'record',
+      'replay',
+    )('CONFIG_THETADATA_CASSETTE_MODE').pipe(Config.withDefault('off')),
+    cassetteDirectory: Config.string('CONFIG_THETADATA_CASSETTE_DIRECTORY').pipe(
+      Config.withDefault('./cassettes'),
+    ),
   }),
   download: Config.all({
     maxDTE: Config.number('CONFIG_DOWNLOAD_MAX_DTE').pipe(Config.withDefault(30)),
+    // Extra passes over expirations that failed transiently, once the others are fetched
+    expirationRetries: Config.number('CONFIG_DOWNLOAD_EXPIRATION_RETRIES').pipe(
+      Config.withDefault(1),
+    ),
+    expirationRetryDelayMs: Config.number('CONFIG_DOWNLOAD_EXPIRATION_RETRY_DELAY_MS').pipe(
+      Config.withDefault(5000),
+    ),
   }),
   storage: Config.all({
     dataDirectory: Config.string('CONFIG_STORAGE_DATA_DIRECTORY').pipe(
       Config.withDefault('./data'),
     ),
+    // Where files go under the data directory, e.g. root={root}/trade_date={tradeDate}/...;
+    // unset keeps <tradeDate>/<root>_exp_<expiration> with other datasets in subdirectories
+    pathTemplate: Config.string('CONFIG_STORAGE_PATH_TEMPLATE').pipe(
+      Config.mapOrFail((template) =>
+        Either.mapLeft(validatePathTemplate(template, STORAGE_TEMPLATE_PLACEHOLDERS), (error) =>
+          ConfigError.InvalidData([], error.message),
+        ),
+      ),
+      Config.option,
+      Config.map(Option.getOrUndefined),
+    ),
+  }),
+  validation: Config.all({
+    maxImpliedVolatility: Config.number('CONFIG_VALIDATION_MAX_IMPLIED_VOLATILITY').pipe(
+      Config.withDefault(5),
+    ),
+    maxIvError: Config.number('CONFIG_VALIDATION_MAX_IV_ERROR').pipe(Config.withDefault(0.05)),
+    crossedMarketPolicy: validationPolicy('CONFIG_VALIDATION_CROSSED_MARKET_POLICY', 'drop'),
+    negativePricePolicy: validationPolicy('CONFIG_VALIDATION_NEGATIVE_PRICE_POLICY', 'drop'),
+    impliedVolatilityPolicy: validationPolicy(
+      'CONFIG_VALIDATION_IMPLIED_VOLATILITY_POLICY',
+      'drop',
+    ),
+    ivErrorPolicy: validationPolicy('CONFIG_VALIDATION_IV_ERROR_POLICY', 'warn'),
+    underlyingPricePolicy: validationPolicy('CONFIG_VALIDATION_UNDERLYING_PRICE_POLICY', 'drop'),
   }),
 })
@@ -13,7 +13,7 @@ export const downloadOptionsData = Effect.gen(function* (_) {
   yield* _(Effect.log('Fetching available expirations...'))
 
   // Get all available expirations
-  const expirations = yield* _(client.listExpirations())
+  const expirations = yield* _(client.listExpirations('SPXW'))
 
   yield* _(Effect.log(`Found ${expirations.length} expirations`))
 
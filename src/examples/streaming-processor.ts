@@ -67,7 +67,7 @@ export const batchedStreamProcessor = Effect.gen(function* (_) {
   const config = yield* _(AppConfig)
 
   // Get all expirations
-  const expirations = yield* _(client.listExpirations())
+  const expirations = yield* _(client.listExpirations('SPXW'))
 
   // Filter to future expirations only
   const futureExpirations = expirations.filter((exp) => exp.daysToExpiration > 0)
@@ -128,7 +128,7 @@ export const continuousPoller = Effect.gen(function* (_) {
   const pollSchedule = Schedule.fixed('5 minutes')
 
   const pollOnce = Effect.gen(function* (_) {
-    const expirations = yield* _(client.listExpirations())
+    const expirations = yield* _(client.listExpirations('SPXW'))
 
     // Only fetch the nearest 3 future expirations
     const nearExpirations = expirations
@@ -1,4 +1,4 @@
-import { Effect, Layer, Ref, Stream } from 'effect'
+import { type Context, Effect, Layer, Ref, Stream } from 'effect'
 import { AppConfig } from '../config/AppConfig'
 import {
   type BulkGreeksParams,
@@ -7,12 +7,24 @@ import {
   ExpirationFilterError,
   type ExpirationResult,
   type ProcessingMetrics,
+  type StrikeFilter,
 } from '../services/BulkGreeksProcessor'
 import {
   type BulkOptionsGreeksParams,
   type ExpirationDate,
+  isCircuitOpen,
+  type OptionsDataset,
+  type OptionsRecord,
   ThetaDataApiClient,
+  type ThetaDataApiClientService,
+  type ThetaDataApiError,
+  ThetaDataConnectionError,
+  ThetaDataRateLimitError,
 } from '../services/ThetaDataApiClient'
+import { TradingCalendar } from '../services/TradingCalendar'
+import { type AdaptiveConcurrency, makeAdaptiveConcurrency } from '../utils/adaptiveConcurrency'
+import { failureKindOf } from '../utils/failureKind'
+import { isStrikeFilterActive, strikeFilterPredicate } from '../utils/strikeFilter'
 
 /**
  * Live implementation of BulkGreeksProcessor that uses ThetaDataApiClient
@@ -23,19 +35,84 @@ export const BulkGreeksProcessorLive = Layer.effect(
   Effect.gen(function* (_) {
     const apiClient = yield* _(ThetaDataApiClient)
     const config = yield* _(AppConfig)
+    const calendar = yield* _(TradingCalendar)
 
     // State for tracking progress
     const progressRef = yield* _(
-      Ref.make<{ current: number; total: number; currentExpiration?: string } | undefined>(
-        undefined,
-      ),
+      Ref.make<
+        | { current: number; total: number; currentExpiration?: string; concurrency?: number }
+        | undefined
+      >(undefined),
     )
 
+    // Limit on expirations in flight for one run: fixed at the requested concurrency, or in
+    // adaptive mode moving between minConcurrency and it as the terminal slows down or recovers
+    const makeConcurrency = (params: BulkGreeksParams) => {
+      const fixed = params.concurrency ?? config.thetaData.maxConcurrentRequests ?? 2
+      const adaptive = config.thetaData.concurrencyMode === 'adaptive'
+      return makeAdaptiveConcurrency(
+        {
+          initial: fixed,
+          min: adaptive ? config.thetaData.minConcurrency : fixed,
+          max: fixed,
+          targetLatencyMs: config.thetaData.targetLatencyMs,
+          // An open circuit is an outage rather than load, and is waited out separately
+          isCongestion: (error) =>
+            error instanceof ThetaDataRateLimitError ||
+            (error instanceof ThetaDataConnectionError && !error.circuitOpen),
+        },
+        (change) =>
+          Effect.zipRight(
+            Ref.update(progressRef, (p) => (p ? { ...p, concurrency: change.concurrency } : p)),
+            Effect.log(`Concurrency ${change.reason}: ${change.concurrency} expirations at once`),
+          ),
+      ).pipe(Effect.map((concurrency) => ({ concurrency, max: fixed })))
+    }
+
+    // While the terminal is unreachable the client refuses requests; wait for it to come back
+    // rather than failing the expiration, for up to circuitMaxPauseMs from the first refusal
+    // Resolves to the deadline to keep waiting by, or undefined to give up
+    const pauseWhileCircuitOpen = (error: unknown, deadline?: number) =>
+      Effect.suspend(() => {
+        if (!isCircuitOpen(error)) {
+          return Effect.succeed(undefined)
+        }
+        const until = deadline ?? Date.now() + config.thetaData.circuitMaxPauseMs
+        const wait = error.retryAfter ?? 0
+        return Date.now() + wait <= until
+          ? Effect.as(Effect.sleep(wait), until)
+          : Effect.succeed(undefined)
+      })
+
+    const retryWhileCircuitOpen = <A, E>(
+      request: Effect.Effect<A, E>,
+      deadline?: number,
+    ): Effect.Effect<A, E> =>
+      Effect.catchAll(request, (error) =>
+        Effect.flatMap(pauseWhileCircuitOpen(error, deadline), (until) =>
+          until === undefined ? Effect.fail(error) : retryWhileCircuitOpen(request, until),
+        ),
+      )
+
+    // Only the opening request is refused, so no rows have been emitted when it is retried
+    const restreamWhileCircuitOpen = <A, E>(
+      records: Stream.Stream<A, E>,
+      deadline?: number,
+    ): Stream.Stream<A, E> =>
+      Stream.catchAll(records, (error) =>
+        Stream.unwrap(
+          Effect.map(pauseWhileCircuitOpen(error, deadline), (until) =>
+            until === undefined ? Stream.fail(error) : restreamWhileCircuitOpen(records, until),
+          ),
+        ),
+      )
+
     // Shared function to process a single expiration
     const processExpiration = (
       exp: ExpirationDate,
       index: number,
       params: BulkGreeksParams,
+      concurrency: AdaptiveConcurrency,
     ): Effect.Effect<ExpirationResult, never> =>
       Effect.gen(function* (_) {
         const expDateStr = exp.date.replace(/-/g, '')
@@ -48,6 +125,12 @@ export const BulkGreeksProcessorLive = Layer.effect(
         )
 
         const processingStart = Date.now()
+        const inFlightLimit = yield* _(concurrency.current)
+        const dte = yield* _(
+          calendar
+            .tradingDaysToExpiration(params.tradeDate, exp.date)
+            .pipe(Effect.orElseSucceed(() => undefined)),
+        )
 
         // Prepare parameters for bulk Greeks request
         const bulkParams: BulkOptionsGreeksParams = {
@@ -56,26 +139,70 @@ export const BulkGreeksProcessorLive = Layer.effect(
           startDate: params.tradeDate,
           endDate: params.tradeDate,
           interval: params.interval,
-          rth: params.rth ?? true,
+          rth: params.rth ?? !params.timeWindow?.extendedHours,
+          startTime: msOfDayParam(params.timeWindow?.startTime),
+          endTime: msOfDayParam(params.timeWindow?.endTime),
+        }
+
+        // The request is only made once the stream is run, so recordCount and
+        // processingTimeMs are not known up front
+        if (params.streamRecords && (params.dataset ?? 'greeks') === 'greeks') {
+          // The slot is held until the response has been read, but its latency is only
+          // measured to the first rows: reading a long tick stream is not congestion
+          const records = restreamWhileCircuitOpen(
+            Stream.unwrapScoped(
+              Effect.map(concurrency.slot, ({ responded }) =>
+                apiClient
+                  .streamBulkOptionsGreeks(bulkParams)
+                  .pipe(Stream.mapChunksEffect((chunk) => Effect.as(responded, chunk))),
+              ),
+            ),
+          ).pipe(
+            Stream.mapError(
+              (error) => new BulkProcessingError({ message: error.message, cause: error }),
+            ),
+          )
+          return {
+            expiration: expDateStr,
+            success: true,
+            records: isStrikeFilterActive(params.strikeFilter)
+              ? Stream.filter(records, strikeFilterPredicate(params.strikeFilter))
+              : records,
+            recordCount: 0,
+            processingTimeMs: 0,
+            concurrency: inFlightLimit,
+            dte,
+          }
         }
 
         // Fetch data with error handling
         const result = yield* _(
-          apiClient.getBulkOptionsGreeks(bulkParams).pipe(
-            Effect.map((data) => ({
+          retryWhileCircuitOpen(
+            Effect.scoped(
+              Effect.zipRight(
+                concurrency.slot,
+                fetchDataset(apiClient, params.dataset ?? 'greeks', bulkParams),
+              ),
+            ),
+          ).pipe(
+            Effect.map((fetched) => ({
               expiration: expDateStr,
               success: true as const,
-              data,
-              recordCount: data.length,
+              ...filterFetched(fetched, params.strikeFilter),
               processingTimeMs: Date.now() - processingStart,
+              concurrency: inFlightLimit,
+              dte,
             })),
             Effect.catchAll((error) =>
               Effect.succeed({
                 expiration: expDateStr,
                 success: false as const,
                 error: error instanceof Error ? error : new Error(String(error)),
+                failureKind: failureKindOf(error),
                 recordCount: 0,
                 processingTimeMs: Date.now() - processingStart,
+                concurrency: inFlightLimit,
+                dte,
               }),
             ),
           ),
@@ -84,14 +211,124 @@ export const BulkGreeksProcessorLive = Layer.effect(
         return result
       })
 
+    // Failed fetches worth another pass; permanent failures would fail the same way again
+    const isRetryable = (result: ExpirationResult) =>
+      !result.success && result.failureKind === 'transient'
+
+    // Fetch failed expirations again after a pause, carrying their earlier errors
+    const retryPass = (
+      failed: ReadonlyArray<ExpirationResult>,
+      expirations: ReadonlyArray<ExpirationDate>,
+      params: BulkGreeksParams,
+      concurrency: AdaptiveConcurrency,
+      max: number,
+      pass: number,
+    ) =>
+      Effect.gen(function* (_) {
+        yield* _(
+          Effect.log(
+            `Retrying ${failed.length} failed expirations (pass ${pass + 1}) in ` +
+              `${config.download.expirationRetryDelayMs}ms: ${failed.map((r) => r.expiration).join(', ')}`,
+          ),
+        )
+        yield* _(Effect.sleep(config.download.expirationRetryDelayMs))
+
+        return yield* _(
+          Effect.all(
+            failed.map((previous) => {
+              const index = expirations.findIndex(
+                (exp) => exp.date.replace(/-/g, '') === previous.expiration,
+              )
+              return processExpiration(expirations[index], index, params, concurrency).pipe(
+                Effect.map((next) =>
+                  withStreamRetry(
+                    {
+                      ...next,
+                      attempts: (previous.attempts ?? 1) + 1,
+                      previousErrors: [
+                        ...(previous.previousErrors ?? []),
+                        ...(previous.error ? [previous.error] : []),
+                      ],
+                    },
+                    expirations,
+                    params,
+                    concurrency,
+                    max,
+                    pass + 1,
+                  ),
+                ),
+              )
+            }),
+            { concurrency: max },
+          ),
+        )
+      })
+
+    // A streamed expiration is only fetched as its rows are read, so a response failing partway
+    // surfaces in the reader. It hands the error back here to be classified like any other
+    // failure and, while passes are left, fetched again
+    const withStreamRetry = (
+      result: ExpirationResult,
+      expirations: ReadonlyArray<ExpirationDate>,
+      params: BulkGreeksParams,
+      concurrency: AdaptiveConcurrency,
+      max: number,
+      pass: number,
+    ): ExpirationResult =>
+      result.records === undefined
+        ? result
+        : {
+            ...result,
+            retry: (error) => {
+              const failed: ExpirationResult = {
+                expiration: result.expiration,
+                success: false,
+                error,
+                failureKind: failureKindOf(error),
+                recordCount: 0,
+                processingTimeMs: result.processingTimeMs,
+                concurrency: result.concurrency,
+                dte: result.dte,
+                attempts: result.attempts,
+                previousErrors: result.previousErrors,
+              }
+              return pass > config.download.expirationRetries || !isRetryable(failed)
+                ? Effect.succeed(failed)
+                : Effect.map(
+                    retryPass([failed], expirations, params, concurrency, max, pass),
+                    ([next]) => next,
+                  )
+            },
+          }
+
+    // Markets are closed on weekends and holidays, so there is nothing to fetch
+    const isTradingDate = (tradeDate: string) =>
+      calendar.getSession(tradeDate).pipe(
+        Effect.tap((session) =>
+          session.isTradingDay
+            ? Effect.void
+            : Effect.log(
+                `Skipping ${tradeDate}: not a trading day${session.holiday ? ` (${session.holiday})` : ''}`,
+              ),
+        ),
+        Effect.map((session) => session.isTradingDay),
+        Effect.catchAll((error) =>
+          Effect.fail(new BulkProcessingError({ message: error.message, cause: error })),
+        ),
+      )
+
     return BulkGreeksProcessor.of({
       processBulkGreeks: (params: BulkGreeksParams) =>
         Effect.gen(function* (_) {
           const startTime = new Date()
 
+          if (!(yield* _(isTradingDate(params.tradeDate)))) {
+            return emptyMetrics(startTime)
+          }
+
           // Get list of available expirations
           const allExpirations = yield* _(
-            apiClient.listExpirations().pipe(
+            apiClient.listExpirations(params.root).pipe(
               Effect.catchAll((error) =>
                 Effect.fail(
                   new BulkProcessingError({
@@ -104,8 +341,13 @@ export const BulkGreeksProcessorLive = Layer.effect(
           )
 
           // Filter expirations based on trade date and maxDTE
-          const filteredExpirations = yield* _(
-            filterExpirationsInternal(allExpirations, params.tradeDate, params.maxDTE).pipe(
+          const dteExpirations = yield* _(
+            filterExpirationsInternal(
+              calendar,
+              allExpirations,
+              params.tradeDate,
+              params.maxDTE,
+            ).pipe(
               Effect.catchAll((error) =>
                 Effect.fail(
                   new BulkProcessingError({
@@ -116,41 +358,51 @@ export const BulkGreeksProcessorLive = Layer.effect(
               ),
             ),
           )
+          const filteredExpirations = restrictToExpirations(dteExpirations, params.expirations)
 
           if (filteredExpirations.length === 0) {
-            return {
-              totalExpirations: 0,
-              successfulExpirations: 0,
-              failedExpirations: 0,
-              totalRecords: 0,
-              totalProcessingTimeMs: 0,
-              averageProcessingTimeMs: 0,
-              startTime,
-              endTime: new Date(),
-              results: [],
-            }
+            return emptyMetrics(startTime)
           }
 
+          const { concurrency, max } = yield* _(makeConcurrency(params))
+
           // Set initial progress
           yield* _(
             Ref.set(progressRef, {
               current: 0,
               total: filteredExpirations.length,
               currentExpiration: undefined,
+              concurrency: yield* _(concurrency.current),
             }),
           )
 
-          // Process each expiration, capturing both successes and failures
-          const concurrency = params.concurrency ?? config.thetaData.maxConcurrentRequests ?? 2
-
-          // Process all expirations with specified concurrency
-          const results = yield* _(
+          // Process all expirations, capturing both successes and failures; the concurrency
+          // limit decides how many of the fibers fetch at once
+          let results = yield* _(
             Effect.all(
-              filteredExpirations.map((exp, idx) => processExpiration(exp, idx, params)),
-              { concurrency },
+              filteredExpirations.map((exp, idx) =>
+                Effect.map(processExpiration(exp, idx, params, concurrency), (result) =>
+                  withStreamRetry(result, filteredExpirations, params, concurrency, max, 1),
+                ),
+              ),
+              { concurrency: max },
             ),
           )
 
+          // Later passes over the transient failures, replacing their results in place
+          for (let pass = 1; pass <= config.download.expirationRetries; pass++) {
+            const failed = results.filter(isRetryable)
+            if (failed.length === 0) {
+              break
+            }
+            const retried = new Map(
+              (yield* _(
+                retryPass(failed, filteredExpirations, params, concurrency, max, pass),
+              )).map((result) => [result.expiration, result]),
+            )
+            results = results.map((result) => retried.get(result.expiration) ?? result)
+          }
+
           // Clear progress
           yield* _(Ref.set(progressRef, undefined))
 
@@ -171,6 +423,7 @@ export const BulkGreeksProcessorLive = Layer.effect(
             startTime,
             endTime,
             results,
+            concurrencyHistory: yield* _(concurrency.history),
           }
 
           // Log summary
@@ -185,16 +438,20 @@ export const BulkGreeksProcessorLive = Layer.effect(
         }),
 
       filterExpirations: (expirations, tradeDate, maxDTE) =>
-        filterExpirationsInternal(expirations, tradeDate, maxDTE),
+        filterExpirationsInternal(calendar, expirations, tradeDate, maxDTE),
 
       getProgress: () => Ref.get(progressRef),
 
       streamBulkGreeks: (params: BulkGreeksParams) =>
         Stream.unwrap(
           Effect.gen(function* (_) {
+            if (!(yield* _(isTradingDate(params.tradeDate)))) {
+              return Stream.empty
+            }
+
             // Get list of available expirations
             const allExpirations = yield* _(
-              apiClient.listExpirations().pipe(
+              apiClient.listExpirations(params.root).pipe(
                 Effect.catchAll((error) =>
                   Effect.fail(
                     new BulkProcessingError({
@@ -207,8 +464,13 @@ export const BulkGreeksProcessorLive = Layer.effect(
             )
 
             // Filter expirations based on trade date and maxDTE
-            const filteredExpirations = yield* _(
-              filterExpirationsInternal(allExpirations, params.tradeDate, params.maxDTE).pipe(
+            const dteExpirations = yield* _(
+              filterExpirationsInternal(
+                calendar,
+                allExpirations,
+                params.tradeDate,
+                params.maxDTE,
+              ).pipe(
                 Effect.catchAll((error) =>
                   Effect.fail(
                     new BulkProcessingError({
@@ -219,28 +481,80 @@ export const BulkGreeksProcessorLive = Layer.effect(
                 ),
               ),
             )
+            const filteredExpirations = restrictToExpirations(dteExpirations, params.expirations)
 
             if (filteredExpirations.length === 0) {
               return Stream.empty
             }
 
+            const { concurrency, max } = yield* _(makeConcurrency(params))
+
             // Set initial progress
             yield* _(
               Ref.set(progressRef, {
                 current: 0,
                 total: filteredExpirations.length,
                 currentExpiration: undefined,
+                concurrency: yield* _(concurrency.current),
               }),
             )
 
-            const concurrency = params.concurrency ?? config.thetaData.maxConcurrentRequests ?? 2
+            // Transient failures are held back and emitted after their later passes
+            const withRetries = (
+              results: Stream.Stream<ExpirationResult>,
+              pass: number,
+            ): Stream.Stream<ExpirationResult> =>
+              pass > config.download.expirationRetries
+                ? results
+                : Stream.unwrap(
+                    Effect.map(Ref.make<ReadonlyArray<ExpirationResult>>([]), (held) =>
+                      results.pipe(
+                        Stream.filterEffect((result) =>
+                          isRetryable(result)
+                            ? Effect.as(
+                                Ref.update(held, (h) => [...h, result]),
+                                false,
+                              )
+                            : Effect.succeed(true),
+                        ),
+                        Stream.concat(
+                          Stream.unwrap(
+                            Effect.map(Ref.get(held), (failed) =>
+                              failed.length === 0
+                                ? Stream.empty
+                                : withRetries(
+                                    Stream.fromIterableEffect(
+                                      retryPass(
+                                        failed,
+                                        filteredExpirations,
+                                        params,
+                                        concurrency,
+                                        max,
+                                        pass,
+                                      ),
+                                    ),
+                                    pass + 1,
+                                  ),
+                            ),
+                          ),
+                        ),
+                      ),
+                    ),
+                  )
 
             // Stream expirations with concurrent processing
-            return Stream.fromIterable(filteredExpirations).pipe(
+            const firstPass = Stream.fromIterable(filteredExpirations).pipe(
               Stream.zipWithIndex,
-              Stream.mapEffect(([exp, index]) => processExpiration(exp, index, params), {
-                concurrency,
-              }),
+              Stream.mapEffect(
+                ([exp, index]) =>
+                  Effect.map(processExpiration(exp, index, params, concurrency), (result) =>
+                    withStreamRetry(result, filteredExpirations, params, concurrency, max, 1),
+                  ),
+                { concurrency: max },
+              ),
+            )
+
+            return withRetries(firstPass, 1).pipe(
               Stream.tap(() =>
                 Effect.gen(function* (_) {
                   const progress = yield* _(Ref.get(progressRef))
@@ -256,10 +570,93 @@ export const BulkGreeksProcessorLive = Layer.effect(
   }),
 )
 
+// The terminal takes times of day as milliseconds since midnight ET
+const msOfDayParam = (ms?: number) => (ms === undefined ? undefined : String(ms))
+
+const asRows = (rows: ReadonlyArray<OptionsRecord>) => ({ rows, recordCount: rows.length })
+
+/**
+ * Fetch one expiration's rows of a dataset in full
+ * Greeks rows are returned as data so they can be validated; other datasets as rows
+ */
+const fetchDataset = (
+  apiClient: ThetaDataApiClientService,
+  dataset: OptionsDataset,
+  params: BulkOptionsGreeksParams,
+): Effect.Effect<
+  Pick<ExpirationResult, 'data' | 'rows' | 'recordCount'>,
+  ThetaDataConnectionError | ThetaDataApiError | ThetaDataRateLimitError
+> => {
+  switch (dataset) {
+    case 'greeks':
+      return Effect.map(apiClient.getBulkOptionsGreeks(params), (data) => ({
+        data,
+        recordCount: data.length,
+      }))
+    case 'quote':
+      return Effect.map(apiClient.getBulkOptionsQuotes(params), asRows)
+    case 'trade':
+      return Effect.map(apiClient.getBulkOptionsTrades(params), asRows)
+    case 'ohlc':
+      return Effect.map(apiClient.getBulkOptionsOhlc(params), asRows)
+    case 'open_interest':
+      return Effect.map(apiClient.getBulkOptionsOpenInterest(params), asRows)
+    case 'eod':
+      return Effect.map(apiClient.getBulkOptionsEod(params), asRows)
+  }
+}
+
+/**
+ * Drop the fetched rows a strike filter excludes
+ * The bulk endpoints take no strike bounds, so every listed strike is fetched
+ */
+const filterFetched = (
+  fetched: Pick<ExpirationResult, 'data' | 'rows' | 'recordCount'>,
+  filter?: StrikeFilter,
+): Pick<ExpirationResult, 'data' | 'rows' | 'recordCount'> => {
+  if (!isStrikeFilterActive(filter)) {
+    return fetched
+  }
+  const keep = strikeFilterPredicate(filter)
+  if (fetched.data) {
+    const data = fetched.data.filter(keep)
+    return { data, recordCount: data.length }
+  }
+  return asRows((fetched.rows ?? []).filter(keep))
+}
+
+/**
+ * Keep only the requested expirations when an explicit list is given
+ */
+const restrictToExpirations = (
+  expirations: ReadonlyArray<ExpirationDate>,
+  requested?: ReadonlyArray<string>,
+): ReadonlyArray<ExpirationDate> => {
+  if (!requested) {
+    return expirations
+  }
+  const wanted = new Set(requested.map((exp) => exp.replace(/-/g, '')))
+  return expirations.filter((exp) => wanted.has(exp.date.replace(/-/g, '')))
+}
+
+const emptyMetrics = (startTime: Date): ProcessingMetrics => ({
+  totalExpirations: 0,
+  successfulExpirations: 0,
+  failedExpirations: 0,
+  totalRecords: 0,
+  totalProcessingTimeMs: 0,
+  averageProcessingTimeMs: 0,
+  startTime,
+  endTime: new Date(),
+  results: [],
+})
+
 /**
  * Internal helper to filter expirations
+ * maxDTE is measured in trading days, so weekends and holidays do not count
  */
 function filterExpirationsInternal(
+  calendar: Context.Tag.Service<TradingCalendar>,
   expirations: ReadonlyArray<ExpirationDate>,
   tradeDate: string,
   maxDTE?: number,
@@ -277,40 +674,35 @@ function filterExpirationsInternal(
       )
     }
 
-    // Parse trade date
-    const year = parseInt(tradeDate.slice(0, 4))
-    const month = parseInt(tradeDate.slice(4, 6)) - 1 // JavaScript months are 0-indexed
-    const day = parseInt(tradeDate.slice(6, 8))
-    const tradeDateObj = new Date(year, month, day)
-
-    // Filter expirations based on trade date and maxDTE
-    const filtered = expirations.filter((exp) => {
-      // Parse expiration date
-      const expDateObj = new Date(exp.date)
+    const filtered: ExpirationDate[] = []
+    for (const exp of expirations) {
+      const tradingDaysToExpiration = yield* _(
+        calendar
+          .tradingDaysToExpiration(tradeDate, exp.date)
+          .pipe(
+            Effect.mapError(
+              (error) => new ExpirationFilterError({ message: error.message, tradeDate }),
+            ),
+          ),
+      )
 
       // Expiration must be on or after trade date
-      if (expDateObj < tradeDateObj) {
-        return false
+      if (tradingDaysToExpiration < 0) {
+        continue
       }
 
-      // Calculate days to expiration from trade date
-      const msPerDay = 24 * 60 * 60 * 1000
-      const daysFromTradeDate = Math.floor(
-        (expDateObj.getTime() - tradeDateObj.getTime()) / msPerDay,
-      )
-
       // Apply maxDTE filter if specified
-      if (maxDTE !== undefined && daysFromTradeDate > maxDTE) {
-        return false
+      if (maxDTE !== undefined && tradingDaysToExpiration > maxDTE) {
+        continue
       }
 
-      return true
-    })
+      filtered.push(exp)
+    }
 
     yield* _(
       Effect.log(
         `Filtered expirations: ${filtered.length} of ${expirations.length} ` +
-          `(trade date: ${tradeDate}, maxDTE: ${maxDTE ?? 'unlimited'})`,
+          `(trade date: ${tradeDate}, maxDTE: ${maxDTE ?? 'unlimited'} trading days)`,
       ),
     )
 
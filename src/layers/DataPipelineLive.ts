@@ -1,23 +1,155 @@
 import * as crypto from 'node:crypto'
-import { Effect, Layer, Ref, Stream } from 'effect'
+import { Chunk, Data, Effect, Either, Layer, Option, Ref, Stream } from 'effect'
+import type {
+  BulkProcessingError,
+  ExpirationResult,
+  FailureKind,
+} from '../services/BulkGreeksProcessor'
 import { DataPipeline, DataPipelineError, type PipelineProgress } from '../services/DataPipeline'
-import { DataWriter, type WriteMetadata } from '../services/DataWriter'
-import { MetricsWriter, type PipelineRunMetrics } from '../services/MetricsWriter'
+import { DataValidationService, type ValidationReport } from '../services/DataValidationService'
+import { DataWriter, type OutputLocation, type WriteMetadata } from '../services/DataWriter'
+import { type DeadLetter, DeadLetterQueue } from '../services/DeadLetterQueue'
+import { type CheckpointError, DownloadCheckpoint } from '../services/DownloadCheckpoint'
+import {
+  type ConcurrencyReading,
+  MetricsWriter,
+  type PipelineRunMetrics,
+} from '../services/MetricsWriter'
+import { RateLimiter, type RateLimiterMetrics } from '../services/RateLimiter'
+import type { OptionsGreeksData, OptionsRecord } from '../services/ThetaDataApiClient'
+import { failureKindOf } from '../utils/failureKind'
+import { sha256File } from '../utils/fileChecksum'
+import {
+  pathTemplatePlaceholders,
+  TRADE_DATE_PLACEHOLDERS,
+  validatePathTemplate,
+} from '../utils/pathTemplate'
+
+// Violation samples kept per rule for the whole run
+const MAX_REPORT_SAMPLES = 10
+
+// Calendar days from a YYYYMMDD trade date to a YYYYMMDD expiration
+const calendarDaysBetween = (tradeDate: string, expiration: string) => {
+  const utc = (day: string) =>
+    Date.UTC(Number(day.slice(0, 4)), Number(day.slice(4, 6)) - 1, Number(day.slice(6, 8)))
+  return Math.round((utc(expiration) - utc(tradeDate)) / 86_400_000)
+}
+
+// A pipeline's path template must be valid and, without a trade date, not need one
+const checkFileNamePattern = (pattern: string, tradeDate?: string) =>
+  Either.flatMap(
+    Either.mapLeft(validatePathTemplate(pattern), (error) => error.message),
+    (valid) => {
+      const needed = pathTemplatePlaceholders(valid).filter((name) =>
+        TRADE_DATE_PLACEHOLDERS.includes(name),
+      )
+      return tradeDate === undefined && needed.length > 0
+        ? Either.left(`Path template ${valid} uses {${needed[0]}} but no trade date was given`)
+        : Either.right(valid)
+    },
+  )
+
+const emptyValidationReport: ValidationReport = {
+  rowsChecked: 0,
+  rowsDropped: 0,
+  rowsWarned: 0,
+  failedExpirations: [],
+  rules: [],
+}
+
+// Combine per-expiration reports into the run report, summing violations rule by rule
+const mergeValidationReports = (
+  total: ValidationReport,
+  next: ValidationReport,
+): ValidationReport => {
+  const rules = [...total.rules]
+  for (const violation of next.rules) {
+    const index = rules.findIndex((r) => r.rule === violation.rule)
+    if (index === -1) {
+      rules.push(violation)
+    } else {
+      const existing = rules[index]
+      rules[index] = {
+        ...existing,
+        count: existing.count + violation.count,
+        samples: [...existing.samples, ...violation.samples].slice(0, MAX_REPORT_SAMPLES),
+      }
+    }
+  }
+
+  return {
+    rowsChecked: total.rowsChecked + next.rowsChecked,
+    rowsDropped: total.rowsDropped + next.rowsDropped,
+    rowsWarned: total.rowsWarned + next.rowsWarned,
+    failedExpirations: [...total.failedExpirations, ...next.failedExpirations],
+    rules,
+  }
+}
+
+// Throttling between two readings of the shared limiter, i.e. during one run
+const throttlingSince = (
+  start: RateLimiterMetrics,
+  end: RateLimiterMetrics,
+): RateLimiterMetrics => ({
+  requests: end.requests - start.requests,
+  throttledRequests: end.throttledRequests - start.throttledRequests,
+  throttledMs: end.throttledMs - start.throttledMs,
+  rateLimitPauses: end.rateLimitPauses - start.rateLimitPauses,
+})
+
+const validationFailureMessage = (report: ValidationReport) =>
+  `Validation failed: ${report.rules
+    .filter((r) => r.policy === 'fail')
+    .map((r) => `${r.count} rows failed ${r.rule}`)
+    .join(', ')}`
+
+// A fail-policy rule fired partway through a streamed expiration
+class ValidationRejected extends Data.TaggedError('ValidationRejected')<{
+  readonly report: ValidationReport
+}> {}
 
 export const DataPipelineLive = Layer.effect(
   DataPipeline,
   Effect.gen(function* (_) {
     const writer = yield* _(DataWriter)
     const metricsWriter = yield* _(MetricsWriter)
+    const checkpoint = yield* _(DownloadCheckpoint)
+    const validation = yield* _(DataValidationService)
+    const limiter = yield* _(RateLimiter)
+    const deadLetterQueue = yield* _(DeadLetterQueue)
 
     // State for tracking progress
     const progressRef = yield* _(Ref.make<PipelineProgress | undefined>(undefined))
 
+    // A status file that cannot be updated should not abort the download itself
+    const recordCheckpoint = (update: Effect.Effect<void, CheckpointError>) =>
+      update.pipe(
+        Effect.catchAll((error) =>
+          Effect.log(`Failed to update download status: ${error.message}`),
+        ),
+      )
+
+    // SHA-256 of a finished output file, or undefined if the writer produced no file
+    const checksumFile = (filePath: string) =>
+      Effect.tryPromise(() => sha256File(filePath)).pipe(
+        Effect.catchAll((error) =>
+          Effect.log(`Failed to checksum ${filePath}: ${error}`).pipe(Effect.as(undefined)),
+        ),
+      )
+
     return DataPipeline.of({
       process: (dataStream, config) =>
         Effect.gen(function* (_) {
+          if (config.fileNamePattern !== undefined) {
+            const checked = checkFileNamePattern(config.fileNamePattern, config.tradeDate)
+            if (Either.isLeft(checked)) {
+              return yield* _(Effect.fail(new DataPipelineError({ message: checked.left })))
+            }
+          }
+
           const runId = crypto.randomUUID()
           const startTime = new Date()
+          const limiterAtStart = yield* _(limiter.getMetrics())
 
           // Initialize metrics
           const metricsRef = yield* _(
@@ -31,8 +163,11 @@ export const DataPipelineLive = Layer.effect(
               peakMemoryUsage: number
               memoryReadings: number[]
               throughputReadings: number[]
-              errors: Array<{ expiration: string; errorType: string; message: string }>
+              errors: PipelineRunMetrics['errors'][number][]
+              deadLetters: DeadLetter[]
               filesCreated: string[]
+              validation: ValidationReport
+              concurrency: ConcurrencyReading[]
             }>({
               totalExpirations: 0,
               processedExpirations: 0,
@@ -44,7 +179,10 @@ export const DataPipelineLive = Layer.effect(
               memoryReadings: [],
               throughputReadings: [],
               errors: [],
+              deadLetters: [],
               filesCreated: [],
+              validation: emptyValidationReport,
+              concurrency: [],
             }),
           )
 
@@ -62,6 +200,14 @@ export const DataPipelineLive = Layer.effect(
             }),
           )
 
+          if (config.expirations) {
+            yield* _(
+              recordCheckpoint(
+                checkpoint.markPending(config.outputDir, config.root, config.expirations),
+              ),
+            )
+          }
+
           // Track processing start for throughput calculation
           let lastRecordTime = Date.now()
           let _lastRecordCount = 0
@@ -82,6 +228,419 @@ export const DataPipelineLive = Layer.effect(
             yield* _(Ref.update(progressRef, (p) => (p ? { ...p, memoryUsageMB: memoryMB } : p)))
           })
 
+          // Where an expiration's file goes; results without a DTE count calendar days
+          const locationOf = (
+            result: Pick<ExpirationResult, 'expiration' | 'dte'>,
+          ): OutputLocation => ({
+            root: config.root,
+            expiration: result.expiration,
+            outputDir: config.outputDir,
+            dataset: config.dataset,
+            fileNamePattern: config.fileNamePattern,
+            dataDirectory: config.dataDirectory,
+            tradeDate: config.tradeDate,
+            dte:
+              result.dte ??
+              (config.tradeDate === undefined
+                ? undefined
+                : calendarDaysBetween(config.tradeDate, result.expiration)),
+          })
+
+          // Write one chunk and update record, throughput and memory metrics
+          // Write failures are recorded and returned rather than failing the pipeline
+          const writeChunk = (chunk: ReadonlyArray<OptionsRecord>, metadata: WriteMetadata) =>
+            Effect.gen(function* (_) {
+              const writeError = yield* _(
+                writer.writeChunk(chunk, metadata).pipe(
+                  Effect.as<string | undefined>(undefined),
+                  Effect.catchAll((error) =>
+                    Ref.update(metricsRef, (m) => ({
+                      ...m,
+                      errors: [
+                        ...m.errors,
+                        {
+                          expiration: metadata.expiration,
+                          errorType: 'WriteError',
+                          message: error.message,
+                          failureKind: 'transient' as const,
+                          recovered: false,
+                        },
+                      ],
+                    })).pipe(Effect.as(error.message)),
+                  ),
+                ),
+              )
+
+              // Update metrics after each chunk
+              yield* _(
+                Ref.update(metricsRef, (m) => ({
+                  ...m,
+                  totalRecords: m.totalRecords + chunk.length,
+                  totalDataSize: m.totalDataSize + chunk.length * 100, // Estimate 100 bytes per record
+                })),
+              )
+
+              // Calculate throughput
+              const now = Date.now()
+              const timeDelta = (now - lastRecordTime) / 1000 // seconds
+              const recordDelta = chunk.length
+
+              if (timeDelta > 0) {
+                const throughput = recordDelta / timeDelta
+
+                yield* _(
+                  Ref.update(metricsRef, (m) => ({
+                    ...m,
+                    throughputReadings: [...m.throughputReadings, throughput],
+                  })),
+                )
+
+                yield* _(
+                  Ref.update(progressRef, (p) =>
+                    p
+                      ? {
+                          ...p,
+                          totalRecords: p.totalRecords + chunk.length,
+                          recordsPerSecond: throughput,
+                        }
+                      : p,
+                  ),
+                )
+
+                lastRecordTime = now
+                _lastRecordCount += recordDelta
+              }
+
+              // Sample memory while an expiration is being written, not only between expirations
+              yield* _(updateMemoryMetrics)
+
+              return writeError
+            })
+
+          const recordValidation = (expiration: string, report: ValidationReport) =>
+            Effect.gen(function* (_) {
+              yield* _(
+                Ref.update(metricsRef, (m) => ({
+                  ...m,
+                  validation: mergeValidationReports(m.validation, report),
+                })),
+              )
+
+              for (const violation of report.rules) {
+                yield* _(
+                  Effect.logWarning(
+                    `${expiration}: ${violation.count} rows failed ${violation.rule} (${violation.policy})`,
+                  ),
+                )
+              }
+            })
+
+          // The writer has renamed the file into place after the last chunk
+          const recordSuccess = (
+            location: OutputLocation,
+            recordCount: number,
+            writeError: string | undefined,
+            attempts: number,
+          ) =>
+            Effect.gen(function* (_) {
+              const { expiration } = location
+
+              // Update successful expiration count
+              yield* _(
+                Ref.update(metricsRef, (m) => ({
+                  ...m,
+                  successfulExpirations: m.successfulExpirations + 1,
+                })),
+              )
+
+              if (writeError) {
+                yield* _(
+                  recordCheckpoint(
+                    checkpoint.markFailed(config.outputDir, config.root, expiration, writeError),
+                  ),
+                )
+                yield* _(
+                  Ref.update(metricsRef, (m) => ({
+                    ...m,
+                    deadLetters: [
+                      ...m.deadLetters,
+                      {
+                        expiration,
+                        errorType: 'WriteError',
+                        message: writeError,
+                        failureKind: 'transient' as const,
+                        attempts,
+                      },
+                    ],
+                  })),
+                )
+                return
+              }
+
+              const filePath = recordCount > 0 ? writer.getOutputPath(location) : undefined
+              const checksum = filePath ? yield* _(checksumFile(filePath)) : undefined
+
+              yield* _(
+                recordCheckpoint(
+                  checkpoint.markComplete(config.outputDir, config.root, expiration, {
+                    recordCount,
+                    filePath,
+                    checksum,
+                    timeWindow: config.timeWindow,
+                  }),
+                ),
+              )
+            })
+
+          const recordFailure = (
+            expiration: string,
+            errorType: string,
+            message: string,
+            failureKind: FailureKind,
+            attempts: number,
+          ) =>
+            Effect.gen(function* (_) {
+              yield* _(
+                Ref.update(metricsRef, (m) => ({
+                  ...m,
+                  failedExpirations: m.failedExpirations + 1,
+                  errors: [
+                    ...m.errors,
+                    { expiration, errorType, message, failureKind, recovered: false },
+                  ],
+                  deadLetters: [
+                    ...m.deadLetters,
+                    { expiration, errorType, message, failureKind, attempts },
+                  ],
+                })),
+              )
+
+              yield* _(
+                recordCheckpoint(
+                  checkpoint.markFailed(config.outputDir, config.root, expiration, message),
+                ),
+              )
+            })
+
+          // Failures of an expiration's earlier fetch passes; only transient failures are
+          // fetched again
+          const recordPreviousErrors = (result: ExpirationResult, recovered: boolean) =>
+            Ref.update(metricsRef, (m) => ({
+              ...m,
+              errors: [
+                ...m.errors,
+                ...(result.previousErrors ?? []).map((error) => ({
+                  expiration: result.expiration,
+                  errorType: 'FetchError',
+                  message: error.message,
+                  failureKind: 'transient' as const,
+                  recovered,
+                })),
+              ],
+            }))
+
+          // Rows fetched in full: validate the whole expiration, then write it in chunks
+          const writeFetchedExpiration = (result: ExpirationResult) =>
+            Effect.gen(function* (_) {
+              // Check fetched rows before anything reaches the writer
+              // Only Greeks have validation rules; other datasets are written as fetched
+              const validated =
+                result.success && result.data
+                  ? yield* _(validation.validateExpiration(result.expiration, result.data))
+                  : result.success && result.rows
+                    ? { rows: result.rows, failed: false, report: emptyValidationReport }
+                    : undefined
+
+              if (validated) {
+                yield* _(recordValidation(result.expiration, validated.report))
+              }
+
+              // Handle failed expiration: the fetch failed or a fail-policy rule rejected it
+              if (!validated) {
+                yield* _(
+                  recordFailure(
+                    result.expiration,
+                    'FetchError',
+                    result.error?.message || 'Unknown error',
+                    result.failureKind ?? 'permanent',
+                    result.attempts ?? 1,
+                  ),
+                )
+                return
+              }
+              if (validated.failed) {
+                yield* _(
+                  recordFailure(
+                    result.expiration,
+                    'ValidationError',
+                    validationFailureMessage(validated.report),
+                    'permanent',
+                    result.attempts ?? 1,
+                  ),
+                )
+                return
+              }
+
+              const rows = validated.rows
+
+              // First write failure for this expiration, if any
+              let writeError: string | undefined
+
+              const chunkCount = Math.ceil(rows.length / config.chunkSize)
+              for (let i = 0; i < chunkCount; i++) {
+                const chunk = rows.slice(i * config.chunkSize, (i + 1) * config.chunkSize)
+                const chunkError = yield* _(
+                  writeChunk(chunk, {
+                    ...locationOf(result),
+                    isFirstChunk: i === 0,
+                    isLastChunk: i === chunkCount - 1,
+                    chunkIndex: i,
+                    totalRecords: rows.length,
+                    timeWindow: config.timeWindow,
+                  }),
+                )
+                writeError ??= chunkError
+              }
+
+              yield* _(
+                recordSuccess(locationOf(result), rows.length, writeError, result.attempts ?? 1),
+              )
+            })
+
+          // Rows streamed from the response: validate and write a chunk at a time so the
+          // expiration is never held in memory. The chunk after the current one is read
+          // ahead to know which chunk is last
+          const writeStreamedExpiration = (
+            result: ExpirationResult,
+            records: Stream.Stream<OptionsGreeksData, BulkProcessingError>,
+          ) =>
+            Effect.gen(function* (_) {
+              const location = locationOf(result)
+              const { expiration } = location
+              const attempts = result.attempts ?? 1
+              const reportRef = yield* _(Ref.make(emptyValidationReport))
+              const writtenRef = yield* _(
+                Ref.make({ rows: 0, writeError: undefined as string | undefined }),
+              )
+
+              const outcome = yield* _(
+                records.pipe(
+                  Stream.grouped(config.chunkSize),
+                  Stream.mapEffect((rows) =>
+                    Effect.gen(function* (_) {
+                      const validated = yield* _(
+                        validation.validateExpiration(expiration, Chunk.toReadonlyArray(rows)),
+                      )
+                      const report = yield* _(
+                        Ref.updateAndGet(reportRef, (r) =>
+                          mergeValidationReports(r, validated.report),
+                        ),
+                      )
+                      if (validated.failed) {
+                        return yield* _(Effect.fail(new ValidationRejected({ report })))
+                      }
+                      return validated.rows
+                    }),
+                  ),
+                  Stream.filter((rows) => rows.length > 0),
+                  Stream.zipWithIndex,
+                  Stream.zipWithNext,
+                  Stream.runForEach(([[rows, index], next]) =>
+                    writeChunk(rows, {
+                      ...location,
+                      isFirstChunk: index === 0,
+                      isLastChunk: Option.isNone(next),
+                      chunkIndex: index,
+                      timeWindow: config.timeWindow,
+                    }).pipe(
+                      Effect.flatMap((writeError) =>
+                        Ref.update(writtenRef, (w) => ({
+                          rows: w.rows + rows.length,
+                          writeError: w.writeError ?? writeError,
+                        })),
+                      ),
+                    ),
+                  ),
+                  Effect.either,
+                ),
+              )
+
+              yield* _(recordValidation(expiration, yield* _(Ref.get(reportRef))))
+              const written = yield* _(Ref.get(writtenRef))
+
+              if (outcome._tag === 'Right') {
+                yield* _(recordPreviousErrors(result, true))
+                yield* _(recordSuccess(location, written.rows, written.writeError, attempts))
+                return
+              }
+
+              // Chunks already written must not be renamed into place as a complete file
+              yield* _(
+                writer
+                  .discard(location)
+                  .pipe(
+                    Effect.catchAll((error) =>
+                      Effect.log(`Failed to discard partial ${expiration}: ${error.message}`),
+                    ),
+                  ),
+              )
+              yield* _(
+                Ref.update(metricsRef, (m) => ({
+                  ...m,
+                  totalRecords: m.totalRecords - written.rows,
+                  totalDataSize: m.totalDataSize - written.rows * 100,
+                })),
+              )
+
+              const error = outcome.left
+              if (error._tag === 'ValidationRejected') {
+                // The fetch itself succeeded
+                yield* _(recordPreviousErrors(result, true))
+                yield* _(
+                  recordFailure(
+                    expiration,
+                    'ValidationError',
+                    validationFailureMessage(error.report),
+                    'permanent',
+                    attempts,
+                  ),
+                )
+              } else if (result.retry) {
+                // The processor decides whether the failure is worth another fetch; what it hands
+                // back carries the earlier failures along with this one
+                yield* _(writeExpiration(yield* _(result.retry(error))))
+              } else {
+                yield* _(recordPreviousErrors(result, false))
+                yield* _(
+                  recordFailure(
+                    expiration,
+                    'FetchError',
+                    error.message,
+                    failureKindOf(error),
+                    attempts,
+                  ),
+                )
+              }
+            })
+
+          // Write one fetch of an expiration. Failures of its earlier fetches are recorded as
+          // recovered once it is known to have succeeded; a streamed fetch only is once read
+          const writeExpiration = (result: ExpirationResult): Effect.Effect<void> =>
+            Effect.gen(function* (_) {
+              yield* _(
+                recordCheckpoint(
+                  checkpoint.markInProgress(config.outputDir, config.root, result.expiration),
+                ),
+              )
+
+              if (result.success && result.records) {
+                yield* _(writeStreamedExpiration(result, result.records))
+              } else {
+                yield* _(recordPreviousErrors(result, result.success))
+                yield* _(writeFetchedExpiration(result))
+              }
+            })
+
           // Process the stream
           yield* _(
             dataStream.pipe(
@@ -92,171 +651,84 @@ export const DataPipelineLive = Layer.effect(
                   totalExpirations: m.totalExpirations + 1,
                 })),
               ),
-              // Process each expiration result
-              Stream.tap((result) =>
-                Effect.gen(function* (_) {
-                  // Update current expiration in progress
-                  yield* _(
-                    Ref.update(progressRef, (p) =>
-                      p
-                        ? {
-                            ...p,
-                            currentExpiration: result.expiration,
-                            totalExpirations: p.totalExpirations + 1,
-                          }
-                        : p,
-                    ),
-                  )
-
-                  if (result.success && result.data) {
-                    // Process successful expiration data in chunks
-                    const chunks = []
-                    for (let i = 0; i < result.data.length; i += config.chunkSize) {
-                      chunks.push(result.data.slice(i, i + config.chunkSize))
-                    }
-
-                    // Write each chunk
-                    for (let i = 0; i < chunks.length; i++) {
-                      const chunk = chunks[i]
-                      const metadata: WriteMetadata = {
-                        expiration: result.expiration,
-                        outputDir: config.outputDir,
-                        isFirstChunk: i === 0,
-                        isLastChunk: i === chunks.length - 1,
-                        chunkIndex: i,
-                        totalRecords: result.data.length,
-                      }
+              // Write several expirations at once; a streamed expiration is only fetched as its
+              // rows are written, so this is also what lets streamed fetches overlap
+              Stream.mapEffect(
+                (result) =>
+                  Effect.gen(function* (_) {
+                    // Update current expiration in progress
+                    yield* _(
+                      Ref.update(progressRef, (p) =>
+                        p
+                          ? {
+                              ...p,
+                              currentExpiration: result.expiration,
+                              totalExpirations: p.totalExpirations + 1,
+                              concurrency: result.concurrency ?? p.concurrency,
+                            }
+                          : p,
+                      ),
+                    )
 
+                    if (result.concurrency !== undefined) {
+                      const concurrency = result.concurrency
                       yield* _(
-                        writer.writeChunk(chunk, metadata).pipe(
-                          Effect.catchAll((error) =>
-                            Effect.gen(function* (_) {
-                              // Record error but continue processing
-                              yield* _(
-                                Ref.update(metricsRef, (m) => ({
-                                  ...m,
-                                  errors: [
-                                    ...m.errors,
-                                    {
-                                      expiration: result.expiration,
-                                      errorType: 'WriteError',
-                                      message: error.message,
-                                    },
-                                  ],
-                                })),
-                              )
-
-                              return Effect.succeed(undefined)
-                            }),
-                          ),
+                        Ref.update(metricsRef, (m) =>
+                          m.concurrency.at(-1)?.concurrency === concurrency
+                            ? m
+                            : {
+                                ...m,
+                                concurrency: [
+                                  ...m.concurrency,
+                                  { at: new Date(), expiration: result.expiration, concurrency },
+                                ],
+                              },
                         ),
                       )
-
-                      // Update metrics after each chunk
-                      yield* _(
-                        Ref.update(metricsRef, (m) => ({
-                          ...m,
-                          totalRecords: m.totalRecords + chunk.length,
-                          totalDataSize: m.totalDataSize + chunk.length * 100, // Estimate 100 bytes per record
-                        })),
-                      )
-
-                      // Calculate throughput
-                      const now = Date.now()
-                      const timeDelta = (now - lastRecordTime) / 1000 // seconds
-                      const recordDelta = chunk.length
-
-                      if (timeDelta > 0) {
-                        const throughput = recordDelta / timeDelta
-
-                        yield* _(
-                          Ref.update(metricsRef, (m) => ({
-                            ...m,
-                            throughputReadings: [...m.throughputReadings, throughput],
-                          })),
-                        )
-
-                        yield* _(
-                          Ref.update(progressRef, (p) =>
-                            p
-                              ? {
-                                  ...p,
-                                  totalRecords: p.totalRecords + chunk.length,
-                                  recordsPerSecond: throughput,
-                                }
-                              : p,
-                          ),
-                        )
-
-                        lastRecordTime = now
-                        _lastRecordCount += recordDelta
-                      }
                     }
 
-                    // Update successful expiration count
+                    yield* _(writeExpiration(result))
+
+                    // Update processed count
                     yield* _(
                       Ref.update(metricsRef, (m) => ({
                         ...m,
-                        successfulExpirations: m.successfulExpirations + 1,
+                        processedExpirations: m.processedExpirations + 1,
                       })),
                     )
-                  } else {
-                    // Handle failed expiration
+
                     yield* _(
-                      Ref.update(metricsRef, (m) => ({
-                        ...m,
-                        failedExpirations: m.failedExpirations + 1,
-                        errors: [
-                          ...m.errors,
-                          {
-                            expiration: result.expiration,
-                            errorType: 'FetchError',
-                            message: result.error?.message || 'Unknown error',
-                          },
-                        ],
-                      })),
+                      Ref.update(progressRef, (p) =>
+                        p
+                          ? {
+                              ...p,
+                              processedExpirations: p.processedExpirations + 1,
+                            }
+                          : p,
+                      ),
                     )
-                  }
-
-                  // Update processed count
-                  yield* _(
-                    Ref.update(metricsRef, (m) => ({
-                      ...m,
-                      processedExpirations: m.processedExpirations + 1,
-                    })),
-                  )
-
-                  yield* _(
-                    Ref.update(progressRef, (p) =>
-                      p
-                        ? {
-                            ...p,
-                            processedExpirations: p.processedExpirations + 1,
-                          }
-                        : p,
-                    ),
-                  )
 
-                  // Update memory metrics periodically
-                  yield* _(updateMemoryMetrics)
+                    // Update memory metrics periodically
+                    yield* _(updateMemoryMetrics)
 
-                  // Estimate completion time
-                  const metrics = yield* _(Ref.get(metricsRef))
-                  const progress = yield* _(Ref.get(progressRef))
+                    // Estimate completion time
+                    const metrics = yield* _(Ref.get(metricsRef))
+                    const progress = yield* _(Ref.get(progressRef))
 
-                  if (progress && metrics.processedExpirations > 0) {
-                    const elapsedMs = Date.now() - startTime.getTime()
-                    const avgTimePerExpiration = elapsedMs / metrics.processedExpirations
-                    const remainingExpirations =
-                      metrics.totalExpirations - metrics.processedExpirations
-                    const estimatedRemainingMs = remainingExpirations * avgTimePerExpiration
-                    const estimatedCompletionTime = new Date(Date.now() + estimatedRemainingMs)
+                    if (progress && metrics.processedExpirations > 0) {
+                      const elapsedMs = Date.now() - startTime.getTime()
+                      const avgTimePerExpiration = elapsedMs / metrics.processedExpirations
+                      const remainingExpirations =
+                        metrics.totalExpirations - metrics.processedExpirations
+                      const estimatedRemainingMs = remainingExpirations * avgTimePerExpiration
+                      const estimatedCompletionTime = new Date(Date.now() + estimatedRemainingMs)
 
-                    yield* _(
-                      Ref.update(progressRef, (p) => (p ? { ...p, estimatedCompletionTime } : p)),
-                    )
-                  }
-                }),
+                      yield* _(
+                        Ref.update(progressRef, (p) => (p ? { ...p, estimatedCompletionTime } : p)),
+                      )
+                    }
+                  }),
+                { concurrency: config.concurrency ?? 1 },
               ),
               Stream.runDrain,
               Effect.catchAll((error) =>
@@ -287,6 +759,7 @@ export const DataPipelineLive = Layer.effect(
           // Prepare final metrics
           const endTime = new Date()
           const finalMetrics = yield* _(Ref.get(metricsRef))
+          const throttling = throttlingSince(limiterAtStart, yield* _(limiter.getMetrics()))
 
           const pipelineMetrics: PipelineRunMetrics = {
             runId,
@@ -322,7 +795,11 @@ export const DataPipelineLive = Layer.effect(
             filesCreated: writeResult.filesCreated,
             outputFormat: writer.getFormat(),
             compressionUsed: config.compression,
+            timeWindow: config.timeWindow,
             errors: finalMetrics.errors,
+            validation: finalMetrics.validation,
+            throttling,
+            concurrency: finalMetrics.concurrency.length > 0 ? finalMetrics.concurrency : undefined,
           }
 
           // Persist metrics
@@ -338,6 +815,30 @@ export const DataPipelineLive = Layer.effect(
             ),
           )
 
+          // Keep what still failed so retry-failed can replay it
+          if (finalMetrics.deadLetters.length > 0) {
+            yield* _(
+              deadLetterQueue
+                .write({
+                  runId,
+                  createdAt: startTime.toISOString(),
+                  outputDir: config.outputDir,
+                  root: config.root,
+                  tradeDate: config.tradeDate,
+                  dataset: config.dataset,
+                  interval: config.interval,
+                  strikeFilter: config.strikeFilter,
+                  timeWindow: config.timeWindow,
+                  entries: finalMetrics.deadLetters,
+                })
+                .pipe(
+                  Effect.catchAll((error) =>
+                    Effect.log(`Failed to record failed expirations: ${error.message}`),
+                  ),
+                ),
+            )
+          }
+
           // Clear progress
           yield* _(Ref.set(progressRef, undefined))
 
@@ -348,7 +849,8 @@ export const DataPipelineLive = Layer.effect(
                 `${pipelineMetrics.totalRecords} records, ${pipelineMetrics.totalDuration.toFixed(
                   2,
                 )}s, ` +
-                `avg throughput: ${pipelineMetrics.averageThroughput.toFixed(0)} records/sec`,
+                `avg throughput: ${pipelineMetrics.averageThroughput.toFixed(0)} records/sec, ` +
+                `throttled ${(throttling.throttledMs / 1000).toFixed(2)}s`,
             ),
           )
         }),
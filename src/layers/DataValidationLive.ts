@@ -0,0 +1,135 @@
+import { Effect, Layer } from 'effect'
+import { AppConfig } from '../config/AppConfig'
+import {
+  DataValidationService,
+  type RuleViolations,
+  type ValidationRule,
+} from '../services/DataValidationService'
+import type { OptionsGreeksData } from '../services/ThetaDataApiClient'
+
+// Violation descriptions kept per rule in a report
+const MAX_SAMPLES = 5
+
+const describeRow = (row: OptionsGreeksData) => {
+  const time = Number.isNaN(row.timestamp.getTime()) ? 'invalid time' : row.timestamp.toISOString()
+  return `${row.right} ${row.strike} @ ${time}`
+}
+
+/**
+ * Built-in rules, with thresholds and policies from config.validation
+ */
+export const makeValidationRules = (
+  config: AppConfig['validation'],
+): ReadonlyArray<ValidationRule> => [
+  {
+    name: 'negative-price',
+    policy: config.negativePricePolicy,
+    check: (row) =>
+      row.bid < 0 || row.ask < 0 ? `negative quote (bid ${row.bid}, ask ${row.ask})` : undefined,
+  },
+  {
+    name: 'crossed-market',
+    policy: config.crossedMarketPolicy,
+    // An ask of 0 means no offer rather than a crossed market
+    check: (row) =>
+      row.ask > 0 && row.bid > row.ask ? `bid ${row.bid} > ask ${row.ask}` : undefined,
+  },
+  {
+    name: 'implied-volatility',
+    policy: config.impliedVolatilityPolicy,
+    check: (row) =>
+      row.impliedVolatility >= 0 && row.impliedVolatility <= config.maxImpliedVolatility
+        ? undefined
+        : `implied volatility ${row.impliedVolatility} outside [0, ${config.maxImpliedVolatility}]`,
+  },
+  {
+    name: 'iv-error',
+    policy: config.ivErrorPolicy,
+    check: (row) =>
+      Math.abs(row.ivError) <= config.maxIvError
+        ? undefined
+        : `iv_error ${row.ivError} exceeds ${config.maxIvError}`,
+  },
+  {
+    name: 'underlying-price',
+    policy: config.underlyingPricePolicy,
+    check: (row) =>
+      row.underlyingPrice > 0 ? undefined : `underlying price ${row.underlyingPrice}`,
+  },
+]
+
+/**
+ * Create a DataValidationService layer for a fixed rule set; an empty rule set passes every row
+ */
+export const makeDataValidationLive = (rules: ReadonlyArray<ValidationRule>) =>
+  Layer.succeed(
+    DataValidationService,
+    DataValidationService.of({
+      validateExpiration: (expiration, rows) =>
+        Effect.sync(() => {
+          const violations = rules.map(() => ({ count: 0, samples: [] as string[] }))
+          const kept: OptionsGreeksData[] = []
+          let rowsDropped = 0
+          let rowsWarned = 0
+          let failed = false
+
+          for (const row of rows) {
+            let drop = false
+            let warn = false
+
+            for (const [index, rule] of rules.entries()) {
+              const message = rule.check(row)
+              if (message === undefined) continue
+
+              const violation = violations[index]
+              violation.count++
+              if (violation.samples.length < MAX_SAMPLES) {
+                violation.samples.push(`${describeRow(row)}: ${message}`)
+              }
+
+              if (rule.policy === 'fail') failed = true
+              else if (rule.policy === 'drop') drop = true
+              else warn = true
+            }
+
+            if (drop) {
+              rowsDropped++
+            } else {
+              if (warn) rowsWarned++
+              kept.push(row)
+            }
+          }
+
+          const ruleReports: RuleViolations[] = rules
+            .map((rule, index) => ({
+              rule: rule.name,
+              policy: rule.policy,
+              count: violations[index].count,
+              samples: violations[index].samples,
+            }))
+            .filter((report) => report.count > 0)
+
+          return {
+            expiration,
+            rows: failed ? [] : kept,
+            failed,
+            report: {
+              rowsChecked: rows.length,
+              rowsDropped,
+              rowsWarned,
+              failedExpirations: failed ? [expiration] : [],
+              rules: ruleReports,
+            },
+          }
+        }),
+
+      getRules: () => rules,
+    }),
+  )
+
+/**
+ * DataValidationService with the built-in rules configured from AppConfig
+ */
+export const DataValidationLive = Layer.unwrapEffect(
+  Effect.map(AppConfig, (config) => makeDataValidationLive(makeValidationRules(config.validation))),
+)
@@ -1,13 +1,30 @@
 import * as path from 'node:path'
 import { Effect, Layer, Ref } from 'effect'
-import { DataWriter, DataWriterError } from '../services/DataWriter'
-import type { OptionsGreeksData } from '../services/ThetaDataApiClient'
+import {
+  type CsvCompression,
+  csvExtension,
+  DataWriter,
+  DataWriterError,
+  type OutputLocation,
+  outputPath,
+  type WriteMetadata,
+  type WriteRecord,
+} from '../services/DataWriter'
+import { columnsFor, type DatasetColumn } from '../utils/datasetColumns'
+import { type FileSink, openFileSink } from '../utils/fileSink'
+
+export interface CsvWriterOptions {
+  readonly compression: CsvCompression
+}
+
+// A file being written: the temp file its rows go to until it is renamed into place
+interface OpenCsvFile {
+  tempPath: string
+  sink: FileSink
+}
 
 interface CsvWriterState {
-  currentExpiration?: string
-  currentTempPath?: string
-  currentFinalPath?: string
-  currentWriter?: ReturnType<ReturnType<typeof Bun.file>['writer']>
+  openFiles: ReadonlyMap<string, OpenCsvFile> // By final path; several expirations may be written at once
   filesCreated: string[]
   totalRecordsWritten: number
   totalBytesWritten: number
@@ -24,197 +41,214 @@ const formatCsvValue = (value: unknown): string => {
   return String(value)
 }
 
-const optionsDataToCsvRow = (data: OptionsGreeksData): string => {
-  return [
-    formatCsvValue(data.strike),
-    formatCsvValue(data.right),
-    formatCsvValue(data.bid),
-    formatCsvValue(data.ask),
-    formatCsvValue(data.delta),
-    formatCsvValue(data.theta),
-    formatCsvValue(data.vega),
-    formatCsvValue(data.rho),
-    formatCsvValue(data.epsilon),
-    formatCsvValue(data.lambda),
-    formatCsvValue(data.impliedVolatility),
-    formatCsvValue(data.ivError),
-    formatCsvValue(data.underlyingPrice),
-    formatCsvValue(data.timestamp.toISOString()),
-  ].join(',')
-}
+const toCsvRow =
+  (columns: ReadonlyArray<DatasetColumn<WriteRecord>>, location: OutputLocation) =>
+  (data: WriteRecord): string =>
+    columns
+      .map((column) => {
+        const value = column.value(data, location)
+        return formatCsvValue(value instanceof Date ? value.toISOString() : value)
+      })
+      .join(',')
+
+/**
+ * CSV DataWriter; with compression, files are written as .csv.gz or .csv.zst
+ */
+export const makeDataWriterCsvLive = (options: Partial<CsvWriterOptions> = {}) => {
+  const compression = options.compression ?? 'none'
+  const csvOutputPath = (metadata: OutputLocation): string =>
+    outputPath(metadata, csvExtension(compression))
+
+  return Layer.effect(
+    DataWriter,
+    Effect.gen(function* (_) {
+      const stateRef = yield* _(
+        Ref.make<CsvWriterState>({
+          openFiles: new Map(),
+          filesCreated: [],
+          totalRecordsWritten: 0,
+          totalBytesWritten: 0,
+        }),
+      )
+
+      const ensureDirectoryExists = (dirPath: string) =>
+        Effect.tryPromise({
+          try: async () => {
+            // Use Bun's shell for directory creation - faster than Node.js fs
+            await Bun.$`mkdir -p ${dirPath}`.quiet()
+          },
+          catch: (error) =>
+            new DataWriterError({
+              message: `Failed to create directory: ${dirPath}`,
+              cause: error,
+            }),
+        })
+
+      // The trade date directory unless a path template is set
+      const resolveOutputPath = (metadata: OutputLocation) =>
+        Effect.try({
+          try: () => csvOutputPath(metadata),
+          catch: (error) =>
+            new DataWriterError({ message: 'Failed to resolve output path', cause: error }),
+        })
+
+      // Take a file out of the open set, so no other chunk is written to it
+      const takeOpenFile = (finalPath: string) =>
+        Ref.modify(stateRef, (s): [OpenCsvFile | undefined, CsvWriterState] => {
+          const file = s.openFiles.get(finalPath)
+          if (!file) {
+            return [undefined, s]
+          }
+          const openFiles = new Map(s.openFiles)
+          openFiles.delete(finalPath)
+          return [file, { ...s, openFiles }]
+        })
 
-const CSV_HEADERS =
-  'strike,right,bid,ask,delta,theta,vega,rho,epsilon,lambda,implied_volatility,iv_error,underlying_price,timestamp'
+      const closeFile = (finalPath: string) =>
+        Effect.gen(function* (_) {
+          const file = yield* _(takeOpenFile(finalPath))
+          if (!file) {
+            return
+          }
 
-export const DataWriterCsvLive = Layer.effect(
-  DataWriter,
-  Effect.gen(function* (_) {
-    const stateRef = yield* _(
-      Ref.make<CsvWriterState>({
-        filesCreated: [],
-        totalRecordsWritten: 0,
-        totalBytesWritten: 0,
-      }),
-    )
-
-    // Note: outputDir now comes from metadata per write operation
-    // Removing the static outputDir - it will come from WriteMetadata
-
-    const ensureDirectoryExists = (dirPath: string) =>
-      Effect.tryPromise({
-        try: async () => {
-          // Use Bun's shell for directory creation - faster than Node.js fs
-          await Bun.$`mkdir -p ${dirPath}`.quiet()
-        },
-        catch: (error) =>
-          new DataWriterError({ message: `Failed to create directory: ${dirPath}`, cause: error }),
-      })
+          // Close the writer; compressed output is only complete once the compressor ends
+          yield* _(
+            Effect.tryPromise({
+              try: () => file.sink.end(),
+              catch: (error) =>
+                new DataWriterError({ message: 'Failed to close writer', cause: error }),
+            }),
+          )
 
-    const closeCurrentFile = Effect.gen(function* (_) {
-      const state = yield* _(Ref.get(stateRef))
-      if (state.currentWriter) {
-        // Close the writer
-        yield* _(
-          Effect.tryPromise({
-            try: async () => {
-              await state.currentWriter!.end()
-            },
-            catch: (error) =>
-              new DataWriterError({ message: 'Failed to close writer', cause: error }),
-          }),
-        )
-      }
-
-      if (state.currentTempPath && state.currentFinalPath) {
-        // Use Bun's shell for atomic rename - faster than Node.js fs
-        yield* _(
-          Effect.tryPromise({
-            try: async () => {
-              await Bun.$`mv ${state.currentTempPath} ${state.currentFinalPath}`.quiet()
-            },
-            catch: (error) =>
-              new DataWriterError({ message: 'Failed to rename temp file', cause: error }),
-          }),
-        )
-
-        // Add to files created list
-        yield* _(
-          Ref.update(stateRef, (s) => ({
-            ...s,
-            filesCreated: [...s.filesCreated, state.currentFinalPath!],
-            currentExpiration: undefined,
-            currentWriter: undefined,
-            currentTempPath: undefined,
-            currentFinalPath: undefined,
-          })),
-        )
-      }
-    })
-
-    return DataWriter.of({
-      writeChunk: (chunk, metadata) =>
+          // Use Bun's shell for atomic rename - faster than Node.js fs
+          yield* _(
+            Effect.tryPromise({
+              try: async () => {
+                await Bun.$`mv ${file.tempPath} ${finalPath}`.quiet()
+              },
+              catch: (error) =>
+                new DataWriterError({ message: 'Failed to rename temp file', cause: error }),
+            }),
+          )
+
+          yield* _(
+            Ref.update(stateRef, (s) => ({
+              ...s,
+              filesCreated: [...s.filesCreated, finalPath],
+              totalBytesWritten: s.totalBytesWritten + file.sink.bytesWritten(),
+            })),
+          )
+        })
+
+      // Open an expiration's temp file and write the header
+      const openFile = (finalPath: string, metadata: WriteMetadata) =>
         Effect.gen(function* (_) {
-          const state = yield* _(Ref.get(stateRef))
+          const tempPath = `${finalPath}.tmp`
+
+          // Ensure the file's directory exists
+          yield* _(ensureDirectoryExists(path.dirname(finalPath)))
 
-          // Handle new expiration
-          if (metadata.expiration !== state.currentExpiration) {
-            // Close previous file if exists
-            yield* _(closeCurrentFile)
+          const sink = openFileSink(tempPath, compression)
+          const headerLine = `${columnsFor(metadata.dataset)
+            .map((column) => column.name)
+            .join(',')}\n`
+
+          yield* _(
+            Effect.tryPromise({
+              try: () => sink.write(headerLine),
+              catch: (error) =>
+                new DataWriterError({ message: 'Failed to write headers', cause: error }),
+            }),
+          )
 
-            // Ensure output directory exists (trade date directory)
-            yield* _(ensureDirectoryExists(metadata.outputDir))
+          const file = { tempPath, sink }
+          yield* _(
+            Ref.update(stateRef, (s) => ({
+              ...s,
+              openFiles: new Map(s.openFiles).set(finalPath, file),
+            })),
+          )
+          return file
+        })
 
-            // Setup new file paths - files go directly in trade date directory
-            const fileName = `spxw_exp_${metadata.expiration.replace(/-/g, '')}.csv`
-            const finalPath = path.join(metadata.outputDir, fileName)
-            const tempPath = `${finalPath}.tmp`
+      return DataWriter.of({
+        writeChunk: (chunk, metadata) =>
+          Effect.gen(function* (_) {
+            const finalPath = yield* _(resolveOutputPath(metadata))
 
-            // Create a new writer for this file
-            const file = Bun.file(tempPath)
-            const writer = file.writer()
+            const file =
+              (yield* _(Ref.get(stateRef))).openFiles.get(finalPath) ??
+              (yield* _(openFile(finalPath, metadata)))
 
-            // Write headers
-            const headerLine = `${CSV_HEADERS}\n`
-            const headerBytes = Buffer.byteLength(headerLine)
+            // Format chunk data
+            const csvLines = `${chunk.map(toCsvRow(columnsFor(metadata.dataset), metadata)).join('\n')}\n`
 
             yield* _(
               Effect.tryPromise({
-                try: async () => {
-                  writer.write(headerLine)
-                  await writer.flush()
-                },
+                try: () => file.sink.write(csvLines),
                 catch: (error) =>
-                  new DataWriterError({ message: 'Failed to write headers', cause: error }),
+                  new DataWriterError({ message: 'Failed to write chunk', cause: error }),
               }),
             )
 
-            // Update state with new writer
+            // Update metrics
             yield* _(
               Ref.update(stateRef, (s) => ({
                 ...s,
-                currentExpiration: metadata.expiration,
-                currentWriter: writer,
-                currentTempPath: tempPath,
-                currentFinalPath: finalPath,
-                totalBytesWritten: s.totalBytesWritten + headerBytes,
+                totalRecordsWritten: s.totalRecordsWritten + chunk.length,
               })),
             )
-          }
-
-          // Get current state again after potential file change
-          const currentState = yield* _(Ref.get(stateRef))
 
-          if (!currentState.currentWriter) {
-            return yield* _(Effect.fail(new DataWriterError({ message: 'No active writer' })))
-          }
+            // Close file if last chunk
+            if (metadata.isLastChunk) {
+              yield* _(closeFile(finalPath))
+            }
+          }),
 
-          // Format chunk data
-          const csvLines = `${chunk.map(optionsDataToCsvRow).join('\n')}\n`
-          const chunkBytes = Buffer.byteLength(csvLines)
+        discard: (metadata) =>
+          Effect.gen(function* (_) {
+            const file = yield* _(takeOpenFile(yield* _(resolveOutputPath(metadata))))
+            if (!file) {
+              return
+            }
 
-          // Write chunk using the writer
-          yield* _(
-            Effect.tryPromise({
-              try: async () => {
-                currentState.currentWriter!.write(csvLines)
-                await currentState.currentWriter!.flush()
-              },
-              catch: (error) =>
-                new DataWriterError({ message: 'Failed to write chunk', cause: error }),
-            }),
-          )
+            yield* _(
+              Effect.tryPromise({
+                try: async () => {
+                  await file.sink.end()
+                  await Bun.$`rm -f ${file.tempPath}`.quiet()
+                },
+                catch: (error) =>
+                  new DataWriterError({ message: 'Failed to discard temp file', cause: error }),
+              }),
+            )
+          }),
 
-          // Update metrics
-          yield* _(
-            Ref.update(stateRef, (s) => ({
-              ...s,
-              totalRecordsWritten: s.totalRecordsWritten + chunk.length,
-              totalBytesWritten: s.totalBytesWritten + chunkBytes,
-            })),
-          )
+        finalize: () =>
+          Effect.gen(function* (_) {
+            // Close any remaining files
+            const open = [...(yield* _(Ref.get(stateRef))).openFiles.keys()]
+            yield* _(Effect.forEach(open, closeFile, { discard: true }))
 
-          // Close file if last chunk
-          if (metadata.isLastChunk) {
-            yield* _(closeCurrentFile)
-          }
-        }),
+            const finalState = yield* _(Ref.get(stateRef))
 
-      finalize: () =>
-        Effect.gen(function* (_) {
-          // Close any remaining file
-          yield* _(closeCurrentFile)
+            return {
+              filesCreated: finalState.filesCreated,
+              totalRecordsWritten: finalState.totalRecordsWritten,
+              totalBytesWritten: finalState.totalBytesWritten,
+              format: 'csv',
+            }
+          }),
 
-          const finalState = yield* _(Ref.get(stateRef))
+        getOutputPath: csvOutputPath,
 
-          return {
-            filesCreated: finalState.filesCreated,
-            totalRecordsWritten: finalState.totalRecordsWritten,
-            totalBytesWritten: finalState.totalBytesWritten,
-            format: 'csv',
-          }
-        }),
+        getFormat: () => 'csv',
+      })
+    }),
+  )
+}
 
-      getFormat: () => 'csv',
-    })
-  }),
-)
+/**
+ * CSV DataWriter writing uncompressed .csv files
+ */
+export const DataWriterCsvLive = makeDataWriterCsvLive()
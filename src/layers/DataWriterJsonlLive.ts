@@ -0,0 +1,242 @@
+import * as path from 'node:path'
+import { Effect, Layer, Ref } from 'effect'
+import {
+  type CsvCompression,
+  DataWriter,
+  DataWriterError,
+  jsonlExtension,
+  type OutputLocation,
+  outputPath,
+  type WriteDataset,
+  type WriteRecord,
+} from '../services/DataWriter'
+import { columnsFor, type DatasetColumn } from '../utils/datasetColumns'
+import { type FileSink, openFileSink } from '../utils/fileSink'
+
+export interface JsonlWriterOptions {
+  readonly compression: CsvCompression
+  readonly fields?: ReadonlyArray<string> // Columns to keep, in this order; default every column
+}
+
+// A file being written: the temp file its lines go to until it is renamed into place
+interface OpenJsonlFile {
+  tempPath: string
+  sink: FileSink
+}
+
+interface JsonlWriterState {
+  openFiles: ReadonlyMap<string, OpenJsonlFile> // By final path; several expirations may be written at once
+  filesCreated: string[]
+  totalRecordsWritten: number
+  totalBytesWritten: number
+}
+
+const toJsonLine =
+  (columns: ReadonlyArray<DatasetColumn<WriteRecord>>, location: OutputLocation) =>
+  (data: WriteRecord): string =>
+    JSON.stringify(
+      Object.fromEntries(
+        columns.map((column) => {
+          const value = column.value(data, location)
+          return [column.name, value instanceof Date ? value.toISOString() : value]
+        }),
+      ),
+    )
+
+/**
+ * JSON Lines DataWriter: one object per row, keyed by the dataset's column names
+ * With compression, files are written as .jsonl.gz or .jsonl.zst
+ */
+export const makeDataWriterJsonlLive = (options: Partial<JsonlWriterOptions> = {}) => {
+  const compression = options.compression ?? 'none'
+  const jsonlOutputPath = (metadata: OutputLocation): string =>
+    outputPath(metadata, jsonlExtension(compression))
+
+  // The selected columns of a dataset, failing on names the dataset does not have
+  const columnsOf = (dataset: WriteDataset = 'greeks') => {
+    const columns = columnsFor(dataset)
+    if (!options.fields) {
+      return Effect.succeed(columns)
+    }
+    const unknown = options.fields.filter((name) => !columns.some((c) => c.name === name))
+    return unknown.length > 0
+      ? Effect.fail(
+          new DataWriterError({
+            message: `Unknown ${dataset} fields: ${unknown.join(', ')}`,
+          }),
+        )
+      : Effect.succeed(
+          options.fields.flatMap((name) => columns.filter((column) => column.name === name)),
+        )
+  }
+
+  return Layer.effect(
+    DataWriter,
+    Effect.gen(function* (_) {
+      const stateRef = yield* _(
+        Ref.make<JsonlWriterState>({
+          openFiles: new Map(),
+          filesCreated: [],
+          totalRecordsWritten: 0,
+          totalBytesWritten: 0,
+        }),
+      )
+
+      const ensureDirectoryExists = (dirPath: string) =>
+        Effect.tryPromise({
+          try: async () => {
+            await Bun.$`mkdir -p ${dirPath}`.quiet()
+          },
+          catch: (error) =>
+            new DataWriterError({
+              message: `Failed to create directory: ${dirPath}`,
+              cause: error,
+            }),
+        })
+
+      const resolveOutputPath = (metadata: OutputLocation) =>
+        Effect.try({
+          try: () => jsonlOutputPath(metadata),
+          catch: (error) =>
+            new DataWriterError({ message: 'Failed to resolve output path', cause: error }),
+        })
+
+      // Take a file out of the open set, so no other chunk is written to it
+      const takeOpenFile = (finalPath: string) =>
+        Ref.modify(stateRef, (s): [OpenJsonlFile | undefined, JsonlWriterState] => {
+          const file = s.openFiles.get(finalPath)
+          if (!file) {
+            return [undefined, s]
+          }
+          const openFiles = new Map(s.openFiles)
+          openFiles.delete(finalPath)
+          return [file, { ...s, openFiles }]
+        })
+
+      const closeFile = (finalPath: string) =>
+        Effect.gen(function* (_) {
+          const file = yield* _(takeOpenFile(finalPath))
+          if (!file) {
+            return
+          }
+
+          yield* _(
+            Effect.tryPromise({
+              try: () => file.sink.end(),
+              catch: (error) =>
+                new DataWriterError({ message: 'Failed to close writer', cause: error }),
+            }),
+          )
+
+          yield* _(
+            Effect.tryPromise({
+              try: async () => {
+                await Bun.$`mv ${file.tempPath} ${finalPath}`.quiet()
+              },
+              catch: (error) =>
+                new DataWriterError({ message: 'Failed to rename temp file', cause: error }),
+            }),
+          )
+
+          yield* _(
+            Ref.update(stateRef, (s) => ({
+              ...s,
+              filesCreated: [...s.filesCreated, finalPath],
+              totalBytesWritten: s.totalBytesWritten + file.sink.bytesWritten(),
+            })),
+          )
+        })
+
+      // JSON Lines has no header; the file is opened empty
+      const openFile = (finalPath: string) =>
+        Effect.gen(function* (_) {
+          const tempPath = `${finalPath}.tmp`
+          yield* _(ensureDirectoryExists(path.dirname(finalPath)))
+
+          const file = { tempPath, sink: openFileSink(tempPath, compression) }
+          yield* _(
+            Ref.update(stateRef, (s) => ({
+              ...s,
+              openFiles: new Map(s.openFiles).set(finalPath, file),
+            })),
+          )
+          return file
+        })
+
+      return DataWriter.of({
+        writeChunk: (chunk, metadata) =>
+          Effect.gen(function* (_) {
+            const columns = yield* _(columnsOf(metadata.dataset))
+            const finalPath = yield* _(resolveOutputPath(metadata))
+
+            const file =
+              (yield* _(Ref.get(stateRef))).openFiles.get(finalPath) ??
+              (yield* _(openFile(finalPath)))
+
+            const lines = `${chunk.map(toJsonLine(columns, metadata)).join('\n')}\n`
+            yield* _(
+              Effect.tryPromise({
+                try: () => file.sink.write(lines),
+                catch: (error) =>
+                  new DataWriterError({ message: 'Failed to write chunk', cause: error }),
+              }),
+            )
+
+            yield* _(
+              Ref.update(stateRef, (s) => ({
+                ...s,
+                totalRecordsWritten: s.totalRecordsWritten + chunk.length,
+              })),
+            )
+
+            if (metadata.isLastChunk) {
+              yield* _(closeFile(finalPath))
+            }
+          }),
+
+        discard: (metadata) =>
+          Effect.gen(function* (_) {
+            const file = yield* _(takeOpenFile(yield* _(resolveOutputPath(metadata))))
+            if (!file) {
+              return
+            }
+
+            yield* _(
+              Effect.tryPromise({
+                try: async () => {
+                  await file.sink.end()
+                  await Bun.$`rm -f ${file.tempPath}`.quiet()
+                },
+                catch: (error) =>
+                  new DataWriterError({ message: 'Failed to discard temp file', cause: error }),
+              }),
+            )
+          }),
+
+        finalize: () =>
+          Effect.gen(function* (_) {
+            const open = [...(yield* _(Ref.get(stateRef))).openFiles.keys()]
+            yield* _(Effect.forEach(open, closeFile, { discard: true }))
+
+            const finalState = yield* _(Ref.get(stateRef))
+
+            return {
+              filesCreated: finalState.filesCreated,
+              totalRecordsWritten: finalState.totalRecordsWritten,
+              totalBytesWritten: finalState.totalBytesWritten,
+              format: 'jsonl',
+            }
+          }),
+
+        getOutputPath: jsonlOutputPath,
+
+        getFormat: () => 'jsonl',
+      })
+    }),
+  )
+}
+
+/**
+ * JSON Lines DataWriter writing uncompressed .jsonl files with every column
+ */
+export const DataWriterJsonlLive = makeDataWriterJsonlLive()
@@ -0,0 +1,289 @@
+import * as path from 'node:path'
+import { type ParquetCompression, ParquetSchema, ParquetWriter } from '@dsnp/parquetjs'
+import { Effect, Layer, Ref } from 'effect'
+import {
+  DataWriter,
+  DataWriterError,
+  type OutputLocation,
+  outputPath,
+  type WriteDataset,
+  type WriteMetadata,
+  type WriteRecord,
+} from '../services/DataWriter'
+import { columnsFor, type DatasetColumn } from '../utils/datasetColumns'
+import { MARKET_TIME_ZONE } from '../utils/easternTime'
+import { type ParquetCompressionCodec, parquetCompression } from '../utils/parquetCodecs'
+
+export type { ParquetCompressionCodec } from '../utils/parquetCodecs'
+
+export interface ParquetWriterOptions {
+  readonly compression: ParquetCompressionCodec
+  readonly rowGroupSize: number // Rows buffered in memory before a row group is flushed
+}
+
+// A file being written: the temp file its row groups go to until it is renamed into place
+interface OpenParquetFile {
+  tempPath: string
+  writer: ParquetWriter
+}
+
+interface ParquetWriterState {
+  openFiles: ReadonlyMap<string, OpenParquetFile> // By final path; several expirations may be written at once
+  filesCreated: string[]
+  totalRecordsWritten: number
+  totalBytesWritten: number
+}
+
+const PARQUET_TYPES = {
+  double: 'DOUBLE',
+  int: 'INT64',
+  enum: 'ENUM',
+  text: 'UTF8',
+  timestamp: 'TIMESTAMP_MILLIS',
+} as const
+
+const makeSchema = (dataset: WriteDataset, compression: ParquetCompression) =>
+  new ParquetSchema(
+    Object.fromEntries(
+      columnsFor(dataset).map((column) => [
+        column.name,
+        { type: PARQUET_TYPES[column.type], compression },
+      ]),
+    ),
+  )
+
+const toParquetRow =
+  (columns: ReadonlyArray<DatasetColumn<WriteRecord>>, location: OutputLocation) =>
+  (data: WriteRecord): Record<string, unknown> =>
+    Object.fromEntries(columns.map((column) => [column.name, column.value(data, location)]))
+
+const parquetOutputPath = (metadata: OutputLocation): string => outputPath(metadata, 'parquet')
+
+const defaultParquetWriterOptions: ParquetWriterOptions = {
+  compression: 'SNAPPY',
+  rowGroupSize: 10000,
+}
+
+/**
+ * Build a Parquet DataWriter layer, overriding the default codec and row group size
+ */
+export const makeDataWriterParquetLive = (overrides: Partial<ParquetWriterOptions> = {}) => {
+  const options = { ...defaultParquetWriterOptions, ...overrides }
+
+  return Layer.effect(
+    DataWriter,
+    Effect.gen(function* (_) {
+      const compression = yield* _(
+        Effect.try({
+          try: () => parquetCompression(options.compression),
+          catch: (error) =>
+            new DataWriterError({
+              message: `Unsupported Parquet codec: ${options.compression}`,
+              cause: error,
+            }),
+        }),
+      )
+
+      // Schemas are built once per dataset this writer sees
+      const schemas = new Map<WriteDataset, ParquetSchema>()
+      const schemaFor = (dataset: WriteDataset = 'greeks') => {
+        const cached = schemas.get(dataset)
+        if (cached) return cached
+        const schema = makeSchema(dataset, compression)
+        schemas.set(dataset, schema)
+        return schema
+      }
+
+      const stateRef = yield* _(
+        Ref.make<ParquetWriterState>({
+          openFiles: new Map(),
+          filesCreated: [],
+          totalRecordsWritten: 0,
+          totalBytesWritten: 0,
+        }),
+      )
+
+      const ensureDirectoryExists = (dirPath: string) =>
+        Effect.tryPromise({
+          try: async () => {
+            await Bun.$`mkdir -p ${dirPath}`.quiet()
+          },
+          catch: (error) =>
+            new DataWriterError({
+              message: `Failed to create directory: ${dirPath}`,
+              cause: error,
+            }),
+        })
+
+      const resolveOutputPath = (metadata: OutputLocation) =>
+        Effect.try({
+          try: () => parquetOutputPath(metadata),
+          catch: (error) =>
+            new DataWriterError({ message: 'Failed to resolve output path', cause: error }),
+        })
+
+      // Take a file out of the open set, so no other chunk is written to it
+      const takeOpenFile = (finalPath: string) =>
+        Ref.modify(stateRef, (s): [OpenParquetFile | undefined, ParquetWriterState] => {
+          const file = s.openFiles.get(finalPath)
+          if (!file) {
+            return [undefined, s]
+          }
+          const openFiles = new Map(s.openFiles)
+          openFiles.delete(finalPath)
+          return [file, { ...s, openFiles }]
+        })
+
+      const closeFile = (finalPath: string) =>
+        Effect.gen(function* (_) {
+          const file = yield* _(takeOpenFile(finalPath))
+          if (!file) {
+            return
+          }
+
+          // Closing flushes the last row group and writes the footer
+          yield* _(
+            Effect.tryPromise({
+              try: () => file.writer.close(),
+              catch: (error) =>
+                new DataWriterError({ message: 'Failed to close parquet writer', cause: error }),
+            }),
+          )
+
+          const fileBytes = Bun.file(file.tempPath).size
+
+          yield* _(
+            Effect.tryPromise({
+              try: async () => {
+                await Bun.$`mv ${file.tempPath} ${finalPath}`.quiet()
+              },
+              catch: (error) =>
+                new DataWriterError({ message: 'Failed to rename temp file', cause: error }),
+            }),
+          )
+
+          yield* _(
+            Ref.update(stateRef, (s) => ({
+              ...s,
+              filesCreated: [...s.filesCreated, finalPath],
+              totalBytesWritten: s.totalBytesWritten + fileBytes,
+            })),
+          )
+        })
+
+      const openFile = (finalPath: string, metadata: WriteMetadata) =>
+        Effect.gen(function* (_) {
+          const tempPath = `${finalPath}.tmp`
+          yield* _(ensureDirectoryExists(path.dirname(finalPath)))
+
+          const writer = yield* _(
+            Effect.tryPromise({
+              try: () =>
+                ParquetWriter.openFile(schemaFor(metadata.dataset), tempPath, {
+                  rowGroupSize: options.rowGroupSize,
+                }),
+              catch: (error) =>
+                new DataWriterError({
+                  message: `Failed to open parquet file: ${tempPath}`,
+                  cause: error,
+                }),
+            }),
+          )
+
+          // timestamp is UTC; trade_date and ms_of_day are in the market's zone
+          writer.setMetadata('time_zone', MARKET_TIME_ZONE)
+
+          // Readers can tell a partial-day file from its key-value metadata
+          if (metadata.timeWindow) {
+            writer.setMetadata('time_window', JSON.stringify(metadata.timeWindow))
+          }
+
+          const file = { tempPath, writer }
+          yield* _(
+            Ref.update(stateRef, (s) => ({
+              ...s,
+              openFiles: new Map(s.openFiles).set(finalPath, file),
+            })),
+          )
+          return file
+        })
+
+      return DataWriter.of({
+        writeChunk: (chunk, metadata) =>
+          Effect.gen(function* (_) {
+            const finalPath = yield* _(resolveOutputPath(metadata))
+
+            const file =
+              (yield* _(Ref.get(stateRef))).openFiles.get(finalPath) ??
+              (yield* _(openFile(finalPath, metadata)))
+
+            // Rows are buffered by the writer and flushed as a row group once rowGroupSize is reached
+            yield* _(
+              Effect.tryPromise({
+                try: async () => {
+                  const toRow = toParquetRow(columnsFor(metadata.dataset), metadata)
+                  for (const row of chunk) {
+                    await file.writer.appendRow(toRow(row))
+                  }
+                },
+                catch: (error) =>
+                  new DataWriterError({ message: 'Failed to write chunk', cause: error }),
+              }),
+            )
+
+            yield* _(
+              Ref.update(stateRef, (s) => ({
+                ...s,
+                totalRecordsWritten: s.totalRecordsWritten + chunk.length,
+              })),
+            )
+
+            if (metadata.isLastChunk) {
+              yield* _(closeFile(finalPath))
+            }
+          }),
+
+        discard: (metadata) =>
+          Effect.gen(function* (_) {
+            const file = yield* _(takeOpenFile(yield* _(resolveOutputPath(metadata))))
+            if (!file) {
+              return
+            }
+
+            // Closing writes a footer we do not need, but releases the file handle
+            yield* _(
+              Effect.tryPromise({
+                try: async () => {
+                  await file.writer.close()
+                  await Bun.$`rm -f ${file.tempPath}`.quiet()
+                },
+                catch: (error) =>
+                  new DataWriterError({ message: 'Failed to discard temp file', cause: error }),
+              }),
+            )
+          }),
+
+        finalize: () =>
+          Effect.gen(function* (_) {
+            const open = [...(yield* _(Ref.get(stateRef))).openFiles.keys()]
+            yield* _(Effect.forEach(open, closeFile, { discard: true }))
+
+            const finalState = yield* _(Ref.get(stateRef))
+
+            return {
+              filesCreated: finalState.filesCreated,
+              totalRecordsWritten: finalState.totalRecordsWritten,
+              totalBytesWritten: finalState.totalBytesWritten,
+              format: 'parquet',
+            }
+          }),
+
+        getOutputPath: parquetOutputPath,
+
+        getFormat: () => 'parquet',
+      })
+    }),
+  )
+}
+
+export const DataWriterParquetLive = makeDataWriterParquetLive()
@@ -1,11 +1,18 @@
-import * as path from 'node:path'
 import { Effect, Layer, Ref } from 'effect'
-import { DataWriter, DataWriterError, type WriteMetadata } from '../services/DataWriter'
-import type { OptionsGreeksData } from '../services/ThetaDataApiClient'
+import {
+  DataWriter,
+  DataWriterError,
+  type OutputLocation,
+  outputPath,
+  type WriteMetadata,
+  type WriteRecord,
+} from '../services/DataWriter'
+
+const testOutputPath = (metadata: OutputLocation): string => outputPath(metadata, 'csv')
 
 interface TestWriterState {
   chunks: Array<{
-    data: ReadonlyArray<OptionsGreeksData>
+    data: ReadonlyArray<WriteRecord>
     metadata: WriteMetadata
   }>
   filesCreated: string[]
@@ -55,10 +62,7 @@ export const DataWriterTest = Layer.effect(
 
           // Track file creation on first chunk of new expiration
           if (metadata.isFirstChunk) {
-            const fileName = path.join(
-              metadata.outputDir,
-              `spxw_exp_${metadata.expiration.replace(/-/g, '')}.csv`,
-            )
+            const fileName = testOutputPath(metadata)
             yield* _(
               Ref.update(stateRef, (s) => ({
                 ...s,
@@ -68,6 +72,20 @@ export const DataWriterTest = Layer.effect(
           }
         }),
 
+      // Forget the expiration's chunks, as if its partial file were deleted
+      discard: (metadata) =>
+        Ref.update(stateRef, (s) => {
+          const discarded = s.chunks.filter((c) => c.metadata.expiration === metadata.expiration)
+          const discardedRecords = discarded.reduce((sum, c) => sum + c.data.length, 0)
+          return {
+            ...s,
+            chunks: s.chunks.filter((c) => c.metadata.expiration !== metadata.expiration),
+            filesCreated: s.filesCreated.filter((f) => f !== testOutputPath(metadata)),
+            totalRecordsWritten: s.totalRecordsWritten - discardedRecords,
+            totalBytesWritten: s.totalBytesWritten - discardedRecords * 100,
+          }
+        }),
+
       finalize: () =>
         Effect.gen(function* (_) {
           const state = yield* _(Ref.get(stateRef))
@@ -90,6 +108,8 @@ export const DataWriterTest = Layer.effect(
           }
         }),
 
+      getOutputPath: testOutputPath,
+
       getFormat: () => 'test-csv',
     })
   }),
@@ -136,10 +156,7 @@ export const configureTestWriter = (config: { shouldFail?: boolean; failureMessa
             )
 
             if (metadata.isFirstChunk) {
-              const fileName = path.join(
-                metadata.outputDir,
-                `spxw_exp_${metadata.expiration.replace(/-/g, '')}.csv`,
-              )
+              const fileName = testOutputPath(metadata)
               yield* _(
                 Ref.update(stateRef, (s) => ({
                   ...s,
@@ -149,6 +166,20 @@ export const configureTestWriter = (config: { shouldFail?: boolean; failureMessa
             }
           }),
 
+        // Forget the expiration's chunks, as if its partial file were deleted
+        discard: (metadata) =>
+          Ref.update(stateRef, (s) => {
+            const discarded = s.chunks.filter((c) => c.metadata.expiration === metadata.expiration)
+            const discardedRecords = discarded.reduce((sum, c) => sum + c.data.length, 0)
+            return {
+              ...s,
+              chunks: s.chunks.filter((c) => c.metadata.expiration !== metadata.expiration),
+              filesCreated: s.filesCreated.filter((f) => f !== testOutputPath(metadata)),
+              totalRecordsWritten: s.totalRecordsWritten - discardedRecords,
+              totalBytesWritten: s.totalBytesWritten - discardedRecords * 100,
+            }
+          }),
+
         finalize: () =>
           Effect.gen(function* (_) {
             const state = yield* _(Ref.get(stateRef))
@@ -171,6 +202,8 @@ export const configureTestWriter = (config: { shouldFail?: boolean; failureMessa
             }
           }),
 
+        getOutputPath: testOutputPath,
+
         getFormat: () => 'test-csv',
       })
     }),
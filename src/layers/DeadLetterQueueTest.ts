@@ -0,0 +1,27 @@
+import { Effect, Layer, Ref } from 'effect'
+import { DeadLetterQueue, type DeadLetterRun } from '../services/DeadLetterQueue'
+
+/**
+ * In-memory DeadLetterQueue for tests, keyed by output directory
+ */
+export const DeadLetterQueueTest = Layer.effect(
+  DeadLetterQueue,
+  Effect.gen(function* (_) {
+    const runsRef = yield* _(Ref.make<ReadonlyArray<DeadLetterRun>>([]))
+
+    return DeadLetterQueue.of({
+      write: (run) =>
+        Ref.update(runsRef, (runs) => [...runs.filter((r) => r.runId !== run.runId), run]),
+
+      list: (outputDir) =>
+        Ref.get(runsRef).pipe(
+          Effect.map((runs) => runs.filter((run) => run.outputDir === outputDir)),
+        ),
+
+      remove: (outputDir, runId) =>
+        Ref.update(runsRef, (runs) =>
+          runs.filter((run) => run.outputDir !== outputDir || run.runId !== runId),
+        ),
+    })
+  }),
+)
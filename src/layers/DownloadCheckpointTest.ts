@@ -0,0 +1,76 @@
+import { Effect, Layer, Option, Ref } from 'effect'
+import {
+  checkpointKey,
+  DownloadCheckpoint,
+  type ExpirationCheckpoint,
+  type TradeDateCheckpoint,
+} from '../services/DownloadCheckpoint'
+
+/**
+ * In-memory DownloadCheckpoint for tests, keyed by output directory
+ */
+export const DownloadCheckpointTest = Layer.effect(
+  DownloadCheckpoint,
+  Effect.gen(function* (_) {
+    const stateRef = yield* _(Ref.make(new Map<string, TradeDateCheckpoint>()))
+
+    const orEmpty = (
+      state: Map<string, TradeDateCheckpoint>,
+      outputDir: string,
+      now: string,
+    ): TradeDateCheckpoint =>
+      state.get(outputDir) ?? { outputDir, createdAt: now, updatedAt: now, expirations: {} }
+
+    const setEntry = (outputDir: string, entry: Omit<ExpirationCheckpoint, 'updatedAt'>) =>
+      Ref.update(stateRef, (state) => {
+        const now = new Date().toISOString()
+        const checkpoint = orEmpty(state, outputDir, now)
+        const root = entry.root.toUpperCase()
+        const expiration = entry.expiration.replace(/-/g, '')
+        return new Map(state).set(outputDir, {
+          ...checkpoint,
+          updatedAt: now,
+          expirations: {
+            ...checkpoint.expirations,
+            [checkpointKey(root, expiration)]: { ...entry, root, expiration, updatedAt: now },
+          },
+        })
+      })
+
+    return DownloadCheckpoint.of({
+      load: (outputDir) =>
+        Ref.get(stateRef).pipe(Effect.map((state) => Option.fromNullable(state.get(outputDir)))),
+
+      recordSettings: (outputDir, settings) =>
+        Ref.update(stateRef, (state) => {
+          const now = new Date().toISOString()
+          return new Map(state).set(outputDir, {
+            ...orEmpty(state, outputDir, now),
+            updatedAt: now,
+            settings,
+          })
+        }),
+
+      markPending: (outputDir, root, expirations) =>
+        Effect.gen(function* (_) {
+          const state = yield* _(Ref.get(stateRef))
+          const existing = state.get(outputDir)?.expirations ?? {}
+
+          for (const expiration of expirations) {
+            if (existing[checkpointKey(root, expiration)]?.status !== 'complete') {
+              yield* _(setEntry(outputDir, { root, expiration, status: 'pending', recordCount: 0 }))
+            }
+          }
+        }),
+
+      markInProgress: (outputDir, root, expiration) =>
+        setEntry(outputDir, { root, expiration, status: 'in-progress', recordCount: 0 }),
+
+      markComplete: (outputDir, root, expiration, details) =>
+        setEntry(outputDir, { root, expiration, status: 'complete', ...details }),
+
+      markFailed: (outputDir, root, expiration, error) =>
+        setEntry(outputDir, { root, expiration, status: 'failed', recordCount: 0, error }),
+    })
+  }),
+)
@@ -0,0 +1,345 @@
+import * as path from 'node:path'
+import { Readable } from 'node:stream'
+import * as zlib from 'node:zlib'
+import { Effect, Either, Layer, Ref } from 'effect'
+import { AppConfig } from '../config/AppConfig'
+import {
+  type ContractInfo,
+  type ExpirationInventory,
+  InventoryError,
+  type InventoryIndex,
+  InventoryService,
+  type TradeDateInventory,
+} from '../services/InventoryService'
+import type { DateString } from '../types/common'
+import { ValidationError } from '../types/errors'
+import { formatContractString } from '../utils/contractSymbol'
+
+export const INVENTORY_CACHE_FILE_NAME = '.inventory-cache.json'
+
+// Matches the YYYYMMDD/<root>_exp_YYYYMMDD.csv[.gz|.zst] layout written by DataWriterCsvLive
+const DATA_FILE_PATTERN = /^(\d{8})\/([a-z]+)_exp_(\d{8})\.csv(\.gz|\.zst)?$/
+
+interface InventoryCache {
+  readonly version: 1
+  readonly files: Record<string, ExpirationInventory>
+}
+
+const toDateString = (yyyymmdd: string): DateString =>
+  `${yyyymmdd.slice(0, 4)}-${yyyymmdd.slice(4, 6)}-${yyyymmdd.slice(6, 8)}`
+
+/**
+ * Raw bytes of a data file, decompressed for .gz and .zst files
+ */
+const readBytes = (filePath: string): AsyncIterable<Uint8Array> => {
+  const raw = Bun.file(filePath).stream()
+  if (filePath.endsWith('.gz')) {
+    return Readable.from(raw).pipe(zlib.createGunzip())
+  }
+  if (filePath.endsWith('.zst')) {
+    return Readable.from(raw).pipe(zlib.createZstdDecompress())
+  }
+  return raw
+}
+
+/**
+ * Stream a file line by line without loading it into memory
+ */
+async function* readLines(filePath: string): AsyncGenerator<string> {
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  for await (const value of readBytes(filePath)) {
+    buffer += decoder.decode(value, { stream: true })
+    let newline = buffer.indexOf('\n')
+    while (newline !== -1) {
+      yield buffer.slice(0, newline)
+      buffer = buffer.slice(newline + 1)
+      newline = buffer.indexOf('\n')
+    }
+  }
+
+  buffer += decoder.decode()
+  if (buffer.length > 0) {
+    yield buffer
+  }
+}
+
+/**
+ * Read one expiration file and summarize its rows
+ */
+const indexFile = async (
+  dataDirectory: string,
+  relativePath: string,
+): Promise<ExpirationInventory | undefined> => {
+  const match = DATA_FILE_PATTERN.exec(relativePath)
+  if (!match) return undefined
+
+  const [, tradeDate, root, expiration] = match
+  const filePath = path.join(dataDirectory, relativePath)
+  const file = Bun.file(filePath)
+
+  let columns: string[] | undefined
+  let rowCount = 0
+  const strikes = new Set<number>()
+  const rights = new Set<'C' | 'P'>()
+  let firstTimestamp: string | undefined
+  let lastTimestamp: string | undefined
+
+  for await (const line of readLines(filePath)) {
+    if (line.trim() === '') continue
+
+    if (!columns) {
+      columns = line.split(',')
+      continue
+    }
+
+    const values = line.split(',')
+    const strike = Number(values[columns.indexOf('strike')])
+    const right = values[columns.indexOf('right')]
+    const timestamp = values[columns.indexOf('timestamp')]
+
+    rowCount++
+    if (!Number.isNaN(strike)) strikes.add(strike)
+    if (right === 'C' || right === 'P') rights.add(right)
+    // ISO timestamps sort lexicographically
+    if (timestamp) {
+      if (!firstTimestamp || timestamp < firstTimestamp) firstTimestamp = timestamp
+      if (!lastTimestamp || timestamp > lastTimestamp) lastTimestamp = timestamp
+    }
+  }
+
+  return {
+    root: root.toUpperCase(),
+    tradeDate: toDateString(tradeDate),
+    expiration: toDateString(expiration),
+    filePath,
+    rowCount,
+    strikes: [...strikes].sort((a, b) => a - b),
+    rights: [...rights].sort(),
+    firstTimestamp,
+    lastTimestamp,
+    sizeBytes: file.size,
+    modifiedMs: file.lastModified,
+  }
+}
+
+const groupByTradeDate = (entries: Iterable<ExpirationInventory>): TradeDateInventory[] => {
+  const byTradeDate = new Map<string, ExpirationInventory[]>()
+  for (const entry of entries) {
+    byTradeDate.set(entry.tradeDate, [...(byTradeDate.get(entry.tradeDate) ?? []), entry])
+  }
+
+  return [...byTradeDate.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([tradeDate, expirations]) => {
+      const sorted = expirations.sort(
+        (a, b) => a.expiration.localeCompare(b.expiration) || a.root.localeCompare(b.root),
+      )
+      const firstTimestamps = sorted.flatMap((e) => (e.firstTimestamp ? [e.firstTimestamp] : []))
+      const lastTimestamps = sorted.flatMap((e) => (e.lastTimestamp ? [e.lastTimestamp] : []))
+
+      return {
+        tradeDate,
+        expirations: sorted,
+        rowCount: sorted.reduce((sum, e) => sum + e.rowCount, 0),
+        firstTimestamp: firstTimestamps.sort()[0],
+        lastTimestamp: lastTimestamps.sort().at(-1),
+      }
+    })
+}
+
+/**
+ * File-based InventoryService that indexes config.storage.dataDirectory
+ * Parsed file summaries are cached in memory and in .inventory-cache.json,
+ * keyed by path and invalidated when a file's size or modification time changes
+ */
+export const InventoryServiceLive = Layer.effect(
+  InventoryService,
+  Effect.gen(function* (_) {
+    const config = yield* _(AppConfig)
+    const dataDirectory = config.storage.dataDirectory
+    const cachePath = path.join(dataDirectory, INVENTORY_CACHE_FILE_NAME)
+
+    // undefined until the on-disk cache has been loaded
+    const cacheRef = yield* _(Ref.make<Map<string, ExpirationInventory> | undefined>(undefined))
+
+    const loadDiskCache = Effect.tryPromise({
+      try: async () => {
+        const file = Bun.file(cachePath)
+        if (!(await file.exists())) {
+          return new Map<string, ExpirationInventory>()
+        }
+        const cache = (await file.json()) as InventoryCache
+        return cache.version === 1
+          ? new Map(Object.entries(cache.files))
+          : new Map<string, ExpirationInventory>()
+      },
+      catch: (error) => error,
+    }).pipe(
+      // A corrupt cache only costs a rescan
+      Effect.orElseSucceed(() => new Map<string, ExpirationInventory>()),
+    )
+
+    const saveDiskCache = (entries: Map<string, ExpirationInventory>) =>
+      Effect.tryPromise({
+        try: async () => {
+          const cache: InventoryCache = { version: 1, files: Object.fromEntries(entries) }
+          await Bun.write(`${cachePath}.tmp`, JSON.stringify(cache))
+          await Bun.$`mv ${cachePath}.tmp ${cachePath}`.quiet()
+        },
+        catch: (error) =>
+          new InventoryError({
+            message: 'Failed to write inventory cache',
+            path: cachePath,
+            cause: error,
+          }),
+      })
+
+    const listDataFiles = Effect.tryPromise({
+      try: async () => {
+        const files: string[] = []
+        try {
+          for await (const file of new Bun.Glob('*/*_exp_*.csv*').scan({ cwd: dataDirectory })) {
+            if (DATA_FILE_PATTERN.test(file)) files.push(file)
+          }
+        } catch (error) {
+          // Nothing has been downloaded yet
+          if ((error as NodeJS.ErrnoException).code === 'ENOENT') return []
+          throw error
+        }
+        return files.sort()
+      },
+      catch: (error) =>
+        new InventoryError({
+          message: `Failed to scan data directory: ${dataDirectory}`,
+          path: dataDirectory,
+          cause: error,
+        }),
+    })
+
+    const buildIndex = (useCache: boolean) =>
+      Effect.gen(function* (_) {
+        const cached = useCache
+          ? ((yield* _(Ref.get(cacheRef))) ?? (yield* _(loadDiskCache)))
+          : new Map<string, ExpirationInventory>()
+
+        const files = yield* _(listDataFiles)
+        const entries = new Map<string, ExpirationInventory>()
+        let changed = files.length !== cached.size
+
+        for (const relativePath of files) {
+          const file = Bun.file(path.join(dataDirectory, relativePath))
+          const previous = cached.get(relativePath)
+
+          if (
+            previous &&
+            previous.sizeBytes === file.size &&
+            previous.modifiedMs === file.lastModified
+          ) {
+            entries.set(relativePath, previous)
+            continue
+          }
+
+          const entry = yield* _(
+            Effect.tryPromise({
+              try: () => indexFile(dataDirectory, relativePath),
+              catch: (error) =>
+                new InventoryError({
+                  message: `Failed to read ${relativePath}`,
+                  path: relativePath,
+                  cause: error,
+                }),
+            }),
+          )
+          if (entry) {
+            entries.set(relativePath, entry)
+            changed = true
+          }
+        }
+
+        yield* _(Ref.set(cacheRef, entries))
+        if (changed && files.length > 0) {
+          // The index is still usable if the cache cannot be persisted
+          yield* _(
+            saveDiskCache(entries).pipe(
+              Effect.catchAll((error) => Effect.logWarning(error.message)),
+            ),
+          )
+        }
+
+        return {
+          dataDirectory,
+          builtAt: new Date().toISOString(),
+          tradeDates: groupByTradeDate(entries.values()),
+        } satisfies InventoryIndex
+      })
+
+    const validateRoot = (root: string) =>
+      /^[A-Za-z]+$/.test(root)
+        ? Effect.succeed(root.toUpperCase())
+        : Effect.fail(
+            new ValidationError({ message: `Invalid root: ${root}`, field: 'root', value: root }),
+          )
+
+    return InventoryService.of({
+      getExpirations: (root) =>
+        Effect.gen(function* (_) {
+          const normalizedRoot = yield* _(validateRoot(root))
+          const index = yield* _(buildIndex(true))
+
+          const expirations = new Set<DateString>()
+          for (const tradeDate of index.tradeDates) {
+            for (const entry of tradeDate.expirations) {
+              if (entry.root === normalizedRoot) expirations.add(entry.expiration)
+            }
+          }
+          return [...expirations].sort()
+        }),
+
+      getContracts: (root, expiration) =>
+        Effect.gen(function* (_) {
+          const normalizedRoot = yield* _(validateRoot(root))
+          if (!/^\d{4}-\d{2}-\d{2}$/.test(expiration)) {
+            return yield* _(
+              Effect.fail(
+                new ValidationError({
+                  message: `Invalid expiration: ${expiration}. Expected YYYY-MM-DD`,
+                  field: 'expiration',
+                  value: expiration,
+                }),
+              ),
+            )
+          }
+
+          const index = yield* _(buildIndex(true))
+
+          // Files only record which strikes and rights appeared, so every observed pair is a contract
+          const contracts = new Map<string, ContractInfo>()
+          for (const tradeDate of index.tradeDates) {
+            for (const entry of tradeDate.expirations) {
+              if (entry.root !== normalizedRoot || entry.expiration !== expiration) continue
+              for (const strike of entry.strikes) {
+                for (const right of entry.rights) {
+                  const fields = { root: normalizedRoot, expiration, strike, right }
+                  // Strikes no symbol can hold are not listed
+                  const contract = formatContractString(fields)
+                  if (Either.isRight(contract)) {
+                    contracts.set(contract.right, { ...fields, contract: contract.right })
+                  }
+                }
+              }
+            }
+          }
+
+          return [...contracts.values()].sort(
+            (a, b) => a.strike - b.strike || a.right.localeCompare(b.right),
+          )
+        }),
+
+      getIndex: () => buildIndex(true),
+
+      refresh: () => buildIndex(false),
+    })
+  }),
+)
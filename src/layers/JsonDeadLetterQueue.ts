@@ -0,0 +1,68 @@
+import * as path from 'node:path'
+import { Effect, Layer } from 'effect'
+import { DeadLetterError, DeadLetterQueue, type DeadLetterRun } from '../services/DeadLetterQueue'
+
+export const DEAD_LETTER_DIR_NAME = 'dead-letters'
+
+const deadLetterDir = (outputDir: string) => path.join(outputDir, DEAD_LETTER_DIR_NAME)
+
+/**
+ * DeadLetterQueue persisted as one <runId>.json per run under dead-letters/ in each
+ * trade-date output directory
+ */
+export const JsonDeadLetterQueueLive = Layer.succeed(
+  DeadLetterQueue,
+  DeadLetterQueue.of({
+    write: (run) =>
+      Effect.tryPromise({
+        try: async () => {
+          const dir = deadLetterDir(run.outputDir)
+          const runPath = path.join(dir, `${run.runId}.json`)
+          const tempPath = `${runPath}.tmp`
+          await Bun.$`mkdir -p ${dir}`.quiet()
+          // Write then rename so a crash never leaves a truncated run file
+          await Bun.write(tempPath, JSON.stringify(run, null, 2))
+          await Bun.$`mv ${tempPath} ${runPath}`.quiet()
+        },
+        catch: (error) =>
+          new DeadLetterError({
+            message: `Failed to write dead letters for run ${run.runId} in ${run.outputDir}`,
+            cause: error,
+          }),
+      }),
+
+    list: (outputDir) =>
+      Effect.tryPromise({
+        try: async () => {
+          const dir = deadLetterDir(outputDir)
+          const runs: DeadLetterRun[] = []
+          try {
+            for await (const file of new Bun.Glob('*.json').scan({ cwd: dir })) {
+              runs.push(JSON.parse(await Bun.file(path.join(dir, file)).text()) as DeadLetterRun)
+            }
+          } catch (error) {
+            // No run in this directory has failed yet
+            if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+              throw error
+            }
+          }
+          return runs.sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+        },
+        catch: (error) =>
+          new DeadLetterError({
+            message: `Failed to read dead letters in ${outputDir}`,
+            cause: error,
+          }),
+      }),
+
+    remove: (outputDir, runId) =>
+      Effect.tryPromise({
+        try: () => Bun.$`rm -f ${path.join(deadLetterDir(outputDir), `${runId}.json`)}`.quiet(),
+        catch: (error) =>
+          new DeadLetterError({
+            message: `Failed to remove dead letters for run ${runId} in ${outputDir}`,
+            cause: error,
+          }),
+      }).pipe(Effect.asVoid),
+  }),
+)
@@ -0,0 +1,165 @@
+import * as path from 'node:path'
+import { Effect, Layer, Option } from 'effect'
+import {
+  CheckpointError,
+  checkpointKey,
+  DownloadCheckpoint,
+  type ExpirationCheckpoint,
+  type TradeDateCheckpoint,
+} from '../services/DownloadCheckpoint'
+
+export const STATUS_FILE_NAME = 'status.json'
+
+// Returns the new entry for an expiration, or undefined to leave it unchanged
+type ExpirationUpdate = (
+  root: string,
+  expiration: string,
+  existing: ExpirationCheckpoint | undefined,
+  now: string,
+) => ExpirationCheckpoint | undefined
+
+// status.json files written before roots were recorded only ever held SPXW
+const LEGACY_ROOT = 'SPXW'
+
+const withRoots = (checkpoint: TradeDateCheckpoint): TradeDateCheckpoint => ({
+  ...checkpoint,
+  expirations: Object.fromEntries(
+    Object.values(
+      checkpoint.expirations as Record<
+        string,
+        Omit<ExpirationCheckpoint, 'root'> & { root?: string }
+      >,
+    ).map((entry) => {
+      const root = entry.root ?? LEGACY_ROOT
+      return [checkpointKey(root, entry.expiration), { ...entry, root }]
+    }),
+  ),
+})
+
+/**
+ * DownloadCheckpoint persisted as status.json inside each trade-date output directory
+ */
+export const JsonDownloadCheckpointLive = Layer.effect(
+  DownloadCheckpoint,
+  Effect.gen(function* (_) {
+    // Status updates are read-modify-write, so they must not interleave
+    const lock = yield* _(Effect.makeSemaphore(1))
+
+    const readCheckpoint = (outputDir: string) =>
+      Effect.tryPromise({
+        try: async () => {
+          const file = Bun.file(path.join(outputDir, STATUS_FILE_NAME))
+          if (!(await file.exists())) {
+            return Option.none<TradeDateCheckpoint>()
+          }
+          return Option.some(withRoots(JSON.parse(await file.text()) as TradeDateCheckpoint))
+        },
+        catch: (error) =>
+          new CheckpointError({
+            message: `Failed to read ${STATUS_FILE_NAME} in ${outputDir}`,
+            cause: error,
+          }),
+      })
+
+    const writeCheckpoint = (checkpoint: TradeDateCheckpoint) =>
+      Effect.tryPromise({
+        try: async () => {
+          const statusPath = path.join(checkpoint.outputDir, STATUS_FILE_NAME)
+          const tempPath = `${statusPath}.tmp`
+          await Bun.$`mkdir -p ${checkpoint.outputDir}`.quiet()
+          // Write then rename so a crash never leaves a truncated status file
+          await Bun.write(tempPath, JSON.stringify(checkpoint, null, 2))
+          await Bun.$`mv ${tempPath} ${statusPath}`.quiet()
+        },
+        catch: (error) =>
+          new CheckpointError({
+            message: `Failed to write ${STATUS_FILE_NAME} in ${checkpoint.outputDir}`,
+            cause: error,
+          }),
+      })
+
+    const updateCheckpoint = (
+      outputDir: string,
+      update: (checkpoint: TradeDateCheckpoint, now: string) => TradeDateCheckpoint,
+    ) =>
+      lock.withPermits(1)(
+        Effect.gen(function* (_) {
+          const now = new Date().toISOString()
+          const existing = yield* _(readCheckpoint(outputDir))
+          const checkpoint = Option.getOrElse(existing, () => ({
+            outputDir,
+            createdAt: now,
+            updatedAt: now,
+            expirations: {},
+          }))
+
+          yield* _(writeCheckpoint({ ...update(checkpoint, now), updatedAt: now }))
+        }),
+      )
+
+    const updateExpirations = (
+      outputDir: string,
+      root: string,
+      expirations: ReadonlyArray<string>,
+      update: ExpirationUpdate,
+    ) =>
+      updateCheckpoint(outputDir, (checkpoint, now) => {
+        const entries = { ...checkpoint.expirations }
+        for (const exp of expirations) {
+          const expiration = exp.replace(/-/g, '')
+          const key = checkpointKey(root, expiration)
+          const entry = update(root.toUpperCase(), expiration, entries[key], now)
+          if (entry) {
+            entries[key] = entry
+          }
+        }
+        return { ...checkpoint, expirations: entries }
+      })
+
+    return DownloadCheckpoint.of({
+      load: (outputDir) => readCheckpoint(outputDir),
+
+      recordSettings: (outputDir, settings) =>
+        updateCheckpoint(outputDir, (checkpoint) => ({ ...checkpoint, settings })),
+
+      markPending: (outputDir, root, expirations) =>
+        updateExpirations(outputDir, root, expirations, (rootKey, expiration, existing, now) =>
+          // Completed work survives a re-run of the same trade date
+          existing?.status === 'complete'
+            ? undefined
+            : { root: rootKey, expiration, status: 'pending', recordCount: 0, updatedAt: now },
+        ),
+
+      markInProgress: (outputDir, root, expiration) =>
+        updateExpirations(outputDir, root, [expiration], (rootKey, key, _existing, now) => ({
+          root: rootKey,
+          expiration: key,
+          status: 'in-progress',
+          recordCount: 0,
+          updatedAt: now,
+        })),
+
+      markComplete: (outputDir, root, expiration, details) =>
+        updateExpirations(outputDir, root, [expiration], (rootKey, key, _existing, now) => ({
+          root: rootKey,
+          expiration: key,
+          status: 'complete',
+          recordCount: details.recordCount,
+          filePath: details.filePath,
+          checksum: details.checksum,
+          ...(details.timeWindow && { timeWindow: details.timeWindow }),
+          updatedAt: now,
+        })),
+
+      markFailed: (outputDir, root, expiration, error) =>
+        updateExpirations(outputDir, root, [expiration], (rootKey, key, _existing, now) => ({
+          root: rootKey,
+          expiration: key,
+          status: 'failed',
+          recordCount: 0,
+          error,
+          updatedAt: now,
+        })),
+    })
+  }),
+)
@@ -0,0 +1,114 @@
+import { Clock, Effect, Layer, Ref } from 'effect'
+import { AppConfig } from '../config/AppConfig'
+import { RateLimiter, type RateLimiterMetrics } from '../services/RateLimiter'
+
+/**
+ * Build a rate limiter allowing requestsPerSecond on average, with bursts of up to one
+ * second's worth, and at most maxConcurrentRequests in flight; a rate of 0 leaves only
+ * the in-flight cap and 429 pauses
+ */
+export const makeRateLimiter = (options: {
+  readonly requestsPerSecond: number
+  readonly maxConcurrentRequests: number
+}) =>
+  Effect.gen(function* (_) {
+    const rate = options.requestsPerSecond
+    const capacity = Math.max(1, rate)
+    const slots = yield* _(Effect.makeSemaphore(Math.max(1, options.maxConcurrentRequests)))
+
+    const bucket = yield* _(
+      Ref.make({ tokens: capacity, updatedAt: yield* _(Clock.currentTimeMillis) }),
+    )
+    const pausedUntil = yield* _(Ref.make(0))
+    const metrics = yield* _(
+      Ref.make<RateLimiterMetrics>({
+        requests: 0,
+        throttledRequests: 0,
+        throttledMs: 0,
+        rateLimitPauses: 0,
+      }),
+    )
+
+    // Take a token, going into debt when none are left; the debt is how long to wait,
+    // so waiting requests are spaced out in the order they arrived
+    const takeToken = (now: number) =>
+      Ref.modify(bucket, ({ tokens, updatedAt }) => {
+        if (rate <= 0) {
+          return [0, { tokens, updatedAt }]
+        }
+        const remaining = Math.min(capacity, tokens + ((now - updatedAt) / 1000) * rate) - 1
+        return [
+          remaining >= 0 ? 0 : (-remaining / rate) * 1000,
+          { tokens: remaining, updatedAt: now },
+        ]
+      })
+
+    // Sleep out a pause, again if it was extended meanwhile
+    const awaitPause: Effect.Effect<void> = Effect.suspend(() =>
+      Effect.gen(function* (_) {
+        const until = yield* _(Ref.get(pausedUntil))
+        const now = yield* _(Clock.currentTimeMillis)
+        if (until > now) {
+          yield* _(Effect.sleep(until - now))
+          yield* _(awaitPause)
+        }
+      }),
+    )
+
+    const permit = Effect.gen(function* (_) {
+      const requestedAt = yield* _(Clock.currentTimeMillis)
+      // The wait for a slot can be interrupted; a slot once taken is returned as the scope closes
+      yield* _(
+        Effect.uninterruptibleMask((restore) =>
+          Effect.zipRight(
+            restore(slots.take(1)),
+            Effect.addFinalizer(() => slots.release(1)),
+          ),
+        ),
+      )
+
+      const wait = yield* _(takeToken(yield* _(Clock.currentTimeMillis)))
+      if (wait > 0) {
+        yield* _(Effect.sleep(wait))
+      }
+      yield* _(awaitPause)
+
+      const waited = (yield* _(Clock.currentTimeMillis)) - requestedAt
+      yield* _(
+        Ref.update(metrics, (m) => ({
+          ...m,
+          requests: m.requests + 1,
+          throttledRequests: m.throttledRequests + (waited > 0 ? 1 : 0),
+          throttledMs: m.throttledMs + waited,
+        })),
+      )
+    })
+
+    return RateLimiter.of({
+      permit,
+
+      withPermit: (request) => Effect.scoped(Effect.zipRight(permit, request)),
+
+      pause: (durationMs) =>
+        Effect.gen(function* (_) {
+          const now = yield* _(Clock.currentTimeMillis)
+          yield* _(Ref.update(pausedUntil, (until) => Math.max(until, now + durationMs)))
+          yield* _(Ref.update(metrics, (m) => ({ ...m, rateLimitPauses: m.rateLimitPauses + 1 })))
+        }),
+
+      getMetrics: () => Ref.get(metrics),
+    })
+  })
+
+/**
+ * RateLimiter sized from the terminal settings in AppConfig
+ */
+export const RateLimiterLive = Layer.effect(
+  RateLimiter,
+  Effect.flatMap(AppConfig, ({ thetaData }) =>
+    makeRateLimiter({
+      requestsPerSecond: thetaData.requestsPerSecond,
+      maxConcurrentRequests: thetaData.maxConcurrentRequests,
+    }),
+  ),
+)
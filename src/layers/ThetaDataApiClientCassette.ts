@@ -0,0 +1,137 @@
+import * as path from 'node:path'
+import { Effect, Layer } from 'effect'
+import { AppConfig } from '../config/AppConfig'
+import { ThetaDataApiError } from '../services/ThetaDataApiClient'
+import { makeThetaDataApiClientLive, type TerminalFetch } from './ThetaDataApiClientLive'
+
+/**
+ * One terminal response as recorded
+ */
+export interface CassetteInteraction {
+  readonly status: number
+  readonly statusText: string
+  readonly headers: Readonly<Record<string, string>>
+  readonly body: string
+}
+
+/**
+ * Every response recorded for one request, in the order they arrived
+ * A retried request records each attempt, so replay repeats the same failures
+ */
+export interface Cassette {
+  readonly endpoint: string
+  readonly params: Readonly<Record<string, string>>
+  readonly interactions: ReadonlyArray<CassetteInteraction>
+}
+
+// Headers the client reads; everything else is left out of the cassette
+const RECORDED_HEADERS = ['content-type', 'retry-after']
+
+const requestOf = (url: string) => {
+  const { pathname, searchParams } = new URL(url)
+  return {
+    endpoint: pathname,
+    params: Object.fromEntries([...searchParams.entries()].sort(([a], [b]) => a.localeCompare(b))),
+  }
+}
+
+/**
+ * Cassette file for a request: the endpoint plus a hash of its sorted query parameters,
+ * e.g. v2_list_expirations-1f3a9c0e.json
+ */
+export const cassetteFileName = (url: string) => {
+  const { endpoint, params } = requestOf(url)
+  const hash = Bun.hash(`${endpoint}?${new URLSearchParams(params)}`).toString(16)
+  return `${endpoint.replace(/^\/+/, '').replace(/\//g, '_')}-${hash}.json`
+}
+
+const toResponse = (interaction: CassetteInteraction) =>
+  new Response(interaction.body, {
+    status: interaction.status,
+    statusText: interaction.statusText,
+    headers: interaction.headers,
+  })
+
+/**
+ * ThetaDataApiClient that calls the terminal and writes every response to cassetteDir
+ * Responses are read in full before the client sees them, so streamed requests are buffered
+ * while recording. Cassettes from earlier runs are overwritten request by request.
+ */
+export const makeThetaDataApiClientRecording = (cassetteDir: string) =>
+  Layer.suspend(() => {
+    // Interactions recorded by this layer so far, by cassette file
+    const recorded = new Map<string, CassetteInteraction[]>()
+
+    const send: TerminalFetch = async (url, init) => {
+      const response = await fetch(url, init)
+      const interaction: CassetteInteraction = {
+        status: response.status,
+        statusText: response.statusText,
+        headers: Object.fromEntries(
+          RECORDED_HEADERS.flatMap((name) => {
+            const value = response.headers.get(name)
+            return value === null ? [] : [[name, value]]
+          }),
+        ),
+        body: await response.text(),
+      }
+
+      const fileName = cassetteFileName(url)
+      const interactions = [...(recorded.get(fileName) ?? []), interaction]
+      recorded.set(fileName, interactions)
+      const cassette: Cassette = { ...requestOf(url), interactions }
+      await Bun.write(path.join(cassetteDir, fileName), JSON.stringify(cassette, null, 2))
+
+      return toResponse(interaction)
+    }
+
+    return makeThetaDataApiClientLive(send)
+  })
+
+/**
+ * ThetaDataApiClient that answers from cassettes without contacting the terminal
+ * Each request gets the recorded responses in order, then the last one again. A request with
+ * no cassette fails with a ThetaDataApiError, which the client does not retry.
+ */
+export const makeThetaDataApiClientReplay = (cassetteDir: string) =>
+  Layer.suspend(() => {
+    // Responses already served, by cassette file
+    const served = new Map<string, number>()
+
+    const send: TerminalFetch = async (url) => {
+      const fileName = cassetteFileName(url)
+      const file = Bun.file(path.join(cassetteDir, fileName))
+      if (!(await file.exists())) {
+        const { endpoint, params } = requestOf(url)
+        throw new ThetaDataApiError({
+          message: `No cassette for ${endpoint} ${JSON.stringify(params)} in ${cassetteDir}`,
+          endpoint,
+        })
+      }
+
+      const cassette = (await file.json()) as Cassette
+      const index = served.get(fileName) ?? 0
+      served.set(fileName, index + 1)
+      return toResponse(cassette.interactions[Math.min(index, cassette.interactions.length - 1)])
+    }
+
+    return makeThetaDataApiClientLive(send)
+  })
+
+/**
+ * Recording client writing to config.thetaData.cassetteDirectory
+ */
+export const ThetaDataApiClientRecording = Layer.unwrapEffect(
+  Effect.map(AppConfig, (config) =>
+    makeThetaDataApiClientRecording(config.thetaData.cassetteDirectory),
+  ),
+)
+
+/**
+ * Replaying client reading from config.thetaData.cassetteDirectory
+ */
+export const ThetaDataApiClientReplay = Layer.unwrapEffect(
+  Effect.map(AppConfig, (config) =>
+    makeThetaDataApiClientReplay(config.thetaData.cassetteDirectory),
+  ),
+)
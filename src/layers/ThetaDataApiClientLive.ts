@@ -1,77 +1,526 @@
 import { parse } from 'csv-parse/sync'
-import { Effect, Layer, Random, Schedule } from 'effect'
+import { Chunk, Effect, Layer, Random, Ref, Schedule, Stream } from 'effect'
 import { AppConfig } from '../config/AppConfig'
+import { RateLimiter } from '../services/RateLimiter'
 import {
   type BulkOptionsGreeksParams,
+  type BulkOptionsParams,
   type ExpirationDate,
+  type IndexHistoryParams,
+  type IndexOhlcData,
+  type OptionsEodData,
   type OptionsGreeksData,
+  type OptionsOhlcData,
+  type OptionsOpenInterestData,
+  type OptionsQuoteData,
+  type OptionsTradeData,
   type TerminalStatus,
   ThetaDataApiClient,
   ThetaDataApiError,
   ThetaDataConnectionError,
   ThetaDataRateLimitError,
 } from '../services/ThetaDataApiClient'
-
-export const ThetaDataApiClientLive = Layer.effect(
-  ThetaDataApiClient,
-  Effect.gen(function* (_) {
-    const config = yield* _(AppConfig)
-    const baseUrl = config.thetaData.baseUrl
-    // Concurrency control is managed at the usage level
-    // When making multiple requests, consumers should use:
-    // Effect.all(requests, { concurrency: config.thetaData.maxConcurrentRequests })
-    const maxRetries = config.thetaData.maxRetries
-    const retryBaseDelayMs = config.thetaData.retryBaseDelayMs
-    const requestTimeoutMs = config.thetaData.requestTimeoutMs
-
-    // Generate unique request IDs for tracing
-    const generateRequestId = () =>
-      Effect.gen(function* (_) {
-        const timestamp = Date.now()
-        const random = yield* _(Random.nextInt)
-        return `req-${timestamp}-${random}`
-      })
-
-    // Retry policy with exponential backoff
-    const retrySchedule = Schedule.exponential(retryBaseDelayMs, 2).pipe(
-      Schedule.compose(Schedule.recurs(maxRetries - 1)),
+import { easternTimeOf, easternTimestamp } from '../utils/easternTime'
+
+/**
+ * A CSV history endpoint: its query, the columns of its CSV response and how one
+ * parsed record becomes a row. Option responses start with the contract columns
+ */
+interface BulkEndpoint<A, P = BulkOptionsParams> {
+  readonly path: string
+  readonly query: (params: P) => Record<string, string | number | boolean>
+  readonly columns: ReadonlyArray<string>
+  readonly toRow: (record: Record<string, string>, index: number) => A
+}
+
+const CONTRACT_COLUMNS = ['root', 'expiration', 'strike', 'right']
+
+// The terminal may or may not send a header line
+const isBulkHeader = (line: string) => line.startsWith('root') || line.startsWith('ms_of_day')
+
+// Query for the contract and date range; intraday endpoints add the session filters
+const bulkQuery = (params: BulkOptionsParams) => ({
+  root: params.root,
+  exp: params.expiration,
+  start_date: params.startDate,
+  end_date: params.endDate,
+  use_csv: true, // Always use CSV for efficiency
+})
+
+const intradayQuery = (params: BulkOptionsParams) => ({
+  ...bulkQuery(params),
+  ...(params.rth !== undefined && { rth: params.rth }),
+  ...(params.startTime && { start_time: params.startTime }),
+  ...(params.endTime && { end_time: params.endTime }),
+})
+
+const intervalQuery = (params: BulkOptionsParams) => ({
+  ...intradayQuery(params),
+  ivl: params.interval ?? 0, // Default to tick-level data
+})
+
+const bulkGreeksQuery = (params: BulkOptionsGreeksParams) => ({
+  ...intervalQuery(params),
+  ...(params.annualDiv !== undefined && { annual_div: params.annualDiv }),
+  ...(params.rate && { rate: params.rate }),
+  ...(params.rateValue !== undefined && { rate_value: params.rateValue }),
+})
+
+/**
+ * Root, expiration, contract and time of one parsed CSV record
+ * Records are plain objects with string values; throws on malformed rows
+ */
+const parseContract = (row: Record<string, string>, index: number) => {
+  // Validate critical fields exist
+  if (!row.strike || !row.right) {
+    throw new Error(
+      `Missing critical fields at row ${index + 1}: strike=${row.strike}, right=${row.right}`,
     )
-
-    // Check if an error is retryable
-    const isRetryableError = (error: unknown): boolean => {
-      if (error instanceof ThetaDataApiError) {
-        // Retry on 5xx errors and specific 4xx errors
-        return error.statusCode ? error.statusCode >= 500 || error.statusCode === 429 : false
-      }
-      if (error instanceof ThetaDataConnectionError) {
-        // Always retry connection errors
-        return true
-      }
-      return false
+  }
+
+  // Validate right is C or P
+  if (row.right !== 'C' && row.right !== 'P') {
+    throw new Error(`Invalid option right at row ${index + 1}: ${row.right}`)
+  }
+
+  const strike = Number(row.strike)
+
+  // Validate we got a valid number for the strike
+  if (Number.isNaN(strike)) {
+    throw new Error(`Invalid strike price at row ${index + 1}: ${row.strike}`)
+  }
+
+  return {
+    root: row.root,
+    expiration: row.expiration,
+    strike,
+    right: row.right as 'C' | 'P',
+    ...parseMarketTime(row),
+  }
+}
+
+/**
+ * Time of a parsed CSV record from its date and ms_of_day columns, both Eastern time
+ * The raw values are kept next to the timestamp
+ */
+const parseMarketTime = (row: Record<string, string>) => {
+  const tradeDate = String(row.date)
+  const msOfDay = Number(row.ms_of_day)
+  return {
+    tradeDate,
+    msOfDay,
+    timestamp: easternTimestamp(tradeDate, Number.isNaN(msOfDay) ? 0 : msOfDay),
+  }
+}
+
+const greeksEndpoint: BulkEndpoint<OptionsGreeksData> = {
+  path: '/v2/bulk_hist/option/greeks',
+  query: bulkGreeksQuery,
+  columns: [
+    ...CONTRACT_COLUMNS,
+    'ms_of_day',
+    'bid',
+    'ask',
+    'delta',
+    'theta',
+    'vega',
+    'rho',
+    'epsilon',
+    'lambda',
+    'implied_vol',
+    'iv_error',
+    'ms_of_day2',
+    'underlying_price',
+    'date',
+  ],
+  // Convert all numeric fields, with NaN for invalid values
+  toRow: (row, index) => ({
+    ...parseContract(row, index),
+    bid: Number(row.bid),
+    ask: Number(row.ask),
+    delta: Number(row.delta),
+    theta: Number(row.theta),
+    vega: Number(row.vega),
+    rho: Number(row.rho),
+    epsilon: Number(row.epsilon),
+    lambda: Number(row.lambda),
+    impliedVolatility: Number(row.implied_vol),
+    ivError: Number(row.iv_error),
+    underlyingPrice: Number(row.underlying_price),
+    underlyingMsOfDay: Number(row.ms_of_day2),
+  }),
+}
+
+const quoteEndpoint: BulkEndpoint<OptionsQuoteData> = {
+  path: '/v2/bulk_hist/option/quote',
+  query: intervalQuery,
+  columns: [
+    ...CONTRACT_COLUMNS,
+    'ms_of_day',
+    'bid_size',
+    'bid_exchange',
+    'bid',
+    'bid_condition',
+    'ask_size',
+    'ask_exchange',
+    'ask',
+    'ask_condition',
+    'date',
+  ],
+  toRow: (row, index) => ({
+    ...parseContract(row, index),
+    bidSize: Number(row.bid_size),
+    bidExchange: Number(row.bid_exchange),
+    bid: Number(row.bid),
+    bidCondition: Number(row.bid_condition),
+    askSize: Number(row.ask_size),
+    askExchange: Number(row.ask_exchange),
+    ask: Number(row.ask),
+    askCondition: Number(row.ask_condition),
+  }),
+}
+
+const tradeEndpoint: BulkEndpoint<OptionsTradeData> = {
+  path: '/v2/bulk_hist/option/trade',
+  query: intradayQuery,
+  columns: [
+    ...CONTRACT_COLUMNS,
+    'ms_of_day',
+    'sequence',
+    'ext_condition1',
+    'ext_condition2',
+    'ext_condition3',
+    'ext_condition4',
+    'condition',
+    'size',
+    'exchange',
+    'price',
+    'condition_flags',
+    'price_flags',
+    'volume_type',
+    'records_back',
+    'date',
+  ],
+  toRow: (row, index) => ({
+    ...parseContract(row, index),
+    sequence: Number(row.sequence),
+    condition: Number(row.condition),
+    size: Number(row.size),
+    exchange: Number(row.exchange),
+    price: Number(row.price),
+  }),
+}
+
+const ohlcEndpoint: BulkEndpoint<OptionsOhlcData> = {
+  path: '/v2/bulk_hist/option/ohlc',
+  query: intervalQuery,
+  columns: [
+    ...CONTRACT_COLUMNS,
+    'ms_of_day',
+    'open',
+    'high',
+    'low',
+    'close',
+    'volume',
+    'count',
+    'date',
+  ],
+  toRow: (row, index) => ({
+    ...parseContract(row, index),
+    open: Number(row.open),
+    high: Number(row.high),
+    low: Number(row.low),
+    close: Number(row.close),
+    volume: Number(row.volume),
+    count: Number(row.count),
+  }),
+}
+
+const openInterestEndpoint: BulkEndpoint<OptionsOpenInterestData> = {
+  path: '/v2/bulk_hist/option/open_interest',
+  query: bulkQuery,
+  columns: [...CONTRACT_COLUMNS, 'ms_of_day', 'open_interest', 'date'],
+  toRow: (row, index) => ({
+    ...parseContract(row, index),
+    openInterest: Number(row.open_interest),
+  }),
+}
+
+const eodEndpoint: BulkEndpoint<OptionsEodData> = {
+  path: '/v2/bulk_hist/option/eod',
+  query: bulkQuery,
+  columns: [
+    ...CONTRACT_COLUMNS,
+    'ms_of_day',
+    'ms_of_day2',
+    'open',
+    'high',
+    'low',
+    'close',
+    'volume',
+    'count',
+    'bid_size',
+    'bid_exchange',
+    'bid',
+    'bid_condition',
+    'ask_size',
+    'ask_exchange',
+    'ask',
+    'ask_condition',
+    'date',
+  ],
+  toRow: (row, index) => ({
+    ...parseContract(row, index),
+    open: Number(row.open),
+    high: Number(row.high),
+    low: Number(row.low),
+    close: Number(row.close),
+    volume: Number(row.volume),
+    count: Number(row.count),
+    bidSize: Number(row.bid_size),
+    bid: Number(row.bid),
+    askSize: Number(row.ask_size),
+    ask: Number(row.ask),
+  }),
+}
+
+const indexOhlcEndpoint: BulkEndpoint<IndexOhlcData, IndexHistoryParams> = {
+  path: '/v2/hist/index/ohlc',
+  query: (params) => ({
+    root: params.root,
+    start_date: params.startDate,
+    end_date: params.endDate,
+    ivl: params.interval ?? 60000, // Bars need an interval; default to one minute
+    ...(params.rth !== undefined && { rth: params.rth }),
+    use_csv: true,
+  }),
+  columns: ['ms_of_day', 'open', 'high', 'low', 'close', 'volume', 'count', 'date'],
+  toRow: (row, index) => {
+    const close = Number(row.close)
+    if (row.close === undefined || Number.isNaN(close)) {
+      throw new Error(`Invalid close price at row ${index + 1}: ${row.close}`)
+    }
+    return {
+      open: Number(row.open),
+      high: Number(row.high),
+      low: Number(row.low),
+      close,
+      ...parseMarketTime(row),
     }
+  },
+}
+
+/**
+ * Split one CSV line into a record keyed by the endpoint's columns
+ * The terminal never quotes values, so a plain split is enough
+ */
+const parseBulkLine = (
+  columns: ReadonlyArray<string>,
+  line: string,
+  index: number,
+): Record<string, string> => {
+  const values = line.split(',')
+  if (values.length !== columns.length) {
+    throw new Error(
+      `Invalid column count at row ${index + 1}: expected ${columns.length}, got ${values.length}`,
+    )
+  }
+  return Object.fromEntries(columns.map((column, i) => [column, values[i]]))
+}
+
+/**
+ * Circuit breaker over the terminal connection
+ * failureThreshold consecutive connection failures open it; while open every request fails
+ * fast and probe runs every probeIntervalMs until the terminal answers, which closes it
+ */
+const makeCircuitBreaker = (options: {
+  readonly failureThreshold: number
+  readonly probeIntervalMs: number
+  readonly probe: Effect.Effect<boolean>
+}) =>
+  Effect.gen(function* (_) {
+    // The probe loop ends with the client's scope if the terminal never comes back
+    const scope = yield* _(Effect.scope)
+    const state = yield* _(
+      Ref.make<{ readonly failures: number; readonly nextProbeAt?: number }>({ failures: 0 }),
+    )
 
-    // Enhanced request function with logging, retry, and concurrency control
-    const makeRequest = <T>(
-      endpoint: string,
-      params?: Record<string, string | number | boolean>,
-      responseType: 'json' | 'text' = 'json',
-    ): Effect.Effect<T, ThetaDataConnectionError | ThetaDataApiError | ThetaDataRateLimitError> =>
+    const probeUntilClosed: Effect.Effect<void> = Effect.suspend(() =>
       Effect.gen(function* (_) {
-        const requestId = yield* _(generateRequestId())
+        yield* _(Effect.sleep(options.probeIntervalMs))
+        if (yield* _(options.probe)) {
+          yield* _(Ref.set(state, { failures: 0 }))
+          yield* _(Effect.log('ThetaData Terminal is answering again, closing the circuit'))
+          return
+        }
+        yield* _(
+          Ref.update(state, (s) => ({ ...s, nextProbeAt: Date.now() + options.probeIntervalMs })),
+        )
+        yield* _(probeUntilClosed)
+      }),
+    )
 
-        // Log request
+    const recordFailure = Effect.gen(function* (_) {
+      const opened = yield* _(
+        Ref.modify(state, (s) => {
+          if (s.nextProbeAt !== undefined) {
+            return [false, s]
+          }
+          const failures = s.failures + 1
+          return failures >= options.failureThreshold
+            ? [true, { failures, nextProbeAt: Date.now() + options.probeIntervalMs }]
+            : [false, { failures }]
+        }),
+      )
+      if (opened) {
         yield* _(
-          Effect.log(`[${requestId}] Starting request to ${endpoint}`, {
-            level: 'Debug',
-            params,
-          }),
+          Effect.logWarning(
+            `ThetaData Terminal failed ${options.failureThreshold} requests in a row, ` +
+              `opening the circuit and probing every ${options.probeIntervalMs}ms`,
+          ),
         )
+        yield* _(Effect.forkIn(probeUntilClosed, scope))
+      }
+    })
+
+    return <A, E, R>(
+      request: Effect.Effect<A, E, R>,
+    ): Effect.Effect<A, E | ThetaDataConnectionError, R> =>
+      options.failureThreshold <= 0
+        ? request
+        : Effect.gen(function* (_) {
+            const { nextProbeAt } = yield* _(Ref.get(state))
+            if (nextProbeAt !== undefined) {
+              // A probe due now is already running, so check back after the next one
+              const untilProbe = nextProbeAt - Date.now()
+              const retryAfter = untilProbe > 0 ? untilProbe : options.probeIntervalMs
+              return yield* _(
+                Effect.fail(
+                  new ThetaDataConnectionError({
+                    message: `ThetaData Terminal is unreachable; circuit open, next probe in ${retryAfter}ms`,
+                    circuitOpen: true,
+                    retryAfter,
+                  }),
+                ),
+              )
+            }
+            return yield* _(
+              request.pipe(
+                Effect.tap(() =>
+                  Ref.update(state, (s) => (s.nextProbeAt === undefined ? { failures: 0 } : s)),
+                ),
+                Effect.tapError((error) =>
+                  error instanceof ThetaDataConnectionError ? recordFailure : Effect.void,
+                ),
+              ),
+            )
+          })
+  })
+
+const DEFAULT_RETRY_AFTER_MS = 5000
+
+/**
+ * How long a 429's Retry-After header asks to wait, given as seconds or an HTTP date
+ * Missing or unreadable values fall back to 5 seconds
+ */
+const retryAfterMs = (header: string | null, now: number): number => {
+  if (!header) {
+    return DEFAULT_RETRY_AFTER_MS
+  }
+  const ms = /^\s*\d+(\.\d+)?\s*$/.test(header) ? Number(header) * 1000 : Date.parse(header) - now
+  return Number.isFinite(ms) ? Math.max(0, ms) : DEFAULT_RETRY_AFTER_MS
+}
+
+/**
+ * How the client reaches the terminal; swapped out to record or replay responses
+ */
+export type TerminalFetch = (
+  url: string,
+  init: { readonly signal: AbortSignal },
+) => Promise<Response>
+
+/**
+ * Create a ThetaDataApiClient layer that sends its HTTP requests through `send`
+ * Retries, timeouts, rate limiting and parsing behave the same whatever `send` does
+ */
+export const makeThetaDataApiClientLive = (send: TerminalFetch) =>
+  Layer.scoped(
+    ThetaDataApiClient,
+    Effect.gen(function* (_) {
+      const config = yield* _(AppConfig)
+      const baseUrl = config.thetaData.baseUrl
+      // Every attempt waits on the shared limiter, whatever concurrency callers use
+      const limiter = yield* _(RateLimiter)
+      const maxRetries = config.thetaData.maxRetries
+      const retryBaseDelayMs = config.thetaData.retryBaseDelayMs
+      const requestTimeoutMs = config.thetaData.requestTimeoutMs
+
+      // Any answer from the status endpoint means the terminal is reachable again
+      const withCircuitBreaker = yield* _(
+        makeCircuitBreaker({
+          failureThreshold: config.thetaData.circuitFailureThreshold,
+          probeIntervalMs: config.thetaData.circuitProbeIntervalMs,
+          probe: Effect.tryPromise(async () => {
+            const response = await send(new URL('/v2/system/mdds/status', baseUrl).toString(), {
+              signal: AbortSignal.timeout(requestTimeoutMs),
+            })
+            await response.text()
+            return true
+          }).pipe(Effect.orElseSucceed(() => false)),
+        }),
+      )
+
+      // Generate unique request IDs for tracing
+      const generateRequestId = () =>
+        Effect.gen(function* (_) {
+          const timestamp = Date.now()
+          const random = yield* _(Random.nextInt)
+          return `req-${timestamp}-${random}`
+        })
+
+      // Retry policy with exponential backoff
+      const retrySchedule = Schedule.exponential(retryBaseDelayMs, 2).pipe(
+        Schedule.compose(Schedule.recurs(maxRetries - 1)),
+      )
+
+      // Check if an error is retryable
+      const isRetryableError = (error: unknown): boolean => {
+        if (error instanceof ThetaDataRateLimitError) {
+          // The retry waits out the pause the 429 started
+          return true
+        }
+        if (error instanceof ThetaDataApiError) {
+          // Retry on 5xx errors and specific 4xx errors
+          return error.statusCode ? error.statusCode >= 500 || error.statusCode === 429 : false
+        }
+        if (error instanceof ThetaDataConnectionError) {
+          // Retry connection errors, except requests refused while the circuit is open
+          return !error.circuitOpen
+        }
+        return false
+      }
+
+      // Enhanced request function with logging, retry, and concurrency control
+      const makeRequest = <T>(
+        endpoint: string,
+        params?: Record<string, string | number | boolean>,
+        responseType: 'json' | 'text' | 'stream' = 'json',
+      ): Effect.Effect<T, ThetaDataConnectionError | ThetaDataApiError | ThetaDataRateLimitError> =>
+        Effect.gen(function* (_) {
+          const requestId = yield* _(generateRequestId())
+
+          // Log request
+          yield* _(
+            Effect.log(`[${requestId}] Starting request to ${endpoint}`, {
+              level: 'Debug',
+              params,
+            }),
+          )
 
-        // Execute the request with proper error handling
-        const startTime = Date.now()
+          // Execute the request with proper error handling
+          const startTime = Date.now()
 
-        const result = yield* _(
-          Effect.tryPromise({
+          const attempt = Effect.tryPromise({
             try: async () => {
               const controller = new AbortController()
               const timeoutId = setTimeout(() => controller.abort(), requestTimeoutMs)
@@ -85,7 +534,7 @@ export const ThetaDataApiClientLive = Layer.effect(
                   })
                 }
 
-                const response = await fetch(url.toString(), {
+                const response = await send(url.toString(), {
                   signal: controller.signal,
                 })
 
@@ -93,10 +542,9 @@ export const ThetaDataApiClientLive = Layer.effect(
 
                 // Check for rate limiting
                 if (response.status === 429) {
-                  const retryAfter = response.headers.get('Retry-After')
                   throw new ThetaDataRateLimitError({
                     message: 'Rate limit exceeded',
-                    retryAfter: retryAfter ? parseInt(retryAfter) * 1000 : 5000,
+                    retryAfter: retryAfterMs(response.headers.get('Retry-After'), Date.now()),
                   })
                 }
 
@@ -113,6 +561,18 @@ export const ThetaDataApiClientLive = Layer.effect(
                   return (await response.text()) as T
                 }
 
+                // The body is read by the caller; retries only cover establishing the response
+                if (responseType === 'stream') {
+                  if (!response.body) {
+                    throw new ThetaDataApiError({
+                      message: 'Response has no body',
+                      statusCode: response.status,
+                      endpoint,
+                    })
+                  }
+                  return response.body as T
+                }
+
                 return (await response.json()) as T
               } finally {
                 clearTimeout(timeoutId)
@@ -135,214 +595,231 @@ export const ThetaDataApiClientLive = Layer.effect(
               })
             },
           }).pipe(
-            // Apply retry logic for retryable errors
-            Effect.retry({
-              schedule: retrySchedule,
-              while: isRetryableError,
-            }),
-            // Log response
-            Effect.tap((_response) => {
-              const duration = Date.now() - startTime
-              return Effect.log(`[${requestId}] Request completed in ${duration}ms`, {
-                level: 'Debug',
-                endpoint,
-                duration,
-              })
-            }),
-            // Log errors
-            Effect.tapError((error) => {
-              const duration = Date.now() - startTime
-              return Effect.log(`[${requestId}] Request failed after ${duration}ms: ${error}`, {
-                level: 'Warning',
-                endpoint,
-                duration,
-                error,
-              })
-            }),
-          ),
-        )
-
-        return result
-      })
-
-    return {
-      healthCheck: () =>
-        makeRequest<string>('/v2/system/mdds/status', undefined, 'text').pipe(
-          Effect.map((statusText) => {
-            const status = statusText.trim() as
-              | 'CONNECTED'
-              | 'UNVERIFIED'
-              | 'DISCONNECTED'
-              | 'ERROR'
-            return {
-              isConnected: status === 'CONNECTED',
-              status,
-              timestamp: new Date(),
-            } as TerminalStatus
-          }),
-          Effect.catchTags({
-            ThetaDataConnectionError: () =>
-              Effect.succeed({
-                isConnected: false,
-                status: 'DISCONNECTED' as const,
-                timestamp: new Date(),
-              } as TerminalStatus),
-            ThetaDataRateLimitError: () =>
-              Effect.succeed({
-                isConnected: false,
-                status: 'ERROR' as const,
-                timestamp: new Date(),
-              } as TerminalStatus),
-          }),
-        ),
-
-      listExpirations: () =>
-        // The ThetaData API returns ALL expirations for the root
-        makeRequest<{
-          header: { format: string[] }
-          response: number[] // Array of expiration dates in YYYYMMDD format as numbers
-        }>('/v2/list/expirations', {
-          root: 'SPXW',
-        }).pipe(
-          Effect.map((data) => {
-            // Convert YYYYMMDD format to YYYY-MM-DD and calculate DTE
-            const today = new Date()
-            today.setHours(0, 0, 0, 0)
-
-            return data.response.map((expNum) => {
-              // Convert number YYYYMMDD to string
-              const expStr = String(expNum)
-              // Convert YYYYMMDD to YYYY-MM-DD
-              const year = expStr.substring(0, 4)
-              const month = expStr.substring(4, 6)
-              const day = expStr.substring(6, 8)
-              const formattedDate = `${year}-${month}-${day}`
-
-              // Calculate days to expiration
-              const expDate = new Date(formattedDate)
-              expDate.setHours(0, 0, 0, 0)
-              const diffTime = expDate.getTime() - today.getTime()
-              const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24))
+            // A 429 holds every request for the terminal's Retry-After window; a streamed
+            // request already holds its permit, so it sleeps out the window before retrying
+            Effect.tapError((error) =>
+              error instanceof ThetaDataRateLimitError
+                ? Effect.zipRight(
+                    limiter.pause(error.retryAfter ?? DEFAULT_RETRY_AFTER_MS),
+                    responseType === 'stream'
+                      ? Effect.sleep(error.retryAfter ?? DEFAULT_RETRY_AFTER_MS)
+                      : Effect.void,
+                  )
+                : Effect.void,
+            ),
+          )
+
+          // A streamed response keeps the permit its caller took until the body is read
+          const result = yield* _(
+            withCircuitBreaker(
+              responseType === 'stream' ? attempt : limiter.withPermit(attempt),
+            ).pipe(
+              // Apply retry logic for retryable errors
+              Effect.retry({
+                schedule: retrySchedule,
+                while: isRetryableError,
+              }),
+              // Log response
+              Effect.tap((_response) => {
+                const duration = Date.now() - startTime
+                return Effect.log(`[${requestId}] Request completed in ${duration}ms`, {
+                  level: 'Debug',
+                  endpoint,
+                  duration,
+                })
+              }),
+              // Log errors
+              Effect.tapError((error) => {
+                const duration = Date.now() - startTime
+                return Effect.log(`[${requestId}] Request failed after ${duration}ms: ${error}`, {
+                  level: 'Warning',
+                  endpoint,
+                  duration,
+                  error,
+                })
+              }),
+            ),
+          )
 
-              return {
-                date: formattedDate,
-                daysToExpiration: diffDays,
-              }
-            }) as ReadonlyArray<ExpirationDate>
-          }),
-        ),
+          return result
+        })
 
-      getBulkOptionsGreeks: (params: BulkOptionsGreeksParams) =>
+      // Request a whole bulk response as CSV text and parse it in one go
+      const fetchBulk = <A, P>(endpoint: BulkEndpoint<A, P>, params: P) =>
         makeRequest<string>(
-          '/v2/bulk_hist/option/greeks',
-          {
-            root: params.root,
-            exp: params.expiration,
-            start_date: params.startDate,
-            end_date: params.endDate,
-            ivl: params.interval ?? 0, // Default to tick-level data
-            use_csv: true, // Always use CSV for efficiency
-            ...(params.annualDiv !== undefined && { annual_div: params.annualDiv }),
-            ...(params.rate && { rate: params.rate }),
-            ...(params.rateValue !== undefined && { rate_value: params.rateValue }),
-            ...(params.rth !== undefined && { rth: params.rth }),
-            ...(params.startTime && { start_time: params.startTime }),
-            ...(params.endTime && { end_time: params.endTime }),
-          },
+          endpoint.path,
+          endpoint.query(params),
           'text', // Expect CSV text response
         ).pipe(
           Effect.map((csvData) => {
-            // Define the expected columns based on actual ThetaData API response
-            const columns = [
-              'root',
-              'expiration',
-              'strike',
-              'right',
-              'ms_of_day',
-              'bid',
-              'ask',
-              'delta',
-              'theta',
-              'vega',
-              'rho',
-              'epsilon',
-              'lambda',
-              'implied_vol',
-              'iv_error',
-              'ms_of_day2',
-              'underlying_price',
-              'date',
-            ]
-
             // Parse CSV with strict validation
             const records: Record<string, string>[] = parse(csvData, {
-              columns: columns,
+              columns: [...endpoint.columns],
               skip_empty_lines: true,
-              from_line: csvData.startsWith('root') || csvData.startsWith('ms_of_day') ? 2 : 1, // Skip header if present
+              from_line: isBulkHeader(csvData) ? 2 : 1, // Skip header if present
               cast: false, // We'll handle type conversion explicitly
               relax_column_count: false, // Enforce column count - fail on malformed data
               skip_records_with_error: false, // Don't silently skip bad records
             }) as Record<string, string>[]
 
-            // Transform parsed records to OptionsGreeksData
-            // Records are now plain objects with string values since cast:false
-            const results: OptionsGreeksData[] = records.map(
-              (row: Record<string, string>, index: number) => {
-                // Validate critical fields exist
-                if (!row.strike || !row.right) {
-                  throw new Error(
-                    `Missing critical fields at row ${index + 1}: strike=${row.strike}, right=${row.right}`,
-                  )
-                }
+            // Transform parsed records to rows
+            return records.map(endpoint.toRow) as ReadonlyArray<A>
+          }),
+        )
 
-                // Validate right is C or P
-                if (row.right !== 'C' && row.right !== 'P') {
-                  throw new Error(`Invalid option right at row ${index + 1}: ${row.right}`)
-                }
+      // Parse rows as the response body arrives, holding a limiter permit until it ends
+      const streamBulk = <A>(endpoint: BulkEndpoint<A>, params: BulkOptionsParams) =>
+        Stream.unwrapScoped(
+          Effect.zipRight(
+            limiter.permit,
+            makeRequest<ReadableStream<Uint8Array>>(
+              endpoint.path,
+              endpoint.query(params),
+              'stream',
+            ),
+          ).pipe(
+            Effect.zip(Ref.make(false)),
+            Effect.map(([body, cutOff]) =>
+              Stream.fromReadableStream(
+                () => body,
+                (error) =>
+                  new ThetaDataConnectionError({
+                    message: `Failed to read response from ${endpoint.path}: ${error}`,
+                    cause: error,
+                  }),
+              ).pipe(
+                // The request timeout ends once headers arrive; a body that then stalls fails
+                // after the same time without data, however long the whole response takes
+                Stream.timeoutFail(
+                  () =>
+                    new ThetaDataConnectionError({
+                      message: `No data from ${endpoint.path} for ${requestTimeoutMs}ms`,
+                    }),
+                  requestTimeoutMs,
+                ),
+                Stream.tapError(() => Ref.set(cutOff, true)),
+                Stream.decodeText(),
+                Stream.splitLines,
+                // splitLines still emits the partial line a dropped connection leaves, ahead of the
+                // error; drop it so the read fails as a connection error rather than a malformed row
+                Stream.mapChunksEffect((lines) =>
+                  Effect.map(Ref.get(cutOff), (cut) => (cut ? Chunk.empty<string>() : lines)),
+                ),
+                Stream.filter((line) => line.trim() !== ''),
+                Stream.zipWithIndex,
+                Stream.filter(([line, index]) => index > 0 || !isBulkHeader(line)),
+                // Parse whole chunks at a time to keep per-row overhead low
+                Stream.mapChunksEffect((lines) =>
+                  Effect.try({
+                    try: () =>
+                      Chunk.map(lines, ([line, index]) =>
+                        endpoint.toRow(parseBulkLine(endpoint.columns, line, index), index),
+                      ),
+                    catch: (error) =>
+                      new ThetaDataApiError({
+                        message: error instanceof Error ? error.message : String(error),
+                        endpoint: endpoint.path,
+                      }),
+                  }),
+                ),
+              ),
+            ),
+          ),
+        )
 
-                // Convert date from YYYYMMDD to Date object
-                const dateStr = String(row.date)
-                const year = parseInt(dateStr.substring(0, 4))
-                const month = parseInt(dateStr.substring(4, 6)) - 1
-                const day = parseInt(dateStr.substring(6, 8))
-                const date = new Date(year, month, day)
-
-                // Add milliseconds of day to get exact timestamp
-                const msOfDay = Number(row.ms_of_day)
-                if (!Number.isNaN(msOfDay)) {
-                  date.setMilliseconds(msOfDay)
-                }
+      return {
+        healthCheck: () =>
+          makeRequest<string>('/v2/system/mdds/status', undefined, 'text').pipe(
+            Effect.map((statusText) => {
+              const status = statusText.trim() as
+                | 'CONNECTED'
+                | 'UNVERIFIED'
+                | 'DISCONNECTED'
+                | 'ERROR'
+              return {
+                isConnected: status === 'CONNECTED',
+                status,
+                timestamp: new Date(),
+              } as TerminalStatus
+            }),
+            Effect.catchTags({
+              ThetaDataConnectionError: () =>
+                Effect.succeed({
+                  isConnected: false,
+                  status: 'DISCONNECTED' as const,
+                  timestamp: new Date(),
+                } as TerminalStatus),
+              ThetaDataRateLimitError: () =>
+                Effect.succeed({
+                  isConnected: false,
+                  status: 'ERROR' as const,
+                  timestamp: new Date(),
+                } as TerminalStatus),
+            }),
+          ),
 
-                // Convert all numeric fields, with NaN for invalid values
-                const result = {
-                  strike: Number(row.strike),
-                  right: row.right as 'C' | 'P',
-                  bid: Number(row.bid),
-                  ask: Number(row.ask),
-                  delta: Number(row.delta),
-                  theta: Number(row.theta),
-                  vega: Number(row.vega),
-                  rho: Number(row.rho),
-                  epsilon: Number(row.epsilon),
-                  lambda: Number(row.lambda),
-                  impliedVolatility: Number(row.implied_vol),
-                  ivError: Number(row.iv_error),
-                  underlyingPrice: Number(row.underlying_price),
-                  timestamp: date,
+        listExpirations: (root: string) =>
+          // The ThetaData API returns ALL expirations for the root
+          makeRequest<{
+            header: { format: string[] }
+            response: number[] // Array of expiration dates in YYYYMMDD format as numbers
+          }>('/v2/list/expirations', {
+            root,
+          }).pipe(
+            Effect.map((data) => {
+              // Convert YYYYMMDD format to YYYY-MM-DD and count calendar days from today in ET
+              const today = easternTimestamp(easternTimeOf(new Date()).tradeDate)
+
+              return data.response.map((expNum) => {
+                // Convert number YYYYMMDD to string
+                const expStr = String(expNum)
+                // Convert YYYYMMDD to YYYY-MM-DD
+                const year = expStr.substring(0, 4)
+                const month = expStr.substring(4, 6)
+                const day = expStr.substring(6, 8)
+                const formattedDate = `${year}-${month}-${day}`
+
+                // Calculate days to expiration; rounding absorbs the DST hour
+                const expDate = easternTimestamp(expStr)
+                const diffTime = expDate.getTime() - today.getTime()
+                const diffDays = Math.round(diffTime / (1000 * 60 * 60 * 24))
+
+                return {
+                  date: formattedDate,
+                  daysToExpiration: diffDays,
                 }
+              }) as ReadonlyArray<ExpirationDate>
+            }),
+          ),
 
-                // Validate we got valid numbers for critical fields
-                if (Number.isNaN(result.strike)) {
-                  throw new Error(`Invalid strike price at row ${index + 1}: ${row.strike}`)
-                }
+        listStrikes: (root: string, expiration: string) =>
+          makeRequest<{
+            header: { format: string[] }
+            response: number[]
+          }>('/v2/list/strikes', { root, exp: expiration }).pipe(
+            Effect.map((data) => data.response as ReadonlyArray<number>),
+          ),
 
-                return result
-              },
-            )
+        getBulkOptionsGreeks: (params: BulkOptionsGreeksParams) =>
+          fetchBulk(greeksEndpoint, params),
 
-            return results as ReadonlyArray<OptionsGreeksData>
-          }),
-        ),
-    }
-  }),
-)
+        getBulkOptionsQuotes: (params: BulkOptionsParams) => fetchBulk(quoteEndpoint, params),
+
+        getBulkOptionsTrades: (params: BulkOptionsParams) => fetchBulk(tradeEndpoint, params),
+
+        getBulkOptionsOhlc: (params: BulkOptionsParams) => fetchBulk(ohlcEndpoint, params),
+
+        getBulkOptionsOpenInterest: (params: BulkOptionsParams) =>
+          fetchBulk(openInterestEndpoint, params),
+
+        getBulkOptionsEod: (params: BulkOptionsParams) => fetchBulk(eodEndpoint, params),
+
+        getIndexOhlc: (params: IndexHistoryParams) => fetchBulk(indexOhlcEndpoint, params),
+
+        streamBulkOptionsGreeks: (params: BulkOptionsGreeksParams) =>
+          streamBulk(greeksEndpoint, params),
+      }
+    }),
+  )
+
+export const ThetaDataApiClientLive = makeThetaDataApiClientLive(fetch)
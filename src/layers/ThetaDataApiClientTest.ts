@@ -1,12 +1,182 @@
-import { Effect, Layer } from 'effect'
+import { Effect, Layer, Stream } from 'effect'
 import {
   type BulkOptionsGreeksParams,
+  type BulkOptionsParams,
   type ExpirationDate,
+  type IndexHistoryParams,
+  type IndexOhlcData,
+  type OptionsEodData,
   type OptionsGreeksData,
+  type OptionsOhlcData,
+  type OptionsOpenInterestData,
+  type OptionsQuoteData,
+  type OptionsTradeData,
   type TerminalStatus,
   ThetaDataApiClient,
 } from '../services/ThetaDataApiClient'
 
+// Mock Greeks data for all strikes and rights of an expiration
+// The bulk endpoint returns ALL contracts, not filtered
+const mockGreeks: OptionsGreeksData[] = [
+  {
+    strike: 5000,
+    right: 'C',
+    bid: 114.95,
+    ask: 115.05,
+    delta: 0.9988,
+    theta: -0.0393,
+    vega: 0.0708,
+    rho: 0.7094,
+    epsilon: -1.9697,
+    lambda: 1.5629,
+    impliedVolatility: 3.3828,
+    ivError: 0,
+    underlyingPrice: 5179.94,
+    timestamp: new Date(),
+  },
+  {
+    strike: 5000,
+    right: 'P',
+    bid: 0.95,
+    ask: 1.05,
+    delta: -0.002,
+    theta: -0.0073,
+    vega: 0.1624,
+    rho: -0.0072,
+    epsilon: 0.007,
+    lambda: -37.8591,
+    impliedVolatility: 0.6374,
+    ivError: 0,
+    underlyingPrice: 5179.94,
+    timestamp: new Date(),
+  },
+  {
+    strike: 5050,
+    right: 'C',
+    bid: 66.45,
+    ask: 66.95,
+    delta: 0.8547,
+    theta: -0.1256,
+    vega: 0.3456,
+    rho: 0.5234,
+    epsilon: -2.3456,
+    lambda: 2.1234,
+    impliedVolatility: 4.2345,
+    ivError: 0,
+    underlyingPrice: 5179.94,
+    timestamp: new Date(),
+  },
+  {
+    strike: 5050,
+    right: 'P',
+    bid: 2.85,
+    ask: 2.95,
+    delta: -0.1453,
+    theta: -0.0234,
+    vega: 0.3456,
+    rho: -0.0234,
+    epsilon: 0.0123,
+    lambda: -25.3456,
+    impliedVolatility: 0.8234,
+    ivError: 0,
+    underlyingPrice: 5179.94,
+    timestamp: new Date(),
+  },
+  {
+    strike: 5100,
+    right: 'C',
+    bid: 32.1,
+    ask: 32.5,
+    delta: 0.6234,
+    theta: -0.2145,
+    vega: 0.5678,
+    rho: 0.3456,
+    epsilon: -3.1234,
+    lambda: 3.4567,
+    impliedVolatility: 5.1234,
+    ivError: 0,
+    underlyingPrice: 5179.94,
+    timestamp: new Date(),
+  },
+  {
+    strike: 5100,
+    right: 'P',
+    bid: 12.3,
+    ask: 12.6,
+    delta: -0.3766,
+    theta: -0.0567,
+    vega: 0.5678,
+    rho: -0.0456,
+    epsilon: 0.0234,
+    lambda: -18.2345,
+    impliedVolatility: 1.0234,
+    ivError: 0,
+    underlyingPrice: 5179.94,
+    timestamp: new Date(),
+  },
+]
+
+// The other datasets are derived from the same contracts and quotes
+const mockQuotes: OptionsQuoteData[] = mockGreeks.map(({ strike, right, bid, ask, timestamp }) => ({
+  strike,
+  right,
+  bidSize: 10,
+  bidExchange: 5,
+  bid,
+  bidCondition: 50,
+  askSize: 12,
+  askExchange: 5,
+  ask,
+  askCondition: 50,
+  timestamp,
+}))
+
+const mockTrades: OptionsTradeData[] = mockGreeks.map(({ strike, right, ask, timestamp }, i) => ({
+  strike,
+  right,
+  sequence: 1000 + i,
+  condition: 18,
+  size: 1,
+  exchange: 5,
+  price: ask,
+  timestamp,
+}))
+
+const mockOhlc: OptionsOhlcData[] = mockGreeks.map(({ strike, right, bid, ask, timestamp }) => ({
+  strike,
+  right,
+  open: bid,
+  high: ask,
+  low: bid,
+  close: ask,
+  volume: 25,
+  count: 3,
+  timestamp,
+}))
+
+const mockOpenInterest: OptionsOpenInterestData[] = mockGreeks.map(
+  ({ strike, right, timestamp }) => ({ strike, right, openInterest: 1500, timestamp }),
+)
+
+const mockEod: OptionsEodData[] = mockOhlc.map((bar) => ({
+  ...bar,
+  bidSize: 10,
+  bid: bar.low,
+  askSize: 12,
+  ask: bar.high,
+}))
+
+// One index bar per Greeks timestamp, closing at that row's underlying price
+const mockIndexOhlc: IndexOhlcData[] = [
+  ...new Map(mockGreeks.map((row) => [row.timestamp.getTime(), row])).values(),
+].map(({ underlyingPrice, timestamp }) => ({
+  open: underlyingPrice - 1,
+  high: underlyingPrice + 2,
+  low: underlyingPrice - 2,
+  close: underlyingPrice,
+  timestamp,
+}))
+
 export const ThetaDataApiClientTest = Layer.succeed(ThetaDataApiClient, {
   healthCheck: () =>
     Effect.succeed<TerminalStatus>({
@@ -15,7 +185,7 @@ export const ThetaDataApiClientTest = Layer.succeed(ThetaDataApiClient, {
       timestamp: new Date(),
     }),
 
-  listExpirations: () => {
+  listExpirations: (_root: string) => {
     // Mock expiration dates
     const expirations: ExpirationDate[] = [
       { date: '2024-03-22', daysToExpiration: 7 },
@@ -25,109 +195,30 @@ export const ThetaDataApiClientTest = Layer.succeed(ThetaDataApiClient, {
     return Effect.succeed(expirations as ReadonlyArray<ExpirationDate>)
   },
 
-  getBulkOptionsGreeks: (_params: BulkOptionsGreeksParams) => {
-    // Return mock Greeks data for all strikes and rights for the given expiration
-    // The bulk endpoint returns ALL contracts, not filtered
-    const mockGreeks: OptionsGreeksData[] = [
-      {
-        strike: 5000,
-        right: 'C',
-        bid: 114.95,
-        ask: 115.05,
-        delta: 0.9988,
-        theta: -0.0393,
-        vega: 0.0708,
-        rho: 0.7094,
-        epsilon: -1.9697,
-        lambda: 1.5629,
-        impliedVolatility: 3.3828,
-        ivError: 0,
-        underlyingPrice: 5179.94,
-        timestamp: new Date(),
-      },
-      {
-        strike: 5000,
-        right: 'P',
-        bid: 0.95,
-        ask: 1.05,
-        delta: -0.002,
-        theta: -0.0073,
-        vega: 0.1624,
-        rho: -0.0072,
-        epsilon: 0.007,
-        lambda: -37.8591,
-        impliedVolatility: 0.6374,
-        ivError: 0,
-        underlyingPrice: 5179.94,
-        timestamp: new Date(),
-      },
-      {
-        strike: 5050,
-        right: 'C',
-        bid: 66.45,
-        ask: 66.95,
-        delta: 0.8547,
-        theta: -0.1256,
-        vega: 0.3456,
-        rho: 0.5234,
-        epsilon: -2.3456,
-        lambda: 2.1234,
-        impliedVolatility: 4.2345,
-        ivError: 0,
-        underlyingPrice: 5179.94,
-        timestamp: new Date(),
-      },
-      {
-        strike: 5050,
-        right: 'P',
-        bid: 2.85,
-        ask: 2.95,
-        delta: -0.1453,
-        theta: -0.0234,
-        vega: 0.3456,
-        rho: -0.0234,
-        epsilon: 0.0123,
-        lambda: -25.3456,
-        impliedVolatility: 0.8234,
-        ivError: 0,
-        underlyingPrice: 5179.94,
-        timestamp: new Date(),
-      },
-      {
-        strike: 5100,
-        right: 'C',
-        bid: 32.1,
-        ask: 32.5,
-        delta: 0.6234,
-        theta: -0.2145,
-        vega: 0.5678,
-        rho: 0.3456,
-        epsilon: -3.1234,
-        lambda: 3.4567,
-        impliedVolatility: 5.1234,
-        ivError: 0,
-        underlyingPrice: 5179.94,
-        timestamp: new Date(),
-      },
-      {
-        strike: 5100,
-        right: 'P',
-        bid: 12.3,
-        ask: 12.6,
-        delta: -0.3766,
-        theta: -0.0567,
-        vega: 0.5678,
-        rho: -0.0456,
-        epsilon: 0.0234,
-        lambda: -18.2345,
-        impliedVolatility: 1.0234,
-        ivError: 0,
-        underlyingPrice: 5179.94,
-        timestamp: new Date(),
-      },
-    ]
+  listStrikes: (_root: string, _expiration: string) =>
+    Effect.succeed([...new Set(mockGreeks.map((row) => row.strike))] as ReadonlyArray<number>),
 
+  getBulkOptionsGreeks: (_params: BulkOptionsGreeksParams) =>
     // Bulk endpoint returns all contracts for the expiration
-    return Effect.succeed(mockGreeks as ReadonlyArray<OptionsGreeksData>)
-  },
+    Effect.succeed(mockGreeks as ReadonlyArray<OptionsGreeksData>),
+
+  getBulkOptionsQuotes: (_params: BulkOptionsParams) =>
+    Effect.succeed(mockQuotes as ReadonlyArray<OptionsQuoteData>),
+
+  getBulkOptionsTrades: (_params: BulkOptionsParams) =>
+    Effect.succeed(mockTrades as ReadonlyArray<OptionsTradeData>),
+
+  getBulkOptionsOhlc: (_params: BulkOptionsParams) =>
+    Effect.succeed(mockOhlc as ReadonlyArray<OptionsOhlcData>),
+
+  getBulkOptionsOpenInterest: (_params: BulkOptionsParams) =>
+    Effect.succeed(mockOpenInterest as ReadonlyArray<OptionsOpenInterestData>),
+
+  getBulkOptionsEod: (_params: BulkOptionsParams) =>
+    Effect.succeed(mockEod as ReadonlyArray<OptionsEodData>),
+
+  getIndexOhlc: (_params: IndexHistoryParams) =>
+    Effect.succeed(mockIndexOhlc as ReadonlyArray<IndexOhlcData>),
+
+  streamBulkOptionsGreeks: (_params: BulkOptionsGreeksParams) => Stream.fromIterable(mockGreeks),
 })
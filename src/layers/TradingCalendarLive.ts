@@ -0,0 +1,255 @@
+import { Effect, Layer } from 'effect'
+import {
+  TradingCalendar,
+  TradingCalendarError,
+  type TradingSession,
+} from '../services/TradingCalendar'
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000
+const REGULAR_OPEN_MS = (9 * 60 + 30) * 60 * 1000 // 09:30 ET
+const REGULAR_CLOSE_MS = 16 * 60 * 60 * 1000 // 16:00 ET
+const EARLY_CLOSE_MS = 13 * 60 * 60 * 1000 // 13:00 ET
+
+// Unscheduled full-day closures that no rule can derive
+const SPECIAL_CLOSURES: Record<string, string> = {
+  '20010911': 'September 11 attacks',
+  '20010912': 'September 11 attacks',
+  '20010913': 'September 11 attacks',
+  '20010914': 'September 11 attacks',
+  '20040611': 'National Day of Mourning for Ronald Reagan',
+  '20070102': 'National Day of Mourning for Gerald Ford',
+  '20121029': 'Hurricane Sandy',
+  '20121030': 'Hurricane Sandy',
+  '20181205': 'National Day of Mourning for George H.W. Bush',
+  '20250109': 'National Day of Mourning for Jimmy Carter',
+}
+
+/**
+ * Parse YYYYMMDD or YYYY-MM-DD into a UTC midnight Date, or undefined if invalid
+ */
+const parseCalendarDate = (date: string): Date | undefined => {
+  const normalized = date.replace(/-/g, '')
+  if (!/^\d{8}$/.test(normalized)) {
+    return undefined
+  }
+
+  const year = Number(normalized.slice(0, 4))
+  const month = Number(normalized.slice(4, 6)) - 1
+  const day = Number(normalized.slice(6, 8))
+  const parsed = new Date(Date.UTC(year, month, day))
+
+  // Reject overflowed dates such as 20240230
+  if (parsed.getUTCMonth() !== month || parsed.getUTCDate() !== day) {
+    return undefined
+  }
+  return parsed
+}
+
+const formatCalendarDate = (date: Date): string =>
+  `${date.getUTCFullYear()}${String(date.getUTCMonth() + 1).padStart(2, '0')}${String(
+    date.getUTCDate(),
+  ).padStart(2, '0')}`
+
+const addDays = (date: Date, days: number): Date => new Date(date.getTime() + days * MS_PER_DAY)
+
+const isWeekend = (date: Date): boolean => date.getUTCDay() === 0 || date.getUTCDay() === 6
+
+/**
+ * The nth occurrence (1-based) of a weekday (0 = Sunday) in a month
+ */
+const nthWeekdayOfMonth = (year: number, month: number, weekday: number, n: number): Date => {
+  const first = new Date(Date.UTC(year, month, 1))
+  const offset = (weekday - first.getUTCDay() + 7) % 7
+  return addDays(first, offset + (n - 1) * 7)
+}
+
+/**
+ * The last occurrence of a weekday (0 = Sunday) in a month
+ */
+const lastWeekdayOfMonth = (year: number, month: number, weekday: number): Date => {
+  const last = new Date(Date.UTC(year, month + 1, 0))
+  const offset = (last.getUTCDay() - weekday + 7) % 7
+  return addDays(last, -offset)
+}
+
+/**
+ * Fixed-date holidays falling on Saturday are observed Friday, on Sunday the following Monday
+ */
+const observedDate = (date: Date): Date => {
+  if (date.getUTCDay() === 6) return addDays(date, -1)
+  if (date.getUTCDay() === 0) return addDays(date, 1)
+  return date
+}
+
+/**
+ * Easter Sunday (Gregorian calendar, anonymous algorithm)
+ */
+const easterSunday = (year: number): Date => {
+  const a = year % 19
+  const b = Math.floor(year / 100)
+  const c = year % 100
+  const d = Math.floor(b / 4)
+  const e = b % 4
+  const f = Math.floor((b + 8) / 25)
+  const g = Math.floor((b - f + 1) / 3)
+  const h = (19 * a + b - d - g + 15) % 30
+  const i = Math.floor(c / 4)
+  const k = c % 4
+  const l = (32 + 2 * e + 2 * i - h - k) % 7
+  const m = Math.floor((a + 11 * h + 22 * l) / 451)
+  const month = Math.floor((h + l - 7 * m + 114) / 31) - 1
+  const day = ((h + l - 7 * m + 114) % 31) + 1
+  return new Date(Date.UTC(year, month, day))
+}
+
+const holidayCache = new Map<number, Map<string, string>>()
+const earlyCloseCache = new Map<number, Map<string, string>>()
+
+/**
+ * Full-day market holidays for a year, keyed by YYYYMMDD
+ */
+const holidaysForYear = (year: number): Map<string, string> => {
+  const cached = holidayCache.get(year)
+  if (cached) return cached
+
+  const holidays = new Map<string, string>()
+  const add = (date: Date, name: string) => holidays.set(formatCalendarDate(date), name)
+
+  // New Year's Day on a Saturday is not observed on the preceding Friday
+  const newYear = new Date(Date.UTC(year, 0, 1))
+  if (newYear.getUTCDay() !== 6) add(observedDate(newYear), "New Year's Day")
+
+  if (year >= 1998) add(nthWeekdayOfMonth(year, 0, 1, 3), 'Martin Luther King Jr. Day')
+  add(nthWeekdayOfMonth(year, 1, 1, 3), "Washington's Birthday")
+  add(addDays(easterSunday(year), -2), 'Good Friday')
+  add(lastWeekdayOfMonth(year, 4, 1), 'Memorial Day')
+  if (year >= 2022) add(observedDate(new Date(Date.UTC(year, 5, 19))), 'Juneteenth')
+  add(observedDate(new Date(Date.UTC(year, 6, 4))), 'Independence Day')
+  add(nthWeekdayOfMonth(year, 8, 1, 1), 'Labor Day')
+  add(nthWeekdayOfMonth(year, 10, 4, 4), 'Thanksgiving Day')
+  add(observedDate(new Date(Date.UTC(year, 11, 25))), 'Christmas Day')
+
+  holidayCache.set(year, holidays)
+  return holidays
+}
+
+/**
+ * Scheduled 13:00 ET early closes for a year, keyed by YYYYMMDD
+ */
+const earlyClosesForYear = (year: number): Map<string, string> => {
+  const cached = earlyCloseCache.get(year)
+  if (cached) return cached
+
+  const earlyCloses = new Map<string, string>()
+  const isMondayToThursday = (date: Date) => date.getUTCDay() >= 1 && date.getUTCDay() <= 4
+
+  const julyThird = new Date(Date.UTC(year, 6, 3))
+  if (isMondayToThursday(julyThird)) {
+    earlyCloses.set(formatCalendarDate(julyThird), 'Day before Independence Day')
+  }
+
+  earlyCloses.set(
+    formatCalendarDate(addDays(nthWeekdayOfMonth(year, 10, 4, 4), 1)),
+    'Day after Thanksgiving',
+  )
+
+  const christmasEve = new Date(Date.UTC(year, 11, 24))
+  if (isMondayToThursday(christmasEve)) {
+    earlyCloses.set(formatCalendarDate(christmasEve), 'Christmas Eve')
+  }
+
+  earlyCloseCache.set(year, earlyCloses)
+  return earlyCloses
+}
+
+const sessionFor = (date: Date): TradingSession => {
+  const key = formatCalendarDate(date)
+
+  if (isWeekend(date)) {
+    return { date: key, isTradingDay: false, isHalfDay: false }
+  }
+
+  const holiday = SPECIAL_CLOSURES[key] ?? holidaysForYear(date.getUTCFullYear()).get(key)
+  if (holiday) {
+    return { date: key, isTradingDay: false, isHalfDay: false, holiday }
+  }
+
+  const isHalfDay = earlyClosesForYear(date.getUTCFullYear()).has(key)
+  return {
+    date: key,
+    isTradingDay: true,
+    isHalfDay,
+    openMsOfDay: REGULAR_OPEN_MS,
+    closeMsOfDay: isHalfDay ? EARLY_CLOSE_MS : REGULAR_CLOSE_MS,
+  }
+}
+
+const parseOrFail = (date: string): Effect.Effect<Date, TradingCalendarError> => {
+  const parsed = parseCalendarDate(date)
+  return parsed
+    ? Effect.succeed(parsed)
+    : Effect.fail(
+        new TradingCalendarError({
+          message: `Invalid date: ${date}. Expected YYYYMMDD or YYYY-MM-DD`,
+          date,
+        }),
+      )
+}
+
+/**
+ * Trading days in (from, to], both given as UTC midnight dates with from <= to
+ */
+const countTradingDaysAfter = (from: Date, to: Date): number => {
+  let count = 0
+  for (let day = addDays(from, 1); day <= to; day = addDays(day, 1)) {
+    if (sessionFor(day).isTradingDay) count++
+  }
+  return count
+}
+
+/**
+ * Live TradingCalendar computing NYSE/CBOE holidays and early closes from rules
+ */
+export const TradingCalendarLive = Layer.succeed(
+  TradingCalendar,
+  TradingCalendar.of({
+    getSession: (date) => parseOrFail(date).pipe(Effect.map(sessionFor)),
+
+    isTradingDay: (date) =>
+      parseOrFail(date).pipe(Effect.map((parsed) => sessionFor(parsed).isTradingDay)),
+
+    isHalfDay: (date) =>
+      parseOrFail(date).pipe(Effect.map((parsed) => sessionFor(parsed).isHalfDay)),
+
+    tradingDaysBetween: (startDate, endDate) =>
+      Effect.gen(function* (_) {
+        const start = yield* _(parseOrFail(startDate))
+        const end = yield* _(parseOrFail(endDate))
+
+        const days: string[] = []
+        for (let day = start; day <= end; day = addDays(day, 1)) {
+          if (sessionFor(day).isTradingDay) days.push(formatCalendarDate(day))
+        }
+        return days
+      }),
+
+    previousTradingDays: (endDate, count) =>
+      Effect.gen(function* (_) {
+        const end = yield* _(parseOrFail(endDate))
+
+        const days: string[] = []
+        for (let day = end; days.length < count; day = addDays(day, -1)) {
+          if (sessionFor(day).isTradingDay) days.unshift(formatCalendarDate(day))
+        }
+        return days
+      }),
+
+    tradingDaysToExpiration: (tradeDate, expiration) =>
+      Effect.gen(function* (_) {
+        const trade = yield* _(parseOrFail(tradeDate))
+        const exp = yield* _(parseOrFail(expiration))
+
+        return exp >= trade ? countTradingDaysAfter(trade, exp) : -countTradingDaysAfter(exp, trade)
+      }),
+  }),
+)
@@ -1,10 +1,21 @@
 export * from './BulkGreeksProcessorLive'
 export * from './BulkGreeksProcessorTest'
 export * from './DataPipelineLive'
+export * from './DataValidationLive'
 export * from './DataWriterCsvLive'
+export * from './DataWriterJsonlLive'
+export * from './DataWriterParquetLive'
 export * from './DataWriterTest'
+export * from './DeadLetterQueueTest'
+export * from './DownloadCheckpointTest'
+export * from './InventoryServiceLive'
+export * from './JsonDeadLetterQueue'
+export * from './JsonDownloadCheckpoint'
 export * from './JsonMetricsWriter'
 export * from './MetricsWriterTest'
+export * from './RateLimiterLive'
 export * from './TestLive'
+export * from './ThetaDataApiClientCassette'
 export * from './ThetaDataApiClientLive'
 export * from './ThetaDataApiClientTest'
+export * from './TradingCalendarLive'
@@ -0,0 +1,627 @@
+import * as path from 'node:path'
+import { normCdf, normPdf } from '../utils/normalDistribution'
+
+/**
+ * A stand-in for the ThetaData Terminal's HTTP API, for offline development and tests.
+ * Serves the endpoints ThetaDataApiClientLive uses from recorded fixtures when present,
+ * otherwise from deterministic synthetic data, and can inject the failures a real
+ * terminal produces: slow responses, 429/5xx, malformed CSV and dropped connections.
+ */
+
+export type MockTerminalFault = 'rate-limit' | 'server-error' | 'malformed' | 'disconnect'
+
+export interface MockTerminalOptions {
+  readonly port?: number // 0 picks a free port (default: 25510, the terminal's port)
+  readonly hostname?: string // default: 127.0.0.1
+  readonly status?: 'CONNECTED' | 'UNVERIFIED' | 'DISCONNECTED' // /v2/system/mdds/status body
+  readonly latencyMs?: number // Delay before every response
+  // Probability (0-1) that a request hits each fault; checked in the order of MockTerminalFault
+  readonly faultRates?: Partial<Record<MockTerminalFault, number>>
+  readonly retryAfterSeconds?: number // Retry-After header sent with 429s (default: 1)
+  readonly seed?: number // Seed for fault injection and synthetic prices (default: 1)
+  // Directory with expirations/<ROOT>.json, <dataset>/<ROOT>_<exp>_<start_date>.csv and
+  // index/<ROOT>_<start_date>.csv fixtures, e.g. greeks/SPXW_20240315_20240314.csv
+  readonly fixtureDir?: string
+  readonly expirationRange?: { readonly start: string; readonly end: string } // YYYYMMDD, inclusive
+  readonly strikesPerSide?: number // Synthetic strikes above and below the money (default: 20)
+  readonly strikeStep?: number // Synthetic strike spacing in index points (default: 5)
+  readonly tickIntervalMs?: number // Synthetic row spacing when ivl=0 (default: 60000)
+}
+
+export interface MockTerminalRequest {
+  readonly path: string
+  readonly params: Readonly<Record<string, string>>
+  readonly fault?: MockTerminalFault
+}
+
+export interface MockTerminal {
+  readonly url: string
+  readonly port: number
+  // Every request received, in arrival order
+  readonly requests: ReadonlyArray<MockTerminalRequest>
+  /**
+   * Force faults onto the next requests, one per request, ahead of faultRates
+   */
+  readonly injectFaults: (...faults: ReadonlyArray<MockTerminalFault>) => void
+  /**
+   * Forget recorded requests and any faults still queued
+   */
+  readonly reset: () => void
+  readonly stop: () => void
+}
+
+export type MockTerminalDataset = 'greeks' | 'quote' | 'trade' | 'ohlc' | 'open_interest' | 'eod'
+
+// CSV header of each bulk_hist/option endpoint, as the terminal sends it
+export const BULK_HEADERS: Record<MockTerminalDataset, string> = {
+  greeks:
+    'root,expiration,strike,right,ms_of_day,bid,ask,delta,theta,vega,rho,epsilon,lambda,implied_vol,iv_error,ms_of_day2,underlying_price,date',
+  quote:
+    'root,expiration,strike,right,ms_of_day,bid_size,bid_exchange,bid,bid_condition,ask_size,ask_exchange,ask,ask_condition,date',
+  trade:
+    'root,expiration,strike,right,ms_of_day,sequence,ext_condition1,ext_condition2,ext_condition3,ext_condition4,condition,size,exchange,price,condition_flags,price_flags,volume_type,records_back,date',
+  ohlc: 'root,expiration,strike,right,ms_of_day,open,high,low,close,volume,count,date',
+  open_interest: 'root,expiration,strike,right,ms_of_day,open_interest,date',
+  eod: 'root,expiration,strike,right,ms_of_day,ms_of_day2,open,high,low,close,volume,count,bid_size,bid_exchange,bid,bid_condition,ask_size,ask_exchange,ask,ask_condition,date',
+}
+
+export const BULK_GREEKS_HEADER = BULK_HEADERS.greeks
+
+// CSV header of hist/index/ohlc
+export const INDEX_OHLC_HEADER = 'ms_of_day,open,high,low,close,volume,count,date'
+
+const BULK_DATASETS = Object.keys(BULK_HEADERS) as ReadonlyArray<MockTerminalDataset>
+
+const FAULTS: ReadonlyArray<MockTerminalFault> = [
+  'rate-limit',
+  'server-error',
+  'malformed',
+  'disconnect',
+]
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000
+const MARKET_OPEN_MS = (9 * 60 + 30) * 60 * 1000 // 09:30 ET
+const MARKET_CLOSE_MS = 16 * 60 * 60 * 1000 // 16:00 ET
+const RISK_FREE_RATE = 0.05
+const VOLATILITY = 0.18
+
+// Where synthetic prices start, by root; anything else trades near the SPX level
+const BASE_PRICES: Record<string, number> = {
+  SPX: 5000,
+  SPXW: 5000,
+  XSP: 500,
+  NDX: 18000,
+  NDXP: 18000,
+  RUT: 2000,
+  RUTW: 2000,
+  VIX: 15,
+}
+
+/**
+ * mulberry32: small seeded PRNG so injected faults and prices repeat between runs
+ */
+const seededRandom = (seed: number) => {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+const hashString = (value: string) => {
+  let hash = 2166136261
+  for (const char of value) {
+    hash = Math.imul(hash ^ char.charCodeAt(0), 16777619)
+  }
+  return hash >>> 0
+}
+
+const parseDate = (date: string): Date | undefined => {
+  if (!/^\d{8}$/.test(date)) return undefined
+  const parsed = new Date(
+    Date.UTC(Number(date.slice(0, 4)), Number(date.slice(4, 6)) - 1, Number(date.slice(6, 8))),
+  )
+  return Number.isNaN(parsed.getTime()) ? undefined : parsed
+}
+
+const formatDate = (date: Date) => date.toISOString().slice(0, 10).replace(/-/g, '')
+
+// Weekdays from start to end, inclusive, as YYYYMMDD
+const weekdaysBetween = (start: Date, end: Date): string[] => {
+  const days: string[] = []
+  for (let t = start.getTime(); t <= end.getTime(); t += MS_PER_DAY) {
+    const day = new Date(t)
+    if (day.getUTCDay() !== 0 && day.getUTCDay() !== 6) days.push(formatDate(day))
+  }
+  return days
+}
+
+const round = (value: number, places: number) => Number(value.toFixed(places))
+
+/**
+ * Black-Scholes price and Greeks for one contract
+ */
+const blackScholes = (spot: number, strike: number, years: number, right: 'C' | 'P') => {
+  const sqrtT = Math.sqrt(years)
+  const d1 =
+    (Math.log(spot / strike) + (RISK_FREE_RATE + (VOLATILITY * VOLATILITY) / 2) * years) /
+    (VOLATILITY * sqrtT)
+  const d2 = d1 - VOLATILITY * sqrtT
+  const discount = Math.exp(-RISK_FREE_RATE * years)
+  const call = right === 'C'
+
+  const price = call
+    ? spot * normCdf(d1) - strike * discount * normCdf(d2)
+    : strike * discount * normCdf(-d2) - spot * normCdf(-d1)
+  const delta = call ? normCdf(d1) : normCdf(d1) - 1
+  const vega = (spot * normPdf(d1) * sqrtT) / 100
+  const theta =
+    ((-spot * normPdf(d1) * VOLATILITY) / (2 * sqrtT) -
+      (call ? 1 : -1) * RISK_FREE_RATE * strike * discount * normCdf(call ? d2 : -d2)) /
+    365
+  const rho = ((call ? 1 : -1) * strike * years * discount * normCdf(call ? d2 : -d2)) / 100
+  const epsilon = ((call ? -1 : 1) * spot * years * normCdf(call ? d1 : -d1)) / 100
+  const lambda = price > 0.01 ? (delta * spot) / price : 0
+
+  return { price: Math.max(price, 0), delta, theta, vega, rho, epsilon, lambda }
+}
+
+/**
+ * One contract at one point in time, priced from the synthetic underlying
+ */
+interface ContractSample {
+  readonly ms: number
+  readonly underlying: number
+  readonly greeks: ReturnType<typeof blackScholes>
+  readonly bid: number
+  readonly ask: number
+  readonly size: number // Deterministic quote size / volume stand-in
+  readonly tradeDate: string
+}
+
+// The columns after root,expiration,strike,right for each dataset
+const datasetValues: Record<
+  MockTerminalDataset,
+  (sample: ContractSample) => ReadonlyArray<string | number>
+> = {
+  greeks: ({ ms, underlying, greeks: g, bid, ask, tradeDate }) => [
+    ms,
+    bid,
+    ask,
+    round(g.delta, 4),
+    round(g.theta, 4),
+    round(g.vega, 4),
+    round(g.rho, 4),
+    round(g.epsilon, 4),
+    round(g.lambda, 4),
+    VOLATILITY,
+    0,
+    ms,
+    round(underlying, 2),
+    tradeDate,
+  ],
+  quote: ({ ms, bid, ask, size, tradeDate }) => [
+    ms,
+    size,
+    5,
+    bid,
+    50,
+    size + 1,
+    5,
+    ask,
+    50,
+    tradeDate,
+  ],
+  trade: ({ ms, bid, ask, size, tradeDate }) => [
+    ms,
+    ms / 1000,
+    255,
+    255,
+    255,
+    255,
+    18,
+    size,
+    5,
+    round((bid + ask) / 2, 2),
+    0,
+    0,
+    0,
+    0,
+    tradeDate,
+  ],
+  ohlc: ({ ms, bid, ask, size, tradeDate }) => [
+    ms,
+    round((bid + ask) / 2, 2),
+    ask,
+    bid,
+    round((bid + ask) / 2, 2),
+    size * 10,
+    size,
+    tradeDate,
+  ],
+  open_interest: ({ size, tradeDate }) => [23_400_000, size * 100, tradeDate],
+  eod: ({ ms, bid, ask, size, tradeDate }) => [
+    ms,
+    ms,
+    round((bid + ask) / 2, 2),
+    ask,
+    bid,
+    round((bid + ask) / 2, 2),
+    size * 10,
+    size,
+    size,
+    5,
+    bid,
+    50,
+    size + 1,
+    5,
+    ask,
+    50,
+    tradeDate,
+  ],
+}
+
+// One row per contract per day; the rest have a row per interval
+const DAILY_DATASETS: ReadonlyArray<MockTerminalDataset> = ['open_interest', 'eod']
+
+/**
+ * Synthetic bulk CSV for a dataset: every strike around the money, calls then puts, one row
+ * per interval through the regular session of each weekday in [startDate, endDate]
+ * Daily datasets get a single row per contract at the close; intraday rows outside the
+ * start_time/end_time window are left out
+ */
+const syntheticRows = (
+  dataset: MockTerminalDataset,
+  root: string,
+  expiration: Date,
+  start: Date,
+  end: Date,
+  intervalMs: number,
+  window: { readonly startMs: number; readonly endMs: number },
+  options: Required<Pick<MockTerminalOptions, 'seed' | 'strikesPerSide' | 'strikeStep'>>,
+): string => {
+  const random = seededRandom(options.seed ^ hashString(`${root}:${formatDate(expiration)}`))
+  const basePrice = BASE_PRICES[root] ?? BASE_PRICES.SPX
+  const strikeStep = basePrice < 100 ? 1 : options.strikeStep
+  const expiresAt = expiration.getTime() + MARKET_CLOSE_MS
+
+  const lines = [BULK_HEADERS[dataset]]
+  for (const tradeDate of weekdaysBetween(start, end)) {
+    const dayStart = (parseDate(tradeDate) as Date).getTime()
+    if (dayStart > expiration.getTime()) break
+
+    // One random walk per day, shared by every contract
+    const spots: Array<[number, number]> = []
+    let spot = basePrice * (1 + (random() - 0.5) * 0.02)
+    for (let ms = MARKET_OPEN_MS; ms <= MARKET_CLOSE_MS; ms += intervalMs) {
+      spots.push([ms, spot])
+      spot *= 1 + (random() - 0.5) * 0.001
+    }
+    const samples = DAILY_DATASETS.includes(dataset)
+      ? spots.slice(-1)
+      : spots.filter(([ms]) => ms >= window.startMs && ms <= window.endMs)
+
+    const atm = Math.round(spots[0][1] / strikeStep) * strikeStep
+    for (const right of ['C', 'P'] as const) {
+      for (let i = -options.strikesPerSide; i <= options.strikesPerSide; i++) {
+        const strike = atm + i * strikeStep
+        for (const [ms, underlying] of samples) {
+          const years = Math.max(expiresAt - (dayStart + ms), 60_000) / (365 * MS_PER_DAY)
+          const greeks = blackScholes(underlying, strike, years, right)
+          const spread = Math.max(0.05, round(greeks.price * 0.01, 2))
+          const sample: ContractSample = {
+            ms,
+            underlying,
+            greeks,
+            bid: round(Math.max(greeks.price - spread / 2, 0), 2),
+            ask: round(greeks.price + spread / 2, 2),
+            size: 10 + (Math.abs(i) % 7) * 5,
+            tradeDate,
+          }
+          lines.push(
+            [
+              root,
+              formatDate(expiration),
+              strike * 1000, // The terminal quotes strikes in tenths of a cent
+              right,
+              ...datasetValues[dataset](sample),
+            ].join(','),
+          )
+        }
+      }
+    }
+  }
+  return `${lines.join('\n')}\n`
+}
+
+/**
+ * Strikes listed for a synthetic expiration, in thousandths of a dollar: twice as far either side
+ * of the base price as any day's bulk rows reach, since the daily walk moves the money
+ */
+const listedStrikes = (
+  root: string,
+  options: Required<Pick<MockTerminalOptions, 'strikesPerSide' | 'strikeStep'>>,
+): number[] => {
+  const basePrice = BASE_PRICES[root] ?? BASE_PRICES.SPX
+  const strikeStep = basePrice < 100 ? 1 : options.strikeStep
+  const atm = Math.round(basePrice / strikeStep) * strikeStep
+  const strikes: number[] = []
+  for (let i = -2 * options.strikesPerSide; i <= 2 * options.strikesPerSide; i++) {
+    strikes.push((atm + i * strikeStep) * 1000)
+  }
+  return strikes
+}
+
+/**
+ * Synthetic hist/index/ohlc CSV: one bar per interval through the regular session of each
+ * weekday in [startDate, endDate], from a random walk seeded by root and trade date
+ */
+const syntheticIndexRows = (
+  root: string,
+  start: Date,
+  end: Date,
+  intervalMs: number,
+  seed: number,
+): string => {
+  const basePrice = BASE_PRICES[root] ?? BASE_PRICES.SPX
+  const lines = [INDEX_OHLC_HEADER]
+  for (const tradeDate of weekdaysBetween(start, end)) {
+    const random = seededRandom(seed ^ hashString(`${root}:${tradeDate}`))
+    let close = basePrice * (1 + (random() - 0.5) * 0.02)
+    for (let ms = MARKET_OPEN_MS; ms < MARKET_CLOSE_MS; ms += intervalMs) {
+      const open = close
+      close = open * (1 + (random() - 0.5) * 0.001)
+      const high = Math.max(open, close) * (1 + random() * 0.0002)
+      const low = Math.min(open, close) * (1 - random() * 0.0002)
+      // Indices carry no volume
+      lines.push(
+        [ms, round(open, 2), round(high, 2), round(low, 2), round(close, 2), 0, 0, tradeDate].join(
+          ',',
+        ),
+      )
+    }
+  }
+  return `${lines.join('\n')}\n`
+}
+
+const readFixture = async (fixtureDir: string | undefined, ...segments: string[]) => {
+  if (!fixtureDir) return undefined
+  const file = Bun.file(path.join(fixtureDir, ...segments))
+  return (await file.exists()) ? file.text() : undefined
+}
+
+const delay = (ms: number) => (ms > 0 ? Bun.sleep(ms) : Promise.resolve())
+
+/**
+ * Stream a body in small pieces; a disconnect resets the connection halfway through
+ */
+const streamBody = (body: string, disconnect: boolean, contentType: string) => {
+  const bytes = new TextEncoder().encode(body)
+  const cutoff = disconnect ? Math.floor(bytes.length / 2) : bytes.length
+  const pieceSize = 16 * 1024
+  return new Response(
+    new ReadableStream({
+      async start(controller) {
+        for (let offset = 0; offset < cutoff; offset += pieceSize) {
+          controller.enqueue(bytes.slice(offset, Math.min(offset + pieceSize, cutoff)))
+          await Bun.sleep(0)
+        }
+        if (disconnect) {
+          controller.error()
+        } else {
+          controller.close()
+        }
+      },
+    }),
+    { headers: { 'Content-Type': contentType } },
+  )
+}
+
+/**
+ * Drop the tail of a data row midway through the body, as a truncated write would
+ */
+const malform = (csv: string) => {
+  const lines = csv.split('\n')
+  const target = Math.max(1, Math.floor(lines.length / 2))
+  if (lines[target] !== undefined) {
+    lines[target] = lines[target].split(',').slice(0, 5).join(',')
+  }
+  return lines.join('\n')
+}
+
+/**
+ * Start a mock terminal; stop() it when done
+ */
+export const startMockTerminal = (options: MockTerminalOptions = {}): MockTerminal => {
+  const random = seededRandom(options.seed ?? 1)
+  const requests: MockTerminalRequest[] = []
+  const queuedFaults: MockTerminalFault[] = []
+  const range = {
+    start: parseDate(options.expirationRange?.start ?? '20240102') as Date,
+    end: parseDate(options.expirationRange?.end ?? '20241231') as Date,
+  }
+  const synthetic = {
+    seed: options.seed ?? 1,
+    strikesPerSide: options.strikesPerSide ?? 20,
+    strikeStep: options.strikeStep ?? 5,
+  }
+
+  const nextFault = (): MockTerminalFault | undefined => {
+    const queued = queuedFaults.shift()
+    if (queued) return queued
+    return FAULTS.find((fault) => random() < (options.faultRates?.[fault] ?? 0))
+  }
+
+  const listExpirations = async (root: string) => {
+    const fixture = await readFixture(options.fixtureDir, 'expirations', `${root}.json`)
+    if (fixture !== undefined) {
+      return (JSON.parse(fixture) as { response: number[] }).response.map(String)
+    }
+    return weekdaysBetween(range.start, range.end)
+  }
+
+  const noData = () =>
+    new Response('No data for the specified timeframe & contract.', {
+      status: 472,
+      statusText: 'No Data',
+    })
+
+  const handleBulk = async (
+    dataset: MockTerminalDataset,
+    params: Record<string, string>,
+    fault?: MockTerminalFault,
+  ) => {
+    const { root, exp, start_date, end_date } = params
+    const expiration = parseDate(exp ?? '')
+    const start = parseDate(start_date ?? '')
+    const end = parseDate(end_date ?? '')
+    if (!root || !expiration || !start || !end) {
+      return new Response('Invalid root, exp, start_date or end_date', { status: 400 })
+    }
+
+    const fixture = await readFixture(
+      options.fixtureDir,
+      dataset,
+      `${root.toUpperCase()}_${exp}_${start_date}.csv`,
+    )
+    let csv = fixture
+    if (csv === undefined) {
+      if (!(await listExpirations(root.toUpperCase())).includes(exp)) return noData()
+      const interval =
+        Number(params.ivl) > 0 ? Number(params.ivl) : (options.tickIntervalMs ?? 60000)
+      const window = {
+        startMs: params.start_time ? Number(params.start_time) : 0,
+        endMs: params.end_time ? Number(params.end_time) : MS_PER_DAY,
+      }
+      csv = syntheticRows(
+        dataset,
+        root.toUpperCase(),
+        expiration,
+        start,
+        end,
+        interval,
+        window,
+        synthetic,
+      )
+      if (csv === `${BULK_HEADERS[dataset]}\n`) return noData()
+    }
+
+    return streamBody(
+      fault === 'malformed' ? malform(csv) : csv,
+      fault === 'disconnect',
+      'text/csv',
+    )
+  }
+
+  const handleIndexOhlc = async (params: Record<string, string>, fault?: MockTerminalFault) => {
+    const { root, start_date, end_date } = params
+    const start = parseDate(start_date ?? '')
+    const end = parseDate(end_date ?? '')
+    if (!root || !start || !end) {
+      return new Response('Invalid root, start_date or end_date', { status: 400 })
+    }
+
+    let csv = await readFixture(
+      options.fixtureDir,
+      'index',
+      `${root.toUpperCase()}_${start_date}.csv`,
+    )
+    if (csv === undefined) {
+      const interval = Number(params.ivl) > 0 ? Number(params.ivl) : 60000
+      csv = syntheticIndexRows(root.toUpperCase(), start, end, interval, synthetic.seed)
+      if (csv === `${INDEX_OHLC_HEADER}\n`) return noData()
+    }
+
+    return streamBody(
+      fault === 'malformed' ? malform(csv) : csv,
+      fault === 'disconnect',
+      'text/csv',
+    )
+  }
+
+  const server = Bun.serve({
+    port: options.port ?? 25510,
+    hostname: options.hostname ?? '127.0.0.1',
+    fetch: async (request) => {
+      const url = new URL(request.url)
+      const params = Object.fromEntries(url.searchParams)
+      const fault = nextFault()
+      requests.push({ path: url.pathname, params, ...(fault && { fault }) })
+
+      await delay(options.latencyMs ?? 0)
+
+      if (fault === 'rate-limit') {
+        return new Response('Too many requests', {
+          status: 429,
+          headers: { 'Retry-After': String(options.retryAfterSeconds ?? 1) },
+        })
+      }
+      if (fault === 'server-error') {
+        return new Response('Internal server error', { status: 503 })
+      }
+
+      switch (url.pathname) {
+        case '/v2/system/mdds/status':
+          return streamBody(options.status ?? 'CONNECTED', fault === 'disconnect', 'text/plain')
+
+        case '/v2/list/expirations': {
+          if (!params.root) return new Response('Missing root', { status: 400 })
+          const expirations = await listExpirations(params.root.toUpperCase())
+          const body = JSON.stringify({
+            header: { format: ['date'] },
+            response: expirations.map(Number),
+          })
+          return streamBody(
+            fault === 'malformed' ? body.slice(0, -2) : body,
+            fault === 'disconnect',
+            'application/json',
+          )
+        }
+
+        case '/v2/list/strikes': {
+          if (!params.root || !params.exp)
+            return new Response('Missing root or exp', { status: 400 })
+          const root = params.root.toUpperCase()
+          if (!(await listExpirations(root)).includes(params.exp)) return noData()
+          const body = JSON.stringify({
+            header: { format: ['strike'] },
+            response: listedStrikes(root, synthetic),
+          })
+          return streamBody(
+            fault === 'malformed' ? body.slice(0, -2) : body,
+            fault === 'disconnect',
+            'application/json',
+          )
+        }
+
+        case '/v2/hist/index/ohlc':
+          return handleIndexOhlc(params, fault)
+
+        default: {
+          const dataset = BULK_DATASETS.find(
+            (name) => url.pathname === `/v2/bulk_hist/option/${name}`,
+          )
+          if (dataset) return handleBulk(dataset, params, fault)
+          return new Response(`Unknown endpoint ${url.pathname}`, { status: 404 })
+        }
+      }
+    },
+  })
+
+  return {
+    url: `http://${server.hostname}:${server.port}`,
+    port: server.port,
+    requests,
+    injectFaults: (...faults) => {
+      queuedFaults.push(...faults)
+    },
+    reset: () => {
+      requests.length = 0
+      queuedFaults.length = 0
+    },
+    stop: () => server.stop(true),
+  }
+}
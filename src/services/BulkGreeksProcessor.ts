@@ -1,5 +1,10 @@
 import { Context, Data, type Effect, type Stream } from 'effect'
-import type { ExpirationDate, OptionsGreeksData } from './ThetaDataApiClient'
+import type {
+  ExpirationDate,
+  OptionsDataset,
+  OptionsGreeksData,
+  OptionsRecord,
+} from './ThetaDataApiClient'
 
 /**
  * Error types for bulk processing operations
@@ -21,9 +26,35 @@ export interface ExpirationResult {
   readonly expiration: string
   readonly success: boolean
   readonly data?: ReadonlyArray<OptionsGreeksData>
+  readonly rows?: ReadonlyArray<OptionsRecord> // Set instead of data for datasets other than Greeks
+  readonly records?: Stream.Stream<OptionsGreeksData, BulkProcessingError> // Set instead of data when streaming
+  // Set with records: hand back an error the stream failed with, once anything written from it is
+  // discarded; resolves to the next fetch of the expiration, or to the failure if not retried
+  readonly retry?: (error: BulkProcessingError) => Effect.Effect<ExpirationResult>
   readonly error?: Error
+  readonly failureKind?: FailureKind // Set with error
   readonly recordCount: number
   readonly processingTimeMs: number
+  readonly concurrency?: number // Expirations allowed in flight when this one was fetched
+  readonly dte?: number // Trading days from the trade date to the expiration
+  readonly attempts?: number // Fetch passes made, when more than one
+  readonly previousErrors?: ReadonlyArray<Error> // Failures of the earlier passes, oldest first
+}
+
+/**
+ * Whether a failed fetch may succeed if tried again later
+ */
+export type FailureKind = 'transient' | 'permanent'
+
+/**
+ * A change to the number of expirations fetched at once
+ */
+export interface ConcurrencyChange {
+  readonly at: Date
+  readonly concurrency: number
+  // start: initial value; increase: a window of fast successes; congestion: 429 or connection
+  // failure; latency: a fetch slower than the target
+  readonly reason: 'start' | 'increase' | 'congestion' | 'latency'
 }
 
 /**
@@ -39,6 +70,28 @@ export interface ProcessingMetrics {
   readonly startTime: Date
   readonly endTime: Date
   readonly results: ReadonlyArray<ExpirationResult>
+  readonly concurrencyHistory?: ReadonlyArray<ConcurrencyChange>
+}
+
+/**
+ * Which contracts' rows to keep; bounds are inclusive and omitted bounds are open
+ * Moneyness and delta need Greeks rows, so other datasets are only filtered by strike
+ */
+export interface StrikeFilter {
+  readonly minStrike?: number // Index points, e.g. 4900
+  readonly maxStrike?: number
+  readonly moneyness?: number // Largest |strike / underlying - 1|, e.g. 0.05 for ±5%
+  readonly minDelta?: number // Absolute delta, e.g. 0.05
+  readonly maxDelta?: number
+}
+
+/**
+ * Time of day to fetch rows for, in milliseconds since midnight ET
+ */
+export interface TimeWindow {
+  readonly startTime?: number // Inclusive; omitted starts at the beginning of the session
+  readonly endTime?: number // Inclusive; omitted runs to the end of the session
+  readonly extendedHours?: boolean // Include rows outside regular trading hours
 }
 
 /**
@@ -47,10 +100,15 @@ export interface ProcessingMetrics {
 export interface BulkGreeksParams {
   readonly root: string
   readonly tradeDate: string // YYYYMMDD format
-  readonly maxDTE?: number // Maximum days to expiration to include
+  readonly maxDTE?: number // Maximum trading days to expiration to include
   readonly concurrency?: number // Parallel processing limit (2-4)
   readonly interval?: number // Interval in milliseconds for data points (e.g., 3600000 for 1 hour)
-  readonly rth?: boolean // Regular trading hours only
+  readonly rth?: boolean // Regular trading hours only; defaults to true unless timeWindow.extendedHours
+  readonly timeWindow?: TimeWindow // Only fetch rows in this time of day
+  readonly expirations?: ReadonlyArray<string> // Only process these expirations (YYYYMMDD), e.g. when resuming
+  readonly streamRecords?: boolean // Return rows as a stream parsed from the response instead of an array
+  readonly dataset?: OptionsDataset // Which history to fetch; default 'greeks', the only one streamed
+  readonly strikeFilter?: StrikeFilter // Drop rows outside these bounds as they are parsed
 }
 
 /**
@@ -86,7 +144,8 @@ export class BulkGreeksProcessor extends Context.Tag('BulkGreeksProcessor')<
      * @returns Current processing progress or undefined if not processing
      */
     readonly getProgress: () => Effect.Effect<
-      { current: number; total: number; currentExpiration?: string } | undefined,
+      | { current: number; total: number; currentExpiration?: string; concurrency?: number }
+      | undefined,
       never
     >
 
@@ -1,5 +1,6 @@
 import { Context, Data, type Effect, type Stream } from 'effect'
-import type { ExpirationResult } from './BulkGreeksProcessor'
+import type { ExpirationResult, StrikeFilter, TimeWindow } from './BulkGreeksProcessor'
+import type { OptionsDataset } from './ThetaDataApiClient'
 
 /**
  * Error type for DataPipeline operations
@@ -13,10 +14,19 @@ export class DataPipelineError extends Data.TaggedError('DataPipelineError')<{
  * Configuration for the data pipeline
  */
 export interface PipelineConfig {
+  readonly root: string // Option root symbol the results belong to, e.g. 'SPXW'
   readonly outputDir: string // Default: ./data/greeks
   readonly chunkSize: number // Default: 1000
+  readonly concurrency?: number // Expirations written at once, streamed ones fetched as they are written; default 1
   readonly compression: boolean // Default: false for CSV
-  readonly fileNamePattern: string // e.g., "SPXW_{expiration}.csv"
+  readonly fileNamePattern?: string // Path template, e.g. "{root}_exp_{expiration}"; default: files in outputDir
+  readonly dataDirectory?: string // Directory fileNamePattern is relative to; default outputDir
+  readonly expirations?: ReadonlyArray<string> // Expected expirations, checkpointed as pending up front
+  readonly dataset?: OptionsDataset // Dataset of the results, deciding the written columns; default 'greeks'
+  readonly timeWindow?: TimeWindow // Time of day the results were fetched for, recorded with each file
+  readonly tradeDate?: string // YYYYMMDD; with interval and strikeFilter, recorded with failed expirations for replay
+  readonly interval?: number
+  readonly strikeFilter?: StrikeFilter
 }
 
 /**
@@ -29,6 +39,7 @@ export interface PipelineProgress {
   readonly totalRecords: number
   readonly recordsPerSecond: number
   readonly memoryUsageMB: number
+  readonly concurrency?: number // Expirations fetched at once, as of the latest result
   readonly startTime: Date
   readonly estimatedCompletionTime?: Date
 }
@@ -0,0 +1,77 @@
+import { Context, type Effect } from 'effect'
+import type { OptionsGreeksData } from './ThetaDataApiClient'
+
+/**
+ * What to do with a row that breaks a rule
+ * - drop: leave the row out of the output
+ * - warn: keep the row and report the violation
+ * - fail: reject the whole expiration
+ */
+export type ValidationPolicy = 'drop' | 'warn' | 'fail'
+
+/**
+ * A single data quality check applied to every row
+ */
+export interface ValidationRule {
+  readonly name: string // e.g. 'crossed-market'
+  readonly policy: ValidationPolicy
+  /**
+   * @returns A description of the violation, or undefined if the row passes
+   */
+  readonly check: (row: OptionsGreeksData) => string | undefined
+}
+
+/**
+ * Violations of one rule
+ */
+export interface RuleViolations {
+  readonly rule: string
+  readonly policy: ValidationPolicy
+  readonly count: number
+  readonly samples: ReadonlyArray<string> // First few violation descriptions
+}
+
+/**
+ * Validation outcome for one or more expirations
+ */
+export interface ValidationReport {
+  readonly rowsChecked: number
+  readonly rowsDropped: number
+  readonly rowsWarned: number
+  readonly failedExpirations: ReadonlyArray<string>
+  readonly rules: ReadonlyArray<RuleViolations>
+}
+
+/**
+ * Rows that passed validation for an expiration, with the report that produced them
+ */
+export interface ValidatedExpiration {
+  readonly expiration: string
+  readonly rows: ReadonlyArray<OptionsGreeksData> // Empty when the expiration failed
+  readonly failed: boolean
+  readonly report: ValidationReport
+}
+
+/**
+ * Service that checks fetched rows before they are written
+ */
+export class DataValidationService extends Context.Tag('DataValidationService')<
+  DataValidationService,
+  {
+    /**
+     * Apply every rule to an expiration's rows
+     * @param expiration The expiration the rows belong to
+     * @param rows Rows as returned by the API
+     * @returns Rows to write, plus the violations found
+     */
+    readonly validateExpiration: (
+      expiration: string,
+      rows: ReadonlyArray<OptionsGreeksData>,
+    ) => Effect.Effect<ValidatedExpiration, never>
+
+    /**
+     * Get the active rule set
+     */
+    readonly getRules: () => ReadonlyArray<ValidationRule>
+  }
+>() {}
@@ -1,5 +1,8 @@
+import * as path from 'node:path'
 import { Context, Data, type Effect } from 'effect'
-import type { OptionsGreeksData } from './ThetaDataApiClient'
+import { renderPathTemplate } from '../utils/pathTemplate'
+import type { TimeWindow } from './BulkGreeksProcessor'
+import type { IndexOhlcData, OptionsDataset, OptionsRecord } from './ThetaDataApiClient'
 
 /**
  * Error type for DataWriter operations
@@ -9,25 +12,107 @@ export class DataWriterError extends Data.TaggedError('DataWriterError')<{
   readonly cause?: unknown
 }> {}
 
+/**
+ * What a writer can write: an options dataset or the underlying index bars
+ */
+export type WriteDataset = OptionsDataset | 'index'
+
+export type WriteRecord = OptionsRecord | IndexOhlcData
+
 /**
  * Metadata for write operations
  */
 export interface WriteMetadata {
-  readonly expiration: string
+  readonly root: string // Option root symbol, e.g. 'SPXW'; part of the output file name
+  readonly expiration: string // YYYYMMDD; the trade date for index bars
   readonly outputDir: string
   readonly isFirstChunk: boolean
   readonly isLastChunk: boolean
   readonly chunkIndex: number
   readonly totalRecords?: number
+  readonly dataset?: WriteDataset // Decides the file's columns and name; defaults to 'greeks'
+  readonly timeWindow?: TimeWindow // Stored in the file's metadata where the format has any
+  readonly fileNamePattern?: string // Path template, without extension; see utils/pathTemplate
+  readonly dataDirectory?: string // Directory fileNamePattern is relative to; default outputDir
+  readonly tradeDate?: string // YYYYMMDD; for the tradeDate, year and month placeholders
+  readonly dte?: number // Trading days to expiration; for the dte placeholder
 }
 
+/**
+ * Identifies the output file of one root and expiration
+ */
+export type OutputLocation = Pick<
+  WriteMetadata,
+  | 'root'
+  | 'expiration'
+  | 'outputDir'
+  | 'dataset'
+  | 'fileNamePattern'
+  | 'dataDirectory'
+  | 'tradeDate'
+  | 'dte'
+>
+
+/**
+ * File name for an output location: <root>_exp_YYYYMMDD.<extension>, or
+ * <root>_index.<extension> for index bars, which get one file per trade-date directory
+ */
+export const outputFileName = (location: OutputLocation, extension: string) =>
+  location.dataset === 'index'
+    ? `${location.root.toLowerCase()}_index.${extension}`
+    : `${location.root.toLowerCase()}_exp_${location.expiration.replace(/-/g, '')}.${extension}`
+
+/**
+ * Path of an output location's file: its rendered fileNamePattern under the data directory,
+ * or outputFileName in outputDir when it has no pattern
+ */
+export const outputPath = (location: OutputLocation, extension: string) =>
+  location.fileNamePattern === undefined
+    ? path.join(location.outputDir, outputFileName(location, extension))
+    : `${path.join(
+        location.dataDirectory ?? location.outputDir,
+        renderPathTemplate(location.fileNamePattern, {
+          root: location.root,
+          expiration: location.expiration,
+          dataset: location.dataset ?? 'greeks',
+          tradeDate: location.tradeDate,
+          dte: location.dte,
+        }),
+      )}.${extension}`
+
+/**
+ * Compression applied to CSV and JSON Lines output as it is written
+ */
+export type CsvCompression = 'none' | 'gzip' | 'zstd'
+
+export const CSV_COMPRESSIONS: ReadonlyArray<CsvCompression> = ['none', 'gzip', 'zstd']
+
+const compressedExtension = (extension: string, compression: CsvCompression) =>
+  compression === 'gzip'
+    ? `${extension}.gz`
+    : compression === 'zstd'
+      ? `${extension}.zst`
+      : extension
+
+/**
+ * File extension of CSV output: csv, csv.gz or csv.zst
+ */
+export const csvExtension = (compression: CsvCompression = 'none') =>
+  compressedExtension('csv', compression)
+
+/**
+ * File extension of JSON Lines output: jsonl, jsonl.gz or jsonl.zst
+ */
+export const jsonlExtension = (compression: CsvCompression = 'none') =>
+  compressedExtension('jsonl', compression)
+
 /**
  * Result of a completed write operation
  */
 export interface WriteResult {
   readonly filesCreated: ReadonlyArray<string>
   readonly totalRecordsWritten: number
-  readonly totalBytesWritten: number
+  readonly totalBytesWritten: number // Bytes on disk, after any compression
   readonly format: string
 }
 
@@ -39,21 +124,38 @@ export class DataWriter extends Context.Tag('DataWriter')<
   {
     /**
      * Write a chunk of data
+     * Each expiration's file is opened by its first chunk and renamed into place after its
+     * last, so chunks of several expirations may be written in between one another
      * @param chunk Array of options data records to write
      * @param metadata Information about the chunk being written
      * @returns Effect that completes when chunk is written
      */
     readonly writeChunk: (
-      chunk: ReadonlyArray<OptionsGreeksData>,
+      chunk: ReadonlyArray<WriteRecord>,
       metadata: WriteMetadata,
     ) => Effect.Effect<void, DataWriterError>
 
+    /**
+     * Abandon an expiration being written and delete its partial file
+     * Nothing is renamed into place; a no-op if the expiration is not being written
+     * @param metadata The root, expiration and output directory
+     */
+    readonly discard: (metadata: OutputLocation) => Effect.Effect<void, DataWriterError>
+
     /**
      * Finalize the write operation and close resources
      * @returns Result summary of the write operation
      */
     readonly finalize: () => Effect.Effect<WriteResult, DataWriterError>
 
+    /**
+     * Get the final path of the file written for an expiration
+     * The file exists at this path once the expiration's last chunk has been written
+     * @param metadata The root, expiration and output directory
+     * @returns Absolute or outputDir-relative file path
+     */
+    readonly getOutputPath: (metadata: OutputLocation) => string
+
     /**
      * Get the output format of this writer
      * @returns Format name (e.g., 'csv', 'parquet')
@@ -0,0 +1,64 @@
+import { Context, Data, type Effect } from 'effect'
+import type { FailureKind, StrikeFilter, TimeWindow } from './BulkGreeksProcessor'
+import type { OptionsDataset } from './ThetaDataApiClient'
+
+/**
+ * Error type for DeadLetterQueue operations
+ */
+export class DeadLetterError extends Data.TaggedError('DeadLetterError')<{
+  readonly message: string
+  readonly cause?: unknown
+}> {}
+
+/**
+ * An expiration that was still failing when its run finished
+ */
+export interface DeadLetter {
+  readonly expiration: string // YYYYMMDD format
+  readonly errorType: string // 'FetchError', 'ValidationError' or 'WriteError'
+  readonly message: string
+  readonly failureKind: FailureKind
+  readonly attempts: number // Fetch passes made before giving up
+}
+
+/**
+ * The failed expirations of one pipeline run, with what is needed to fetch them again
+ */
+export interface DeadLetterRun {
+  readonly runId: string
+  readonly createdAt: string // ISO timestamp
+  readonly outputDir: string
+  readonly root: string
+  readonly tradeDate?: string // YYYYMMDD format
+  readonly dataset?: OptionsDataset
+  readonly interval?: number
+  readonly strikeFilter?: StrikeFilter
+  readonly timeWindow?: TimeWindow
+  readonly entries: ReadonlyArray<DeadLetter>
+}
+
+/**
+ * Service for keeping failed expirations per run so they can be replayed later
+ */
+export class DeadLetterQueue extends Context.Tag('DeadLetterQueue')<
+  DeadLetterQueue,
+  {
+    /**
+     * Record the failed expirations of a run
+     */
+    readonly write: (run: DeadLetterRun) => Effect.Effect<void, DeadLetterError>
+
+    /**
+     * Runs with failed expirations recorded in an output directory, oldest first
+     * @param outputDir The trade-date output directory
+     */
+    readonly list: (
+      outputDir: string,
+    ) => Effect.Effect<ReadonlyArray<DeadLetterRun>, DeadLetterError>
+
+    /**
+     * Forget a run once its expirations have been replayed
+     */
+    readonly remove: (outputDir: string, runId: string) => Effect.Effect<void, DeadLetterError>
+  }
+>() {}
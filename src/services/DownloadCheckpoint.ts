@@ -0,0 +1,140 @@
+import { Context, Data, type Effect, type Option } from 'effect'
+import type { StrikeFilter, TimeWindow } from './BulkGreeksProcessor'
+import type { CsvCompression } from './DataWriter'
+import type { OptionsDataset } from './ThetaDataApiClient'
+
+/**
+ * Error type for DownloadCheckpoint operations
+ */
+export class CheckpointError extends Data.TaggedError('CheckpointError')<{
+  readonly message: string
+  readonly cause?: unknown
+}> {}
+
+/**
+ * Lifecycle of a single expiration within a trade-date download
+ */
+export type CheckpointStatus = 'pending' | 'in-progress' | 'complete' | 'failed'
+
+/**
+ * Checkpoint entry for a single expiration
+ */
+export interface ExpirationCheckpoint {
+  readonly root: string // Option root symbol, e.g. 'SPXW'
+  readonly expiration: string // YYYYMMDD format
+  readonly status: CheckpointStatus
+  readonly recordCount: number
+  readonly filePath?: string // Final output file once complete
+  readonly checksum?: string // SHA-256 of the final output file
+  readonly timeWindow?: TimeWindow // Time of day the file covers, when not the whole session
+  readonly error?: string // Failure reason when status is 'failed'
+  readonly updatedAt: string // ISO timestamp
+}
+
+/**
+ * Settings of the download that wrote a trade-date directory, so a resume writes the rest alike
+ */
+export interface DownloadSettings {
+  readonly dataset: OptionsDataset
+  readonly interval: number // Milliseconds between rows; 0 for tick-level data
+  readonly format: 'csv' | 'parquet' | 'jsonl'
+  readonly compression: CsvCompression // Of CSV and JSON Lines files
+  readonly parquetCodec: 'snappy' | 'zstd'
+  readonly pathTemplate?: string // Unset when the files sit in the trade-date directory
+  readonly fields?: string // --fields of JSON Lines output, as given
+  readonly strikeFilter?: StrikeFilter
+  readonly timeWindow?: TimeWindow // Unset for the whole session
+}
+
+/**
+ * Persistent download status for one trade-date output directory
+ */
+export interface TradeDateCheckpoint {
+  readonly outputDir: string
+  readonly createdAt: string // ISO timestamp
+  readonly updatedAt: string // ISO timestamp
+  readonly settings?: DownloadSettings // Absent from status files written before it was recorded
+  readonly expirations: Readonly<Record<string, ExpirationCheckpoint>> // Keyed by checkpointKey
+}
+
+/**
+ * Key of an expiration's entry in TradeDateCheckpoint.expirations
+ * Roots share a trade-date directory, and e.g. SPX and SPXW can expire on the same day
+ */
+export const checkpointKey = (root: string, expiration: string) =>
+  `${root.toUpperCase()}:${expiration.replace(/-/g, '')}`
+
+/**
+ * Details recorded when an expiration finishes writing
+ */
+export interface CompletedExpiration {
+  readonly recordCount: number
+  readonly filePath?: string
+  readonly checksum?: string
+  readonly timeWindow?: TimeWindow
+}
+
+/**
+ * Service for persisting per-expiration download status so interrupted runs can resume
+ */
+export class DownloadCheckpoint extends Context.Tag('DownloadCheckpoint')<
+  DownloadCheckpoint,
+  {
+    /**
+     * Load the checkpoint for an output directory
+     * @param outputDir The trade-date output directory
+     * @returns The checkpoint, or none if no download has been recorded there
+     */
+    readonly load: (
+      outputDir: string,
+    ) => Effect.Effect<Option.Option<TradeDateCheckpoint>, CheckpointError>
+
+    /**
+     * Record the settings of the download writing an output directory
+     * Replaces any settings recorded by an earlier download there
+     */
+    readonly recordSettings: (
+      outputDir: string,
+      settings: DownloadSettings,
+    ) => Effect.Effect<void, CheckpointError>
+
+    /**
+     * Record expirations that are about to be downloaded
+     * Expirations already marked complete are left untouched
+     */
+    readonly markPending: (
+      outputDir: string,
+      root: string,
+      expirations: ReadonlyArray<string>,
+    ) => Effect.Effect<void, CheckpointError>
+
+    /**
+     * Record that an expiration is being written
+     */
+    readonly markInProgress: (
+      outputDir: string,
+      root: string,
+      expiration: string,
+    ) => Effect.Effect<void, CheckpointError>
+
+    /**
+     * Record that an expiration's output file has been fully written
+     */
+    readonly markComplete: (
+      outputDir: string,
+      root: string,
+      expiration: string,
+      details: CompletedExpiration,
+    ) => Effect.Effect<void, CheckpointError>
+
+    /**
+     * Record that an expiration failed to fetch or write
+     */
+    readonly markFailed: (
+      outputDir: string,
+      root: string,
+      expiration: string,
+      error: string,
+    ) => Effect.Effect<void, CheckpointError>
+  }
+>() {}
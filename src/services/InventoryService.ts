@@ -1,6 +1,15 @@
-import { Context, type Effect } from 'effect'
+import { Context, Data, type Effect } from 'effect'
 import type { DateString } from '../types/common'
-import type { ApiConnectionError, ValidationError } from '../types/errors'
+import type { ValidationError } from '../types/errors'
+
+/**
+ * Error type for failures reading the on-disk data directory
+ */
+export class InventoryError extends Data.TaggedError('InventoryError')<{
+  readonly message: string
+  readonly path?: string
+  readonly cause?: unknown
+}> {}
 
 export interface ContractInfo {
   readonly contract: string
@@ -10,15 +19,62 @@ export interface ContractInfo {
   readonly right: 'C' | 'P'
 }
 
+/**
+ * Index entry for a single downloaded expiration file
+ */
+export interface ExpirationInventory {
+  readonly root: string
+  readonly tradeDate: DateString
+  readonly expiration: DateString
+  readonly filePath: string
+  readonly rowCount: number
+  readonly strikes: readonly number[] // Sorted, unique
+  readonly rights: readonly ('C' | 'P')[]
+  readonly firstTimestamp?: string // ISO timestamp of the earliest row
+  readonly lastTimestamp?: string // ISO timestamp of the latest row
+  readonly sizeBytes: number
+  readonly modifiedMs: number
+}
+
+/**
+ * All expiration files downloaded for one trade date
+ */
+export interface TradeDateInventory {
+  readonly tradeDate: DateString
+  readonly expirations: readonly ExpirationInventory[]
+  readonly rowCount: number
+  readonly firstTimestamp?: string
+  readonly lastTimestamp?: string
+}
+
+/**
+ * Index of everything in the data directory, ordered by trade date
+ */
+export interface InventoryIndex {
+  readonly dataDirectory: string
+  readonly builtAt: string // ISO timestamp
+  readonly tradeDates: readonly TradeDateInventory[]
+}
+
 export interface InventoryService {
   readonly getExpirations: (
     root: string,
-  ) => Effect.Effect<readonly DateString[], ApiConnectionError | ValidationError>
+  ) => Effect.Effect<readonly DateString[], InventoryError | ValidationError>
 
   readonly getContracts: (
     root: string,
     expiration: DateString,
-  ) => Effect.Effect<readonly ContractInfo[], ApiConnectionError | ValidationError>
+  ) => Effect.Effect<readonly ContractInfo[], InventoryError | ValidationError>
+
+  /**
+   * Get the index, re-reading only files that changed since they were last indexed
+   */
+  readonly getIndex: () => Effect.Effect<InventoryIndex, InventoryError>
+
+  /**
+   * Rebuild the index from scratch, ignoring any cached entries
+   */
+  readonly refresh: () => Effect.Effect<InventoryIndex, InventoryError>
 }
 
 export const InventoryService = Context.GenericTag<InventoryService>('InventoryService')
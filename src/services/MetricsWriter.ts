@@ -1,4 +1,7 @@
 import { Context, Data, type Effect } from 'effect'
+import type { FailureKind, TimeWindow } from './BulkGreeksProcessor'
+import type { ValidationReport } from './DataValidationService'
+import type { RateLimiterMetrics } from './RateLimiter'
 
 /**
  * Error type for MetricsWriter operations
@@ -37,13 +40,34 @@ export interface PipelineRunMetrics {
   readonly filesCreated: ReadonlyArray<string> // paths to output files
   readonly outputFormat: string // 'csv' or 'parquet'
   readonly compressionUsed: boolean
+  readonly timeWindow?: TimeWindow // Time of day fetched, absent for whole sessions
 
   // Error summary
   readonly errors: ReadonlyArray<{
     readonly expiration: string
     readonly errorType: string
     readonly message: string
+    readonly failureKind?: FailureKind // Whether trying again may help
+    readonly recovered?: boolean // A later pass fetched and wrote the expiration after all
   }>
+
+  // Data quality summary, absent for runs recorded before validation existed
+  readonly validation?: ValidationReport
+
+  // Client-side throttling during the run, absent for runs recorded before rate limiting existed
+  readonly throttling?: RateLimiterMetrics
+
+  // Expirations fetched at once, as of the first result and each result where it changed
+  readonly concurrency?: ReadonlyArray<ConcurrencyReading>
+}
+
+/**
+ * Concurrency in effect when an expiration's result reached the pipeline
+ */
+export interface ConcurrencyReading {
+  readonly at: Date
+  readonly expiration: string
+  readonly concurrency: number
 }
 
 /**
@@ -0,0 +1,43 @@
+import { Context, type Effect, type Scope } from 'effect'
+
+/**
+ * Counters of a rate limiter since it was created
+ */
+export interface RateLimiterMetrics {
+  readonly requests: number // Requests let through
+  readonly throttledRequests: number // Requests that waited for a token, a slot or a pause
+  readonly throttledMs: number // Total time requests spent waiting
+  readonly rateLimitPauses: number // 429 responses that paused every request
+}
+
+/**
+ * Client-side limit on requests to the terminal, shared by every caller in the process:
+ * a token bucket for the request rate, a cap on requests in flight and a pause that holds
+ * every request after the terminal answers 429
+ */
+export class RateLimiter extends Context.Tag('RateLimiter')<
+  RateLimiter,
+  {
+    /**
+     * Wait for a token, an in-flight slot and the end of any pause; the slot is held
+     * until the scope closes, so a streamed response can keep it while its body is read
+     */
+    readonly permit: Effect.Effect<void, never, Scope.Scope>
+
+    /**
+     * Run a request under a permit, releasing the slot when it completes
+     */
+    readonly withPermit: <A, E, R>(request: Effect.Effect<A, E, R>) => Effect.Effect<A, E, R>
+
+    /**
+     * Hold every request until durationMs from now, e.g. a 429's Retry-After
+     * A shorter pause never cuts one already in effect
+     */
+    readonly pause: (durationMs: number) => Effect.Effect<void>
+
+    /**
+     * Counters since the limiter was created
+     */
+    readonly getMetrics: () => Effect.Effect<RateLimiterMetrics>
+  }
+>() {}
@@ -1,11 +1,22 @@
-import { Context, Data, type Effect } from 'effect'
+import { Context, Data, type Effect, type Stream } from 'effect'
 
 // Error types for ThetaData API operations
+// circuitOpen marks a request refused without being sent because the terminal stopped answering
 export class ThetaDataConnectionError extends Data.TaggedError('ThetaDataConnectionError')<{
   readonly message: string
   readonly cause?: unknown
+  readonly circuitOpen?: boolean
+  readonly retryAfter?: number // Milliseconds until the next probe, when circuitOpen
 }> {}
 
+/**
+ * Whether an error is a request refused while the terminal's circuit is open
+ */
+export const isCircuitOpen = (
+  error: unknown,
+): error is ThetaDataConnectionError & { readonly circuitOpen: true } =>
+  error instanceof ThetaDataConnectionError && error.circuitOpen === true
+
 export class ThetaDataApiError extends Data.TaggedError('ThetaDataApiError')<{
   readonly message: string
   readonly statusCode?: number
@@ -29,13 +40,24 @@ export interface ExpirationDate {
   readonly daysToExpiration: number
 }
 
-// Parameters for bulk options Greeks data
-export interface BulkOptionsGreeksParams {
+// The terminal quotes strikes in thousandths of a dollar, e.g. 5000000 for a 5000 strike
+export const STRIKE_SCALE = 1000
+
+// Parameters shared by the bulk_hist option endpoints
+// interval applies to Greeks, quotes and OHLC; rth and the time window to intraday data
+export interface BulkOptionsParams {
   root: string // Symbol of the security (e.g., 'SPXW')
   expiration: string // YYYYMMDD format
   startDate: string // YYYYMMDD format
   endDate: string // YYYYMMDD format
   interval?: number // Interval in milliseconds (default: 0 for tick-level)
+  rth?: boolean // Regular trading hours only (default: true)
+  startTime?: string // Milliseconds since midnight ET
+  endTime?: string // Milliseconds since midnight ET
+}
+
+// Parameters for bulk options Greeks data
+export interface BulkOptionsGreeksParams extends BulkOptionsParams {
   annualDiv?: number // Annualized expected dividend amount
   rate?:
     | 'SOFR'
@@ -51,12 +73,21 @@ export interface BulkOptionsGreeksParams {
     | 'TREASURY_Y20'
     | 'TREASURY_Y30' // Interest rate type
   rateValue?: number // Annualized interest rate (e.g., 0.0342 for 3.42%)
-  rth?: boolean // Regular trading hours only (default: true)
-  startTime?: string // Milliseconds since midnight ET
-  endTime?: string // Milliseconds since midnight ET
 }
 
-export interface OptionsGreeksData {
+// Time of a row as sent by the terminal; parsed rows carry both, timestamp is the same instant
+export interface MarketTime {
+  tradeDate?: string // YYYYMMDD trade date in America/New_York
+  msOfDay?: number // Milliseconds since midnight ET
+}
+
+// Contract of an option row as sent by the terminal
+export interface OptionContract {
+  root?: string // Option root symbol, e.g. 'SPXW'
+  expiration?: string // YYYYMMDD
+}
+
+export interface OptionsGreeksData extends OptionContract, MarketTime {
   strike: number
   right: 'C' | 'P'
   bid: number
@@ -70,9 +101,118 @@ export interface OptionsGreeksData {
   impliedVolatility: number
   ivError: number
   underlyingPrice: number
+  underlyingMsOfDay?: number // ms_of_day2: time of the underlying price, ms since midnight ET
   timestamp: Date
 }
 
+// NBBO quote; exchanges and conditions are the terminal's numeric codes
+export interface OptionsQuoteData extends OptionContract, MarketTime {
+  strike: number
+  right: 'C' | 'P'
+  bidSize: number
+  bidExchange: number
+  bid: number
+  bidCondition: number
+  askSize: number
+  askExchange: number
+  ask: number
+  askCondition: number
+  timestamp: Date
+}
+
+export interface OptionsTradeData extends OptionContract, MarketTime {
+  strike: number
+  right: 'C' | 'P'
+  sequence: number
+  condition: number
+  size: number
+  exchange: number
+  price: number
+  timestamp: Date
+}
+
+// OHLC bar; timestamp is the start of the interval
+export interface OptionsOhlcData extends OptionContract, MarketTime {
+  strike: number
+  right: 'C' | 'P'
+  open: number
+  high: number
+  low: number
+  close: number
+  volume: number
+  count: number // Number of trades in the interval
+  timestamp: Date
+}
+
+// Open interest as reported by OPRA before the open
+export interface OptionsOpenInterestData extends OptionContract, MarketTime {
+  strike: number
+  right: 'C' | 'P'
+  openInterest: number
+  timestamp: Date
+}
+
+// End-of-day summary: the day's OHLC plus the closing NBBO
+export interface OptionsEodData extends OptionContract, MarketTime {
+  strike: number
+  right: 'C' | 'P'
+  open: number
+  high: number
+  low: number
+  close: number
+  volume: number
+  count: number
+  bidSize: number
+  bid: number
+  askSize: number
+  ask: number
+  timestamp: Date
+}
+
+// Parameters for the hist/index endpoints
+export interface IndexHistoryParams {
+  root: string // Index symbol, e.g. 'SPX'
+  startDate: string // YYYYMMDD format
+  endDate: string // YYYYMMDD format
+  interval?: number // Bar size in milliseconds
+  rth?: boolean // Regular trading hours only
+}
+
+// One OHLC bar of an index
+export interface IndexOhlcData extends MarketTime {
+  open: number
+  high: number
+  low: number
+  close: number
+  timestamp: Date
+}
+
+/**
+ * Row type of each downloadable dataset
+ */
+export interface OptionsDatasetRecords {
+  greeks: OptionsGreeksData
+  quote: OptionsQuoteData
+  trade: OptionsTradeData
+  ohlc: OptionsOhlcData
+  open_interest: OptionsOpenInterestData
+  eod: OptionsEodData
+}
+
+export type OptionsDataset = keyof OptionsDatasetRecords
+
+export const OPTIONS_DATASETS: ReadonlyArray<OptionsDataset> = [
+  'greeks',
+  'quote',
+  'trade',
+  'ohlc',
+  'open_interest',
+  'eod',
+]
+
+// A row of any dataset
+export type OptionsRecord = OptionsDatasetRecords[OptionsDataset]
+
 export interface ThetaDataApiClientService {
   /**
    * Check terminal health and connection status
@@ -83,14 +223,27 @@ export interface ThetaDataApiClientService {
   >
 
   /**
-   * List available expiration dates for SPXW
+   * List available expiration dates for a root symbol (e.g., 'SPXW', 'SPX', 'XSP', 'NDXP')
    * Note: Returns all available expirations, not filtered by trade date
    */
-  readonly listExpirations: () => Effect.Effect<
+  readonly listExpirations: (
+    root: string,
+  ) => Effect.Effect<
     ReadonlyArray<ExpirationDate>,
     ThetaDataConnectionError | ThetaDataApiError | ThetaDataRateLimitError
   >
 
+  /**
+   * List the strikes of one expiration (YYYYMMDD) of a root, in thousandths of a dollar
+   */
+  readonly listStrikes: (
+    root: string,
+    expiration: string,
+  ) => Effect.Effect<
+    ReadonlyArray<number>,
+    ThetaDataConnectionError | ThetaDataApiError | ThetaDataRateLimitError
+  >
+
   /**
    * Get bulk historical option Greeks data for a specific expiration
    * Uses the bulk_hist/option/greeks endpoint for efficient batch retrieval
@@ -101,6 +254,83 @@ export interface ThetaDataApiClientService {
     ReadonlyArray<OptionsGreeksData>,
     ThetaDataConnectionError | ThetaDataApiError | ThetaDataRateLimitError
   >
+
+  /**
+   * Get bulk historical NBBO quotes for a specific expiration
+   * Uses the bulk_hist/option/quote endpoint; interval 0 returns every quote change
+   */
+  readonly getBulkOptionsQuotes: (
+    params: BulkOptionsParams,
+  ) => Effect.Effect<
+    ReadonlyArray<OptionsQuoteData>,
+    ThetaDataConnectionError | ThetaDataApiError | ThetaDataRateLimitError
+  >
+
+  /**
+   * Get bulk historical trades for a specific expiration
+   * Uses the bulk_hist/option/trade endpoint; interval does not apply
+   */
+  readonly getBulkOptionsTrades: (
+    params: BulkOptionsParams,
+  ) => Effect.Effect<
+    ReadonlyArray<OptionsTradeData>,
+    ThetaDataConnectionError | ThetaDataApiError | ThetaDataRateLimitError
+  >
+
+  /**
+   * Get bulk historical OHLC bars for a specific expiration
+   * Uses the bulk_hist/option/ohlc endpoint; interval must be greater than 0
+   */
+  readonly getBulkOptionsOhlc: (
+    params: BulkOptionsParams,
+  ) => Effect.Effect<
+    ReadonlyArray<OptionsOhlcData>,
+    ThetaDataConnectionError | ThetaDataApiError | ThetaDataRateLimitError
+  >
+
+  /**
+   * Get bulk open interest for a specific expiration, one row per contract and day
+   * Uses the bulk_hist/option/open_interest endpoint
+   */
+  readonly getBulkOptionsOpenInterest: (
+    params: BulkOptionsParams,
+  ) => Effect.Effect<
+    ReadonlyArray<OptionsOpenInterestData>,
+    ThetaDataConnectionError | ThetaDataApiError | ThetaDataRateLimitError
+  >
+
+  /**
+   * Get bulk end-of-day reports for a specific expiration, one row per contract and day
+   * Uses the bulk_hist/option/eod endpoint
+   */
+  readonly getBulkOptionsEod: (
+    params: BulkOptionsParams,
+  ) => Effect.Effect<
+    ReadonlyArray<OptionsEodData>,
+    ThetaDataConnectionError | ThetaDataApiError | ThetaDataRateLimitError
+  >
+
+  /**
+   * Get OHLC bars of an index over a date range
+   * Uses the hist/index/ohlc endpoint
+   */
+  readonly getIndexOhlc: (
+    params: IndexHistoryParams,
+  ) => Effect.Effect<
+    ReadonlyArray<IndexOhlcData>,
+    ThetaDataConnectionError | ThetaDataApiError | ThetaDataRateLimitError
+  >
+
+  /**
+   * Stream bulk historical option Greeks data for a specific expiration
+   * Rows are parsed as the response body arrives, so the full response is never held in memory
+   */
+  readonly streamBulkOptionsGreeks: (
+    params: BulkOptionsGreeksParams,
+  ) => Stream.Stream<
+    OptionsGreeksData,
+    ThetaDataConnectionError | ThetaDataApiError | ThetaDataRateLimitError
+  >
 }
 
 export const ThetaDataApiClient =
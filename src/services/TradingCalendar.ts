@@ -0,0 +1,81 @@
+import { Context, Data, type Effect } from 'effect'
+
+/**
+ * Error type for TradingCalendar operations
+ */
+export class TradingCalendarError extends Data.TaggedError('TradingCalendarError')<{
+  readonly message: string
+  readonly date: string
+}> {}
+
+/**
+ * Market session for a single calendar date
+ */
+export interface TradingSession {
+  readonly date: string // YYYYMMDD format
+  readonly isTradingDay: boolean
+  readonly isHalfDay: boolean
+  readonly holiday?: string // Name of the holiday or closure when the market is shut
+  readonly openMsOfDay?: number // Milliseconds since midnight ET, undefined when closed
+  readonly closeMsOfDay?: number // Milliseconds since midnight ET, undefined when closed
+}
+
+/**
+ * Exchange calendar for SPX options (NYSE/CBOE holiday and early-close rules)
+ *
+ * Dates are accepted in YYYYMMDD or YYYY-MM-DD format; returned dates are YYYYMMDD.
+ */
+export class TradingCalendar extends Context.Tag('TradingCalendar')<
+  TradingCalendar,
+  {
+    /**
+     * Get the market session for a date
+     * @param date The calendar date
+     * @returns Session details including holiday name and close time
+     */
+    readonly getSession: (date: string) => Effect.Effect<TradingSession, TradingCalendarError>
+
+    /**
+     * Check whether the market is open on a date
+     */
+    readonly isTradingDay: (date: string) => Effect.Effect<boolean, TradingCalendarError>
+
+    /**
+     * Check whether a date is an early-close (half) day
+     */
+    readonly isHalfDay: (date: string) => Effect.Effect<boolean, TradingCalendarError>
+
+    /**
+     * Enumerate trading days in a range
+     * @param startDate First date of the range (inclusive)
+     * @param endDate Last date of the range (inclusive)
+     * @returns Trading days in ascending order
+     */
+    readonly tradingDaysBetween: (
+      startDate: string,
+      endDate: string,
+    ) => Effect.Effect<ReadonlyArray<string>, TradingCalendarError>
+
+    /**
+     * Get the last N trading days ending at a date
+     * @param endDate Last date to consider (inclusive)
+     * @param count Number of trading days
+     * @returns Trading days in ascending order
+     */
+    readonly previousTradingDays: (
+      endDate: string,
+      count: number,
+    ) => Effect.Effect<ReadonlyArray<string>, TradingCalendarError>
+
+    /**
+     * Count trading days from a trade date to an expiration
+     * @param tradeDate The trade date
+     * @param expiration The expiration date
+     * @returns 0 for same-day expirations, negative when the expiration is before the trade date
+     */
+    readonly tradingDaysToExpiration: (
+      tradeDate: string,
+      expiration: string,
+    ) => Effect.Effect<number, TradingCalendarError>
+  }
+>() {}
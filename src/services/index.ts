@@ -1,7 +1,12 @@
 export * from './BulkGreeksProcessor'
 export * from './DataPipeline'
+export * from './DataValidationService'
 export * from './DataWriter'
+export * from './DeadLetterQueue'
+export * from './DownloadCheckpoint'
 export * from './InventoryService'
 export * from './MetricsWriter'
+export * from './RateLimiter'
 export * from './StatusService'
 export * from './ThetaDataApiClient'
+export * from './TradingCalendar'
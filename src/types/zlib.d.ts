@@ -0,0 +1,14 @@
+import type { Transform, TransformOptions } from 'node:stream'
+import type { InputType } from 'node:zlib'
+
+// Zstandard bindings ship with Bun's node:zlib but are newer than the pinned @types/node
+declare module 'zlib' {
+  interface ZstdOptions extends TransformOptions {
+    params?: Record<number, number>
+  }
+
+  function zstdCompressSync(buf: InputType, options?: ZstdOptions): Buffer
+  function zstdDecompressSync(buf: InputType, options?: ZstdOptions): Buffer
+  function createZstdCompress(options?: ZstdOptions): Transform
+  function createZstdDecompress(options?: ZstdOptions): Transform
+}
@@ -0,0 +1,165 @@
+import { Cause, Effect, Exit, Option, Ref, STM, TRef } from 'effect'
+import type { ConcurrencyChange } from '../services/BulkGreeksProcessor'
+
+/**
+ * Bounds and congestion signals of an adaptive concurrency limit
+ */
+export interface AdaptiveConcurrencyOptions {
+  readonly initial: number
+  readonly min: number
+  readonly max: number // Equal to min for a fixed limit
+  readonly targetLatencyMs: number // Requests slower than this count as congestion
+  readonly isCongestion: (error: unknown) => boolean // Failures that mean the terminal is overloaded
+}
+
+/**
+ * What one finished request says about the terminal's load
+ */
+export type ConcurrencySignal = 'ok' | 'congestion' | 'latency' | 'neutral'
+
+/**
+ * AIMD state: the limit, successes since it last changed and a count of decreases
+ */
+export interface AimdState {
+  readonly limit: number
+  readonly successes: number
+  readonly epoch: number
+}
+
+/**
+ * Next AIMD state after a request started in startedEpoch finishes
+ * A full window of successes raises the limit by one and congestion halves it; requests
+ * already in flight when it was last halved belong to the old window and are not counted
+ */
+export const nextAimdState = (
+  state: AimdState,
+  signal: ConcurrencySignal,
+  startedEpoch: number,
+  bounds: { readonly min: number; readonly max: number },
+): AimdState => {
+  if (startedEpoch < state.epoch) {
+    return state
+  }
+  switch (signal) {
+    case 'ok': {
+      const successes = state.successes + 1
+      return successes >= state.limit && state.limit < bounds.max
+        ? { ...state, limit: state.limit + 1, successes: 0 }
+        : { ...state, successes }
+    }
+    case 'congestion':
+    case 'latency':
+      return {
+        limit: Math.max(bounds.min, Math.floor(state.limit / 2)),
+        successes: 0,
+        epoch: state.epoch + 1,
+      }
+    case 'neutral':
+      return state
+  }
+}
+
+/**
+ * A place among the requests in flight, held until its scope closes
+ * A streamed response calls responded on its first rows, so its latency is the time the terminal
+ * took to answer rather than the time spent reading and writing the body
+ */
+export interface ConcurrencySlot {
+  readonly responded: Effect.Effect<void>
+}
+
+/**
+ * Limit on requests in flight that adjusts itself from how they finish
+ * slot waits until fewer than the current limit are in flight and holds its place until the
+ * scope closes; the scope's exit, and the time to responded (or else to the close), decide the signal
+ */
+export const makeAdaptiveConcurrency = (
+  options: AdaptiveConcurrencyOptions,
+  onChange: (change: ConcurrencyChange) => Effect.Effect<void> = () => Effect.void,
+) =>
+  Effect.gen(function* (_) {
+    const min = Math.max(1, options.min)
+    const max = Math.max(min, options.max)
+    const initial = Math.min(max, Math.max(min, options.initial))
+
+    const state = yield* _(TRef.make<AimdState>({ limit: initial, successes: 0, epoch: 0 }))
+    const inFlight = yield* _(TRef.make(0))
+    const history = yield* _(
+      Ref.make<ReadonlyArray<ConcurrencyChange>>([
+        { at: new Date(), concurrency: initial, reason: 'start' },
+      ]),
+    )
+
+    const acquire = STM.gen(function* (_) {
+      const { limit, epoch } = yield* _(TRef.get(state))
+      const running = yield* _(TRef.get(inFlight))
+      yield* _(STM.check(() => running < limit))
+      yield* _(TRef.set(inFlight, running + 1))
+      return epoch
+    }).pipe(STM.commit)
+
+    const signalOf = (exit: Exit.Exit<unknown, unknown>, elapsedMs: number): ConcurrencySignal => {
+      if (Exit.isSuccess(exit)) {
+        return elapsedMs > options.targetLatencyMs ? 'latency' : 'ok'
+      }
+      return Option.match(Cause.failureOption(exit.cause), {
+        onNone: () => 'neutral',
+        onSome: (error) => (options.isCongestion(error) ? 'congestion' : 'neutral'),
+      })
+    }
+
+    const release = (
+      startedEpoch: number,
+      startedAt: number,
+      respondedAt: Ref.Ref<number | undefined>,
+      exit: Exit.Exit<unknown, unknown>,
+    ) =>
+      Effect.gen(function* (_) {
+        const endedAt = (yield* _(Ref.get(respondedAt))) ?? Date.now()
+        const signal = signalOf(exit, endedAt - startedAt)
+        const [before, after] = yield* _(
+          STM.commit(
+            STM.zipRight(
+              TRef.update(inFlight, (running) => running - 1),
+              TRef.modify(state, (current) => {
+                const next = nextAimdState(current, signal, startedEpoch, { min, max })
+                return [[current.limit, next.limit] as const, next]
+              }),
+            ),
+          ),
+        )
+        if (before !== after) {
+          const change: ConcurrencyChange = {
+            at: new Date(),
+            concurrency: after,
+            reason: after > before ? 'increase' : signal === 'latency' ? 'latency' : 'congestion',
+          }
+          yield* _(Ref.update(history, (changes) => [...changes, change]))
+          yield* _(onChange(change))
+        }
+      })
+
+    return {
+      slot: Effect.acquireRelease(
+        Effect.zip(acquire, Ref.make<number | undefined>(undefined)).pipe(
+          Effect.map(([epoch, respondedAt]) => ({ epoch, startedAt: Date.now(), respondedAt })),
+        ),
+        ({ epoch, startedAt, respondedAt }, exit) => release(epoch, startedAt, respondedAt, exit),
+      ).pipe(
+        Effect.map(
+          ({ respondedAt }): ConcurrencySlot => ({
+            responded: Ref.update(respondedAt, (at) => at ?? Date.now()),
+          }),
+        ),
+      ),
+
+      current: Effect.map(STM.commit(TRef.get(state)), ({ limit }) => limit),
+
+      history: Ref.get(history),
+    }
+  })
+
+/**
+ * A limit made by makeAdaptiveConcurrency
+ */
+export type AdaptiveConcurrency = Effect.Effect.Success<ReturnType<typeof makeAdaptiveConcurrency>>
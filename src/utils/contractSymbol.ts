@@ -0,0 +1,150 @@
+import { Either } from 'effect'
+import type { ContractInfo } from '../services/InventoryService'
+import type { ContractString, DateString } from '../types/common'
+import { ValidationError } from '../types/errors'
+
+/**
+ * The parts of a contract a symbol encodes; strike in dollars, up to 3 decimals
+ */
+export type ContractFields = Omit<ContractInfo, 'contract'>
+
+// Root, YYMMDD, right and the strike in thousandths; OCC pads the root to 6 with spaces
+const OCC_PATTERN = /^([A-Z0-9]{1,6}) *(\d{6})([CP])(\d{8})$/
+const PREFIXED_PATTERN = /^O:([A-Z0-9]{1,6})(\d{6})([CP])(\d{8})$/
+
+const OCC_ROOT_WIDTH = 6
+const MAX_STRIKE_THOUSANDTHS = 99_999_999
+
+const invalid = (message: string, field: string, value: unknown) =>
+  Either.left(new ValidationError({ message, field, value }))
+
+/**
+ * Check a contract can be written as a symbol, normalizing the root to upper case
+ */
+export const validateContract = (
+  contract: ContractFields,
+): Either.Either<ContractFields, ValidationError> => {
+  const root = contract.root.toUpperCase()
+  if (!/^[A-Z0-9]{1,6}$/.test(root)) {
+    return invalid(`Invalid root: ${contract.root}. Expected 1-6 letters or digits`, 'root', root)
+  }
+
+  const [year, month, day] = contract.expiration.split('-').map(Number)
+  const date = new Date(Date.UTC(year, month - 1, day))
+  if (
+    !/^20\d{2}-\d{2}-\d{2}$/.test(contract.expiration) ||
+    date.getUTCMonth() !== month - 1 ||
+    date.getUTCDate() !== day
+  ) {
+    return invalid(
+      `Invalid expiration: ${contract.expiration}. Expected a YYYY-MM-DD date in 2000-2099`,
+      'expiration',
+      contract.expiration,
+    )
+  }
+
+  if (contract.right !== 'C' && contract.right !== 'P') {
+    return invalid(`Invalid right: ${contract.right}. Expected C or P`, 'right', contract.right)
+  }
+
+  const thousandths = Math.round(contract.strike * 1000)
+  if (
+    !Number.isFinite(contract.strike) ||
+    thousandths <= 0 ||
+    thousandths > MAX_STRIKE_THOUSANDTHS ||
+    Math.abs(thousandths - contract.strike * 1000) > 1e-6
+  ) {
+    return invalid(
+      `Invalid strike: ${contract.strike}. Expected above 0, below 100000, with at most 3 decimals`,
+      'strike',
+      contract.strike,
+    )
+  }
+
+  return Either.right({ ...contract, root })
+}
+
+// YYMMDD, right and 8-digit strike shared by both symbol styles
+const symbolTail = (contract: ContractFields) =>
+  `${contract.expiration.slice(2).replace(/-/g, '')}${contract.right}${String(
+    Math.round(contract.strike * 1000),
+  ).padStart(8, '0')}`
+
+/**
+ * OCC 21-character symbol, e.g. `SPXW  240315C05000000`
+ */
+export const formatOccSymbol = (contract: ContractFields): Either.Either<string, ValidationError> =>
+  Either.map(
+    validateContract(contract),
+    (valid) => `${valid.root.padEnd(OCC_ROOT_WIDTH)}${symbolTail(valid)}`,
+  )
+
+/**
+ * `O:` prefixed symbol used by our other systems, e.g. `O:SPXW240315C05000000`
+ */
+export const formatContractString = (
+  contract: ContractFields,
+): Either.Either<ContractString, ValidationError> =>
+  Either.map(validateContract(contract), (valid) => `O:${valid.root}${symbolTail(valid)}`)
+
+// Contract of a matched symbol; the date and strike digits still need validating
+const fromMatch = (
+  match: RegExpExecArray | null,
+  symbol: string,
+  style: string,
+): Either.Either<ContractInfo, ValidationError> => {
+  if (!match) {
+    return invalid(`Invalid ${style} symbol: ${symbol}`, 'contract', symbol)
+  }
+  const [, root, date, right, strike] = match
+  const expiration: DateString = `20${date.slice(0, 2)}-${date.slice(2, 4)}-${date.slice(4, 6)}`
+  return Either.flatMap(
+    validateContract({
+      root,
+      expiration,
+      right: right as 'C' | 'P',
+      strike: Number(strike) / 1000,
+    }),
+    (contract) =>
+      Either.map(formatContractString(contract), (contractString) => ({
+        ...contract,
+        contract: contractString,
+      })),
+  )
+}
+
+/**
+ * Parse an OCC symbol; the returned contract field is in `O:` style
+ */
+export const parseOccSymbol = (symbol: string): Either.Either<ContractInfo, ValidationError> =>
+  symbol.length === 21
+    ? fromMatch(OCC_PATTERN.exec(symbol), symbol, 'OCC')
+    : invalid(`Invalid OCC symbol: ${symbol}. Expected 21 characters`, 'contract', symbol)
+
+/**
+ * Parse an `O:` prefixed symbol
+ */
+export const parseContractString = (symbol: string): Either.Either<ContractInfo, ValidationError> =>
+  fromMatch(PREFIXED_PATTERN.exec(symbol), symbol, 'contract')
+
+/**
+ * Parse a symbol in either style
+ */
+export const parseContractSymbol = (
+  symbol: string,
+): Either.Either<ContractInfo, ValidationError> =>
+  symbol.startsWith('O:') ? parseContractString(symbol) : parseOccSymbol(symbol)
+
+/**
+ * Convert an OCC symbol to `O:` style
+ */
+export const occToContractString = (
+  symbol: string,
+): Either.Either<ContractString, ValidationError> =>
+  Either.map(parseOccSymbol(symbol), (contract) => contract.contract)
+
+/**
+ * Convert an `O:` style symbol to OCC
+ */
+export const contractStringToOcc = (symbol: string): Either.Either<string, ValidationError> =>
+  Either.flatMap(parseContractString(symbol), formatOccSymbol)
@@ -0,0 +1,172 @@
+import { Either } from 'effect'
+import type { OutputLocation, WriteDataset, WriteRecord } from '../services/DataWriter'
+import {
+  type IndexOhlcData,
+  type OptionsDatasetRecords,
+  type OptionsRecord,
+  STRIKE_SCALE,
+} from '../services/ThetaDataApiClient'
+import { formatOccSymbol } from './contractSymbol'
+import { easternTimeOf } from './easternTime'
+
+// Version of the output columns; bump it whenever a dataset's columns change
+// 1: contract, data and timestamp columns only
+// 2: root, expiration, contract symbol, the terminal's raw times and this version
+export const OUTPUT_SCHEMA_VERSION = 2
+
+/**
+ * One output column: its name in CSV headers and Parquet schemas, its storage type and how
+ * to read it from a row written to a location
+ */
+export interface DatasetColumn<A> {
+  readonly name: string
+  readonly type: 'double' | 'int' | 'enum' | 'text' | 'timestamp'
+  readonly value: (row: A, location: OutputLocation) => number | string | Date
+}
+
+type DatasetRecords = OptionsDatasetRecords & { index: IndexOhlcData }
+
+type DatasetColumns = {
+  readonly [D in WriteDataset]: ReadonlyArray<DatasetColumn<DatasetRecords[D]>>
+}
+
+const double = <A>(name: string, value: (row: A) => number): DatasetColumn<A> => ({
+  name,
+  type: 'double',
+  value,
+})
+
+const int = <A>(name: string, value: (row: A) => number): DatasetColumn<A> => ({
+  name,
+  type: 'int',
+  value,
+})
+
+const text = <A>(
+  name: string,
+  value: (row: A, location: OutputLocation) => string,
+): DatasetColumn<A> => ({ name, type: 'text', value })
+
+// Rows built without the terminal's root and expiration take them from the file they go to
+const rootOf = (row: { readonly root?: string }, location: OutputLocation) =>
+  row.root ?? location.root.toUpperCase()
+
+const expirationOf = (row: OptionsRecord, location: OutputLocation) =>
+  row.expiration ?? location.expiration.replace(/-/g, '')
+
+// OCC symbol of a row's contract; empty when the row cannot form one
+const occSymbol = (row: OptionsRecord, location: OutputLocation) => {
+  const expiration = expirationOf(row, location)
+  return Either.getOrElse(
+    formatOccSymbol({
+      root: rootOf(row, location),
+      expiration: `${expiration.slice(0, 4)}-${expiration.slice(4, 6)}-${expiration.slice(6, 8)}`,
+      strike: row.strike / STRIKE_SCALE,
+      right: row.right,
+    }),
+    () => '',
+  )
+}
+
+// Contract columns lead every options dataset and the time columns end every dataset
+const contract = <A extends OptionsRecord>(): ReadonlyArray<DatasetColumn<A>> => [
+  text('root', rootOf),
+  text('expiration', expirationOf),
+  text('contract', occSymbol),
+  double('strike', (row) => row.strike),
+  { name: 'right', type: 'enum', value: (row) => row.right },
+]
+
+// The terminal's Eastern trade date and ms_of_day, then the same instant as a UTC timestamp;
+// rows built without the raw values get them from the timestamp. The schema version ends the row
+const time = <A extends WriteRecord>(): ReadonlyArray<DatasetColumn<A>> => [
+  text('trade_date', (row) => row.tradeDate ?? easternTimeOf(row.timestamp).tradeDate),
+  int('ms_of_day', (row) => row.msOfDay ?? easternTimeOf(row.timestamp).msOfDay),
+  { name: 'timestamp', type: 'timestamp', value: (row) => row.timestamp },
+  int('schema_version', () => OUTPUT_SCHEMA_VERSION),
+]
+
+/**
+ * Output columns of every dataset, in file order
+ */
+export const datasetColumns: DatasetColumns = {
+  greeks: [
+    ...contract(),
+    double('bid', (row) => row.bid),
+    double('ask', (row) => row.ask),
+    double('delta', (row) => row.delta),
+    double('theta', (row) => row.theta),
+    double('vega', (row) => row.vega),
+    double('rho', (row) => row.rho),
+    double('epsilon', (row) => row.epsilon),
+    double('lambda', (row) => row.lambda),
+    double('implied_volatility', (row) => row.impliedVolatility),
+    double('iv_error', (row) => row.ivError),
+    double('underlying_price', (row) => row.underlyingPrice),
+    int(
+      'underlying_ms_of_day',
+      (row) => row.underlyingMsOfDay ?? row.msOfDay ?? easternTimeOf(row.timestamp).msOfDay,
+    ),
+    ...time(),
+  ],
+  quote: [
+    ...contract(),
+    int('bid_size', (row) => row.bidSize),
+    int('bid_exchange', (row) => row.bidExchange),
+    double('bid', (row) => row.bid),
+    int('bid_condition', (row) => row.bidCondition),
+    int('ask_size', (row) => row.askSize),
+    int('ask_exchange', (row) => row.askExchange),
+    double('ask', (row) => row.ask),
+    int('ask_condition', (row) => row.askCondition),
+    ...time(),
+  ],
+  trade: [
+    ...contract(),
+    int('sequence', (row) => row.sequence),
+    int('condition', (row) => row.condition),
+    int('size', (row) => row.size),
+    int('exchange', (row) => row.exchange),
+    double('price', (row) => row.price),
+    ...time(),
+  ],
+  ohlc: [
+    ...contract(),
+    double('open', (row) => row.open),
+    double('high', (row) => row.high),
+    double('low', (row) => row.low),
+    double('close', (row) => row.close),
+    int('volume', (row) => row.volume),
+    int('count', (row) => row.count),
+    ...time(),
+  ],
+  open_interest: [...contract(), int('open_interest', (row) => row.openInterest), ...time()],
+  eod: [
+    ...contract(),
+    double('open', (row) => row.open),
+    double('high', (row) => row.high),
+    double('low', (row) => row.low),
+    double('close', (row) => row.close),
+    int('volume', (row) => row.volume),
+    int('count', (row) => row.count),
+    int('bid_size', (row) => row.bidSize),
+    double('bid', (row) => row.bid),
+    int('ask_size', (row) => row.askSize),
+    double('ask', (row) => row.ask),
+    ...time(),
+  ],
+  index: [
+    text('root', (_, location) => location.root.toUpperCase()),
+    double('open', (row) => row.open),
+    double('high', (row) => row.high),
+    double('low', (row) => row.low),
+    double('close', (row) => row.close),
+    ...time(),
+  ],
+}
+
+/**
+ * Columns of a dataset, readable from any row; writers are only given rows of that dataset
+ */
+export const columnsFor = (dataset: WriteDataset = 'greeks') =>
+  datasetColumns[dataset] as ReadonlyArray<DatasetColumn<WriteRecord>>
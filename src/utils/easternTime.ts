@@ -0,0 +1,92 @@
+// Zone of the terminal's trade dates and ms_of_day values
+export const MARKET_TIME_ZONE = 'America/New_York'
+
+const MS_PER_DAY = 86_400_000
+
+const wallClockFormat = new Intl.DateTimeFormat('en-US', {
+  timeZone: MARKET_TIME_ZONE,
+  hourCycle: 'h23',
+  year: 'numeric',
+  month: 'numeric',
+  day: 'numeric',
+  hour: 'numeric',
+  minute: 'numeric',
+  second: 'numeric',
+})
+
+/**
+ * Offset of Eastern time from UTC at an instant, in milliseconds (-4h in EDT, -5h in EST)
+ */
+export const easternOffsetMs = (instant: number): number => {
+  const seconds = Math.floor(instant / 1000) * 1000
+  const parts: Record<string, string> = {}
+  for (const part of wallClockFormat.formatToParts(seconds)) {
+    parts[part.type] = part.value
+  }
+  const wallClock = Date.UTC(
+    Number(parts.year),
+    Number(parts.month) - 1,
+    Number(parts.day),
+    Number(parts.hour),
+    Number(parts.minute),
+    Number(parts.second),
+  )
+  return wallClock - seconds
+}
+
+// Instant of an Eastern wall-clock time given as if it were UTC; the second lookup
+// corrects guesses that land on the other side of a DST change
+const fromWallClock = (wallClock: number) => {
+  const guess = wallClock - easternOffsetMs(wallClock)
+  return wallClock - easternOffsetMs(guess)
+}
+
+// Offset of each trade date whose offset holds all day; DST changeover days are absent
+const dayOffsets = new Map<string, number | undefined>()
+
+const dayOffset = (tradeDate: string, midnight: number) => {
+  if (!dayOffsets.has(tradeDate)) {
+    const start = easternOffsetMs(fromWallClock(midnight))
+    const end = easternOffsetMs(fromWallClock(midnight + MS_PER_DAY - 1))
+    dayOffsets.set(tradeDate, start === end ? start : undefined)
+  }
+  return dayOffsets.get(tradeDate)
+}
+
+/**
+ * Instant of a terminal row from its YYYYMMDD trade date and milliseconds since midnight ET,
+ * independent of the host's time zone; an unparseable date gives an invalid Date
+ */
+export const easternTimestamp = (tradeDate: string, msOfDay = 0): Date => {
+  const midnight = /^\d{8}$/.test(tradeDate)
+    ? Date.UTC(
+        Number(tradeDate.slice(0, 4)),
+        Number(tradeDate.slice(4, 6)) - 1,
+        Number(tradeDate.slice(6, 8)),
+      )
+    : Number.NaN
+  if (Number.isNaN(midnight)) {
+    return new Date(Number.NaN)
+  }
+  const wallClock = midnight + msOfDay
+  const offset = dayOffset(tradeDate, midnight)
+  return new Date(offset === undefined ? fromWallClock(wallClock) : wallClock - offset)
+}
+
+/**
+ * Eastern trade date (YYYYMMDD) and milliseconds since midnight ET of an instant
+ * An invalid Date gives an empty date and NaN
+ */
+export const easternTimeOf = (
+  instant: Date,
+): { readonly tradeDate: string; readonly msOfDay: number } => {
+  if (Number.isNaN(instant.getTime())) {
+    return { tradeDate: '', msOfDay: Number.NaN }
+  }
+  const wallClock = instant.getTime() + easternOffsetMs(instant.getTime())
+  const msOfDay = ((wallClock % MS_PER_DAY) + MS_PER_DAY) % MS_PER_DAY
+  return {
+    tradeDate: new Date(wallClock - msOfDay).toISOString().slice(0, 10).replace(/-/g, ''),
+    msOfDay,
+  }
+}
@@ -0,0 +1,23 @@
+import { BulkProcessingError, type FailureKind } from '../services/BulkGreeksProcessor'
+import {
+  ThetaDataApiError,
+  ThetaDataConnectionError,
+  ThetaDataRateLimitError,
+} from '../services/ThetaDataApiClient'
+
+/**
+ * Classify a fetch failure: connection problems, rate limits and 5xx responses are transient;
+ * other HTTP errors, malformed responses and anything unrecognized are permanent
+ */
+export const failureKindOf = (error: unknown): FailureKind => {
+  if (error instanceof BulkProcessingError) {
+    return failureKindOf(error.cause)
+  }
+  if (error instanceof ThetaDataConnectionError || error instanceof ThetaDataRateLimitError) {
+    return 'transient'
+  }
+  if (error instanceof ThetaDataApiError && error.statusCode !== undefined) {
+    return error.statusCode >= 500 || error.statusCode === 429 ? 'transient' : 'permanent'
+  }
+  return 'permanent'
+}
@@ -0,0 +1,17 @@
+import * as crypto from 'node:crypto'
+
+/**
+ * SHA-256 (hex) of a file, read a chunk at a time so large output files are never held whole
+ * Resolves to undefined if the file does not exist
+ */
+export const sha256File = async (filePath: string): Promise<string | undefined> => {
+  const file = Bun.file(filePath)
+  if (!(await file.exists())) {
+    return undefined
+  }
+  const hash = crypto.createHash('sha256')
+  for await (const chunk of file.stream()) {
+    hash.update(chunk)
+  }
+  return hash.digest('hex')
+}
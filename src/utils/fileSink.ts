@@ -0,0 +1,63 @@
+import * as zlib from 'node:zlib'
+import type { CsvCompression } from '../services/DataWriter'
+
+/**
+ * Where a file's text goes: straight to disk or through a streaming compressor
+ */
+export interface FileSink {
+  readonly write: (text: string) => Promise<void>
+  readonly end: () => Promise<void>
+  readonly bytesWritten: () => number // Bytes that reached the file so far
+}
+
+/**
+ * Open a text file for writing, compressing it as it is written unless compression is 'none'
+ */
+export const openFileSink = (filePath: string, compression: CsvCompression): FileSink => {
+  const writer = Bun.file(filePath).writer()
+  let bytes = 0
+
+  if (compression === 'none') {
+    return {
+      write: async (text) => {
+        bytes += writer.write(text)
+        await writer.flush()
+      },
+      end: async () => {
+        await writer.end()
+      },
+      bytesWritten: () => bytes,
+    }
+  }
+
+  // Compressed output is written as the compressor produces it, never held whole
+  const compressor = compression === 'gzip' ? zlib.createGzip() : zlib.createZstdCompress()
+  compressor.on('data', (chunk: Buffer) => {
+    bytes += writer.write(chunk)
+  })
+  // A compressor error is kept for the next write or end to report, rather than left unhandled
+  let failure: Error | undefined
+  const finished = new Promise<void>((resolve) => {
+    compressor.on('end', resolve)
+    compressor.on('error', (error) => {
+      failure = error
+      resolve()
+    })
+  })
+
+  return {
+    write: (text) =>
+      new Promise((resolve, reject) =>
+        failure
+          ? reject(failure)
+          : compressor.write(text, (error) => (error ? reject(error) : resolve())),
+      ),
+    end: async () => {
+      if (!failure) compressor.end()
+      await finished
+      await writer.end()
+      if (failure) throw failure
+    },
+    bytesWritten: () => bytes,
+  }
+}
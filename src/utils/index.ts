@@ -1 +1,10 @@
-export {}
+export * from './adaptiveConcurrency'
+export * from './contractSymbol'
+export * from './datasetColumns'
+export * from './easternTime'
+export * from './failureKind'
+export * from './fileChecksum'
+export * from './fileSink'
+export * from './normalDistribution'
+export * from './pathTemplate'
+export * from './strikeFilter'
@@ -0,0 +1,16 @@
+/**
+ * Standard normal density
+ */
+export const normPdf = (x: number) => Math.exp((-x * x) / 2) / Math.sqrt(2 * Math.PI)
+
+/**
+ * Standard normal CDF, by the Abramowitz-Stegun approximation (error below 7.5e-8)
+ */
+export const normCdf = (x: number) => {
+  const t = 1 / (1 + 0.2316419 * Math.abs(x))
+  const tail =
+    normPdf(x) *
+    t *
+    (0.31938153 + t * (-0.356563782 + t * (1.781477937 + t * (-1.821255978 + t * 1.330274429))))
+  return x >= 0 ? 1 - tail : tail
+}
@@ -0,0 +1,33 @@
+import { zstdCompressSync, zstdDecompressSync } from 'node:zlib'
+import type { ParquetCompression } from '@dsnp/parquetjs'
+// Not exported from the package root; the module path and registry shape are those of the
+// @dsnp/parquetjs version pinned in package.json (1.8.9), so check both when upgrading it
+import { PARQUET_COMPRESSION_METHODS } from '@dsnp/parquetjs/dist/lib/compression'
+
+/**
+ * Page compression the Parquet writer offers: codecs parquetjs ships, plus Zstandard
+ */
+export type ParquetCompressionCodec = 'UNCOMPRESSED' | 'SNAPPY' | 'GZIP' | 'ZSTD'
+
+// parquetjs deflates each page with the registry entry named by its column's codec and records
+// that name as the file's Thrift CompressionCodec, which already includes ZSTD
+const isRegistered = (codec: string): codec is ParquetCompression =>
+  codec in PARQUET_COMPRESSION_METHODS
+
+/**
+ * The parquetjs column compression for a codec, registering the codecs parquetjs lacks
+ * (Zstandard, backed by the runtime's zlib) on first use
+ * Throws if the codec is still not registered, e.g. after an upgrade moved the registry
+ */
+export const parquetCompression = (codec: ParquetCompressionCodec): ParquetCompression => {
+  if (codec === 'ZSTD' && !isRegistered(codec)) {
+    PARQUET_COMPRESSION_METHODS.ZSTD = {
+      deflate: (value: Buffer) => zstdCompressSync(value),
+      inflate: (value: Buffer) => zstdDecompressSync(value),
+    }
+  }
+  if (!isRegistered(codec)) {
+    throw new Error(`parquetjs has no ${codec} codec registered`)
+  }
+  return codec
+}
@@ -0,0 +1,130 @@
+import { Either } from 'effect'
+import { ValidationError } from '../types/errors'
+
+/**
+ * Placeholders a path template may use
+ * root is lower-cased; tradeDate and expiration are YYYYMMDD; year and month are the
+ * trade date's; dte is trading days from the trade date to the expiration
+ */
+export const PATH_PLACEHOLDERS = [
+  'root',
+  'tradeDate',
+  'expiration',
+  'dte',
+  'year',
+  'month',
+  'dataset',
+] as const
+
+export type PathPlaceholder = (typeof PATH_PLACEHOLDERS)[number]
+
+/**
+ * What a template is rendered with for one output file
+ */
+export interface PathTemplateValues {
+  readonly root: string
+  readonly expiration: string // YYYYMMDD or YYYY-MM-DD
+  readonly dataset: string
+  readonly tradeDate?: string // YYYYMMDD or YYYY-MM-DD
+  readonly dte?: number
+}
+
+// Placeholders that can only be rendered with a trade date
+export const TRADE_DATE_PLACEHOLDERS: ReadonlyArray<PathPlaceholder> = [
+  'tradeDate',
+  'dte',
+  'year',
+  'month',
+]
+
+const PLACEHOLDER_PATTERN = /\{([^{}]*)\}/g
+
+const isPlaceholder = (name: string): name is PathPlaceholder =>
+  (PATH_PLACEHOLDERS as ReadonlyArray<string>).includes(name)
+
+/**
+ * Placeholders a template uses, in order of first use
+ */
+export const pathTemplatePlaceholders = (template: string): ReadonlyArray<PathPlaceholder> => [
+  ...new Set(
+    [...template.matchAll(PLACEHOLDER_PATTERN)].map((match) => match[1]).filter(isPlaceholder),
+  ),
+]
+
+const invalid = (message: string, template: string) =>
+  Either.left(
+    new ValidationError({
+      message: `Invalid path template ${template}: ${message}`,
+      field: 'pathTemplate',
+      value: template,
+    }),
+  )
+
+/**
+ * Check a template can be rendered into a path inside the directory it is relative to
+ * Templates have no file extension; writers append their own
+ * @param required Placeholders the template must use so that no two files share a path
+ */
+export const validatePathTemplate = (
+  template: string,
+  required: ReadonlyArray<PathPlaceholder> = ['expiration'],
+): Either.Either<string, ValidationError> => {
+  const unknown = [...template.matchAll(PLACEHOLDER_PATTERN)]
+    .map((match) => match[1])
+    .filter((name) => !isPlaceholder(name))
+  if (unknown.length > 0) {
+    return invalid(
+      `unknown placeholder {${unknown[0]}}; expected one of ${PATH_PLACEHOLDERS.map((name) => `{${name}}`).join(', ')}`,
+      template,
+    )
+  }
+
+  if (/[{}]/.test(template.replace(PLACEHOLDER_PATTERN, ''))) {
+    return invalid('unbalanced braces', template)
+  }
+
+  if (template.startsWith('/') || template.includes('\\')) {
+    return invalid('must be a relative path using / separators', template)
+  }
+
+  const segments = template.split('/')
+  if (segments.some((segment) => segment === '')) {
+    return invalid('empty path segment', template)
+  }
+  if (segments.some((segment) => segment === '.' || segment === '..')) {
+    return invalid('must not contain . or .. segments', template)
+  }
+
+  const used = pathTemplatePlaceholders(template)
+  const missing = required.filter((name) => !used.includes(name))
+  if (missing.length > 0) {
+    return invalid(`must include ${missing.map((name) => `{${name}}`).join(', ')}`, template)
+  }
+
+  return Either.right(template)
+}
+
+/**
+ * Render a validated template into a relative path
+ * Throws if the template uses tradeDate, dte, year or month and no value is given for it
+ */
+export const renderPathTemplate = (template: string, values: PathTemplateValues): string => {
+  const tradeDate = values.tradeDate?.replace(/-/g, '')
+  const rendered: Record<PathPlaceholder, string | undefined> = {
+    root: values.root.toLowerCase(),
+    tradeDate,
+    expiration: values.expiration.replace(/-/g, ''),
+    dte: values.dte === undefined ? undefined : String(values.dte),
+    year: tradeDate?.slice(0, 4),
+    month: tradeDate?.slice(4, 6),
+    dataset: values.dataset,
+  }
+
+  return template.replace(PLACEHOLDER_PATTERN, (token, name: PathPlaceholder) => {
+    const value = rendered[name]
+    if (value === undefined) {
+      throw new Error(`No value for ${token} in path template ${template}`)
+    }
+    return value
+  })
+}
@@ -0,0 +1,80 @@
+import type { StrikeFilter } from '../services/BulkGreeksProcessor'
+import { type OptionsRecord, STRIKE_SCALE } from '../services/ThetaDataApiClient'
+import { normCdf } from './normalDistribution'
+
+// Flat volatility the dry run assumes when estimating deltas
+const ESTIMATE_VOLATILITY = 0.2
+const TRADING_DAYS_PER_YEAR = 252
+
+/**
+ * Whether a filter has any bound set
+ */
+export const isStrikeFilterActive = (filter?: StrikeFilter): filter is StrikeFilter =>
+  filter !== undefined && Object.values(filter).some((bound) => bound !== undefined)
+
+const withinBounds = (value: number, min?: number, max?: number) =>
+  (min === undefined || value >= min) && (max === undefined || value <= max)
+
+/**
+ * Predicate keeping the rows a filter lets through
+ * Rows without Greeks are only checked against the strike bounds
+ */
+export const strikeFilterPredicate =
+  (filter: StrikeFilter) =>
+  (row: OptionsRecord): boolean => {
+    const strike = row.strike / STRIKE_SCALE
+    if (!withinBounds(strike, filter.minStrike, filter.maxStrike)) {
+      return false
+    }
+    if (!('delta' in row)) {
+      return true
+    }
+    // A missing underlying price cannot be in any band
+    if (
+      filter.moneyness !== undefined &&
+      !(Math.abs(strike / row.underlyingPrice - 1) <= filter.moneyness)
+    ) {
+      return false
+    }
+    return withinBounds(Math.abs(row.delta), filter.minDelta, filter.maxDelta)
+  }
+
+/**
+ * Count the contracts of an expiration a filter would keep, for dry-run estimates
+ * Without an underlying price only the strike bounds are applied; deltas come from
+ * Black-Scholes at a flat 20% volatility, so the count is an estimate
+ * @param strikes Listed strikes, in thousandths of a dollar
+ * @param market Underlying price and trading days to expiration, when known
+ */
+export const estimateStrikeFilter = (
+  filter: StrikeFilter,
+  strikes: ReadonlyArray<number>,
+  market?: { readonly underlyingPrice: number; readonly tradingDays: number },
+): { readonly kept: number; readonly total: number } => {
+  // Expiration day still has its remaining session to run
+  const years = Math.max(market?.tradingDays ?? 0, 0.5) / TRADING_DAYS_PER_YEAR
+  let kept = 0
+  for (const listed of strikes) {
+    const strike = listed / STRIKE_SCALE
+    if (!withinBounds(strike, filter.minStrike, filter.maxStrike)) continue
+    if (!market) {
+      kept += 2
+      continue
+    }
+    if (
+      filter.moneyness !== undefined &&
+      Math.abs(strike / market.underlyingPrice - 1) > filter.moneyness
+    ) {
+      continue
+    }
+    const d1 =
+      (Math.log(market.underlyingPrice / strike) +
+        ((ESTIMATE_VOLATILITY * ESTIMATE_VOLATILITY) / 2) * years) /
+      (ESTIMATE_VOLATILITY * Math.sqrt(years))
+    const callDelta = normCdf(d1)
+    for (const delta of [callDelta, 1 - callDelta]) {
+      if (withinBounds(delta, filter.minDelta, filter.maxDelta)) kept++
+    }
+  }
+  return { kept, total: strikes.length * 2 }
+}
@@ -1,13 +1,19 @@
-import { describe, expect, it } from 'bun:test'
-import { ConfigProvider, Effect, Layer, Stream } from 'effect'
+import { afterEach, beforeEach, describe, expect, it, spyOn } from 'bun:test'
+import * as crypto from 'node:crypto'
+import * as path from 'node:path'
+import { ConfigProvider, Effect, Layer, Option, Stream } from 'effect'
 import { download } from '@/cli/commands/download'
+import { DownloadCheckpointTest } from '@/layers/DownloadCheckpointTest'
+import { JsonDownloadCheckpointLive } from '@/layers/JsonDownloadCheckpoint'
+import { TradingCalendarLive } from '@/layers/TradingCalendarLive'
 import {
+  type BulkGreeksParams,
   BulkGreeksProcessor,
   BulkProcessingError,
-  ExpirationFilterError,
   type ExpirationResult,
 } from '@/services/BulkGreeksProcessor'
 import { DataPipeline, DataPipelineError, type PipelineProgress } from '@/services/DataPipeline'
+import { DownloadCheckpoint } from '@/services/DownloadCheckpoint'
 import {
   ThetaDataApiClient,
   ThetaDataApiError,
@@ -28,17 +34,23 @@ const mockApiClient = ThetaDataApiClient.of({
       { date: '2024-01-19', daysToExpiration: 4 },
       { date: '2024-01-22', daysToExpiration: 7 },
     ]),
+  listStrikes: () => Effect.succeed([]),
   getBulkOptionsGreeks: () =>
     Effect.fail(new ThetaDataApiError({ message: 'Not implemented in test' })),
+  getBulkOptionsQuotes: () => Effect.succeed([]),
+  getBulkOptionsTrades: () => Effect.succeed([]),
+  getBulkOptionsOhlc: () => Effect.succeed([]),
+  getBulkOptionsOpenInterest: () => Effect.succeed([]),
+  getBulkOptionsEod: () => Effect.succeed([]),
+  getIndexOhlc: () => Effect.succeed([]),
+  streamBulkOptionsGreeks: () =>
+    Stream.fail(new ThetaDataApiError({ message: 'Not implemented in test' })),
 })
 
 const mockProcessor = BulkGreeksProcessor.of({
   processBulkGreeks: () =>
     Effect.fail(new BulkProcessingError({ message: 'Not implemented in test' })),
-  filterExpirations: () =>
-    Effect.fail(
-      new ExpirationFilterError({ message: 'Not implemented in test', tradeDate: '20240115' }),
-    ),
+  filterExpirations: (expirations) => Effect.succeed(expirations),
   getProgress: () => Effect.succeed(undefined),
   streamBulkGreeks: () => {
     // Create mock expiration results
@@ -96,11 +108,41 @@ const mockConfig = Layer.setConfigProvider(
   ),
 )
 
+// Option values as the CLI parser supplies them when no flags are given
+const defaultOptions = {
+  root: [] as string[],
+  dataset: 'greeks',
+  dryRun: false,
+  dte: 0,
+  interval: 60000,
+  stream: false,
+  format: 'csv',
+  parquetCodec: 'snappy',
+  compression: 'none',
+  fields: Option.none(),
+  startDate: Option.none(),
+  endDate: Option.none(),
+  daysBack: Option.none(),
+  force: false,
+  fillGaps: false,
+  minStrike: Option.none(),
+  maxStrike: Option.none(),
+  moneyness: Option.none(),
+  minDelta: Option.none(),
+  maxDelta: Option.none(),
+  startTime: Option.none(),
+  endTime: Option.none(),
+  window: Option.none(),
+  extendedHours: false,
+} as const
+
 // Test layers
 const TestLive = Layer.mergeAll(
   Layer.succeed(ThetaDataApiClient, mockApiClient),
   Layer.succeed(BulkGreeksProcessor, mockProcessor),
   Layer.succeed(DataPipeline, mockPipeline),
+  TradingCalendarLive,
+  DownloadCheckpointTest,
   mockConfig,
 )
 
@@ -108,14 +150,18 @@ describe('Download Command', () => {
   describe('Date Validation', () => {
     it('should accept valid date format YYYY-MM-DD', async () => {
       const result = await Effect.runPromise(
-        download.handler({ date: '2024-01-15', dryRun: true }).pipe(Effect.provide(TestLive)),
+        download
+          .handler({ ...defaultOptions, date: Option.some('2024-01-16'), dryRun: true })
+          .pipe(Effect.provide(TestLive)),
       )
       expect(result).toBeUndefined()
     })
 
     it('should reject invalid date format', async () => {
       const result = await Effect.runPromiseExit(
-        download.handler({ date: '01/15/2024', dryRun: true }).pipe(Effect.provide(TestLive)),
+        download
+          .handler({ ...defaultOptions, date: Option.some('01/15/2024'), dryRun: true })
+          .pipe(Effect.provide(TestLive)),
       )
       expect(result._tag).toBe('Failure')
       if (result._tag === 'Failure') {
@@ -126,14 +172,18 @@ describe('Download Command', () => {
 
     it('should reject invalid date string', async () => {
       const result = await Effect.runPromiseExit(
-        download.handler({ date: 'not-a-date', dryRun: true }).pipe(Effect.provide(TestLive)),
+        download
+          .handler({ ...defaultOptions, date: Option.some('not-a-date'), dryRun: true })
+          .pipe(Effect.provide(TestLive)),
       )
       expect(result._tag).toBe('Failure')
     })
 
     it('should handle dates with leading zeros', async () => {
       const result = await Effect.runPromise(
-        download.handler({ date: '2024-01-05', dryRun: true }).pipe(Effect.provide(TestLive)),
+        download
+          .handler({ ...defaultOptions, date: Option.some('2024-01-05'), dryRun: true })
+          .pipe(Effect.provide(TestLive)),
       )
       expect(result).toBeUndefined()
     })
@@ -142,7 +192,9 @@ describe('Download Command', () => {
   describe('Dry Run Mode', () => {
     it('should preview download without fetching data when dry-run is true', async () => {
       const result = await Effect.runPromise(
-        download.handler({ date: '2024-01-15', dryRun: true }).pipe(Effect.provide(TestLive)),
+        download
+          .handler({ ...defaultOptions, date: Option.some('2024-01-16'), dryRun: true })
+          .pipe(Effect.provide(TestLive)),
       )
 
       expect(result).toBeUndefined()
@@ -150,35 +202,212 @@ describe('Download Command', () => {
 
     it('should list expirations without downloading in dry-run mode', async () => {
       const result = await Effect.runPromise(
-        download.handler({ date: '2024-01-15', dryRun: true }).pipe(Effect.provide(TestLive)),
+        download
+          .handler({ ...defaultOptions, date: Option.some('2024-01-16'), dryRun: true })
+          .pipe(Effect.provide(TestLive)),
       )
       expect(result).toBeUndefined()
     })
 
     it('should show directory structure in dry-run mode', async () => {
       const result = await Effect.runPromise(
-        download.handler({ date: '2024-01-15', dryRun: true }).pipe(Effect.provide(TestLive)),
+        download
+          .handler({ ...defaultOptions, date: Option.some('2024-01-16'), dryRun: true })
+          .pipe(Effect.provide(TestLive)),
+      )
+      expect(result).toBeUndefined()
+    })
+    it('should preview parquet output when --format parquet is given', async () => {
+      const result = await Effect.runPromise(
+        download
+          .handler({
+            ...defaultOptions,
+            date: Option.some('2024-01-16'),
+            dryRun: true,
+            format: 'parquet',
+          })
+          .pipe(Effect.provide(TestLive)),
       )
       expect(result).toBeUndefined()
     })
+
+    it('should only accept --fields naming the dataset columns of JSON Lines output', async () => {
+      const run = (options: Partial<Parameters<typeof download.handler>[0]>) =>
+        Effect.runPromiseExit(
+          download
+            .handler({
+              ...defaultOptions,
+              date: Option.some('2024-01-16'),
+              dryRun: true,
+              ...options,
+            })
+            .pipe(Effect.provide(TestLive)),
+        )
+
+      const selected = await run({
+        format: 'jsonl',
+        fields: Option.some('timestamp, contract,delta'),
+      })
+      const csv = await run({ fields: Option.some('delta') })
+      const unknown = await run({ format: 'jsonl', fields: Option.some('delta,gamma') })
+
+      expect(selected._tag).toBe('Success')
+      expect(csv._tag).toBe('Failure')
+      expect(String(csv._tag === 'Failure' && csv.cause)).toContain('--format jsonl only')
+      expect(unknown._tag).toBe('Failure')
+      expect(String(unknown._tag === 'Failure' && unknown.cause)).toContain(
+        'Unknown --fields: gamma',
+      )
+    })
   })
 
   describe('Progress Tracking', () => {
     it('should track total and processed expirations', async () => {
       const result = await Effect.runPromise(
-        download.handler({ date: '2024-01-15', dryRun: false }).pipe(Effect.provide(TestLive)),
+        download
+          .handler({ ...defaultOptions, date: Option.some('2024-01-16'), dryRun: false })
+          .pipe(Effect.provide(TestLive)),
       )
       expect(result).toBeUndefined()
     })
 
     it('should calculate and display throughput', async () => {
       const result = await Effect.runPromise(
-        download.handler({ date: '2024-01-15', dryRun: false }).pipe(Effect.provide(TestLive)),
+        download
+          .handler({ ...defaultOptions, date: Option.some('2024-01-16'), dryRun: false })
+          .pipe(Effect.provide(TestLive)),
       )
       expect(result).toBeUndefined()
     })
   })
 
+  describe('Date Ranges', () => {
+    it('should preview every weekday between --start-date and --end-date', async () => {
+      const result = await Effect.runPromise(
+        download
+          .handler({
+            ...defaultOptions,
+            date: Option.none(),
+            dryRun: true,
+            startDate: Option.some('2024-01-15'),
+            endDate: Option.some('2024-01-21'),
+          })
+          .pipe(Effect.provide(TestLive)),
+      )
+      expect(result).toBeUndefined()
+    })
+
+    it('should require --start-date and --end-date together', async () => {
+      const result = await Effect.runPromiseExit(
+        download
+          .handler({
+            ...defaultOptions,
+            date: Option.none(),
+            startDate: Option.some('2024-01-15'),
+          })
+          .pipe(Effect.provide(TestLive)),
+      )
+      expect(result._tag).toBe('Failure')
+    })
+
+    it('should reject combining a range with --days-back', async () => {
+      const result = await Effect.runPromiseExit(
+        download
+          .handler({
+            ...defaultOptions,
+            date: Option.none(),
+            startDate: Option.some('2024-01-15'),
+            endDate: Option.some('2024-01-19'),
+            daysBack: Option.some(5),
+          })
+          .pipe(Effect.provide(TestLive)),
+      )
+      expect(result._tag).toBe('Failure')
+    })
+
+    it('should reject a date-less invocation', async () => {
+      const result = await Effect.runPromiseExit(
+        download.handler({ ...defaultOptions, date: Option.none() }).pipe(Effect.provide(TestLive)),
+      )
+      expect(result._tag).toBe('Failure')
+    })
+
+    it('should skip market holidays without contacting the terminal', async () => {
+      let listCalls = 0
+      const countingApiClient = ThetaDataApiClient.of({
+        ...mockApiClient,
+        listExpirations: () => {
+          listCalls++
+          return mockApiClient.listExpirations('SPXW')
+        },
+      })
+
+      const CountingLive = Layer.mergeAll(
+        Layer.succeed(ThetaDataApiClient, countingApiClient),
+        Layer.succeed(BulkGreeksProcessor, mockProcessor),
+        Layer.succeed(DataPipeline, mockPipeline),
+        TradingCalendarLive,
+        DownloadCheckpointTest,
+        mockConfig,
+      )
+
+      // 2024-03-29 is Good Friday
+      const result = await Effect.runPromise(
+        download
+          .handler({ ...defaultOptions, date: Option.some('2024-03-29') })
+          .pipe(Effect.provide(CountingLive)),
+      )
+      expect(result).toBeUndefined()
+      expect(listCalls).toBe(0)
+
+      // 2024-03-25..2024-04-01 has five trading days once Good Friday is excluded
+      await Effect.runPromise(
+        download
+          .handler({
+            ...defaultOptions,
+            date: Option.none(),
+            dryRun: true,
+            startDate: Option.some('2024-03-25'),
+            endDate: Option.some('2024-04-01'),
+          })
+          .pipe(Effect.provide(CountingLive)),
+      )
+      expect(listCalls).toBe(5)
+    })
+
+    it('should continue with remaining days when one day fails', async () => {
+      let processCalls = 0
+      const flakyPipeline = DataPipeline.of({
+        process: () => {
+          processCalls++
+          return processCalls === 2
+            ? Effect.fail(new DataPipelineError({ message: 'Disk full' }))
+            : Effect.succeed(undefined)
+        },
+        getProgress: () => Effect.succeed(undefined),
+      })
+
+      const FlakyLive = Layer.mergeAll(
+        Layer.succeed(ThetaDataApiClient, mockApiClient),
+        Layer.succeed(BulkGreeksProcessor, mockProcessor),
+        Layer.succeed(DataPipeline, flakyPipeline),
+        TradingCalendarLive,
+        DownloadCheckpointTest,
+        mockConfig,
+      )
+
+      const result = await Effect.runPromiseExit(
+        download
+          .handler({ ...defaultOptions, date: Option.some('2024-01-19'), daysBack: Option.some(3) })
+          .pipe(Effect.provide(FlakyLive)),
+      )
+
+      // All three days are attempted, and the run reports the failed day at the end
+      expect(processCalls).toBe(3)
+      expect(result._tag).toBe('Failure')
+    })
+  })
+
   describe('Error Handling', () => {
     it('should handle terminal not running error gracefully', async () => {
       const errorApiClient = ThetaDataApiClient.of({
@@ -195,11 +424,15 @@ describe('Download Command', () => {
         Layer.succeed(ThetaDataApiClient, errorApiClient),
         Layer.succeed(BulkGreeksProcessor, mockProcessor),
         Layer.succeed(DataPipeline, mockPipeline),
+        TradingCalendarLive,
+        DownloadCheckpointTest,
         mockConfig,
       )
 
       const result = await Effect.runPromiseExit(
-        download.handler({ date: '2024-01-15', dryRun: false }).pipe(Effect.provide(ErrorLive)),
+        download
+          .handler({ ...defaultOptions, date: Option.some('2024-01-16'), dryRun: false })
+          .pipe(Effect.provide(ErrorLive)),
       )
 
       expect(result._tag).toBe('Failure')
@@ -220,11 +453,15 @@ describe('Download Command', () => {
         Layer.succeed(ThetaDataApiClient, mockApiClient),
         Layer.succeed(BulkGreeksProcessor, mockProcessor),
         Layer.succeed(DataPipeline, errorPipeline),
+        TradingCalendarLive,
+        DownloadCheckpointTest,
         mockConfig,
       )
 
       const result = await Effect.runPromiseExit(
-        download.handler({ date: '2024-01-15', dryRun: false }).pipe(Effect.provide(ErrorLive)),
+        download
+          .handler({ ...defaultOptions, date: Option.some('2024-01-16'), dryRun: false })
+          .pipe(Effect.provide(ErrorLive)),
       )
 
       expect(result._tag).toBe('Failure')
@@ -234,14 +471,18 @@ describe('Download Command', () => {
   describe('Output Structure', () => {
     it('should create correct directory structure ./data/YYYYMMDD/', async () => {
       const result = await Effect.runPromise(
-        download.handler({ date: '2024-01-15', dryRun: false }).pipe(Effect.provide(TestLive)),
+        download
+          .handler({ ...defaultOptions, date: Option.some('2024-01-16'), dryRun: false })
+          .pipe(Effect.provide(TestLive)),
       )
       expect(result).toBeUndefined()
     })
 
     it('should name files correctly as spxw_exp_YYYYMMDD.csv', async () => {
       const result = await Effect.runPromise(
-        download.handler({ date: '2024-01-15', dryRun: false }).pipe(Effect.provide(TestLive)),
+        download
+          .handler({ ...defaultOptions, date: Option.some('2024-01-16'), dryRun: false })
+          .pipe(Effect.provide(TestLive)),
       )
       expect(result).toBeUndefined()
     })
@@ -250,14 +491,18 @@ describe('Download Command', () => {
   describe('Summary Statistics', () => {
     it('should display total records processed', async () => {
       const result = await Effect.runPromise(
-        download.handler({ date: '2024-01-15', dryRun: false }).pipe(Effect.provide(TestLive)),
+        download
+          .handler({ ...defaultOptions, date: Option.some('2024-01-16'), dryRun: false })
+          .pipe(Effect.provide(TestLive)),
       )
       expect(result).toBeUndefined()
     })
 
     it('should display processing time and throughput', async () => {
       const result = await Effect.runPromise(
-        download.handler({ date: '2024-01-15', dryRun: false }).pipe(Effect.provide(TestLive)),
+        download
+          .handler({ ...defaultOptions, date: Option.some('2024-01-16'), dryRun: false })
+          .pipe(Effect.provide(TestLive)),
       )
       expect(result).toBeUndefined()
     })
@@ -282,13 +527,362 @@ describe('Download Command', () => {
         Layer.succeed(ThetaDataApiClient, mockApiClient),
         Layer.succeed(BulkGreeksProcessor, mockProcessor),
         Layer.succeed(DataPipeline, failurePipeline),
+        TradingCalendarLive,
+        DownloadCheckpointTest,
         mockConfig,
       )
 
       const result = await Effect.runPromise(
-        download.handler({ date: '2024-01-15', dryRun: false }).pipe(Effect.provide(FailureLive)),
+        download
+          .handler({ ...defaultOptions, date: Option.some('2024-01-16'), dryRun: false })
+          .pipe(Effect.provide(FailureLive)),
       )
       expect(result).toBeUndefined()
     })
   })
+
+  describe('Existing Data', () => {
+    const dataDirectory = `/tmp/spx-download-existing-${Date.now()}-${Math.random().toString(36).slice(2)}`
+    const outputDir = path.join(dataDirectory, '20240116')
+
+    let listCalls = 0
+    let streamedParams: BulkGreeksParams[] = []
+    let output: string[] = []
+    let logSpy: ReturnType<typeof spyOn>
+
+    const recordingApiClient = ThetaDataApiClient.of({
+      ...mockApiClient,
+      listExpirations: () => {
+        listCalls++
+        return mockApiClient.listExpirations('SPXW')
+      },
+      // Strikes 4700-4900 every 10 points, in the terminal's thousandths
+      listStrikes: () =>
+        Effect.succeed(Array.from({ length: 21 }, (_, i) => (4700 + i * 10) * 1000)),
+      getIndexOhlc: () =>
+        Effect.succeed([{ open: 4800, high: 4801, low: 4799, close: 4800, timestamp: new Date() }]),
+    })
+
+    const recordingProcessor = BulkGreeksProcessor.of({
+      ...mockProcessor,
+      streamBulkGreeks: (params) => {
+        streamedParams.push(params)
+        return Stream.empty
+      },
+    })
+
+    const existingLive = (env: ReadonlyArray<[string, string]> = []) =>
+      Layer.mergeAll(
+        Layer.succeed(ThetaDataApiClient, recordingApiClient),
+        Layer.succeed(BulkGreeksProcessor, recordingProcessor),
+        Layer.succeed(DataPipeline, mockPipeline),
+        TradingCalendarLive,
+        JsonDownloadCheckpointLive,
+        Layer.setConfigProvider(
+          ConfigProvider.fromMap(
+            new Map([['CONFIG_STORAGE_DATA_DIRECTORY', dataDirectory], ...env]),
+          ),
+        ),
+      )
+
+    const runDownload = (options: Partial<Parameters<typeof download.handler>[0]>) =>
+      Effect.runPromiseExit(
+        download
+          .handler({ ...defaultOptions, date: Option.some('2024-01-16'), ...options })
+          .pipe(Effect.provide(existingLive())),
+      )
+
+    const withCheckpoint = (
+      effect: Effect.Effect<void, unknown, DownloadCheckpoint>,
+    ): Promise<void> => Effect.runPromise(effect.pipe(Effect.provide(JsonDownloadCheckpointLive)))
+
+    beforeEach(async () => {
+      listCalls = 0
+      streamedParams = []
+      output = []
+      logSpy = spyOn(console, 'log').mockImplementation((...args: unknown[]) => {
+        output.push(args.join(' '))
+      })
+      await Bun.write(path.join(outputDir, 'spxw_exp_20240117.csv'), 'strike\n4800\n')
+    })
+
+    afterEach(async () => {
+      logSpy.mockRestore()
+      await Bun.$`rm -rf ${dataDirectory}`.quiet()
+    })
+
+    it('should skip expirations whose final file already exists', async () => {
+      await Bun.write(path.join(outputDir, 'spxw_exp_20240119.csv.tmp'), 'strike\n')
+
+      await runDownload({})
+
+      expect(streamedParams).toHaveLength(1)
+      expect(streamedParams[0].expirations).toEqual(['20240119', '20240122'])
+    })
+
+    it('should re-fetch every expiration with --force', async () => {
+      await runDownload({ force: true })
+
+      expect(streamedParams[0].expirations).toEqual(['20240117', '20240119', '20240122'])
+    })
+
+    it('should re-fetch an existing file that status.json does not mark complete', async () => {
+      await withCheckpoint(
+        Effect.gen(function* (_) {
+          const checkpoint = yield* _(DownloadCheckpoint)
+          yield* _(checkpoint.markInProgress(outputDir, 'SPXW', '20240117'))
+        }),
+      )
+
+      await runDownload({})
+
+      expect(streamedParams[0].expirations).toEqual(['20240117', '20240119', '20240122'])
+    })
+
+    it('should not fetch anything when every expiration is complete', async () => {
+      await Bun.write(path.join(outputDir, 'spxw_exp_20240119.csv'), 'strike\n4800\n')
+      await Bun.write(path.join(outputDir, 'spxw_exp_20240122.csv'), 'strike\n4800\n')
+
+      const result = await runDownload({})
+
+      expect(result._tag).toBe('Success')
+      expect(streamedParams).toHaveLength(0)
+    })
+
+    it('should look for existing files where the path template puts them', async () => {
+      const template = 'root={root}/date={tradeDate}/{dataset}/dte={dte}/{expiration}'
+      await Bun.write(
+        path.join(dataDirectory, 'root=spxw/date=20240116/greeks/dte=3/20240119.csv'),
+        'strike\n4800\n',
+      )
+
+      await Effect.runPromiseExit(
+        download
+          .handler({ ...defaultOptions, date: Option.some('2024-01-16') })
+          .pipe(Effect.provide(existingLive([['CONFIG_STORAGE_PATH_TEMPLATE', template]]))),
+      )
+
+      // The file in the trade-date directory is not where this layout writes 20240117
+      expect(streamedParams[0].expirations).toEqual(['20240117', '20240122'])
+    })
+
+    it('should list skipped and fetched expirations in dry-run mode', async () => {
+      await runDownload({ dryRun: true })
+
+      const text = output.join('\n')
+      expect(text).toContain('Expirations to download: 2')
+      expect(text).toContain('Expirations already complete (skipped): 1')
+      expect(text).toContain('spxw_exp_20240117.csv [skip (complete)]')
+      expect(text).toContain('spxw_exp_20240119.csv [fetch]')
+      expect(streamedParams).toHaveLength(0)
+    })
+
+    it('should re-fetch a complete file whose checksum no longer matches status.json', async () => {
+      const checksum = (text: string) => crypto.createHash('sha256').update(text).digest('hex')
+      await Bun.write(path.join(outputDir, 'spxw_exp_20240119.csv'), 'strike\n4800\n')
+      await withCheckpoint(
+        Effect.gen(function* (_) {
+          const checkpoint = yield* _(DownloadCheckpoint)
+          yield* _(
+            checkpoint.markComplete(outputDir, 'SPXW', '20240117', {
+              recordCount: 1,
+              checksum: checksum('strike\n4800\n'),
+            }),
+          )
+          yield* _(
+            checkpoint.markComplete(outputDir, 'SPXW', '20240119', {
+              recordCount: 2,
+              checksum: checksum('strike\n4800\n4810\n'),
+            }),
+          )
+        }),
+      )
+
+      await runDownload({})
+
+      expect(streamedParams[0].expirations).toEqual(['20240119', '20240122'])
+    })
+
+    it('should skip trade dates whose requested expirations are all complete with --fill-gaps', async () => {
+      await Bun.write(path.join(outputDir, 'spxw_exp_20240119.csv'), 'strike\n4800\n')
+      await Bun.write(path.join(outputDir, 'spxw_exp_20240122.csv'), 'strike\n4800\n')
+
+      await runDownload({
+        date: Option.none(),
+        fillGaps: true,
+        startDate: Option.some('2024-01-16'),
+        endDate: Option.some('2024-01-17'),
+      })
+
+      expect(streamedParams.map((p) => p.tradeDate)).toEqual(['20240117'])
+      expect(output.join('\n')).toContain('Skipped 2024-01-16: already complete')
+      expect(output.join('\n')).toContain('Skipped (already complete): 1')
+    })
+
+    it('should fetch what status.json does not list with --fill-gaps', async () => {
+      await withCheckpoint(
+        Effect.gen(function* (_) {
+          const checkpoint = yield* _(DownloadCheckpoint)
+          yield* _(checkpoint.markComplete(outputDir, 'SPXW', '20240117', { recordCount: 1 }))
+        }),
+      )
+
+      await runDownload({
+        date: Option.none(),
+        root: ['spx', 'SPXW'],
+        fillGaps: true,
+        startDate: Option.some('2024-01-16'),
+        endDate: Option.some('2024-01-16'),
+      })
+
+      // Another root and the rest of the DTE range are still missing on 2024-01-16
+      expect(streamedParams.map((p) => [p.root, p.expirations])).toEqual([
+        ['SPX', ['20240117', '20240119', '20240122']],
+        ['SPXW', ['20240119', '20240122']],
+      ])
+    })
+
+    it('should download each --root separately with its own files', async () => {
+      await runDownload({ root: ['spx', 'SPXW'] })
+
+      // No spx_exp_* files exist yet, so every SPX expiration is fetched
+      expect(streamedParams.map((p) => [p.root, p.expirations])).toEqual([
+        ['SPX', ['20240117', '20240119', '20240122']],
+        ['SPXW', ['20240119', '20240122']],
+      ])
+    })
+
+    it('should keep each --dataset in its own subdirectory', async () => {
+      await Bun.write(path.join(outputDir, 'quote', 'spxw_exp_20240119.csv'), 'strike\n4800\n')
+
+      await runDownload({ dataset: 'quote', dryRun: true })
+      await runDownload({ dataset: 'quote' })
+
+      // The Greeks file for 20240117 does not count as a downloaded quote file
+      expect(output.join('\n')).toContain(`Output directory: ${path.join(outputDir, 'quote')}`)
+      expect(streamedParams.map((p) => [p.dataset, p.expirations])).toEqual([
+        ['quote', ['20240117', '20240122']],
+      ])
+    })
+
+    it('should record its settings in status.json for a resume', async () => {
+      await runDownload({
+        interval: 3600000,
+        format: 'jsonl',
+        compression: 'gzip',
+        fields: Option.some('contract,delta'),
+        minStrike: Option.some(4700),
+        window: Option.some('close'),
+      })
+
+      const status = await Effect.runPromise(
+        Effect.flatMap(DownloadCheckpoint, (checkpoint) => checkpoint.load(outputDir)).pipe(
+          Effect.provide(JsonDownloadCheckpointLive),
+        ),
+      )
+      expect(Option.getOrThrow(status).settings).toEqual({
+        dataset: 'greeks',
+        interval: 3600000,
+        format: 'jsonl',
+        compression: 'gzip',
+        parquetCodec: 'snappy',
+        fields: 'contract,delta',
+        strikeFilter: { minStrike: 4700 },
+        // The last 15 minutes of the 2024-01-16 session, in ms of day
+        timeWindow: { startTime: 56_700_000, endTime: 57_600_000 },
+      })
+    })
+
+    it('should reject tick-level OHLC bars', async () => {
+      const result = await runDownload({ dataset: 'ohlc', interval: 0 })
+
+      expect(result._tag).toBe('Failure')
+      expect(listCalls).toBe(0)
+    })
+
+    it('should pass strike, moneyness and delta bounds to the processor', async () => {
+      await runDownload({
+        minStrike: Option.some(4700),
+        moneyness: Option.some(5),
+        minDelta: Option.some(0.05),
+        maxDelta: Option.some(0.95),
+      })
+
+      expect(streamedParams[0].strikeFilter).toEqual({
+        minStrike: 4700,
+        maxStrike: undefined,
+        moneyness: 0.05,
+        minDelta: 0.05,
+        maxDelta: 0.95,
+      })
+    })
+
+    it('should estimate the contracts a filter keeps in dry-run mode', async () => {
+      await runDownload({ dryRun: true, moneyness: Option.some(1) })
+
+      // ±1% of 4800 keeps 4760-4840: 9 of 21 strikes, calls and puts, for 2 expirations
+      const printed = output.join('\n')
+      expect(printed).toContain('Strike filter: ±1% of underlying')
+      expect(printed).toContain('Estimated contracts kept: 36 of 84 (~57% fewer rows)')
+      expect(printed).toContain('~18/42 contracts')
+      expect(streamedParams).toHaveLength(0)
+    })
+
+    it('should reject inverted or Greeks-only bounds for other datasets', async () => {
+      const inverted = await runDownload({
+        minStrike: Option.some(5000),
+        maxStrike: Option.some(4900),
+      })
+      const quotes = await runDownload({ dataset: 'quote', minDelta: Option.some(0.1) })
+
+      expect(inverted._tag).toBe('Failure')
+      expect(quotes._tag).toBe('Failure')
+      expect(listCalls).toBe(0)
+    })
+
+    it('should place a --window preset in the session of an early-close day', async () => {
+      // 2023-11-24, the day after Thanksgiving, closes at 13:00 ET
+      await runDownload({ date: Option.some('2023-11-24'), window: Option.some('close') })
+      await runDownload({
+        startTime: Option.some('09:30'),
+        endTime: Option.some('10:30'),
+        extendedHours: true,
+      })
+
+      expect(streamedParams.map((p) => p.timeWindow)).toEqual([
+        { startTime: (12 * 60 + 45) * 60_000, endTime: 13 * 60 * 60_000 },
+        {
+          startTime: (9 * 60 + 30) * 60_000,
+          endTime: (10 * 60 + 30) * 60_000,
+          extendedHours: true,
+        },
+      ])
+      expect(output.join('\n')).toContain('Time Window: 12:45-13:00 ET')
+    })
+
+    it('should reject a malformed or conflicting time window', async () => {
+      const results = await Promise.all([
+        runDownload({ startTime: Option.some('9.30') }),
+        runDownload({ startTime: Option.some('11:00'), endTime: Option.some('10:00') }),
+        runDownload({ window: Option.some('open'), startTime: Option.some('09:30') }),
+      ])
+
+      expect(results.map((r) => r._tag)).toEqual(['Failure', 'Failure', 'Failure'])
+      expect(listCalls).toBe(0)
+    })
+
+    it('should reject an invalid root symbol', async () => {
+      const result = await runDownload({ root: ['SPX W'] })
+
+      expect(result._tag).toBe('Failure')
+      expect(listCalls).toBe(0)
+    })
+
+    it('should require a date range for --fill-gaps', async () => {
+      const result = await runDownload({ fillGaps: true })
+
+      expect(result._tag).toBe('Failure')
+      expect(listCalls).toBe(0)
+    })
+  })
 })
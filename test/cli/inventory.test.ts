@@ -0,0 +1,90 @@
+import { afterEach, beforeEach, describe, expect, it, spyOn } from 'bun:test'
+import * as path from 'node:path'
+import { ConfigProvider, Effect, Layer, Option } from 'effect'
+import { inventory } from '@/cli/commands/inventory'
+import { InventoryServiceLive } from '@/layers/InventoryServiceLive'
+import { JsonDownloadCheckpointLive } from '@/layers/JsonDownloadCheckpoint'
+import { TradingCalendarLive } from '@/layers/TradingCalendarLive'
+import { DownloadCheckpoint } from '@/services/DownloadCheckpoint'
+
+describe('Inventory Command', () => {
+  const dataDirectory = `/tmp/spx-inventory-cli-test-${Date.now()}-${Math.random().toString(36).slice(2)}`
+
+  const TestLive = Layer.mergeAll(
+    InventoryServiceLive,
+    JsonDownloadCheckpointLive,
+    TradingCalendarLive,
+  ).pipe(
+    Layer.provide(
+      Layer.setConfigProvider(
+        ConfigProvider.fromMap(new Map([['CONFIG_STORAGE_DATA_DIRECTORY', dataDirectory]])),
+      ),
+    ),
+  )
+
+  let output: string[] = []
+  let logSpy: ReturnType<typeof spyOn>
+
+  beforeEach(async () => {
+    output = []
+    logSpy = spyOn(console, 'log').mockImplementation((...args: unknown[]) => {
+      output.push(args.join(' '))
+    })
+
+    // 2024-01-16 and 2024-01-18 downloaded; 2024-01-17 is missing
+    for (const tradeDate of ['20240116', '20240118']) {
+      await Bun.write(
+        path.join(dataDirectory, tradeDate, `spxw_exp_${tradeDate}.csv`),
+        `strike,right,timestamp\n4800,C,${tradeDate.slice(0, 4)}-${tradeDate.slice(4, 6)}-${tradeDate.slice(6)}T14:30:00.000Z\n`,
+      )
+    }
+  })
+
+  afterEach(async () => {
+    logSpy.mockRestore()
+    await Bun.$`rm -rf ${dataDirectory}`.quiet()
+  })
+
+  it('should report missing trading days and incomplete expirations', async () => {
+    await Effect.runPromise(
+      Effect.gen(function* (_) {
+        const checkpoint = yield* _(DownloadCheckpoint)
+        yield* _(
+          checkpoint.markFailed(
+            path.join(dataDirectory, '20240118'),
+            'SPXW',
+            '20240119',
+            'Timeout',
+          ),
+        )
+      }).pipe(Effect.provide(JsonDownloadCheckpointLive)),
+    )
+
+    await Effect.runPromise(
+      inventory
+        .handler({ startDate: Option.none(), endDate: Option.none(), refresh: false })
+        .pipe(Effect.provide(TestLive)),
+    )
+
+    const text = output.join('\n')
+    expect(text).toContain('Trade dates: 2, expirations: 2, rows: 2')
+    expect(text).toContain('Missing trading days (1):')
+    expect(text).toContain('2024-01-17')
+    expect(text).toContain('2024-01-18 SPXW exp 20240119 (failed)')
+  })
+
+  it('should report weekends and holidays in an explicit range as no gap', async () => {
+    await Effect.runPromise(
+      inventory
+        .handler({
+          startDate: Option.some('2024-01-13'),
+          endDate: Option.some('2024-01-16'),
+          refresh: true,
+        })
+        .pipe(Effect.provide(TestLive)),
+    )
+
+    // 2024-01-13/14 are a weekend and 2024-01-15 is MLK Day
+    expect(output.join('\n')).toContain('Gaps:\n  None')
+  })
+})
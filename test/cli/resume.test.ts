@@ -0,0 +1,221 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test'
+import * as path from 'node:path'
+import { ConfigProvider, Effect, Layer, Stream } from 'effect'
+import { recordedSettings, resume } from '@/cli/commands/resume'
+import { JsonDownloadCheckpointLive } from '@/layers/JsonDownloadCheckpoint'
+import { TradingCalendarLive } from '@/layers/TradingCalendarLive'
+import {
+  type BulkGreeksParams,
+  BulkGreeksProcessor,
+  BulkProcessingError,
+} from '@/services/BulkGreeksProcessor'
+import { DataPipeline, type PipelineConfig } from '@/services/DataPipeline'
+import { DownloadCheckpoint } from '@/services/DownloadCheckpoint'
+
+describe('Resume Command', () => {
+  const dataDirectory = `/tmp/spx-resume-test-${Date.now()}-${Math.random().toString(36).slice(2)}`
+  const outputDir = path.join(dataDirectory, '20240116')
+
+  let streamedParams: BulkGreeksParams[] = []
+  let pipelineConfigs: PipelineConfig[] = []
+
+  const mockProcessor = BulkGreeksProcessor.of({
+    processBulkGreeks: () =>
+      Effect.fail(new BulkProcessingError({ message: 'Not implemented in test' })),
+    filterExpirations: (expirations) => Effect.succeed(expirations),
+    getProgress: () => Effect.succeed(undefined),
+    streamBulkGreeks: (params) => {
+      streamedParams.push(params)
+      return Stream.empty
+    },
+  })
+
+  const mockPipeline = DataPipeline.of({
+    process: (_stream, config) =>
+      Effect.sync(() => {
+        pipelineConfigs.push(config)
+      }),
+    getProgress: () => Effect.succeed(undefined),
+  })
+
+  const TestLive = Layer.mergeAll(
+    Layer.succeed(BulkGreeksProcessor, mockProcessor),
+    Layer.succeed(DataPipeline, mockPipeline),
+    JsonDownloadCheckpointLive,
+    TradingCalendarLive,
+    Layer.setConfigProvider(
+      ConfigProvider.fromMap(new Map([['CONFIG_STORAGE_DATA_DIRECTORY', dataDirectory]])),
+    ),
+  )
+
+  const options = {
+    dataset: 'greeks',
+    stream: false,
+  } as const
+
+  const seedCheckpoint = Effect.gen(function* (_) {
+    const checkpoint = yield* _(DownloadCheckpoint)
+    const completePath = path.join(outputDir, 'spxw_exp_20240116.csv')
+    yield* _(Effect.promise(() => Bun.write(completePath, 'strike\n4500\n')))
+
+    yield* _(checkpoint.markPending(outputDir, 'SPXW', ['20240116', '20240117', '20240118']))
+    yield* _(
+      checkpoint.markComplete(outputDir, 'SPXW', '20240116', {
+        recordCount: 1,
+        filePath: completePath,
+      }),
+    )
+    yield* _(checkpoint.markInProgress(outputDir, 'SPXW', '20240117'))
+  })
+
+  beforeEach(() => {
+    streamedParams = []
+    pipelineConfigs = []
+  })
+
+  afterEach(async () => {
+    await Bun.$`rm -rf ${dataDirectory}`.quiet()
+  })
+
+  it('should fail when no status.json exists for the date', async () => {
+    const result = await Effect.runPromiseExit(
+      resume.handler({ ...options, date: '2024-01-16' }).pipe(Effect.provide(TestLive)),
+    )
+
+    expect(result._tag).toBe('Failure')
+    expect(streamedParams).toHaveLength(0)
+  })
+
+  it('should remove partial files and re-run only incomplete expirations', async () => {
+    await Effect.runPromise(seedCheckpoint.pipe(Effect.provide(JsonDownloadCheckpointLive)))
+    await Bun.write(path.join(outputDir, 'spxw_exp_20240117.csv.tmp'), 'strike\n')
+
+    const result = await Effect.runPromiseExit(
+      resume.handler({ ...options, date: '2024-01-16' }).pipe(Effect.provide(TestLive)),
+    )
+
+    expect(await Bun.file(path.join(outputDir, 'spxw_exp_20240117.csv.tmp')).exists()).toBe(false)
+    expect(streamedParams).toHaveLength(1)
+    expect(streamedParams[0].tradeDate).toBe('20240116')
+    expect(streamedParams[0].expirations).toEqual(['20240117', '20240118'])
+
+    // The mock pipeline writes nothing, so both expirations remain incomplete
+    expect(result._tag).toBe('Failure')
+  })
+
+  it('should re-run a complete expiration whose output file is missing', async () => {
+    await Effect.runPromise(seedCheckpoint.pipe(Effect.provide(JsonDownloadCheckpointLive)))
+    await Bun.$`rm -f ${path.join(outputDir, 'spxw_exp_20240116.csv')}`.quiet()
+
+    await Effect.runPromiseExit(
+      resume.handler({ ...options, date: '2024-01-16' }).pipe(Effect.provide(TestLive)),
+    )
+
+    expect(streamedParams[0].expirations).toEqual(['20240116', '20240117', '20240118'])
+  })
+
+  it('should fetch the rest in the time window of the finished files without recorded settings', async () => {
+    const timeWindow = { startTime: 34_200_000, endTime: 36_000_000 }
+    await Effect.runPromise(
+      Effect.gen(function* (_) {
+        const checkpoint = yield* _(DownloadCheckpoint)
+        yield* _(checkpoint.markPending(outputDir, 'SPXW', ['20240116', '20240117']))
+        yield* _(
+          checkpoint.markComplete(outputDir, 'SPXW', '20240116', { recordCount: 0, timeWindow }),
+        )
+      }).pipe(Effect.provide(JsonDownloadCheckpointLive)),
+    )
+
+    await Effect.runPromiseExit(
+      resume.handler({ ...options, date: '2024-01-16' }).pipe(Effect.provide(TestLive)),
+    )
+
+    expect(streamedParams[0].expirations).toEqual(['20240117'])
+    expect(streamedParams[0].timeWindow).toEqual(timeWindow)
+  })
+
+  it('should write the rest with the settings recorded by the original download', async () => {
+    const settings = {
+      dataset: 'greeks',
+      interval: 3600000,
+      format: 'jsonl',
+      compression: 'gzip',
+      parquetCodec: 'snappy',
+      pathTemplate: '{root}/{expiration}',
+      fields: 'contract,timestamp,delta',
+      strikeFilter: { minStrike: 4700, moneyness: 0.05 },
+      timeWindow: { startTime: 34_200_000, endTime: 36_000_000 },
+    } as const
+    await Effect.runPromise(
+      Effect.gen(function* (_) {
+        const checkpoint = yield* _(DownloadCheckpoint)
+        yield* _(checkpoint.recordSettings(outputDir, settings))
+        yield* _(checkpoint.markInProgress(outputDir, 'SPXW', '20240117'))
+      }).pipe(Effect.provide(JsonDownloadCheckpointLive)),
+    )
+    // The partial file sits where the path template put it, outside the trade-date directory
+    const tempPath = path.join(dataDirectory, 'spxw', '20240117.jsonl.gz.tmp')
+    await Bun.write(tempPath, '')
+
+    await Effect.runPromiseExit(
+      resume.handler({ ...options, date: '2024-01-16' }).pipe(Effect.provide(TestLive)),
+    )
+
+    expect(await Bun.file(tempPath).exists()).toBe(false)
+    expect(streamedParams[0]).toMatchObject({
+      interval: 3600000,
+      strikeFilter: settings.strikeFilter,
+      timeWindow: settings.timeWindow,
+    })
+    expect(pipelineConfigs[0]).toMatchObject({
+      compression: true,
+      fileNamePattern: '{root}/{expiration}',
+      interval: 3600000,
+      strikeFilter: settings.strikeFilter,
+      timeWindow: settings.timeWindow,
+    })
+    expect(
+      await Effect.runPromise(
+        recordedSettings('2024-01-16', 'greeks').pipe(Effect.provide(TestLive)),
+      ),
+    ).toEqual(settings)
+  })
+
+  it('should resume a --dataset from its own subdirectory', async () => {
+    await Effect.runPromise(
+      Effect.gen(function* (_) {
+        const checkpoint = yield* _(DownloadCheckpoint)
+        yield* _(checkpoint.markPending(path.join(outputDir, 'quote'), 'SPXW', ['20240117']))
+      }).pipe(Effect.provide(JsonDownloadCheckpointLive)),
+    )
+
+    await Effect.runPromiseExit(
+      resume.handler({ ...options, date: '2024-01-16' }).pipe(Effect.provide(TestLive)),
+    )
+    expect(streamedParams).toHaveLength(0)
+
+    await Effect.runPromiseExit(
+      resume
+        .handler({ ...options, dataset: 'quote', date: '2024-01-16' })
+        .pipe(Effect.provide(TestLive)),
+    )
+    expect(streamedParams.map((p) => [p.dataset, p.expirations])).toEqual([['quote', ['20240117']]])
+    expect(pipelineConfigs[0].outputDir).toBe(path.join(outputDir, 'quote'))
+  })
+
+  it('should do nothing when every expiration is complete', async () => {
+    await Effect.runPromise(
+      Effect.gen(function* (_) {
+        const checkpoint = yield* _(DownloadCheckpoint)
+        yield* _(checkpoint.markComplete(outputDir, 'SPXW', '20240116', { recordCount: 0 }))
+      }).pipe(Effect.provide(JsonDownloadCheckpointLive)),
+    )
+
+    const result = await Effect.runPromise(
+      resume.handler({ ...options, date: '2024-01-16' }).pipe(Effect.provide(TestLive)),
+    )
+
+    expect(result).toBeUndefined()
+    expect(streamedParams).toHaveLength(0)
+  })
+})
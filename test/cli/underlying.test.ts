@@ -0,0 +1,154 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test'
+import * as path from 'node:path'
+import { ConfigProvider, Effect, Layer, Option, Stream } from 'effect'
+import { downloadUnderlying } from '@/cli/commands/underlying'
+import { DataWriterCsvLive } from '@/layers/DataWriterCsvLive'
+import { TradingCalendarLive } from '@/layers/TradingCalendarLive'
+import {
+  type IndexHistoryParams,
+  type IndexOhlcData,
+  ThetaDataApiClient,
+  ThetaDataApiError,
+} from '@/services/ThetaDataApiClient'
+
+describe('Download Underlying Command', () => {
+  const dataDirectory = `/tmp/spx-underlying-test-${Date.now()}-${Math.random().toString(36).slice(2)}`
+
+  let requested: IndexHistoryParams[] = []
+  let failOn: string | undefined
+
+  const bars = (day: string): IndexOhlcData[] =>
+    [0, 1, 2].map((i) => ({
+      open: 4780 + i,
+      high: 4782 + i,
+      low: 4779 + i,
+      close: 4781 + i,
+      timestamp: new Date(
+        `${day.slice(0, 4)}-${day.slice(4, 6)}-${day.slice(6)}T14:${30 + i}:00.000Z`,
+      ),
+    }))
+
+  const mockApiClient = ThetaDataApiClient.of({
+    healthCheck: () =>
+      Effect.succeed({ isConnected: true, status: 'CONNECTED' as const, timestamp: new Date() }),
+    listExpirations: () => Effect.succeed([]),
+    listStrikes: () => Effect.succeed([]),
+    getBulkOptionsGreeks: () => Effect.succeed([]),
+    getBulkOptionsQuotes: () => Effect.succeed([]),
+    getBulkOptionsTrades: () => Effect.succeed([]),
+    getBulkOptionsOhlc: () => Effect.succeed([]),
+    getBulkOptionsOpenInterest: () => Effect.succeed([]),
+    getBulkOptionsEod: () => Effect.succeed([]),
+    getIndexOhlc: (params) => {
+      requested.push(params)
+      return params.startDate === failOn
+        ? Effect.fail(new ThetaDataApiError({ message: 'Terminal error', statusCode: 500 }))
+        : Effect.succeed(bars(params.startDate))
+    },
+    streamBulkOptionsGreeks: () => Stream.empty,
+  })
+
+  const TestLive = Layer.mergeAll(
+    Layer.succeed(ThetaDataApiClient, mockApiClient),
+    TradingCalendarLive,
+    DataWriterCsvLive,
+    Layer.setConfigProvider(
+      ConfigProvider.fromMap(new Map([['CONFIG_STORAGE_DATA_DIRECTORY', dataDirectory]])),
+    ),
+  )
+
+  const options = {
+    date: Option.none(),
+    root: 'SPX',
+    interval: 60000,
+    format: 'csv',
+    parquetCodec: 'snappy',
+    compression: 'none',
+    fields: Option.none(),
+    startDate: Option.none(),
+    endDate: Option.none(),
+    daysBack: Option.none(),
+    force: false,
+  } as const
+
+  const run = (overrides: Partial<Parameters<typeof downloadUnderlying.handler>[0]> = {}) =>
+    Effect.runPromiseExit(
+      downloadUnderlying.handler({ ...options, ...overrides }).pipe(Effect.provide(TestLive)),
+    )
+
+  beforeEach(() => {
+    requested = []
+    failOn = undefined
+  })
+
+  afterEach(async () => {
+    await Bun.$`rm -rf ${dataDirectory}`.quiet()
+  })
+
+  it('should write one index file per trade date next to the options files', async () => {
+    const result = await run({
+      startDate: Option.some('2024-01-16'),
+      endDate: Option.some('2024-01-17'),
+    })
+
+    expect(result._tag).toBe('Success')
+    expect(requested).toEqual([
+      { root: 'SPX', startDate: '20240116', endDate: '20240116', interval: 60000, rth: true },
+      { root: 'SPX', startDate: '20240117', endDate: '20240117', interval: 60000, rth: true },
+    ])
+
+    const csv = await Bun.file(path.join(dataDirectory, '20240116', 'spx_index.csv')).text()
+    const lines = csv.trim().split('\n')
+    expect(lines[0]).toBe('root,open,high,low,close,trade_date,ms_of_day,timestamp,schema_version')
+    expect(lines).toHaveLength(4)
+    // 14:30 UTC is 09:30 EST
+    expect(lines[1]).toBe('SPX,4780,4782,4779,4781,20240116,34200000,2024-01-16T14:30:00.000Z,2')
+  })
+
+  it('should skip weekends and holidays without contacting the terminal', async () => {
+    // 2024-01-15 is Martin Luther King Jr. Day
+    const result = await run({
+      startDate: Option.some('2024-01-13'),
+      endDate: Option.some('2024-01-16'),
+    })
+
+    expect(result._tag).toBe('Success')
+    expect(requested.map((p) => p.startDate)).toEqual(['20240116'])
+  })
+
+  it('should skip existing index files unless forced', async () => {
+    await run({ date: Option.some('2024-01-16') })
+    requested = []
+
+    await run({ date: Option.some('2024-01-16') })
+    expect(requested).toHaveLength(0)
+
+    await run({ date: Option.some('2024-01-16'), force: true })
+    expect(requested).toHaveLength(1)
+  })
+
+  it('should continue past a failed day and report the failure', async () => {
+    failOn = '20240116'
+
+    const result = await run({
+      startDate: Option.some('2024-01-16'),
+      endDate: Option.some('2024-01-17'),
+    })
+
+    expect(result._tag).toBe('Failure')
+    expect(requested).toHaveLength(2)
+    expect(await Bun.file(path.join(dataDirectory, '20240116', 'spx_index.csv')).exists()).toBe(
+      false,
+    )
+    expect(await Bun.file(path.join(dataDirectory, '20240117', 'spx_index.csv')).exists()).toBe(
+      true,
+    )
+  })
+
+  it('should reject tick-level bars', async () => {
+    const result = await run({ date: Option.some('2024-01-16'), interval: 0 })
+
+    expect(result._tag).toBe('Failure')
+    expect(requested).toHaveLength(0)
+  })
+})
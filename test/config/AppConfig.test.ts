@@ -14,15 +14,36 @@ describe('AppConfig', () => {
       thetaData: {
         baseUrl: 'http://127.0.0.1:25510',
         maxConcurrentRequests: 2,
+        requestsPerSecond: 20,
+        concurrencyMode: 'fixed',
+        minConcurrency: 1,
+        targetLatencyMs: 10000,
         maxRetries: 3,
         retryBaseDelayMs: 1000,
         requestTimeoutMs: 30000,
+        circuitFailureThreshold: 5,
+        circuitProbeIntervalMs: 5000,
+        circuitMaxPauseMs: 600000,
+        cassetteMode: 'off',
+        cassetteDirectory: './cassettes',
       },
       download: {
         maxDTE: 30,
+        expirationRetries: 1,
+        expirationRetryDelayMs: 5000,
       },
       storage: {
         dataDirectory: './data',
+        pathTemplate: undefined,
+      },
+      validation: {
+        maxImpliedVolatility: 5,
+        maxIvError: 0.05,
+        crossedMarketPolicy: 'drop',
+        negativePricePolicy: 'drop',
+        impliedVolatilityPolicy: 'drop',
+        ivErrorPolicy: 'warn',
+        underlyingPricePolicy: 'drop',
       },
     })
   })
@@ -48,16 +69,71 @@ describe('AppConfig', () => {
       thetaData: {
         baseUrl: 'http://localhost:8080',
         maxConcurrentRequests: 2,
+        requestsPerSecond: 20,
+        concurrencyMode: 'fixed',
+        minConcurrency: 1,
+        targetLatencyMs: 10000,
         maxRetries: 3,
         retryBaseDelayMs: 1000,
         requestTimeoutMs: 30000,
+        circuitFailureThreshold: 5,
+        circuitProbeIntervalMs: 5000,
+        circuitMaxPauseMs: 600000,
+        cassetteMode: 'off',
+        cassetteDirectory: './cassettes',
       },
       download: {
         maxDTE: 90,
+        expirationRetries: 1,
+        expirationRetryDelayMs: 5000,
       },
       storage: {
         dataDirectory: '/tmp/data',
+        pathTemplate: undefined,
+      },
+      validation: {
+        maxImpliedVolatility: 5,
+        maxIvError: 0.05,
+        crossedMarketPolicy: 'drop',
+        negativePricePolicy: 'drop',
+        impliedVolatilityPolicy: 'drop',
+        ivErrorPolicy: 'warn',
+        underlyingPricePolicy: 'drop',
       },
     })
   })
+
+  const loadStorage = (env: ReadonlyArray<[string, string]>) =>
+    Effect.runPromise(
+      Effect.either(AppConfig).pipe(
+        Effect.withConfigProvider(ConfigProvider.fromMap(new Map(env))),
+      ),
+    )
+
+  it('should load a path template relative to the data directory', async () => {
+    const result = await loadStorage([
+      ['CONFIG_STORAGE_PATH_TEMPLATE', 'root={root}/date={tradeDate}/{dataset}/{expiration}'],
+    ])
+
+    expect(result._tag).toBe('Right')
+    if (result._tag === 'Right') {
+      expect(result.right.storage.pathTemplate).toBe(
+        'root={root}/date={tradeDate}/{dataset}/{expiration}',
+      )
+    }
+  })
+
+  it('should reject a path template that would put files of different days in one place', async () => {
+    const missing = await loadStorage([['CONFIG_STORAGE_PATH_TEMPLATE', '{root}/{expiration}']])
+    const unknown = await loadStorage([
+      ['CONFIG_STORAGE_PATH_TEMPLATE', '{root}/{tradeDate}/{dataset}/{expiry}'],
+    ])
+
+    expect(missing._tag).toBe('Left')
+    expect(String(missing._tag === 'Left' && missing.left)).toContain('must include {tradeDate}')
+    expect(unknown._tag).toBe('Left')
+    expect(String(unknown._tag === 'Left' && unknown.left)).toContain(
+      'unknown placeholder {expiry}',
+    )
+  })
 })
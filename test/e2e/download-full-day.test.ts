@@ -115,8 +115,8 @@ describe.skipIf(!SHOULD_RUN_E2E_TESTS)("End-to-End Download Test", () => {
   it(
     "handles dry run mode correctly",
     async () => {
-      const testDate = "2024-01-15"
-      const outputDir = path.join(tempDir, "20240115-dry")
+      const testDate = "2024-01-16"
+      const outputDir = path.join(tempDir, "20240116-dry")
 
       // Set environment variables for configuration
       process.env.CONFIG_STORAGE_DATA_DIRECTORY = tempDir
@@ -141,8 +141,8 @@ describe.skipIf(!SHOULD_RUN_E2E_TESTS)("End-to-End Download Test", () => {
   it(
     "handles DTE filter correctly",
     async () => {
-      const testDate = "2024-01-15"
-      const outputDir = path.join(tempDir, "20240115-dte")
+      const testDate = "2024-01-16"
+      const outputDir = path.join(tempDir, "20240116-dte")
 
       // Set environment variables for configuration
       process.env.CONFIG_STORAGE_DATA_DIRECTORY = path.join(tempDir, "-dte")
@@ -207,8 +207,8 @@ describe.skipIf(!SHOULD_RUN_E2E_TESTS)("End-to-End Download Test", () => {
   it(
     "validates data completeness and accuracy",
     async () => {
-      const testDate = "2024-01-15"
-      const outputDir = path.join(tempDir, "20240115-validate")
+      const testDate = "2024-01-16"
+      const outputDir = path.join(tempDir, "20240116-validate")
 
       // Set environment variables for configuration
       process.env.CONFIG_STORAGE_DATA_DIRECTORY = path.join(tempDir, "-validate")
@@ -1,8 +1,10 @@
 import { describe, expect, it } from 'bun:test'
-import { Config, Context, Effect, Layer } from 'effect'
-import type { AppConfig } from '../../src/config/AppConfig'
+import { Context, Effect, Layer } from 'effect'
+import { AppConfig } from '../../src/config/AppConfig'
 import { BulkGreeksProcessorLive } from '../../src/layers/BulkGreeksProcessorLive'
+import { RateLimiterLive } from '../../src/layers/RateLimiterLive'
 import { ThetaDataApiClientLive } from '../../src/layers/ThetaDataApiClientLive'
+import { TradingCalendarLive } from '../../src/layers/TradingCalendarLive'
 import { type BulkGreeksParams, BulkGreeksProcessor } from '../../src/services/BulkGreeksProcessor'
 
 // Only run integration tests when THETA_DATA_TERMINAL_URL is set
@@ -15,37 +17,12 @@ if (SHOULD_RUN_INTEGRATION_TESTS) {
 }
 
 // Create AppConfig layer
-const AppConfigLive = Layer.effect(
-  Context.GenericTag<AppConfig>('AppConfig'),
-  Config.all({
-    thetaData: Config.all({
-      baseUrl: Config.string('CONFIG_THETADATA_BASE_URL').pipe(
-        Config.withDefault('http://127.0.0.1:25510'),
-      ),
-      maxConcurrentRequests: Config.number('CONFIG_THETADATA_MAX_CONCURRENT_REQUESTS').pipe(
-        Config.withDefault(2),
-      ),
-      maxRetries: Config.number('CONFIG_THETADATA_MAX_RETRIES').pipe(Config.withDefault(3)),
-      retryBaseDelayMs: Config.number('CONFIG_THETADATA_RETRY_BASE_DELAY_MS').pipe(
-        Config.withDefault(1000),
-      ),
-      requestTimeoutMs: Config.number('CONFIG_THETADATA_REQUEST_TIMEOUT_MS').pipe(
-        Config.withDefault(30000),
-      ),
-    }),
-    download: Config.all({
-      maxDTE: Config.number('CONFIG_DOWNLOAD_MAX_DTE').pipe(Config.withDefault(30)),
-    }),
-    storage: Config.all({
-      dataDirectory: Config.string('CONFIG_STORAGE_DATA_DIRECTORY').pipe(
-        Config.withDefault('./data'),
-      ),
-    }),
-  }),
-)
+const AppConfigLive = Layer.effect(Context.GenericTag<AppConfig>('AppConfig'), AppConfig)
 
 const IntegrationLive = BulkGreeksProcessorLive.pipe(
   Layer.provide(ThetaDataApiClientLive),
+  Layer.provide(RateLimiterLive),
+  Layer.provide(TradingCalendarLive),
   Layer.provide(AppConfigLive),
 )
 
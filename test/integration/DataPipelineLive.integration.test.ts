@@ -1,12 +1,17 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test'
 import * as path from 'node:path'
-import { Chunk, Config, Context, Effect, Fiber, Layer, Stream } from 'effect'
-import type { AppConfig } from '../../src/config/AppConfig'
+import { Chunk, Context, Effect, Fiber, Layer, Stream } from 'effect'
+import { AppConfig } from '../../src/config/AppConfig'
 import { BulkGreeksProcessorLive } from '../../src/layers/BulkGreeksProcessorLive'
 import { DataPipelineLive } from '../../src/layers/DataPipelineLive'
+import { DataValidationLive } from '../../src/layers/DataValidationLive'
 import { DataWriterCsvLive } from '../../src/layers/DataWriterCsvLive'
+import { JsonDeadLetterQueueLive } from '../../src/layers/JsonDeadLetterQueue'
+import { JsonDownloadCheckpointLive } from '../../src/layers/JsonDownloadCheckpoint'
 import { JsonMetricsWriterLive } from '../../src/layers/JsonMetricsWriter'
+import { RateLimiterLive } from '../../src/layers/RateLimiterLive'
 import { ThetaDataApiClientLive } from '../../src/layers/ThetaDataApiClientLive'
+import { TradingCalendarLive } from '../../src/layers/TradingCalendarLive'
 import { BulkGreeksProcessor } from '../../src/services/BulkGreeksProcessor'
 import { DataPipeline, type PipelineConfig } from '../../src/services/DataPipeline'
 
@@ -69,52 +74,31 @@ describe.skipIf(!SHOULD_RUN_INTEGRATION_TESTS)('DataPipeline Integration Tests',
   })
 
   // Create AppConfig layer
-  const AppConfigLive = Layer.effect(
-    Context.GenericTag<AppConfig>('AppConfig'),
-    Config.all({
-      thetaData: Config.all({
-        baseUrl: Config.string('CONFIG_THETADATA_BASE_URL').pipe(
-          Config.withDefault('http://127.0.0.1:25510'),
-        ),
-        maxConcurrentRequests: Config.number('CONFIG_THETADATA_MAX_CONCURRENT_REQUESTS').pipe(
-          Config.withDefault(2),
-        ),
-        maxRetries: Config.number('CONFIG_THETADATA_MAX_RETRIES').pipe(Config.withDefault(3)),
-        retryBaseDelayMs: Config.number('CONFIG_THETADATA_RETRY_BASE_DELAY_MS').pipe(
-          Config.withDefault(1000),
-        ),
-        requestTimeoutMs: Config.number('CONFIG_THETADATA_REQUEST_TIMEOUT_MS').pipe(
-          Config.withDefault(30000),
-        ),
-      }),
-      download: Config.all({
-        maxDTE: Config.number('CONFIG_DOWNLOAD_MAX_DTE').pipe(Config.withDefault(30)),
-      }),
-      storage: Config.all({
-        dataDirectory: Config.string('CONFIG_STORAGE_DATA_DIRECTORY').pipe(
-          Config.withDefault('./data'),
-        ),
-      }),
-    }),
-  )
+  const AppConfigLive = Layer.effect(Context.GenericTag<AppConfig>('AppConfig'), AppConfig)
 
   // Set up the full layer composition
-  // DataPipelineLive requires DataWriter and MetricsWriter
-  // BulkGreeksProcessorLive requires ThetaDataApiClient and AppConfig
+  // DataPipelineLive requires DataWriter, MetricsWriter, DownloadCheckpoint and DataValidationService
+  // BulkGreeksProcessorLive requires ThetaDataApiClient, TradingCalendar and AppConfig
   // Build the layers from bottom up
   const IntegrationLayer = Layer.mergeAll(DataPipelineLive, BulkGreeksProcessorLive).pipe(
     Layer.provide(DataWriterCsvLive),
     Layer.provide(JsonMetricsWriterLive),
+    Layer.provide(JsonDownloadCheckpointLive),
+    Layer.provide(DataValidationLive),
     Layer.provide(ThetaDataApiClientLive),
+    Layer.provide(RateLimiterLive),
+    Layer.provide(JsonDeadLetterQueueLive),
+    Layer.provide(TradingCalendarLive),
     Layer.provide(AppConfigLive),
   )
 
   it('should process real data end-to-end with streaming', async () => {
     const config: PipelineConfig = {
+      root: 'SPXW',
       outputDir: testOutputDir,
       chunkSize: 1000,
       compression: false,
-      fileNamePattern: 'SPXW_{expiration}.csv',
+      fileNamePattern: '{root}_exp_{expiration}',
     }
 
     // Process with real data
@@ -196,10 +180,11 @@ describe.skipIf(!SHOULD_RUN_INTEGRATION_TESTS)('DataPipeline Integration Tests',
 
   it('should handle partial failures gracefully', async () => {
     const config: PipelineConfig = {
+      root: 'SPXW',
       outputDir: testOutputDir,
       chunkSize: 500,
       compression: false,
-      fileNamePattern: 'SPXW_{expiration}.csv',
+      fileNamePattern: '{root}_exp_{expiration}',
     }
 
     await Effect.runPromise(
@@ -265,10 +250,11 @@ describe.skipIf(!SHOULD_RUN_INTEGRATION_TESTS)('DataPipeline Integration Tests',
 
   it('should track progress accurately during processing', async () => {
     const config: PipelineConfig = {
+      root: 'SPXW',
       outputDir: testOutputDir,
       chunkSize: 500,
       compression: false,
-      fileNamePattern: 'SPXW_{expiration}.csv',
+      fileNamePattern: '{root}_exp_{expiration}',
     }
 
     const progressSnapshots: Array<{
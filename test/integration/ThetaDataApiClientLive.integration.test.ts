@@ -1,6 +1,7 @@
 import { describe, expect, it } from 'bun:test'
-import { Config, Context, Effect, Layer } from 'effect'
-import type { AppConfig } from '@/config/AppConfig'
+import { Context, Effect, Layer } from 'effect'
+import { AppConfig } from '@/config/AppConfig'
+import { RateLimiterLive } from '@/layers/RateLimiterLive'
 import { ThetaDataApiClientLive } from '@/layers/ThetaDataApiClientLive'
 import { ThetaDataApiClient } from '@/services/ThetaDataApiClient'
 
@@ -15,36 +16,12 @@ if (SHOULD_RUN_INTEGRATION_TESTS) {
 }
 
 // Create AppConfig layer
-const AppConfigLive = Layer.effect(
-  Context.GenericTag<AppConfig>('AppConfig'),
-  Config.all({
-    thetaData: Config.all({
-      baseUrl: Config.string('CONFIG_THETADATA_BASE_URL').pipe(
-        Config.withDefault('http://127.0.0.1:25510'),
-      ),
-      maxConcurrentRequests: Config.number('CONFIG_THETADATA_MAX_CONCURRENT_REQUESTS').pipe(
-        Config.withDefault(2),
-      ),
-      maxRetries: Config.number('CONFIG_THETADATA_MAX_RETRIES').pipe(Config.withDefault(3)),
-      retryBaseDelayMs: Config.number('CONFIG_THETADATA_RETRY_BASE_DELAY_MS').pipe(
-        Config.withDefault(1000),
-      ),
-      requestTimeoutMs: Config.number('CONFIG_THETADATA_REQUEST_TIMEOUT_MS').pipe(
-        Config.withDefault(30000),
-      ),
-    }),
-    download: Config.all({
-      maxDTE: Config.number('CONFIG_DOWNLOAD_MAX_DTE').pipe(Config.withDefault(30)),
-    }),
-    storage: Config.all({
-      dataDirectory: Config.string('CONFIG_STORAGE_DATA_DIRECTORY').pipe(
-        Config.withDefault('./data'),
-      ),
-    }),
-  }),
-)
+const AppConfigLive = Layer.effect(Context.GenericTag<AppConfig>('AppConfig'), AppConfig)
 
-const IntegrationLive = Layer.mergeAll(ThetaDataApiClientLive, AppConfigLive)
+const IntegrationLive = Layer.mergeAll(
+  ThetaDataApiClientLive.pipe(Layer.provide(RateLimiterLive)),
+  AppConfigLive,
+)
 
 describe.skipIf(!SHOULD_RUN_INTEGRATION_TESTS)('ThetaDataApiClientLive Integration Tests', () => {
   describe('healthCheck', () => {
@@ -67,7 +44,7 @@ describe.skipIf(!SHOULD_RUN_INTEGRATION_TESTS)('ThetaDataApiClientLive Integrati
       const result = await Effect.runPromise(
         Effect.gen(function* (_) {
           const client = yield* _(ThetaDataApiClient)
-          return yield* _(client.listExpirations())
+          return yield* _(client.listExpirations('SPXW'))
         }).pipe(Effect.provide(IntegrationLive)),
       )
 
@@ -0,0 +1,302 @@
+import { afterAll, beforeAll, describe, expect, it } from 'bun:test'
+import { Chunk, ConfigProvider, Effect, Layer, Stream } from 'effect'
+import { BulkGreeksProcessorLive } from '@/layers/BulkGreeksProcessorLive'
+import { RateLimiterLive } from '@/layers/RateLimiterLive'
+import {
+  makeThetaDataApiClientLive,
+  type TerminalFetch,
+  ThetaDataApiClientLive,
+} from '@/layers/ThetaDataApiClientLive'
+import { TradingCalendarLive } from '@/layers/TradingCalendarLive'
+import { type MockTerminal, startMockTerminal } from '@/mock/MockTerminal'
+import {
+  type BulkGreeksParams,
+  BulkGreeksProcessor,
+  type StrikeFilter,
+  type TimeWindow,
+} from '@/services/BulkGreeksProcessor'
+import type { OptionsGreeksData } from '@/services/ThetaDataApiClient'
+
+describe('BulkGreeksProcessorLive against the mock terminal', () => {
+  let terminal: MockTerminal
+
+  beforeAll(() => {
+    terminal = startMockTerminal({ port: 0, strikesPerSide: 5 })
+  })
+
+  afterAll(() => {
+    terminal.stop()
+  })
+
+  const layer = (
+    url = terminal.url,
+    config: ReadonlyArray<[string, string]> = [],
+    client = ThetaDataApiClientLive,
+  ) =>
+    BulkGreeksProcessorLive.pipe(
+      Layer.provide(client),
+      Layer.provide(RateLimiterLive),
+      Layer.provide(TradingCalendarLive),
+      Layer.provide(
+        Layer.setConfigProvider(
+          ConfigProvider.fromMap(new Map([['CONFIG_THETADATA_BASE_URL', url], ...config])),
+        ),
+      ),
+    )
+
+  const params: BulkGreeksParams = {
+    root: 'SPXW',
+    tradeDate: '20240314',
+    expirations: ['20240315'],
+    interval: 3600000,
+  }
+
+  // Rows of the one expiration, fetched whole or streamed
+  const fetchRows = (strikeFilter?: StrikeFilter, streamRecords = false, timeWindow?: TimeWindow) =>
+    Effect.runPromise(
+      Effect.gen(function* (_) {
+        const processor = yield* _(BulkGreeksProcessor)
+        const [result] = yield* _(
+          processor
+            .streamBulkGreeks({ ...params, strikeFilter, streamRecords, timeWindow })
+            .pipe(Stream.runCollect, Effect.map(Chunk.toArray)),
+        )
+        if (result.records) {
+          return Chunk.toArray(yield* _(Stream.runCollect(result.records)))
+        }
+        expect(result.recordCount).toBe(result.data?.length ?? -1)
+        return [...(result.data ?? [])]
+      }).pipe(Effect.provide(layer())),
+    )
+
+  const strikeOf = (row: OptionsGreeksData) => row.strike / 1000
+
+  it('should keep every row without a filter', async () => {
+    expect(await fetchRows()).toHaveLength(154)
+  })
+
+  it('should drop strikes outside the bounds and the moneyness band', async () => {
+    const all = await fetchRows()
+    const strikes = [...new Set(all.map(strikeOf))].sort((a, b) => a - b)
+
+    const bounded = await fetchRows({ minStrike: strikes[2], maxStrike: strikes[8] })
+    expect(new Set(bounded.map(strikeOf))).toEqual(new Set(strikes.slice(2, 9)))
+
+    const band = await fetchRows({ moneyness: 0.002 })
+    expect(band.length).toBeGreaterThan(0)
+    expect(band.length).toBeLessThan(all.length)
+    expect(band.every((row) => Math.abs(strikeOf(row) / row.underlyingPrice - 1) <= 0.002)).toBe(
+      true,
+    )
+  })
+
+  it('should apply the delta band to streamed rows', async () => {
+    const filter = { minDelta: 0.2, maxDelta: 0.8 }
+    const streamed = await fetchRows(filter, true)
+
+    expect(streamed.length).toBeGreaterThan(0)
+    expect(streamed.every((row) => Math.abs(row.delta) >= 0.2 && Math.abs(row.delta) <= 0.8)).toBe(
+      true,
+    )
+    expect(streamed).toEqual(await fetchRows(filter))
+  })
+
+  it('should request only the chosen time of day', async () => {
+    const rows = await fetchRows(undefined, false, { startTime: 34_200_000, endTime: 37_800_000 })
+
+    // 09:30 and 10:30 for 11 strikes x 2 rights
+    expect(rows).toHaveLength(44)
+    expect(terminal.requests.at(-1)?.params).toMatchObject({
+      start_time: '34200000',
+      end_time: '37800000',
+      rth: 'true',
+    })
+
+    await fetchRows(undefined, false, { extendedHours: true })
+    expect(terminal.requests.at(-1)?.params.rth).toBe('false')
+    expect(terminal.requests.at(-1)?.params.start_time).toBeUndefined()
+  })
+
+  describe('adaptive concurrency', () => {
+    let slowTerminal: MockTerminal
+
+    beforeAll(() => {
+      slowTerminal = startMockTerminal({ port: 0, strikesPerSide: 1, latencyMs: 30 })
+    })
+
+    afterAll(() => {
+      slowTerminal.stop()
+    })
+
+    const processWeek = (mode: 'fixed' | 'adaptive') =>
+      Effect.runPromise(
+        Effect.flatMap(BulkGreeksProcessor, (processor) =>
+          processor.processBulkGreeks({ ...params, expirations: undefined, maxDTE: 5 }),
+        ).pipe(
+          Effect.provide(
+            layer(slowTerminal.url, [
+              ['CONFIG_THETADATA_CONCURRENCY_MODE', mode],
+              ['CONFIG_THETADATA_MAX_CONCURRENT_REQUESTS', '4'],
+              ['CONFIG_THETADATA_TARGET_LATENCY_MS', '10'],
+            ]),
+          ),
+        ),
+      )
+
+    it('should halve the concurrency once per window while fetches are slow', async () => {
+      const metrics = await processWeek('adaptive')
+
+      expect(metrics.successfulExpirations).toBeGreaterThan(4)
+      expect(
+        metrics.concurrencyHistory?.map(({ concurrency, reason }) => [concurrency, reason]),
+      ).toEqual([
+        [4, 'start'],
+        [2, 'latency'],
+        [1, 'latency'],
+      ])
+      expect(metrics.results[0].concurrency).toBe(4)
+      expect(metrics.results.at(-1)?.concurrency).toBeLessThan(4)
+    })
+
+    it('should keep a fixed concurrency by default', async () => {
+      const metrics = await processWeek('fixed')
+
+      expect(metrics.concurrencyHistory?.map(({ concurrency }) => concurrency)).toEqual([4])
+      expect(metrics.results.every((result) => result.concurrency === 4)).toBe(true)
+    })
+  })
+
+  it('should wait for the terminal to come back instead of failing every expiration', async () => {
+    // Data requests are refused until the outage ends; listing expirations still works
+    let down = true
+    const send: TerminalFetch = (url, init) =>
+      down && !url.includes('/list/')
+        ? Promise.reject(new TypeError('Unable to connect'))
+        : fetch(url, init)
+    setTimeout(() => {
+      down = false
+    }, 300)
+
+    const metrics = await Effect.runPromise(
+      Effect.flatMap(BulkGreeksProcessor, (processor) =>
+        processor.processBulkGreeks({ ...params, expirations: undefined, maxDTE: 5 }),
+      ).pipe(
+        Effect.provide(
+          layer(
+            terminal.url,
+            [
+              ['CONFIG_THETADATA_MAX_RETRIES', '1'],
+              ['CONFIG_THETADATA_CIRCUIT_FAILURE_THRESHOLD', '2'],
+              ['CONFIG_THETADATA_CIRCUIT_PROBE_INTERVAL_MS', '50'],
+              // Without a second pass, so the fetches lost to the outage show
+              ['CONFIG_DOWNLOAD_EXPIRATION_RETRIES', '0'],
+            ],
+            makeThetaDataApiClientLive(send),
+          ),
+        ),
+      ),
+    )
+
+    // Only the two fetches whose failures opened the circuit are lost
+    expect(metrics.totalExpirations).toBe(6)
+    expect(metrics.failedExpirations).toBe(2)
+    expect(metrics.successfulExpirations).toBe(4)
+  })
+
+  describe('expiration retries', () => {
+    // Answer the expiration's data requests with status until failures run out
+    const failingSend =
+      (status: number, failures: number): TerminalFetch =>
+      (url, init) =>
+        url.includes('exp=20240315') && !url.includes('/list/') && failures-- > 0
+          ? Promise.resolve(new Response('Unavailable', { status }))
+          : fetch(url, init)
+
+    const retryLayer = (send: TerminalFetch) =>
+      layer(
+        terminal.url,
+        [
+          ['CONFIG_THETADATA_MAX_RETRIES', '1'],
+          ['CONFIG_DOWNLOAD_EXPIRATION_RETRY_DELAY_MS', '10'],
+        ],
+        makeThetaDataApiClientLive(send),
+      )
+
+    it('should fetch a transiently failed expiration again and keep the earlier error', async () => {
+      const results = await Effect.runPromise(
+        Effect.flatMap(BulkGreeksProcessor, (processor) =>
+          processor.streamBulkGreeks(params).pipe(Stream.runCollect, Effect.map(Chunk.toArray)),
+        ).pipe(Effect.provide(retryLayer(failingSend(503, 1)))),
+      )
+
+      expect(results).toHaveLength(1)
+      expect(results[0].success).toBe(true)
+      expect(results[0].attempts).toBe(2)
+      expect(results[0].previousErrors?.map((error) => error.message)).toEqual([
+        expect.stringContaining('503'),
+      ])
+    })
+
+    it('should give up after the configured passes', async () => {
+      const metrics = await Effect.runPromise(
+        Effect.flatMap(BulkGreeksProcessor, (processor) =>
+          processor.processBulkGreeks(params),
+        ).pipe(Effect.provide(retryLayer(failingSend(503, 5)))),
+      )
+
+      expect(metrics.failedExpirations).toBe(1)
+      expect(metrics.results[0].failureKind).toBe('transient')
+      expect(metrics.results[0].attempts).toBe(2)
+      expect(metrics.results[0].previousErrors).toHaveLength(1)
+    })
+
+    // Read the one streamed expiration with a fault injected into its response, then hand the
+    // failure back
+    const failStream = (fault: 'disconnect' | 'malformed') =>
+      Effect.runPromise(
+        Effect.gen(function* (_) {
+          const processor = yield* _(BulkGreeksProcessor)
+          const [result] = yield* _(
+            processor
+              .streamBulkGreeks({ ...params, streamRecords: true })
+              .pipe(Stream.runCollect, Effect.map(Chunk.toArray)),
+          )
+          terminal.injectFaults(fault)
+          const error = yield* _(Effect.flip(Stream.runDrain(result.records!)))
+          const next = yield* _(result.retry!(error))
+          const rows = next.records ? Chunk.size(yield* _(Stream.runCollect(next.records))) : 0
+          return { next, rows }
+        }).pipe(Effect.provide(retryLayer(fetch))),
+      )
+
+    it('should fetch a stream that failed partway again once it is handed back', async () => {
+      const { next, rows } = await failStream('disconnect')
+
+      expect(next.success).toBe(true)
+      expect(next.attempts).toBe(2)
+      expect(next.previousErrors).toHaveLength(1)
+      expect(rows).toBe(154)
+    })
+
+    it('should not fetch a stream again after a permanent failure', async () => {
+      const { next, rows } = await failStream('malformed')
+
+      expect(next.success).toBe(false)
+      expect(next.failureKind).toBe('permanent')
+      expect(next.records).toBeUndefined()
+      expect(rows).toBe(0)
+    })
+
+    it('should not fetch a permanently failed expiration again', async () => {
+      const results = await Effect.runPromise(
+        Effect.flatMap(BulkGreeksProcessor, (processor) =>
+          processor.streamBulkGreeks(params).pipe(Stream.runCollect, Effect.map(Chunk.toArray)),
+        ).pipe(Effect.provide(retryLayer(failingSend(400, 1)))),
+      )
+
+      expect(results[0].success).toBe(false)
+      expect(results[0].failureKind).toBe('permanent')
+      expect(results[0].attempts).toBeUndefined()
+    })
+  })
+})
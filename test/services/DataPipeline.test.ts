@@ -1,10 +1,19 @@
-import { describe, expect, it } from 'bun:test'
-import { Effect, Fiber, Layer, Stream } from 'effect'
+import { afterEach, describe, expect, it } from 'bun:test'
+import * as path from 'node:path'
+import { Effect, Fiber, Layer, Option, Stream } from 'effect'
 import { DataPipelineLive } from '../../src/layers/DataPipelineLive'
+import { DataValidationLive } from '../../src/layers/DataValidationLive'
+import { DataWriterCsvLive } from '../../src/layers/DataWriterCsvLive'
 import { DataWriterTest } from '../../src/layers/DataWriterTest'
+import { DeadLetterQueueTest } from '../../src/layers/DeadLetterQueueTest'
+import { DownloadCheckpointTest } from '../../src/layers/DownloadCheckpointTest'
 import { MetricsWriterTest } from '../../src/layers/MetricsWriterTest'
-import type { ExpirationResult } from '../../src/services/BulkGreeksProcessor'
+import { RateLimiterLive } from '../../src/layers/RateLimiterLive'
+import { BulkProcessingError, type ExpirationResult } from '../../src/services/BulkGreeksProcessor'
 import { DataPipeline, type PipelineConfig } from '../../src/services/DataPipeline'
+import { DeadLetterQueue } from '../../src/services/DeadLetterQueue'
+import { DownloadCheckpoint } from '../../src/services/DownloadCheckpoint'
+import { MetricsWriter } from '../../src/services/MetricsWriter'
 import type { OptionsGreeksData } from '../../src/services/ThetaDataApiClient'
 
 describe('DataPipeline', () => {
@@ -45,8 +54,12 @@ describe('DataPipeline', () => {
   })
 
   const TestLayer = DataPipelineLive.pipe(
+    Layer.provide(RateLimiterLive),
+    Layer.provide(DeadLetterQueueTest),
     Layer.provide(DataWriterTest),
     Layer.provide(MetricsWriterTest),
+    Layer.provide(DataValidationLive),
+    Layer.provide(DownloadCheckpointTest),
   )
 
   describe('process', () => {
@@ -58,10 +71,11 @@ describe('DataPipeline', () => {
       ]
 
       const config: PipelineConfig = {
+        root: 'SPXW',
         outputDir: './test-output',
         chunkSize: 50,
         compression: false,
-        fileNamePattern: 'SPXW_{expiration}.csv',
+        fileNamePattern: '{root}_exp_{expiration}',
       }
 
       await Effect.runPromise(
@@ -81,10 +95,11 @@ describe('DataPipeline', () => {
       ]
 
       const config: PipelineConfig = {
+        root: 'SPXW',
         outputDir: './test-output',
         chunkSize: 100,
         compression: false,
-        fileNamePattern: 'SPXW_{expiration}.csv',
+        fileNamePattern: '{root}_exp_{expiration}',
       }
 
       await Effect.runPromise(
@@ -105,10 +120,11 @@ describe('DataPipeline', () => {
       ]
 
       const config: PipelineConfig = {
+        root: 'SPXW',
         outputDir: './test-output',
         chunkSize: 50,
         compression: false,
-        fileNamePattern: 'SPXW_{expiration}.csv',
+        fileNamePattern: '{root}_exp_{expiration}',
       }
 
       await Effect.runPromise(
@@ -122,12 +138,183 @@ describe('DataPipeline', () => {
       expect(true).toBe(true)
     })
 
+    it('should checkpoint each expiration as complete or failed', async () => {
+      const results: ExpirationResult[] = [
+        createMockExpirationResult('20240314', 100, true),
+        createMockExpirationResult('20240315', 0, false), // Failed
+      ]
+
+      const config: PipelineConfig = {
+        root: 'SPXW',
+        outputDir: './test-output',
+        chunkSize: 50,
+        compression: false,
+        fileNamePattern: '{root}_exp_{expiration}',
+        expirations: ['20240314', '20240315', '20240316'],
+      }
+
+      const status = await Effect.runPromise(
+        Effect.gen(function* (_) {
+          const pipeline = yield* _(DataPipeline)
+          const checkpoint = yield* _(DownloadCheckpoint)
+          yield* _(pipeline.process(Stream.fromIterable(results), config))
+          return yield* _(checkpoint.load('./test-output'))
+        }).pipe(
+          Effect.provide(
+            DataPipelineLive.pipe(
+              Layer.provide(RateLimiterLive),
+              Layer.provide(DeadLetterQueueTest),
+              Layer.provide(DataWriterTest),
+              Layer.provide(MetricsWriterTest),
+              Layer.provide(DataValidationLive),
+              Layer.provide(DataValidationLive),
+              // Share the checkpoint instance between the pipeline and the test
+              Layer.provideMerge(DownloadCheckpointTest),
+            ),
+          ),
+        ),
+      )
+
+      expect(Option.isSome(status)).toBe(true)
+      const expirations = Option.getOrThrow(status).expirations
+      expect(expirations['SPXW:20240314']).toMatchObject({
+        status: 'complete',
+        recordCount: 100,
+        filePath: 'test-output/spxw_exp_20240314.csv',
+      })
+      expect(expirations['SPXW:20240315']).toMatchObject({
+        status: 'failed',
+        error: 'Failed to fetch 20240315',
+      })
+      // Never reached by the stream, e.g. because the run was interrupted
+      expect(expirations['SPXW:20240316'].status).toBe('pending')
+    })
+
+    it('should record the concurrency each time it changes', async () => {
+      const results = [4, 4, 2, 2, 1].map((concurrency, i) => ({
+        ...createMockExpirationResult(`2024031${i}`, 10),
+        concurrency,
+      }))
+
+      const [metrics] = await Effect.runPromise(
+        Effect.gen(function* (_) {
+          const pipeline = yield* _(DataPipeline)
+          yield* _(
+            pipeline.process(Stream.fromIterable(results), {
+              root: 'SPXW',
+              outputDir: './test-output',
+              chunkSize: 100,
+              compression: false,
+              fileNamePattern: '{root}_exp_{expiration}',
+            }),
+          )
+          return yield* _(Effect.flatMap(MetricsWriter, (writer) => writer.readMetrics()))
+        }).pipe(
+          Effect.provide(
+            DataPipelineLive.pipe(
+              Layer.provide(RateLimiterLive),
+              Layer.provide(DeadLetterQueueTest),
+              Layer.provide(DataWriterTest),
+              Layer.provide(DataValidationLive),
+              Layer.provide(DownloadCheckpointTest),
+              Layer.provideMerge(MetricsWriterTest),
+            ),
+          ),
+        ),
+      )
+
+      expect(
+        metrics.concurrency?.map(({ expiration, concurrency }) => [expiration, concurrency]),
+      ).toEqual([
+        ['20240310', 4],
+        ['20240312', 2],
+        ['20240314', 1],
+      ])
+    })
+
+    it('should mark recovered errors and keep what still failed for a retry', async () => {
+      const earlier = new Error('HTTP 503: Service Unavailable')
+      const results: ExpirationResult[] = [
+        { ...createMockExpirationResult('20240314', 10), attempts: 2, previousErrors: [earlier] },
+        {
+          ...createMockExpirationResult('20240315', 0, false),
+          failureKind: 'transient',
+          attempts: 2,
+          previousErrors: [earlier],
+        },
+      ]
+
+      const { metrics, runs } = await Effect.runPromise(
+        Effect.gen(function* (_) {
+          const pipeline = yield* _(DataPipeline)
+          yield* _(
+            pipeline.process(Stream.fromIterable(results), {
+              root: 'SPXW',
+              outputDir: './test-output',
+              chunkSize: 100,
+              compression: false,
+              fileNamePattern: '{root}_exp_{expiration}',
+              tradeDate: '20240313',
+              interval: 60000,
+            }),
+          )
+          const [metrics] = yield* _(
+            Effect.flatMap(MetricsWriter, (writer) => writer.readMetrics()),
+          )
+          const runs = yield* _(
+            Effect.flatMap(DeadLetterQueue, (queue) => queue.list('./test-output')),
+          )
+          return { metrics, runs }
+        }).pipe(
+          Effect.provide(
+            DataPipelineLive.pipe(
+              Layer.provide(RateLimiterLive),
+              Layer.provide(DataWriterTest),
+              Layer.provide(DataValidationLive),
+              Layer.provide(DownloadCheckpointTest),
+              Layer.provideMerge(Layer.merge(MetricsWriterTest, DeadLetterQueueTest)),
+            ),
+          ),
+        ),
+      )
+
+      expect(
+        metrics.errors.map(({ expiration, recovered, failureKind }) => [
+          expiration,
+          recovered,
+          failureKind,
+        ]),
+      ).toEqual([
+        ['20240314', true, 'transient'],
+        ['20240315', false, 'transient'],
+        ['20240315', false, 'transient'],
+      ])
+
+      expect(runs).toHaveLength(1)
+      expect(runs[0]).toMatchObject({
+        runId: metrics.runId,
+        root: 'SPXW',
+        tradeDate: '20240313',
+        interval: 60000,
+        entries: [
+          {
+            expiration: '20240315',
+            errorType: 'FetchError',
+            message: 'Failed to fetch 20240315',
+            failureKind: 'transient',
+            attempts: 2,
+          },
+        ],
+      })
+    })
+
     it('should handle empty stream', async () => {
       const config: PipelineConfig = {
+        root: 'SPXW',
         outputDir: './test-output',
         chunkSize: 100,
         compression: false,
-        fileNamePattern: 'SPXW_{expiration}.csv',
+        fileNamePattern: '{root}_exp_{expiration}',
       }
 
       await Effect.runPromise(
@@ -148,10 +335,11 @@ describe('DataPipeline', () => {
       ]
 
       const config: PipelineConfig = {
+        root: 'SPXW',
         outputDir: './test-output',
         chunkSize: 1000,
         compression: false,
-        fileNamePattern: 'SPXW_{expiration}.csv',
+        fileNamePattern: '{root}_exp_{expiration}',
       }
 
       const startTime = Date.now()
@@ -170,6 +358,283 @@ describe('DataPipeline', () => {
     })
   })
 
+  describe('streamed records', () => {
+    const outputDir = `/tmp/spx-pipeline-stream-test-${Date.now()}-${Math.random().toString(36).slice(2)}`
+
+    const config: PipelineConfig = {
+      root: 'SPXW',
+      outputDir,
+      chunkSize: 40,
+      compression: false,
+      fileNamePattern: '{root}_exp_{expiration}',
+    }
+
+    const streamedResult = (
+      expiration: string,
+      records: ExpirationResult['records'],
+    ): ExpirationResult => ({
+      expiration,
+      success: true,
+      records,
+      recordCount: 0,
+      processingTimeMs: 0,
+    })
+
+    const runPipeline = (results: ExpirationResult[], overrides: Partial<PipelineConfig> = {}) =>
+      Effect.runPromise(
+        Effect.gen(function* (_) {
+          const pipeline = yield* _(DataPipeline)
+          const checkpoint = yield* _(DownloadCheckpoint)
+          yield* _(pipeline.process(Stream.fromIterable(results), { ...config, ...overrides }))
+          return Option.getOrThrow(yield* _(checkpoint.load(outputDir))).expirations
+        }).pipe(
+          Effect.provide(
+            DataPipelineLive.pipe(
+              Layer.provide(RateLimiterLive),
+              Layer.provide(DeadLetterQueueTest),
+              Layer.provide(DataWriterCsvLive),
+              Layer.provide(MetricsWriterTest),
+              Layer.provide(DataValidationLive),
+              Layer.provideMerge(DownloadCheckpointTest),
+            ),
+          ),
+        ),
+      )
+
+    afterEach(async () => {
+      await Bun.$`rm -rf ${outputDir}`.quiet()
+    })
+
+    it('should write streamed rows in chunks to a single file', async () => {
+      const expirations = await runPipeline([
+        // Rows arrive in uneven chunks, as they would from a response body
+        streamedResult(
+          '20240315',
+          Stream.fromIterable(createMockGreeksData(100)).pipe(Stream.rechunk(7)),
+        ),
+      ])
+
+      const lines = (await Bun.file(`${outputDir}/spxw_exp_20240315.csv`).text()).trim().split('\n')
+      expect(lines).toHaveLength(101) // Header plus every row
+      expect(lines[1].startsWith('SPXW,20240315,SPXW  240315C00004500,4500,C,')).toBe(true)
+      expect(expirations['SPXW:20240315']).toMatchObject({ status: 'complete', recordCount: 100 })
+    })
+
+    it('should discard a partially streamed expiration when the response fails', async () => {
+      const expirations = await runPipeline([
+        streamedResult(
+          '20240315',
+          Stream.fromIterable(createMockGreeksData(100)).pipe(
+            Stream.concat(Stream.fail(new BulkProcessingError({ message: 'Connection reset' }))),
+          ),
+        ),
+        streamedResult('20240318', Stream.fromIterable(createMockGreeksData(10))),
+      ])
+
+      expect(await Bun.file(`${outputDir}/spxw_exp_20240315.csv`).exists()).toBe(false)
+      expect(await Bun.file(`${outputDir}/spxw_exp_20240315.csv.tmp`).exists()).toBe(false)
+      expect(expirations['SPXW:20240315']).toMatchObject({
+        status: 'failed',
+        error: 'Connection reset',
+      })
+      expect(expirations['SPXW:20240318']).toMatchObject({ status: 'complete', recordCount: 10 })
+    })
+
+    it('should hand a failed stream back and write the next fetch from scratch', async () => {
+      const handedBack: string[] = []
+      const failing: ExpirationResult = {
+        ...streamedResult(
+          '20240315',
+          Stream.fromIterable(createMockGreeksData(100)).pipe(
+            Stream.concat(Stream.fail(new BulkProcessingError({ message: 'Connection reset' }))),
+          ),
+        ),
+        retry: (error) =>
+          Effect.sync(() => {
+            handedBack.push(error.message)
+            return {
+              ...streamedResult('20240315', Stream.fromIterable(createMockGreeksData(60))),
+              attempts: 2,
+              previousErrors: [error],
+            }
+          }),
+      }
+
+      const expirations = await runPipeline([failing])
+
+      expect(handedBack).toEqual(['Connection reset'])
+      const lines = (await Bun.file(`${outputDir}/spxw_exp_20240315.csv`).text()).trim().split('\n')
+      expect(lines).toHaveLength(61) // Only the second fetch's rows
+      expect(expirations['SPXW:20240315']).toMatchObject({ status: 'complete', recordCount: 60 })
+    })
+
+    it('should record each failure once when a stream fails again after a retry', async () => {
+      const failingAfter = (count: number, message: string) =>
+        Stream.fromIterable(createMockGreeksData(count)).pipe(
+          Stream.concat(Stream.fail(new BulkProcessingError({ message }))),
+        )
+      const first: ExpirationResult = {
+        ...streamedResult('20240315', failingAfter(50, 'Connection reset')),
+        retry: (firstError) =>
+          Effect.succeed({
+            ...streamedResult('20240315', failingAfter(20, 'Connection reset again')),
+            attempts: 2,
+            previousErrors: [firstError],
+            // Out of passes: the processor hands back the failure with the earlier one
+            retry: (secondError) =>
+              Effect.succeed({
+                expiration: '20240315',
+                success: false,
+                error: secondError,
+                failureKind: 'transient',
+                recordCount: 0,
+                processingTimeMs: 0,
+                attempts: 2,
+                previousErrors: [firstError],
+              }),
+          }),
+      }
+
+      const [metrics] = await Effect.runPromise(
+        Effect.gen(function* (_) {
+          const pipeline = yield* _(DataPipeline)
+          yield* _(pipeline.process(Stream.make(first), config))
+          return yield* _(Effect.flatMap(MetricsWriter, (writer) => writer.readMetrics()))
+        }).pipe(
+          Effect.provide(
+            DataPipelineLive.pipe(
+              Layer.provide(RateLimiterLive),
+              Layer.provide(DeadLetterQueueTest),
+              Layer.provide(DataWriterCsvLive),
+              Layer.provide(DataValidationLive),
+              Layer.provide(DownloadCheckpointTest),
+              Layer.provideMerge(MetricsWriterTest),
+            ),
+          ),
+        ),
+      )
+
+      expect(metrics.errors.map(({ message, recovered }) => [message, recovered ?? false])).toEqual(
+        [
+          ['Connection reset', false],
+          ['Connection reset again', false],
+        ],
+      )
+      expect(metrics.failedExpirations).toBe(1)
+    })
+
+    it('should read several streamed expirations at once, each into its own file', async () => {
+      let reading = 0
+      let peak = 0
+      // A response read slowly enough for the next one to start meanwhile
+      const slowRecords = (count: number) =>
+        Stream.acquireRelease(
+          Effect.sync(() => {
+            reading++
+            peak = Math.max(peak, reading)
+          }),
+          () => Effect.sync(() => reading--),
+        ).pipe(
+          Stream.flatMap(() =>
+            Stream.fromIterable(createMockGreeksData(count)).pipe(
+              Stream.rechunk(10),
+              Stream.tap(() => Effect.sleep(1)),
+            ),
+          ),
+        )
+
+      const expirations = await runPipeline(
+        [
+          streamedResult('20240315', slowRecords(60)),
+          streamedResult('20240318', slowRecords(50)),
+          streamedResult('20240319', slowRecords(40)),
+        ],
+        { concurrency: 2 },
+      )
+
+      expect(peak).toBe(2)
+      for (const [expiration, count] of [
+        ['20240315', 60],
+        ['20240318', 50],
+        ['20240319', 40],
+      ] as const) {
+        const lines = (await Bun.file(`${outputDir}/spxw_exp_${expiration}.csv`).text())
+          .trim()
+          .split('\n')
+        expect(lines).toHaveLength(count + 1)
+        expect(lines.slice(1).every((line) => line.startsWith(`SPXW,${expiration},`))).toBe(true)
+        expect(expirations[`SPXW:${expiration}`]).toMatchObject({
+          status: 'complete',
+          recordCount: count,
+        })
+      }
+    })
+
+    it('should write rows of other datasets with their own columns', async () => {
+      const openInterest = createMockGreeksData(3).map((row) => ({
+        strike: row.strike,
+        right: row.right,
+        openInterest: 1200,
+        timestamp: row.timestamp,
+      }))
+
+      const expirations = await runPipeline(
+        [
+          {
+            expiration: '20240315',
+            success: true,
+            rows: openInterest,
+            recordCount: 3,
+            processingTimeMs: 0,
+          },
+        ],
+        { dataset: 'open_interest' },
+      )
+
+      const lines = (await Bun.file(`${outputDir}/spxw_exp_20240315.csv`).text()).trim().split('\n')
+      expect(lines[0]).toBe(
+        'root,expiration,contract,strike,right,open_interest,trade_date,ms_of_day,timestamp,schema_version',
+      )
+      expect(lines[1].startsWith('SPXW,20240315,SPXW  240315C00004500,4500,C,1200,')).toBe(true)
+      expect(expirations['SPXW:20240315']).toMatchObject({ status: 'complete', recordCount: 3 })
+    })
+
+    it('should place files by the path template, with the trade date and DTE', async () => {
+      const dataDirectory = path.join(outputDir, 'partitioned')
+      const expirations = await runPipeline(
+        [
+          { ...createMockExpirationResult('20240315', 5), dte: 1 },
+          // Without a DTE from the processor, calendar days from the trade date are used
+          createMockExpirationResult('20240318', 5),
+        ],
+        {
+          fileNamePattern: 'root={root}/date={tradeDate}/dte={dte}/{dataset}_{expiration}',
+          dataDirectory,
+          tradeDate: '20240314',
+        },
+      )
+
+      const first = path.join(dataDirectory, 'root=spxw/date=20240314/dte=1/greeks_20240315.csv')
+      const second = path.join(dataDirectory, 'root=spxw/date=20240314/dte=4/greeks_20240318.csv')
+      expect(await Bun.file(first).exists()).toBe(true)
+      expect(await Bun.file(second).exists()).toBe(true)
+      // The download status stays in the output directory
+      expect(expirations['SPXW:20240315']).toMatchObject({ status: 'complete', filePath: first })
+      expect(expirations['SPXW:20240318']).toMatchObject({ status: 'complete', filePath: second })
+    })
+
+    it('should reject a path template it cannot render before processing anything', async () => {
+      const results = [createMockExpirationResult('20240315', 5)]
+
+      await expect(runPipeline(results, { fileNamePattern: '{root}/{expiry}' })).rejects.toThrow(
+        'unknown placeholder {expiry}',
+      )
+      await expect(
+        runPipeline(results, { fileNamePattern: '{tradeDate}/{expiration}' }),
+      ).rejects.toThrow('uses {tradeDate} but no trade date was given')
+    })
+  })
+
   describe('getProgress', () => {
     it('should track progress during processing', async () => {
       const results: ExpirationResult[] = [
@@ -178,10 +643,11 @@ describe('DataPipeline', () => {
       ]
 
       const config: PipelineConfig = {
+        root: 'SPXW',
         outputDir: './test-output',
         chunkSize: 50,
         compression: false,
-        fileNamePattern: 'SPXW_{expiration}.csv',
+        fileNamePattern: '{root}_exp_{expiration}',
       }
 
       const progressUpdates: unknown[] = []
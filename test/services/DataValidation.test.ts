@@ -0,0 +1,182 @@
+import { describe, expect, it } from 'bun:test'
+import { type ConfigError, ConfigProvider, Effect, Layer, Option, Stream } from 'effect'
+import { DataPipelineLive } from '../../src/layers/DataPipelineLive'
+import { DataValidationLive, makeDataValidationLive } from '../../src/layers/DataValidationLive'
+import { DataWriterTest } from '../../src/layers/DataWriterTest'
+import { DeadLetterQueueTest } from '../../src/layers/DeadLetterQueueTest'
+import { DownloadCheckpointTest } from '../../src/layers/DownloadCheckpointTest'
+import { MetricsWriterTest } from '../../src/layers/MetricsWriterTest'
+import { RateLimiterLive } from '../../src/layers/RateLimiterLive'
+import type { ExpirationResult } from '../../src/services/BulkGreeksProcessor'
+import { DataPipeline } from '../../src/services/DataPipeline'
+import { DataValidationService } from '../../src/services/DataValidationService'
+import { DownloadCheckpoint } from '../../src/services/DownloadCheckpoint'
+import { MetricsWriter } from '../../src/services/MetricsWriter'
+import type { OptionsGreeksData } from '../../src/services/ThetaDataApiClient'
+
+const row = (overrides: Partial<OptionsGreeksData> = {}): OptionsGreeksData => ({
+  strike: 4500,
+  right: 'C',
+  bid: 10,
+  ask: 10.5,
+  delta: 0.5,
+  theta: -0.05,
+  vega: 0.2,
+  rho: 0.1,
+  epsilon: 0.05,
+  lambda: 0.8,
+  impliedVolatility: 0.15,
+  ivError: 0,
+  underlyingPrice: 4510.25,
+  timestamp: new Date('2024-03-14T13:30:00.000Z'),
+  ...overrides,
+})
+
+const withConfig = (entries: ReadonlyArray<[string, string]>) =>
+  DataValidationLive.pipe(
+    Layer.provide(Layer.setConfigProvider(ConfigProvider.fromMap(new Map(entries)))),
+  )
+
+const validate = (
+  rows: ReadonlyArray<OptionsGreeksData>,
+  layer: Layer.Layer<DataValidationService, ConfigError.ConfigError> = withConfig([]),
+) =>
+  Effect.runPromise(
+    Effect.gen(function* (_) {
+      const validation = yield* _(DataValidationService)
+      return yield* _(validation.validateExpiration('20240315', rows))
+    }).pipe(Effect.provide(layer)),
+  )
+
+describe('DataValidationLive', () => {
+  it('should drop bad quotes and warn on iv_error spikes by default', async () => {
+    const result = await validate([
+      row(),
+      row({ strike: 4510, bid: 11, ask: 10 }), // crossed
+      row({ strike: 4520, bid: -0.05 }), // negative bid
+      row({ strike: 4530, impliedVolatility: 12 }), // absurd IV
+      row({ strike: 4540, underlyingPrice: 0 }), // missing underlying
+      row({ strike: 4550, ivError: 0.5 }), // kept with a warning
+      row({ strike: 4560, bid: 0.05, ask: 0 }), // no offer, not crossed
+    ])
+
+    expect(result.failed).toBe(false)
+    expect(result.rows.map((r) => r.strike)).toEqual([4500, 4550, 4560])
+    expect(result.report).toMatchObject({ rowsChecked: 7, rowsDropped: 4, rowsWarned: 1 })
+    expect(result.report.rules.map((r) => [r.rule, r.count])).toEqual([
+      ['negative-price', 1],
+      ['crossed-market', 1],
+      ['implied-volatility', 1],
+      ['iv-error', 1],
+      ['underlying-price', 1],
+    ])
+    expect(result.report.rules[1].samples[0]).toBe(
+      'C 4510 @ 2024-03-14T13:30:00.000Z: bid 11 > ask 10',
+    )
+  })
+
+  it('should reject the whole expiration when a fail-policy rule fires', async () => {
+    const result = await validate(
+      [row(), row({ strike: 4510, bid: 11, ask: 10 })],
+      withConfig([['CONFIG_VALIDATION_CROSSED_MARKET_POLICY', 'fail']]),
+    )
+
+    expect(result.failed).toBe(true)
+    expect(result.rows).toEqual([])
+    expect(result.report.failedExpirations).toEqual(['20240315'])
+  })
+
+  it('should apply a custom rule set', async () => {
+    const result = await validate(
+      [row(), row({ strike: 4510, delta: 1.5 })],
+      makeDataValidationLive([
+        {
+          name: 'delta-range',
+          policy: 'drop',
+          check: (r) => (Math.abs(r.delta) <= 1 ? undefined : `delta ${r.delta}`),
+        },
+      ]),
+    )
+
+    expect(result.rows.map((r) => r.strike)).toEqual([4500])
+    expect(result.report.rules).toEqual([
+      {
+        rule: 'delta-range',
+        policy: 'drop',
+        count: 1,
+        samples: ['C 4510 @ 2024-03-14T13:30:00.000Z: delta 1.5'],
+      },
+    ])
+  })
+
+  it('should write only valid rows and attach the report to run metrics', async () => {
+    const results: ExpirationResult[] = [
+      {
+        expiration: '20240315',
+        success: true,
+        recordCount: 3,
+        processingTimeMs: 10,
+        data: [row(), row({ strike: 4510, bid: 11, ask: 10 }), row({ strike: 4520 })],
+      },
+      {
+        expiration: '20240318',
+        success: true,
+        recordCount: 1,
+        processingTimeMs: 10,
+        data: [row({ underlyingPrice: 0 })],
+      },
+    ]
+
+    const { metrics, status } = await Effect.runPromise(
+      Effect.gen(function* (_) {
+        const pipeline = yield* _(DataPipeline)
+        const metricsWriter = yield* _(MetricsWriter)
+        const checkpoint = yield* _(DownloadCheckpoint)
+        yield* _(
+          pipeline.process(Stream.fromIterable(results), {
+            root: 'SPXW',
+            outputDir: './test-output',
+            chunkSize: 1000,
+            compression: false,
+            fileNamePattern: '{root}_exp_{expiration}',
+          }),
+        )
+        return {
+          metrics: yield* _(metricsWriter.readMetrics()),
+          status: yield* _(checkpoint.load('./test-output')),
+        }
+      }).pipe(
+        Effect.provide(
+          DataPipelineLive.pipe(
+            Layer.provide(RateLimiterLive),
+            Layer.provide(DeadLetterQueueTest),
+            Layer.provide(DataWriterTest),
+            Layer.provide(withConfig([['CONFIG_VALIDATION_UNDERLYING_PRICE_POLICY', 'fail']])),
+            Layer.provideMerge(Layer.merge(MetricsWriterTest, DownloadCheckpointTest)),
+          ),
+        ),
+      ),
+    )
+
+    expect(metrics).toHaveLength(1)
+    expect(metrics[0]).toMatchObject({
+      totalRecords: 2,
+      successfulExpirations: 1,
+      failedExpirations: 1,
+    })
+    expect(metrics[0].errors[0]).toMatchObject({
+      expiration: '20240318',
+      errorType: 'ValidationError',
+      message: 'Validation failed: 1 rows failed underlying-price',
+    })
+    expect(metrics[0].validation).toMatchObject({
+      rowsChecked: 4,
+      rowsDropped: 1,
+      failedExpirations: ['20240318'],
+    })
+
+    const expirations = Option.getOrThrow(status).expirations
+    expect(expirations['SPXW:20240315']).toMatchObject({ status: 'complete', recordCount: 2 })
+    expect(expirations['SPXW:20240318'].status).toBe('failed')
+  })
+})
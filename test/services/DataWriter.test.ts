@@ -1,8 +1,21 @@
-import { describe, expect, it } from 'bun:test'
-import { Effect } from 'effect'
+import { afterEach, describe, expect, it } from 'bun:test'
+import * as path from 'node:path'
+import * as zlib from 'node:zlib'
+import { Effect, type Layer } from 'effect'
+import { makeDataWriterCsvLive } from '../../src/layers/DataWriterCsvLive'
+import {
+  type JsonlWriterOptions,
+  makeDataWriterJsonlLive,
+} from '../../src/layers/DataWriterJsonlLive'
 import { DataWriterTest } from '../../src/layers/DataWriterTest'
-import { DataWriter, type WriteMetadata } from '../../src/services/DataWriter'
+import {
+  type CsvCompression,
+  DataWriter,
+  type OutputLocation,
+  type WriteMetadata,
+} from '../../src/services/DataWriter'
 import type { OptionsGreeksData } from '../../src/services/ThetaDataApiClient'
+import { createMockData as createWriterRows } from './fixtures'
 
 describe('DataWriter', () => {
   const createMockData = (count: number): OptionsGreeksData[] => {
@@ -32,6 +45,7 @@ describe('DataWriter', () => {
     it('should write data chunks successfully', async () => {
       const data = createMockData(100)
       const metadata: WriteMetadata = {
+        root: 'SPXW',
         expiration: '20240314',
         outputDir: './test-data/20240314',
         isFirstChunk: true,
@@ -62,6 +76,7 @@ describe('DataWriter', () => {
           // Write first chunk
           yield* _(
             writer.writeChunk(chunk1, {
+              root: 'SPXW',
               expiration: '20240314',
               outputDir: './test-data/20240314',
               isFirstChunk: true,
@@ -74,6 +89,7 @@ describe('DataWriter', () => {
           // Write second chunk
           yield* _(
             writer.writeChunk(chunk2, {
+              root: 'SPXW',
               expiration: '20240314',
               outputDir: './test-data/20240314',
               isFirstChunk: false,
@@ -99,6 +115,7 @@ describe('DataWriter', () => {
           // Write first expiration
           yield* _(
             writer.writeChunk(data1, {
+              root: 'SPXW',
               expiration: '20240314',
               outputDir: './test-data/20240314',
               isFirstChunk: true,
@@ -111,6 +128,7 @@ describe('DataWriter', () => {
           // Write second expiration
           yield* _(
             writer.writeChunk(data2, {
+              root: 'SPXW',
               expiration: '20240315',
               outputDir: './test-data/20240314',
               isFirstChunk: true,
@@ -136,6 +154,7 @@ describe('DataWriter', () => {
 
           yield* _(
             writer.writeChunk(data, {
+              root: 'SPXW',
               expiration: '20240314',
               outputDir: './test-data/20240314',
               isFirstChunk: true,
@@ -183,3 +202,185 @@ describe('DataWriter', () => {
     })
   })
 })
+
+describe('text DataWriters', () => {
+  const outputDir = `/tmp/spx-writer-test-${Date.now()}-${Math.random().toString(36).slice(2)}`
+  const location = { root: 'SPXW', expiration: '20240315', outputDir }
+
+  // The CSV and JSON Lines writers, by the extension of their uncompressed files
+  const writers = {
+    csv: (compression: CsvCompression = 'none') => makeDataWriterCsvLive({ compression }),
+    jsonl: (compression: CsvCompression = 'none', fields?: JsonlWriterOptions['fields']) =>
+      makeDataWriterJsonlLive({ compression, fields }),
+  }
+
+  afterEach(async () => {
+    await Bun.$`rm -rf ${outputDir}`.quiet()
+  })
+
+  // Write 200 rows of one expiration in two chunks
+  const writeExpiration = (writerLayer: Layer.Layer<DataWriter, unknown>) =>
+    Effect.runPromise(
+      Effect.gen(function* (_) {
+        const writer = yield* _(DataWriter)
+        const data = createWriterRows(200)
+        for (const [index, chunk] of [data.slice(0, 100), data.slice(100)].entries()) {
+          yield* _(
+            writer.writeChunk(chunk, {
+              ...location,
+              isFirstChunk: index === 0,
+              isLastChunk: index === 1,
+              chunkIndex: index,
+            }),
+          )
+        }
+        return yield* _(writer.finalize())
+      }).pipe(Effect.provide(writerLayer)),
+    )
+
+  // Write the first chunk of an expiration and discard it, or write ten rows as its only chunk
+  const writeTenRows = (
+    writerLayer: Layer.Layer<DataWriter, unknown>,
+    at: OutputLocation,
+    discard = false,
+  ) =>
+    Effect.runPromise(
+      Effect.gen(function* (_) {
+        const writer = yield* _(DataWriter)
+        yield* _(
+          writer.writeChunk(createWriterRows(10), {
+            ...at,
+            isFirstChunk: true,
+            isLastChunk: !discard,
+            chunkIndex: 0,
+          }),
+        )
+        if (discard) {
+          yield* _(writer.discard(at))
+        }
+        return { result: yield* _(writer.finalize()), outputPath: writer.getOutputPath(at) }
+      }).pipe(Effect.provide(writerLayer)),
+    )
+
+  it('should write plain CSV and count its bytes', async () => {
+    const result = await writeExpiration(writers.csv())
+
+    const finalPath = path.join(outputDir, 'spxw_exp_20240315.csv')
+    expect(result.filesCreated).toEqual([finalPath])
+    expect(result.totalRecordsWritten).toBe(200)
+    expect(result.totalBytesWritten).toBe(Bun.file(finalPath).size)
+    expect((await Bun.file(finalPath).text()).trim().split('\n')).toHaveLength(201)
+  })
+
+  it('should write one JSON object per row with ISO timestamps', async () => {
+    const result = await writeExpiration(writers.jsonl())
+
+    const finalPath = path.join(outputDir, 'spxw_exp_20240315.jsonl')
+    expect(result).toMatchObject({ filesCreated: [finalPath], totalRecordsWritten: 200 })
+    expect(result.format).toBe('jsonl')
+    expect(result.totalBytesWritten).toBe(Bun.file(finalPath).size)
+    expect(await Bun.file(`${finalPath}.tmp`).exists()).toBe(false)
+
+    const lines = (await Bun.file(finalPath).text()).trim().split('\n')
+    expect(lines).toHaveLength(200)
+    expect(JSON.parse(lines[1])).toMatchObject({
+      root: 'SPXW',
+      expiration: '20240315',
+      contract: 'SPXW  240315P00004505',
+      strike: 4505,
+      right: 'P',
+      delta: 0.49,
+      timestamp: '2024-03-14T13:30:00.000Z',
+    })
+  })
+
+  it('should keep only the selected JSON Lines fields, in the order given', async () => {
+    const result = await writeExpiration(writers.jsonl('none', ['timestamp', 'contract', 'delta']))
+
+    const [first] = (await Bun.file(result.filesCreated[0]).text()).split('\n')
+    expect(Object.keys(JSON.parse(first))).toEqual(['timestamp', 'contract', 'delta'])
+  })
+
+  it('should fail on JSON Lines fields the dataset does not have', async () => {
+    await expect(writeExpiration(writers.jsonl('none', ['delta', 'gamma']))).rejects.toThrow(
+      'Unknown greeks fields: gamma',
+    )
+  })
+
+  describe('compression', () => {
+    it.each([
+      ['csv', 'gzip', zlib.gunzipSync],
+      ['csv', 'zstd', zlib.zstdDecompressSync],
+      ['jsonl', 'gzip', zlib.gunzipSync],
+      ['jsonl', 'zstd', zlib.zstdDecompressSync],
+    ] as const)(
+      'should compress %s with %s as it writes',
+      async (format, compression, decompress) => {
+        const plain = await writeExpiration(writers[format]())
+        const plainText = await Bun.file(plain.filesCreated[0]).text()
+
+        const result = await writeExpiration(writers[format](compression))
+
+        const extension = `${format}.${compression === 'gzip' ? 'gz' : 'zst'}`
+        const finalPath = path.join(outputDir, `spxw_exp_20240315.${extension}`)
+        expect(result.filesCreated).toEqual([finalPath])
+        expect(result.totalRecordsWritten).toBe(200)
+        // The compressed size on disk, not the text's
+        expect(result.totalBytesWritten).toBe(Bun.file(finalPath).size)
+        expect(result.totalBytesWritten).toBeLessThan(plain.totalBytesWritten)
+        expect(await Bun.file(`${finalPath}.tmp`).exists()).toBe(false)
+
+        const bytes = new Uint8Array(await Bun.file(finalPath).arrayBuffer())
+        expect(decompress(bytes).toString()).toBe(plainText)
+      },
+    )
+
+    it.each([
+      ['csv', 'none', 'csv'],
+      ['csv', 'gzip', 'csv.gz'],
+      ['jsonl', 'none', 'jsonl'],
+      ['jsonl', 'zstd', 'jsonl.zst'],
+    ] as const)(
+      'should discard a partial %s file compressed with %s',
+      async (format, compression, extension) => {
+        const { result, outputPath } = await writeTenRows(
+          writers[format](compression),
+          location,
+          true,
+        )
+
+        expect(outputPath).toBe(path.join(outputDir, `spxw_exp_20240315.${extension}`))
+        expect(result.filesCreated).toEqual([])
+        expect(result.totalBytesWritten).toBe(0)
+        expect(await Bun.file(`${outputPath}.tmp`).exists()).toBe(false)
+      },
+    )
+  })
+
+  describe('path templates', () => {
+    it.each(['csv', 'jsonl'] as const)(
+      'should write %s to the rendered template under the data directory',
+      async (format) => {
+        const templated = {
+          ...location,
+          outputDir: path.join(outputDir, '20240314'),
+          fileNamePattern:
+            'root={root}/trade_date={tradeDate}/dataset={dataset}/dte={dte}/{expiration}',
+          dataDirectory: outputDir,
+          tradeDate: '20240314',
+          dte: 1,
+        }
+
+        const { result, outputPath } = await writeTenRows(writers[format](), templated)
+
+        const finalPath = path.join(
+          outputDir,
+          `root=spxw/trade_date=20240314/dataset=greeks/dte=1/20240315.${format}`,
+        )
+        expect(outputPath).toBe(finalPath)
+        expect(result.filesCreated).toEqual([finalPath])
+        expect(result.totalRecordsWritten).toBe(10)
+      },
+    )
+  })
+})
@@ -0,0 +1,255 @@
+import { afterEach, describe, expect, it } from 'bun:test'
+import * as path from 'node:path'
+import { ParquetReader } from '@dsnp/parquetjs'
+import { Effect } from 'effect'
+import {
+  DataWriterParquetLive,
+  makeDataWriterParquetLive,
+} from '../../src/layers/DataWriterParquetLive'
+import { DataWriter } from '../../src/services/DataWriter'
+import { createMockData } from './fixtures'
+
+describe('DataWriterParquetLive', () => {
+  const outputDir = `/tmp/spx-parquet-test-${Date.now()}-${Math.random().toString(36).slice(2)}`
+
+  afterEach(async () => {
+    await Bun.$`rm -rf ${outputDir}`.quiet()
+  })
+
+  const readRows = async (filePath: string) => {
+    const reader = await ParquetReader.openFile(filePath)
+    const cursor = reader.getCursor()
+    const rows: Array<Record<string, unknown>> = []
+    let row = await cursor.next()
+    while (row) {
+      rows.push(row as Record<string, unknown>)
+      row = await cursor.next()
+    }
+    const rowGroups = reader.metadata?.row_groups ?? []
+    await reader.close()
+    return { rows, rowGroups }
+  }
+
+  it('should write typed columns and rename the temp file on the last chunk', async () => {
+    const data = createMockData(10)
+
+    const result = await Effect.runPromise(
+      Effect.gen(function* (_) {
+        const writer = yield* _(DataWriter)
+        yield* _(
+          writer.writeChunk(data.slice(0, 5), {
+            root: 'SPXW',
+            expiration: '20240315',
+            outputDir,
+            isFirstChunk: true,
+            isLastChunk: false,
+            chunkIndex: 0,
+            totalRecords: 10,
+          }),
+        )
+        yield* _(
+          writer.writeChunk(data.slice(5), {
+            root: 'SPXW',
+            expiration: '20240315',
+            outputDir,
+            isFirstChunk: false,
+            isLastChunk: true,
+            chunkIndex: 1,
+            totalRecords: 10,
+          }),
+        )
+        return yield* _(writer.finalize())
+      }).pipe(Effect.provide(DataWriterParquetLive)),
+    )
+
+    const finalPath = path.join(outputDir, 'spxw_exp_20240315.parquet')
+    expect(result.format).toBe('parquet')
+    expect(result.filesCreated).toEqual([finalPath])
+    expect(result.totalRecordsWritten).toBe(10)
+    expect(result.totalBytesWritten).toBe(Bun.file(finalPath).size)
+    expect(await Bun.file(`${finalPath}.tmp`).exists()).toBe(false)
+
+    const { rows } = await readRows(finalPath)
+    expect(rows).toHaveLength(10)
+    expect(rows[0].strike).toBe(4500)
+    expect(rows[1].right).toBe('P')
+    expect(rows[0].timestamp).toEqual(new Date('2024-03-14T13:30:00.000Z'))
+  })
+
+  it('should write the columns of the chunk dataset', async () => {
+    const quotes = createMockData(3).map((row) => ({
+      strike: row.strike,
+      right: row.right,
+      bidSize: 10,
+      bidExchange: 5,
+      bid: row.bid,
+      bidCondition: 50,
+      askSize: 12,
+      askExchange: 5,
+      ask: row.ask,
+      askCondition: 50,
+      timestamp: row.timestamp,
+    }))
+
+    await Effect.runPromise(
+      Effect.gen(function* (_) {
+        const writer = yield* _(DataWriter)
+        yield* _(
+          writer.writeChunk(quotes, {
+            root: 'SPXW',
+            expiration: '20240315',
+            outputDir,
+            isFirstChunk: true,
+            isLastChunk: true,
+            chunkIndex: 0,
+            dataset: 'quote',
+          }),
+        )
+      }).pipe(Effect.provide(makeDataWriterParquetLive())),
+    )
+
+    const { rows } = await readRows(path.join(outputDir, 'spxw_exp_20240315.parquet'))
+    expect(Object.keys(rows[0])).toEqual([
+      'root',
+      'expiration',
+      'contract',
+      'strike',
+      'right',
+      'bid_size',
+      'bid_exchange',
+      'bid',
+      'bid_condition',
+      'ask_size',
+      'ask_exchange',
+      'ask',
+      'ask_condition',
+      'trade_date',
+      'ms_of_day',
+      'timestamp',
+      'schema_version',
+    ])
+    expect(Number(rows[0].bid_size)).toBe(10)
+    expect(rows[2].ask).toBe(12.5)
+  })
+
+  it("should keep the terminal's contract and raw time columns", async () => {
+    const [row] = createMockData(1)
+
+    await Effect.runPromise(
+      Effect.gen(function* (_) {
+        const writer = yield* _(DataWriter)
+        yield* _(
+          writer.writeChunk(
+            [
+              {
+                ...row,
+                root: 'SPXW',
+                expiration: '20240315',
+                strike: 4_512_500,
+                tradeDate: '20240314',
+                msOfDay: 34_200_000,
+                underlyingMsOfDay: 34_199_000,
+              },
+            ],
+            {
+              root: 'SPXW',
+              expiration: '20240315',
+              outputDir,
+              isFirstChunk: true,
+              isLastChunk: true,
+              chunkIndex: 0,
+            },
+          ),
+        )
+      }).pipe(Effect.provide(makeDataWriterParquetLive())),
+    )
+
+    const { rows } = await readRows(path.join(outputDir, 'spxw_exp_20240315.parquet'))
+    expect(rows[0]).toMatchObject({
+      root: 'SPXW',
+      expiration: '20240315',
+      contract: 'SPXW  240315C04512500',
+      trade_date: '20240314',
+    })
+    expect(Number(rows[0].ms_of_day)).toBe(34_200_000)
+    expect(Number(rows[0].underlying_ms_of_day)).toBe(34_199_000)
+    expect(Number(rows[0].schema_version)).toBe(2)
+  })
+
+  it('should record the time window in the file metadata', async () => {
+    const timeWindow = { startTime: 34_200_000, endTime: 36_000_000 }
+
+    await Effect.runPromise(
+      Effect.gen(function* (_) {
+        const writer = yield* _(DataWriter)
+        yield* _(
+          writer.writeChunk(createMockData(2), {
+            root: 'SPXW',
+            expiration: '20240315',
+            outputDir,
+            isFirstChunk: true,
+            isLastChunk: true,
+            chunkIndex: 0,
+            timeWindow,
+          }),
+        )
+      }).pipe(Effect.provide(makeDataWriterParquetLive())),
+    )
+
+    const reader = await ParquetReader.openFile(path.join(outputDir, 'spxw_exp_20240315.parquet'))
+    const metadata = reader.getMetadata()
+    await reader.close()
+    expect(JSON.parse(String(metadata.time_window))).toEqual(timeWindow)
+  })
+
+  it('should flush row groups of the configured size with ZSTD compression', async () => {
+    const WriterLayer = makeDataWriterParquetLive({ compression: 'ZSTD', rowGroupSize: 4 })
+
+    await Effect.runPromise(
+      Effect.gen(function* (_) {
+        const writer = yield* _(DataWriter)
+        yield* _(
+          writer.writeChunk(createMockData(10), {
+            root: 'SPXW',
+            expiration: '20240315',
+            outputDir,
+            isFirstChunk: true,
+            isLastChunk: true,
+            chunkIndex: 0,
+            totalRecords: 10,
+          }),
+        )
+      }).pipe(Effect.provide(WriterLayer)),
+    )
+
+    const { rows, rowGroups } = await readRows(path.join(outputDir, 'spxw_exp_20240315.parquet'))
+    expect(rows).toHaveLength(10)
+    expect(rowGroups).toHaveLength(3)
+    // Thrift CompressionCodec.ZSTD
+    expect(rowGroups[0].columns[0].meta_data?.codec).toBe(6)
+  })
+
+  it('should leave an unfinished expiration as a temp file until finalize', async () => {
+    await Effect.runPromise(
+      Effect.gen(function* (_) {
+        const writer = yield* _(DataWriter)
+        yield* _(
+          writer.writeChunk(createMockData(3), {
+            root: 'SPXW',
+            expiration: '20240315',
+            outputDir,
+            isFirstChunk: true,
+            isLastChunk: false,
+            chunkIndex: 0,
+          }),
+        )
+
+        const finalPath = path.join(outputDir, 'spxw_exp_20240315.parquet')
+        expect(yield* _(Effect.promise(() => Bun.file(finalPath).exists()))).toBe(false)
+
+        const result = yield* _(writer.finalize())
+        expect(result.filesCreated).toEqual([finalPath])
+      }).pipe(Effect.provide(DataWriterParquetLive)),
+    )
+  })
+})
@@ -0,0 +1,67 @@
+import { afterEach, describe, expect, it } from 'bun:test'
+import * as path from 'node:path'
+import { Effect } from 'effect'
+import { DEAD_LETTER_DIR_NAME, JsonDeadLetterQueueLive } from '../../src/layers/JsonDeadLetterQueue'
+import { DeadLetterQueue, type DeadLetterRun } from '../../src/services/DeadLetterQueue'
+
+describe('JsonDeadLetterQueueLive', () => {
+  const outputDir = `/tmp/spx-dead-letters-${Date.now()}-${Math.random().toString(36).slice(2)}`
+
+  afterEach(async () => {
+    await Bun.$`rm -rf ${outputDir}`.quiet()
+  })
+
+  const run = (runId: string, createdAt: string): DeadLetterRun => ({
+    runId,
+    createdAt,
+    outputDir,
+    root: 'SPXW',
+    tradeDate: '20240314',
+    interval: 60000,
+    entries: [
+      {
+        expiration: '20240315',
+        errorType: 'FetchError',
+        message: 'HTTP 503',
+        failureKind: 'transient',
+        attempts: 2,
+      },
+    ],
+  })
+
+  const withQueue = <A, E>(f: (queue: DeadLetterQueue['Type']) => Effect.Effect<A, E>) =>
+    Effect.runPromise(
+      Effect.flatMap(DeadLetterQueue, f).pipe(Effect.provide(JsonDeadLetterQueueLive)),
+    )
+
+  it('should list nothing before any run has failed', async () => {
+    expect(await withQueue((queue) => queue.list(outputDir))).toEqual([])
+  })
+
+  it('should keep one file per run and list them oldest first', async () => {
+    const runs = await withQueue((queue) =>
+      Effect.gen(function* (_) {
+        yield* _(queue.write(run('b', '2024-03-14T22:00:00.000Z')))
+        yield* _(queue.write(run('a', '2024-03-14T21:00:00.000Z')))
+        return yield* _(queue.list(outputDir))
+      }),
+    )
+
+    expect(runs.map((r) => r.runId)).toEqual(['a', 'b'])
+    expect(runs[0]).toEqual(run('a', '2024-03-14T21:00:00.000Z'))
+    expect(await Bun.file(path.join(outputDir, DEAD_LETTER_DIR_NAME, 'b.json')).exists()).toBe(true)
+  })
+
+  it('should forget a removed run', async () => {
+    const runs = await withQueue((queue) =>
+      Effect.gen(function* (_) {
+        yield* _(queue.write(run('a', '2024-03-14T21:00:00.000Z')))
+        yield* _(queue.write(run('b', '2024-03-14T22:00:00.000Z')))
+        yield* _(queue.remove(outputDir, 'a'))
+        return yield* _(queue.list(outputDir))
+      }),
+    )
+
+    expect(runs.map((r) => r.runId)).toEqual(['b'])
+  })
+})
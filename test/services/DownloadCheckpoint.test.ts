@@ -0,0 +1,208 @@
+import { afterEach, describe, expect, it } from 'bun:test'
+import * as crypto from 'node:crypto'
+import * as path from 'node:path'
+import { Effect, Layer, Option, Stream } from 'effect'
+import { DataPipelineLive } from '../../src/layers/DataPipelineLive'
+import { DataValidationLive } from '../../src/layers/DataValidationLive'
+import { DataWriterCsvLive } from '../../src/layers/DataWriterCsvLive'
+import { JsonDeadLetterQueueLive } from '../../src/layers/JsonDeadLetterQueue'
+import { JsonDownloadCheckpointLive } from '../../src/layers/JsonDownloadCheckpoint'
+import { MetricsWriterTest } from '../../src/layers/MetricsWriterTest'
+import { RateLimiterLive } from '../../src/layers/RateLimiterLive'
+import type { ExpirationResult } from '../../src/services/BulkGreeksProcessor'
+import { DataPipeline } from '../../src/services/DataPipeline'
+import { DownloadCheckpoint } from '../../src/services/DownloadCheckpoint'
+
+describe('JsonDownloadCheckpointLive', () => {
+  const outputDir = `/tmp/spx-checkpoint-test-${Date.now()}-${Math.random().toString(36).slice(2)}`
+
+  afterEach(async () => {
+    await Bun.$`rm -rf ${outputDir}`.quiet()
+  })
+
+  it('should return none when no status.json exists', async () => {
+    const status = await Effect.runPromise(
+      Effect.gen(function* (_) {
+        const checkpoint = yield* _(DownloadCheckpoint)
+        return yield* _(checkpoint.load(outputDir))
+      }).pipe(Effect.provide(JsonDownloadCheckpointLive)),
+    )
+
+    expect(Option.isNone(status)).toBe(true)
+  })
+
+  it('should persist status transitions to status.json', async () => {
+    await Effect.runPromise(
+      Effect.gen(function* (_) {
+        const checkpoint = yield* _(DownloadCheckpoint)
+        yield* _(checkpoint.markPending(outputDir, 'SPXW', ['2024-03-15', '20240318', '20240319']))
+        yield* _(checkpoint.markInProgress(outputDir, 'SPXW', '20240315'))
+        yield* _(
+          checkpoint.markComplete(outputDir, 'SPXW', '20240315', {
+            recordCount: 42,
+            filePath: path.join(outputDir, 'spxw_exp_20240315.csv'),
+            checksum: 'abc123',
+          }),
+        )
+        yield* _(checkpoint.markFailed(outputDir, 'SPXW', '20240318', 'Connection reset'))
+      }).pipe(Effect.provide(JsonDownloadCheckpointLive)),
+    )
+
+    const saved = await Bun.file(path.join(outputDir, 'status.json')).json()
+    expect(saved.outputDir).toBe(outputDir)
+    expect(saved.expirations['SPXW:20240315']).toMatchObject({
+      status: 'complete',
+      recordCount: 42,
+      checksum: 'abc123',
+    })
+    expect(saved.expirations['SPXW:20240318']).toMatchObject({
+      status: 'failed',
+      error: 'Connection reset',
+    })
+    expect(saved.expirations['SPXW:20240319'].status).toBe('pending')
+    expect(await Bun.file(path.join(outputDir, 'status.json.tmp')).exists()).toBe(false)
+  })
+
+  it('should keep roots apart and read status files without roots as SPXW', async () => {
+    // status.json as written before roots were recorded
+    await Bun.write(
+      path.join(outputDir, 'status.json'),
+      JSON.stringify({
+        outputDir,
+        createdAt: '2024-03-15T21:00:00.000Z',
+        updatedAt: '2024-03-15T21:00:00.000Z',
+        expirations: {
+          '20240315': {
+            expiration: '20240315',
+            status: 'complete',
+            recordCount: 10,
+            updatedAt: '2024-03-15T21:00:00.000Z',
+          },
+        },
+      }),
+    )
+
+    const status = await Effect.runPromise(
+      Effect.gen(function* (_) {
+        const checkpoint = yield* _(DownloadCheckpoint)
+        yield* _(checkpoint.markFailed(outputDir, 'spx', '20240315', 'Timeout'))
+        return yield* _(checkpoint.load(outputDir))
+      }).pipe(Effect.provide(JsonDownloadCheckpointLive)),
+    )
+
+    const expirations = Option.getOrThrow(status).expirations
+    expect(Object.keys(expirations).sort()).toEqual(['SPX:20240315', 'SPXW:20240315'])
+    expect(expirations['SPXW:20240315']).toMatchObject({ root: 'SPXW', status: 'complete' })
+    expect(expirations['SPX:20240315']).toMatchObject({ root: 'SPX', status: 'failed' })
+  })
+
+  it('should keep completed expirations when marked pending again', async () => {
+    const status = await Effect.runPromise(
+      Effect.gen(function* (_) {
+        const checkpoint = yield* _(DownloadCheckpoint)
+        yield* _(checkpoint.markComplete(outputDir, 'SPXW', '20240315', { recordCount: 10 }))
+        yield* _(checkpoint.markFailed(outputDir, 'SPXW', '20240318', 'Timeout'))
+        yield* _(checkpoint.markPending(outputDir, 'SPXW', ['20240315', '20240318']))
+        return yield* _(checkpoint.load(outputDir))
+      }).pipe(Effect.provide(JsonDownloadCheckpointLive)),
+    )
+
+    const expirations = Option.getOrThrow(status).expirations
+    expect(expirations['SPXW:20240315'].status).toBe('complete')
+    expect(expirations['SPXW:20240318'].status).toBe('pending')
+    expect(expirations['SPXW:20240318'].error).toBeUndefined()
+  })
+
+  it('should keep the recorded download settings as expirations are updated', async () => {
+    const settings = {
+      dataset: 'quote',
+      interval: 3600000,
+      format: 'parquet',
+      compression: 'none',
+      parquetCodec: 'zstd',
+      pathTemplate: '{root}/{expiration}',
+    } as const
+
+    const status = await Effect.runPromise(
+      Effect.gen(function* (_) {
+        const checkpoint = yield* _(DownloadCheckpoint)
+        yield* _(checkpoint.markPending(outputDir, 'SPXW', ['20240315']))
+        yield* _(checkpoint.recordSettings(outputDir, settings))
+        yield* _(checkpoint.markComplete(outputDir, 'SPXW', '20240315', { recordCount: 10 }))
+        return yield* _(checkpoint.load(outputDir))
+      }).pipe(Effect.provide(JsonDownloadCheckpointLive)),
+    )
+
+    expect(Option.getOrThrow(status).settings).toEqual(settings)
+    expect(Option.getOrThrow(status).expirations['SPXW:20240315'].status).toBe('complete')
+  })
+
+  it('should record the checksum of the renamed output file', async () => {
+    const result: ExpirationResult = {
+      expiration: '20240315',
+      success: true,
+      recordCount: 1,
+      processingTimeMs: 10,
+      data: [
+        {
+          strike: 4500,
+          right: 'C',
+          bid: 10,
+          ask: 10.5,
+          delta: 0.5,
+          theta: -0.05,
+          vega: 0.2,
+          rho: 0.1,
+          epsilon: 0.05,
+          lambda: 0.8,
+          impliedVolatility: 0.15,
+          ivError: 0,
+          underlyingPrice: 4510.25,
+          timestamp: new Date('2024-03-14T13:30:00.000Z'),
+        },
+      ],
+    }
+
+    const status = await Effect.runPromise(
+      Effect.gen(function* (_) {
+        const pipeline = yield* _(DataPipeline)
+        const checkpoint = yield* _(DownloadCheckpoint)
+        yield* _(
+          pipeline.process(Stream.make(result), {
+            root: 'SPXW',
+            outputDir,
+            chunkSize: 1000,
+            compression: false,
+            fileNamePattern: '{root}_exp_{expiration}',
+            expirations: ['20240315'],
+          }),
+        )
+        return yield* _(checkpoint.load(outputDir))
+      }).pipe(
+        Effect.provide(
+          DataPipelineLive.pipe(
+            Layer.provide(RateLimiterLive),
+            Layer.provide(JsonDeadLetterQueueLive),
+            Layer.provide(DataWriterCsvLive),
+            Layer.provide(MetricsWriterTest),
+            Layer.provide(DataValidationLive),
+            Layer.provideMerge(JsonDownloadCheckpointLive),
+          ),
+        ),
+      ),
+    )
+
+    const filePath = path.join(outputDir, 'spxw_exp_20240315.csv')
+    const expected = crypto
+      .createHash('sha256')
+      .update(await Bun.file(filePath).text())
+      .digest('hex')
+
+    expect(Option.getOrThrow(status).expirations['SPXW:20240315']).toMatchObject({
+      status: 'complete',
+      recordCount: 1,
+      filePath,
+      checksum: expected,
+    })
+  })
+})
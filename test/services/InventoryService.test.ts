@@ -0,0 +1,173 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test'
+import * as path from 'node:path'
+import * as zlib from 'node:zlib'
+import { ConfigProvider, Effect, Layer } from 'effect'
+import {
+  INVENTORY_CACHE_FILE_NAME,
+  InventoryServiceLive,
+} from '../../src/layers/InventoryServiceLive'
+import { InventoryService } from '../../src/services/InventoryService'
+
+const HEADER =
+  'strike,right,bid,ask,delta,theta,vega,rho,epsilon,lambda,implied_volatility,iv_error,underlying_price,timestamp'
+
+const row = (strike: number, right: 'C' | 'P', timestamp: string) =>
+  `${strike},${right},10,10.5,0.5,-0.05,0.2,0.1,0.05,0.8,0.15,0,4510.25,${timestamp}`
+
+describe('InventoryServiceLive', () => {
+  const dataDirectory = `/tmp/spx-inventory-test-${Date.now()}-${Math.random().toString(36).slice(2)}`
+
+  const TestLayer = InventoryServiceLive.pipe(
+    Layer.provide(
+      Layer.setConfigProvider(
+        ConfigProvider.fromMap(new Map([['CONFIG_STORAGE_DATA_DIRECTORY', dataDirectory]])),
+      ),
+    ),
+  )
+
+  const run = <A, E>(effect: Effect.Effect<A, E, InventoryService>) =>
+    Effect.runPromise(effect.pipe(Effect.provide(TestLayer)))
+
+  beforeEach(async () => {
+    await Bun.write(
+      path.join(dataDirectory, '20240314', 'spxw_exp_20240315.csv'),
+      [
+        HEADER,
+        row(4500, 'C', '2024-03-14T13:31:00.000Z'),
+        row(4500, 'P', '2024-03-14T13:31:00.000Z'),
+        row(4510, 'C', '2024-03-14T19:59:00.000Z'),
+        '',
+      ].join('\n'),
+    )
+    await Bun.write(
+      path.join(dataDirectory, '20240314', 'spxw_exp_20240314.csv'),
+      [HEADER, row(4505, 'P', '2024-03-14T13:45:00.000Z'), ''].join('\n'),
+    )
+    await Bun.write(
+      path.join(dataDirectory, '20240315', 'spxw_exp_20240315.csv'),
+      [HEADER, row(4520, 'C', '2024-03-15T14:00:00.000Z'), ''].join('\n'),
+    )
+  })
+
+  afterEach(async () => {
+    await Bun.$`rm -rf ${dataDirectory}`.quiet()
+  })
+
+  it('should index trade dates, expirations and time coverage', async () => {
+    const index = await run(
+      Effect.gen(function* (_) {
+        const inventory = yield* _(InventoryService)
+        return yield* _(inventory.getIndex())
+      }),
+    )
+
+    expect(index.dataDirectory).toBe(dataDirectory)
+    expect(index.tradeDates.map((t) => t.tradeDate)).toEqual(['2024-03-14', '2024-03-15'])
+
+    const first = index.tradeDates[0]
+    expect(first.rowCount).toBe(4)
+    expect(first.firstTimestamp).toBe('2024-03-14T13:31:00.000Z')
+    expect(first.lastTimestamp).toBe('2024-03-14T19:59:00.000Z')
+    expect(first.expirations.map((e) => e.expiration)).toEqual(['2024-03-14', '2024-03-15'])
+    expect(first.expirations[1]).toMatchObject({
+      root: 'SPXW',
+      rowCount: 3,
+      strikes: [4500, 4510],
+      rights: ['C', 'P'],
+    })
+  })
+
+  it('should read compressed files like plain ones', async () => {
+    const csv = [HEADER, row(4530, 'C', '2024-03-18T14:00:00.000Z'), ''].join('\n')
+    await Bun.write(
+      path.join(dataDirectory, '20240318', 'spxw_exp_20240319.csv.gz'),
+      zlib.gzipSync(csv),
+    )
+    await Bun.write(
+      path.join(dataDirectory, '20240318', 'spxw_exp_20240320.csv.zst'),
+      zlib.zstdCompressSync(csv),
+    )
+
+    const index = await run(Effect.flatMap(InventoryService, (inventory) => inventory.getIndex()))
+
+    const day = index.tradeDates.find((t) => t.tradeDate === '2024-03-18')
+    expect(day?.expirations.map((e) => [e.expiration, e.rowCount, e.strikes])).toEqual([
+      ['2024-03-19', 1, [4530]],
+      ['2024-03-20', 1, [4530]],
+    ])
+  })
+
+  it('should list expirations and contracts for a root', async () => {
+    const { expirations, contracts } = await run(
+      Effect.gen(function* (_) {
+        const inventory = yield* _(InventoryService)
+        return {
+          expirations: yield* _(inventory.getExpirations('SPXW')),
+          contracts: yield* _(inventory.getContracts('SPXW', '2024-03-15')),
+        }
+      }),
+    )
+
+    expect(expirations).toEqual(['2024-03-14', '2024-03-15'])
+    expect(contracts.map((c) => c.contract)).toEqual([
+      'O:SPXW240315C04500000',
+      'O:SPXW240315P04500000',
+      'O:SPXW240315C04510000',
+      'O:SPXW240315P04510000',
+      'O:SPXW240315C04520000',
+    ])
+  })
+
+  it('should reject a malformed expiration', async () => {
+    const result = await Effect.runPromiseExit(
+      Effect.gen(function* (_) {
+        const inventory = yield* _(InventoryService)
+        return yield* _(inventory.getContracts('SPXW', '20240315'))
+      }).pipe(Effect.provide(TestLayer)),
+    )
+
+    expect(result._tag).toBe('Failure')
+  })
+
+  it('should persist a cache and pick up files added later', async () => {
+    const { before, after } = await run(
+      Effect.gen(function* (_) {
+        const inventory = yield* _(InventoryService)
+        const before = yield* _(inventory.getIndex())
+        yield* _(
+          Effect.promise(() =>
+            Bun.write(
+              path.join(dataDirectory, '20240318', 'spxw_exp_20240318.csv'),
+              [HEADER, row(4530, 'P', '2024-03-18T13:30:00.000Z'), ''].join('\n'),
+            ),
+          ),
+        )
+        const after = yield* _(inventory.getIndex())
+        return { before, after }
+      }),
+    )
+
+    expect(before.tradeDates).toHaveLength(2)
+    expect(after.tradeDates.map((t) => t.tradeDate)).toEqual([
+      '2024-03-14',
+      '2024-03-15',
+      '2024-03-18',
+    ])
+
+    const cache = await Bun.file(path.join(dataDirectory, INVENTORY_CACHE_FILE_NAME)).json()
+    expect(Object.keys(cache.files)).toHaveLength(4)
+  })
+
+  it('should return an empty index when the data directory does not exist', async () => {
+    await Bun.$`rm -rf ${dataDirectory}`.quiet()
+
+    const index = await run(
+      Effect.gen(function* (_) {
+        const inventory = yield* _(InventoryService)
+        return yield* _(inventory.refresh())
+      }),
+    )
+
+    expect(index.tradeDates).toEqual([])
+  })
+})
@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'bun:test'
+import { Effect, Ref } from 'effect'
+import { makeRateLimiter } from '@/layers/RateLimiterLive'
+
+describe('RateLimiter', () => {
+  const run = <A>(effect: Effect.Effect<A>) => Effect.runPromise(effect)
+
+  // Run count requests through the limiter at once, each taking workMs
+  const burst = (
+    limiter: Effect.Effect.Success<ReturnType<typeof makeRateLimiter>>,
+    count: number,
+    workMs = 0,
+  ) =>
+    Effect.gen(function* (_) {
+      const inFlight = yield* _(Ref.make(0))
+      const maxInFlight = yield* _(Ref.make(0))
+      const request = Effect.gen(function* (_) {
+        const current = yield* _(Ref.updateAndGet(inFlight, (n) => n + 1))
+        yield* _(Ref.update(maxInFlight, (max) => Math.max(max, current)))
+        yield* _(Effect.sleep(workMs))
+        yield* _(Ref.update(inFlight, (n) => n - 1))
+      })
+      yield* _(
+        Effect.all(
+          Array.from({ length: count }, () => limiter.withPermit(request)),
+          {
+            concurrency: 'unbounded',
+          },
+        ),
+      )
+      return yield* _(Ref.get(maxInFlight))
+    })
+
+  it('should cap requests in flight', async () => {
+    const { maxInFlight, metrics } = await run(
+      Effect.gen(function* (_) {
+        const limiter = yield* _(
+          makeRateLimiter({ requestsPerSecond: 0, maxConcurrentRequests: 2 }),
+        )
+        const maxInFlight = yield* _(burst(limiter, 6, 20))
+        return { maxInFlight, metrics: yield* _(limiter.getMetrics()) }
+      }),
+    )
+
+    expect(maxInFlight).toBe(2)
+    expect(metrics.requests).toBe(6)
+    expect(metrics.throttledRequests).toBeGreaterThanOrEqual(4)
+  })
+
+  it('should space requests beyond the burst at the configured rate', async () => {
+    const startedAt = Date.now()
+    const metrics = await run(
+      Effect.gen(function* (_) {
+        const limiter = yield* _(
+          makeRateLimiter({ requestsPerSecond: 10, maxConcurrentRequests: 100 }),
+        )
+        yield* _(burst(limiter, 15))
+        return yield* _(limiter.getMetrics())
+      }),
+    )
+
+    // 10 go at once, the other 5 follow 100ms apart
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(450)
+    expect(metrics.requests).toBe(15)
+    expect(metrics.throttledRequests).toBeGreaterThanOrEqual(5)
+    expect(metrics.throttledMs).toBeGreaterThanOrEqual(1400)
+  })
+
+  it('should hold every request until a pause ends', async () => {
+    const { elapsed, metrics } = await run(
+      Effect.gen(function* (_) {
+        const limiter = yield* _(
+          makeRateLimiter({ requestsPerSecond: 100, maxConcurrentRequests: 4 }),
+        )
+        yield* _(limiter.pause(300))
+        // A shorter pause does not cut the first one
+        yield* _(limiter.pause(50))
+        const startedAt = Date.now()
+        yield* _(burst(limiter, 3))
+        return { elapsed: Date.now() - startedAt, metrics: yield* _(limiter.getMetrics()) }
+      }),
+    )
+
+    expect(elapsed).toBeGreaterThanOrEqual(250)
+    expect(metrics.rateLimitPauses).toBe(2)
+    expect(metrics.throttledRequests).toBe(3)
+  })
+
+  it('should let a request waiting for a slot be interrupted without taking one', async () => {
+    const { timedOut, waitedMs, maxInFlight } = await run(
+      Effect.gen(function* (_) {
+        const limiter = yield* _(
+          makeRateLimiter({ requestsPerSecond: 0, maxConcurrentRequests: 1 }),
+        )
+        const held = yield* _(Effect.fork(limiter.withPermit(Effect.sleep(200))))
+        yield* _(Effect.sleep(10))
+        const startedAt = Date.now()
+        const timedOut = yield* _(
+          limiter.withPermit(Effect.void).pipe(Effect.timeout(20), Effect.option),
+        )
+        const waitedMs = Date.now() - startedAt
+        yield* _(held.await)
+        // The interrupted wait left the single slot as it found it
+        return { timedOut, waitedMs, maxInFlight: yield* _(burst(limiter, 3, 10)) }
+      }),
+    )
+
+    expect(timedOut._tag).toBe('None')
+    // Not held until the other request let go of the slot
+    expect(waitedMs).toBeLessThan(150)
+    expect(maxInFlight).toBe(1)
+  })
+})
@@ -1,6 +1,8 @@
-import { describe, expect, it } from 'bun:test'
-import { Effect, Exit, Layer } from 'effect'
+import { afterAll, beforeAll, describe, expect, it } from 'bun:test'
+import { Chunk, ConfigProvider, Effect, Exit, Layer, Stream } from 'effect'
+import { RateLimiterLive } from '@/layers/RateLimiterLive'
 import { TestLive } from '@/layers/TestLive'
+import { ThetaDataApiClientLive } from '@/layers/ThetaDataApiClientLive'
 import {
   type ExpirationDate,
   ThetaDataApiClient,
@@ -34,8 +36,17 @@ describe('ThetaDataApiClient', () => {
           }),
         listExpirations: () =>
           Effect.fail(new ThetaDataConnectionError({ message: 'Terminal offline' })),
+        listStrikes: () => Effect.succeed([]),
         getBulkOptionsGreeks: () =>
           Effect.fail(new ThetaDataConnectionError({ message: 'Terminal offline' })),
+        getBulkOptionsQuotes: () => Effect.succeed([]),
+        getBulkOptionsTrades: () => Effect.succeed([]),
+        getBulkOptionsOhlc: () => Effect.succeed([]),
+        getBulkOptionsOpenInterest: () => Effect.succeed([]),
+        getBulkOptionsEod: () => Effect.succeed([]),
+        getIndexOhlc: () => Effect.succeed([]),
+        streamBulkOptionsGreeks: () =>
+          Stream.fail(new ThetaDataConnectionError({ message: 'Terminal offline' })),
       })
 
       const result = await Effect.runPromise(
@@ -55,7 +66,7 @@ describe('ThetaDataApiClient', () => {
       const result = await Effect.runPromise(
         Effect.gen(function* (_) {
           const client = yield* _(ThetaDataApiClient)
-          return yield* _(client.listExpirations())
+          return yield* _(client.listExpirations('SPXW'))
         }).pipe(Effect.provide(TestLive)),
       )
 
@@ -85,13 +96,21 @@ describe('ThetaDataApiClient', () => {
               endpoint: '/v2/list/expirations',
             }),
           ),
+        listStrikes: () => Effect.succeed([]),
         getBulkOptionsGreeks: () => Effect.succeed([]),
+        getBulkOptionsQuotes: () => Effect.succeed([]),
+        getBulkOptionsTrades: () => Effect.succeed([]),
+        getBulkOptionsOhlc: () => Effect.succeed([]),
+        getBulkOptionsOpenInterest: () => Effect.succeed([]),
+        getBulkOptionsEod: () => Effect.succeed([]),
+        getIndexOhlc: () => Effect.succeed([]),
+        streamBulkOptionsGreeks: () => Stream.empty,
       })
 
       const exit = await Effect.runPromiseExit(
         Effect.gen(function* (_) {
           const client = yield* _(ThetaDataApiClient)
-          return yield* _(client.listExpirations())
+          return yield* _(client.listExpirations('SPXW'))
         }).pipe(Effect.provide(ErrorLayer)),
       )
 
@@ -121,13 +140,21 @@ describe('ThetaDataApiClient', () => {
               retryAfter: 5000,
             }),
           ),
+        listStrikes: () => Effect.succeed([]),
         getBulkOptionsGreeks: () => Effect.succeed([]),
+        getBulkOptionsQuotes: () => Effect.succeed([]),
+        getBulkOptionsTrades: () => Effect.succeed([]),
+        getBulkOptionsOhlc: () => Effect.succeed([]),
+        getBulkOptionsOpenInterest: () => Effect.succeed([]),
+        getBulkOptionsEod: () => Effect.succeed([]),
+        getIndexOhlc: () => Effect.succeed([]),
+        streamBulkOptionsGreeks: () => Stream.empty,
       })
 
       const exit = await Effect.runPromiseExit(
         Effect.gen(function* (_) {
           const client = yield* _(ThetaDataApiClient)
-          return yield* _(client.listExpirations())
+          return yield* _(client.listExpirations('SPXW'))
         }).pipe(Effect.provide(RateLimitLayer)),
       )
 
@@ -262,13 +289,21 @@ describe('ThetaDataApiClient', () => {
             }
             return [{ date: '2024-03-22', daysToExpiration: 7 }] as ReadonlyArray<ExpirationDate>
           }),
+        listStrikes: () => Effect.succeed([]),
         getBulkOptionsGreeks: () => Effect.succeed([]),
+        getBulkOptionsQuotes: () => Effect.succeed([]),
+        getBulkOptionsTrades: () => Effect.succeed([]),
+        getBulkOptionsOhlc: () => Effect.succeed([]),
+        getBulkOptionsOpenInterest: () => Effect.succeed([]),
+        getBulkOptionsEod: () => Effect.succeed([]),
+        getIndexOhlc: () => Effect.succeed([]),
+        streamBulkOptionsGreeks: () => Stream.empty,
       })
 
       const result = await Effect.runPromise(
         Effect.gen(function* (_) {
           const client = yield* _(ThetaDataApiClient)
-          return yield* _(client.listExpirations())
+          return yield* _(client.listExpirations('SPXW'))
         }).pipe(Effect.provide(RetryLayer)),
       )
 
@@ -276,4 +311,103 @@ describe('ThetaDataApiClient', () => {
       expect(result).toBeInstanceOf(Array)
     })
   })
+
+  describe('streamBulkOptionsGreeks (live client)', () => {
+    const header =
+      'root,expiration,strike,right,ms_of_day,bid,ask,delta,theta,vega,rho,epsilon,lambda,implied_vol,iv_error,ms_of_day2,underlying_price,date'
+    const rows = [
+      'SPXW,20240315,5000000,C,34200000,114.95,115.05,0.9988,-0.0393,0.0708,0.7094,-1.9697,1.5629,0.3383,0,34200000,5179.94,20240315',
+      'SPXW,20240315,5000000,P,34200000,0.95,1.05,-0.002,-0.0073,0.1624,-0.0072,0.007,-37.8591,0.6374,0,34200000,5179.94,20240315',
+    ]
+
+    // Serves each body in small pieces so lines are split across network chunks
+    let server: ReturnType<typeof Bun.serve>
+    const bodies = new Map<string, string>()
+
+    beforeAll(() => {
+      server = Bun.serve({
+        port: 0,
+        fetch: (request) => {
+          const body = bodies.get(new URL(request.url).searchParams.get('exp') ?? '') ?? ''
+          return new Response(
+            new ReadableStream({
+              start(controller) {
+                for (let i = 0; i < body.length; i += 50) {
+                  controller.enqueue(new TextEncoder().encode(body.slice(i, i + 50)))
+                }
+                controller.close()
+              },
+            }),
+          )
+        },
+      })
+    })
+
+    afterAll(() => {
+      server.stop(true)
+    })
+
+    const streamGreeks = (expiration: string) =>
+      Effect.runPromiseExit(
+        Effect.gen(function* (_) {
+          const client = yield* _(ThetaDataApiClient)
+          return yield* _(
+            client
+              .streamBulkOptionsGreeks({
+                root: 'SPXW',
+                expiration,
+                startDate: '20240315',
+                endDate: '20240315',
+              })
+              .pipe(Stream.runCollect, Effect.map(Chunk.toReadonlyArray)),
+          )
+        }).pipe(
+          Effect.provide(
+            ThetaDataApiClientLive.pipe(
+              Layer.provide(RateLimiterLive),
+              Layer.provide(
+                Layer.setConfigProvider(
+                  ConfigProvider.fromMap(
+                    new Map([
+                      ['CONFIG_THETADATA_BASE_URL', `http://localhost:${server.port}`],
+                      ['CONFIG_THETADATA_MAX_RETRIES', '0'],
+                    ]),
+                  ),
+                ),
+              ),
+            ),
+          ),
+        ),
+      )
+
+    it('should parse rows split across response chunks', async () => {
+      bodies.set('20240315', `${header}\n${rows.join('\n')}\n`)
+
+      const exit = await streamGreeks('20240315')
+
+      expect(Exit.isSuccess(exit)).toBe(true)
+      if (Exit.isSuccess(exit)) {
+        expect(exit.value.map((r) => [r.strike, r.right, r.bid])).toEqual([
+          [5000000, 'C', 114.95],
+          [5000000, 'P', 0.95],
+        ])
+        expect(exit.value[1].impliedVolatility).toBe(0.6374)
+      }
+    })
+
+    it('should fail on a malformed row', async () => {
+      bodies.set('20240322', `${rows[0]}\nSPXW,20240322,5000000\n`)
+
+      const exit = await streamGreeks('20240322')
+
+      expect(Exit.isFailure(exit)).toBe(true)
+      if (Exit.isFailure(exit)) {
+        const error = exit.cause._tag === 'Fail' ? exit.cause.error : null
+        expect(error).toMatchObject({
+          _tag: 'ThetaDataApiError',
+          message: 'Invalid column count at row 2: expected 18, got 3',
+        })
+      }
+    })
+  })
 })
@@ -0,0 +1,120 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test'
+import { Chunk, ConfigProvider, Effect, Exit, Layer, Stream } from 'effect'
+import { RateLimiterLive } from '@/layers/RateLimiterLive'
+import {
+  makeThetaDataApiClientRecording,
+  makeThetaDataApiClientReplay,
+} from '@/layers/ThetaDataApiClientCassette'
+import { type MockTerminal, startMockTerminal } from '@/mock/MockTerminal'
+import type { RateLimiter } from '@/services/RateLimiter'
+import { ThetaDataApiClient, type ThetaDataApiClientService } from '@/services/ThetaDataApiClient'
+
+describe('ThetaDataApiClient cassettes', () => {
+  const cassetteDir = `/tmp/spx-cassettes-${Date.now()}-${Math.random().toString(36).slice(2)}`
+  let terminal: MockTerminal
+
+  beforeEach(() => {
+    terminal = startMockTerminal({ port: 0, strikesPerSide: 2 })
+  })
+
+  afterEach(async () => {
+    terminal.stop()
+    await Bun.$`rm -rf ${cassetteDir}`.quiet()
+  })
+
+  const run = <A, E>(
+    effect: Effect.Effect<A, E, ThetaDataApiClientService>,
+    layer: Layer.Layer<ThetaDataApiClientService, unknown, RateLimiter>,
+  ) =>
+    Effect.runPromiseExit(
+      effect.pipe(
+        Effect.provide(
+          layer.pipe(
+            Layer.provide(RateLimiterLive),
+            Layer.provide(
+              Layer.setConfigProvider(
+                ConfigProvider.fromMap(
+                  new Map([
+                    ['CONFIG_THETADATA_BASE_URL', terminal.url],
+                    ['CONFIG_THETADATA_RETRY_BASE_DELAY_MS', '1'],
+                  ]),
+                ),
+              ),
+            ),
+          ),
+        ),
+      ),
+    )
+
+  const params = {
+    root: 'SPXW',
+    expiration: '20240315',
+    startDate: '20240314',
+    endDate: '20240314',
+    interval: 900000,
+  }
+
+  const fetchDay = Effect.gen(function* (_) {
+    const client = yield* _(ThetaDataApiClient)
+    const expirations = yield* _(client.listExpirations('SPXW'))
+    const greeks = yield* _(client.getBulkOptionsGreeks(params))
+    const streamed = yield* _(
+      client.streamBulkOptionsGreeks(params).pipe(Stream.runCollect, Effect.map(Chunk.toArray)),
+    )
+    return { expirations, greeks, streamed }
+  })
+
+  it('should replay recorded responses without the terminal', async () => {
+    const recorded = await run(fetchDay, makeThetaDataApiClientRecording(cassetteDir))
+    terminal.stop()
+    const replayed = await run(fetchDay, makeThetaDataApiClientReplay(cassetteDir))
+
+    expect(Exit.isSuccess(recorded) && Exit.isSuccess(replayed)).toBe(true)
+    if (Exit.isSuccess(recorded) && Exit.isSuccess(replayed)) {
+      expect(replayed.value.greeks.length).toBeGreaterThan(0)
+      expect(replayed.value).toEqual(recorded.value)
+    }
+
+    // The buffered and streamed Greeks requests share one cassette
+    const files = await Array.fromAsync(new Bun.Glob('*.json').scan({ cwd: cassetteDir }))
+    expect(files.sort().map((f) => f.replace(/-[0-9a-f]+\.json$/, ''))).toEqual([
+      'v2_bulk_hist_option_greeks',
+      'v2_list_expirations',
+    ])
+  })
+
+  it('should replay retried failures in the order they were recorded', async () => {
+    terminal.injectFaults('server-error')
+    const getGreeks = Effect.flatMap(ThetaDataApiClient, (client) =>
+      client.getBulkOptionsGreeks(params),
+    )
+
+    expect(Exit.isSuccess(await run(getGreeks, makeThetaDataApiClientRecording(cassetteDir)))).toBe(
+      true,
+    )
+    terminal.stop()
+
+    const cassette = await Bun.file(
+      `${cassetteDir}/${(await Array.fromAsync(new Bun.Glob('*.json').scan({ cwd: cassetteDir })))[0]}`,
+    ).json()
+    expect(cassette.params).toMatchObject({ root: 'SPXW', exp: '20240315', ivl: '900000' })
+    expect(cassette.interactions.map((i: { status: number }) => i.status)).toEqual([503, 200])
+
+    // The replayed 503 is retried just like the live one
+    const replayed = await run(getGreeks, makeThetaDataApiClientReplay(cassetteDir))
+    expect(Exit.isSuccess(replayed)).toBe(true)
+  })
+
+  it('should fail without retrying when no cassette was recorded', async () => {
+    const exit = await run(
+      Effect.flatMap(ThetaDataApiClient, (client) => client.listExpirations('SPX')),
+      makeThetaDataApiClientReplay(cassetteDir),
+    )
+
+    expect(Exit.isFailure(exit) && exit.cause._tag === 'Fail' && exit.cause.error).toMatchObject({
+      _tag: 'ThetaDataApiError',
+      endpoint: '/v2/list/expirations',
+    })
+    expect(terminal.requests).toHaveLength(0)
+  })
+})
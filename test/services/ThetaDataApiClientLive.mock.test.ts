@@ -0,0 +1,527 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'bun:test'
+import * as path from 'node:path'
+import { Chunk, ConfigProvider, Effect, Exit, Layer, Stream } from 'effect'
+import { RateLimiterLive } from '@/layers/RateLimiterLive'
+import {
+  makeThetaDataApiClientLive,
+  type TerminalFetch,
+  ThetaDataApiClientLive,
+} from '@/layers/ThetaDataApiClientLive'
+import { BULK_GREEKS_HEADER, type MockTerminal, startMockTerminal } from '@/mock/MockTerminal'
+import { ThetaDataApiClient, type ThetaDataApiClientService } from '@/services/ThetaDataApiClient'
+
+describe('ThetaDataApiClientLive against the mock terminal', () => {
+  let terminal: MockTerminal
+
+  beforeAll(() => {
+    terminal = startMockTerminal({ port: 0, strikesPerSide: 5 })
+  })
+
+  afterAll(() => {
+    terminal.stop()
+  })
+
+  beforeEach(() => {
+    terminal.reset()
+  })
+
+  const run = <A, E>(effect: Effect.Effect<A, E, ThetaDataApiClientService>, maxRetries = 2) =>
+    Effect.runPromiseExit(
+      effect.pipe(
+        Effect.provide(
+          ThetaDataApiClientLive.pipe(
+            Layer.provide(RateLimiterLive),
+            Layer.provide(
+              Layer.setConfigProvider(
+                ConfigProvider.fromMap(
+                  new Map([
+                    ['CONFIG_THETADATA_BASE_URL', terminal.url],
+                    ['CONFIG_THETADATA_MAX_RETRIES', String(maxRetries)],
+                    ['CONFIG_THETADATA_RETRY_BASE_DELAY_MS', '1'],
+                  ]),
+                ),
+              ),
+            ),
+          ),
+        ),
+      ),
+    )
+
+  const params = {
+    root: 'SPXW',
+    expiration: '20240315',
+    startDate: '20240314',
+    endDate: '20240314',
+    interval: 3600000,
+  }
+
+  const getGreeks = () =>
+    Effect.flatMap(ThetaDataApiClient, (client) => client.getBulkOptionsGreeks(params))
+
+  const failureOf = <A, E>(exit: Exit.Exit<A, E>) =>
+    Exit.isFailure(exit) && exit.cause._tag === 'Fail' ? exit.cause.error : undefined
+
+  it('should report the terminal as connected', async () => {
+    const exit = await run(Effect.flatMap(ThetaDataApiClient, (client) => client.healthCheck()))
+
+    expect(Exit.isSuccess(exit) && exit.value.status).toBe('CONNECTED')
+  })
+
+  it('should list weekday expirations for a root', async () => {
+    const exit = await run(
+      Effect.flatMap(ThetaDataApiClient, (client) => client.listExpirations('SPX')),
+    )
+
+    expect(Exit.isSuccess(exit)).toBe(true)
+    if (Exit.isSuccess(exit)) {
+      const dates = exit.value.map((e) => e.date)
+      expect(dates).toContain('2024-03-15')
+      expect(dates).not.toContain('2024-03-16') // Saturday
+    }
+    expect(terminal.requests[0].params).toEqual({ root: 'SPX' })
+  })
+
+  it('should serve synthetic Greeks for every strike and interval', async () => {
+    const exit = await run(getGreeks())
+
+    expect(Exit.isSuccess(exit)).toBe(true)
+    if (Exit.isSuccess(exit)) {
+      // 11 strikes x 2 rights x 7 hourly rows from 09:30 to 15:30
+      expect(exit.value).toHaveLength(154)
+      const calls = exit.value.filter((r) => r.right === 'C')
+      expect(calls.every((r) => r.delta > 0 && r.delta < 1 && r.bid <= r.ask)).toBe(true)
+      expect(exit.value.every((r) => r.underlyingPrice > 0)).toBe(true)
+      expect(exit.value[0]).toMatchObject({
+        root: 'SPXW',
+        expiration: '20240315',
+        tradeDate: '20240314',
+        msOfDay: 34_200_000,
+        underlyingMsOfDay: 34_200_000,
+      })
+    }
+  })
+
+  it('should stream the same rows as the buffered request', async () => {
+    const buffered = await run(getGreeks())
+    const streamed = await run(
+      Effect.flatMap(ThetaDataApiClient, (client) =>
+        client.streamBulkOptionsGreeks(params).pipe(Stream.runCollect, Effect.map(Chunk.toArray)),
+      ),
+    )
+
+    expect(Exit.isSuccess(streamed) && Exit.isSuccess(buffered)).toBe(true)
+    if (Exit.isSuccess(streamed) && Exit.isSuccess(buffered)) {
+      expect(streamed.value).toEqual([...buffered.value])
+    }
+  })
+
+  it('should place rows in Eastern time on either side of the March DST change', async () => {
+    const firstRowOn = async (day: string) => {
+      const exit = await run(
+        Effect.flatMap(ThetaDataApiClient, (client) =>
+          client.getBulkOptionsGreeks({ ...params, startDate: day, endDate: day }),
+        ),
+      )
+      return Exit.isSuccess(exit) ? exit.value[0] : undefined
+    }
+
+    // Clocks sprang forward on Sunday 2024-03-10
+    expect(await firstRowOn('20240308')).toMatchObject({
+      tradeDate: '20240308',
+      msOfDay: 34_200_000,
+      timestamp: new Date('2024-03-08T14:30:00.000Z'),
+    })
+    expect(await firstRowOn('20240311')).toMatchObject({
+      tradeDate: '20240311',
+      msOfDay: 34_200_000,
+      timestamp: new Date('2024-03-11T13:30:00.000Z'),
+    })
+  })
+
+  it('should parse quote, trade, OHLC, open interest and EOD rows', async () => {
+    const exit = await run(
+      Effect.flatMap(ThetaDataApiClient, (client) =>
+        Effect.all({
+          quotes: client.getBulkOptionsQuotes(params),
+          trades: client.getBulkOptionsTrades(params),
+          ohlc: client.getBulkOptionsOhlc(params),
+          openInterest: client.getBulkOptionsOpenInterest(params),
+          eod: client.getBulkOptionsEod(params),
+        }),
+      ),
+    )
+
+    expect(Exit.isSuccess(exit)).toBe(true)
+    if (Exit.isSuccess(exit)) {
+      const { quotes, trades, ohlc, openInterest, eod } = exit.value
+      expect(quotes).toHaveLength(154)
+      expect(quotes.every((r) => r.bid <= r.ask && r.bidSize > 0)).toBe(true)
+      // Trades take no interval, so they arrive once per synthetic tick
+      expect(trades).toHaveLength(22 * 391)
+      expect(trades.every((r) => r.price > 0 && r.size > 0)).toBe(true)
+      expect(ohlc.every((r) => r.low <= r.close && r.close <= r.high)).toBe(true)
+      // One row per contract for the day
+      expect(openInterest).toHaveLength(22)
+      expect(eod).toHaveLength(22)
+      expect(eod[0]).toMatchObject({ strike: quotes[0].strike, right: 'C' })
+    }
+    expect(terminal.requests.map((r) => r.path).sort()).toEqual([
+      '/v2/bulk_hist/option/eod',
+      '/v2/bulk_hist/option/ohlc',
+      '/v2/bulk_hist/option/open_interest',
+      '/v2/bulk_hist/option/quote',
+      '/v2/bulk_hist/option/trade',
+    ])
+    expect(terminal.requests.find((r) => r.path.endsWith('/trade'))?.params.ivl).toBeUndefined()
+  })
+
+  it('should serve regular-session index bars', async () => {
+    const exit = await run(
+      Effect.flatMap(ThetaDataApiClient, (client) =>
+        client.getIndexOhlc({
+          root: 'SPX',
+          startDate: '20240314',
+          endDate: '20240314',
+          interval: 300000,
+          rth: true,
+        }),
+      ),
+    )
+
+    expect(Exit.isSuccess(exit)).toBe(true)
+    if (Exit.isSuccess(exit)) {
+      // 5-minute bars from 09:30 up to the 16:00 close
+      expect(exit.value).toHaveLength(78)
+      expect(exit.value.every((r) => r.low <= r.close && r.close <= r.high)).toBe(true)
+      expect(exit.value[0].timestamp).toEqual(new Date('2024-03-14T09:30:00-04:00'))
+    }
+    expect(terminal.requests[0]).toMatchObject({
+      path: '/v2/hist/index/ohlc',
+      params: { root: 'SPX', ivl: '300000', rth: 'true' },
+    })
+  })
+
+  it('should retry through injected 5xx responses', async () => {
+    terminal.injectFaults('server-error', 'server-error')
+
+    const exit = await run(getGreeks(), 3)
+
+    expect(Exit.isSuccess(exit)).toBe(true)
+    expect(terminal.requests.map((r) => r.fault)).toEqual([
+      'server-error',
+      'server-error',
+      undefined,
+    ])
+  })
+
+  it('should give up once retries are exhausted', async () => {
+    terminal.injectFaults('server-error', 'server-error')
+
+    const exit = await run(getGreeks(), 2)
+
+    expect(failureOf(exit)).toMatchObject({ _tag: 'ThetaDataApiError', statusCode: 503 })
+    expect(terminal.requests).toHaveLength(2)
+  })
+
+  it('should surface a 429 with its Retry-After delay once retries are exhausted', async () => {
+    terminal.injectFaults('rate-limit')
+
+    const exit = await run(getGreeks(), 1)
+
+    expect(failureOf(exit)).toMatchObject({ _tag: 'ThetaDataRateLimitError', retryAfter: 1000 })
+  })
+
+  it('should retry a 429 once its Retry-After has passed', async () => {
+    terminal.injectFaults('rate-limit')
+
+    const exit = await run(
+      Effect.gen(function* (_) {
+        const startedAt = Date.now()
+        const rows = yield* _(getGreeks())
+        return { rows, elapsed: Date.now() - startedAt }
+      }),
+    )
+
+    expect(Exit.isSuccess(exit)).toBe(true)
+    if (Exit.isSuccess(exit)) {
+      expect(exit.value.rows).toHaveLength(154)
+      expect(exit.value.elapsed).toBeGreaterThanOrEqual(950)
+    }
+    expect(terminal.requests.map((request) => request.fault)).toEqual(['rate-limit', undefined])
+  })
+
+  it('should retry a streamed request after a 429', async () => {
+    terminal.injectFaults('rate-limit')
+
+    const exit = await run(
+      Effect.gen(function* (_) {
+        const startedAt = Date.now()
+        const rows = yield* _(
+          Effect.flatMap(ThetaDataApiClient, (client) =>
+            client.streamBulkOptionsGreeks(params).pipe(Stream.runCollect),
+          ),
+        )
+        return { rows: Chunk.size(rows), elapsed: Date.now() - startedAt }
+      }),
+    )
+
+    expect(Exit.isSuccess(exit) && exit.value.rows).toBe(154)
+    expect(Exit.isSuccess(exit) && exit.value.elapsed).toBeGreaterThanOrEqual(950)
+    expect(terminal.requests.map((request) => request.fault)).toEqual(['rate-limit', undefined])
+  })
+
+  it('should hold the next request for the Retry-After of a 429', async () => {
+    terminal.injectFaults('rate-limit')
+
+    const exit = await run(
+      Effect.gen(function* (_) {
+        yield* _(Effect.either(getGreeks()))
+        const startedAt = Date.now()
+        yield* _(getGreeks())
+        return Date.now() - startedAt
+      }),
+      1,
+    )
+
+    expect(Exit.isSuccess(exit) && exit.value).toBeGreaterThanOrEqual(950)
+    expect(terminal.requests.map((request) => request.fault)).toEqual(['rate-limit', undefined])
+  })
+
+  it.each([
+    ['an HTTP date', () => new Date(Date.now() + 3000).toUTCString(), [1000, 3000]],
+    ['unreadable', () => 'soon', [5000, 5000]],
+  ])('should read a Retry-After that is %s', async (_name, retryAfter, [min, max]) => {
+    const send: TerminalFetch = () =>
+      Promise.resolve(new Response('', { status: 429, headers: { 'Retry-After': retryAfter() } }))
+
+    const exit = await Effect.runPromiseExit(
+      getGreeks().pipe(
+        Effect.provide(
+          makeThetaDataApiClientLive(send).pipe(
+            Layer.provide(RateLimiterLive),
+            Layer.provide(
+              Layer.setConfigProvider(
+                ConfigProvider.fromMap(new Map([['CONFIG_THETADATA_MAX_RETRIES', '1']])),
+              ),
+            ),
+          ),
+        ),
+      ),
+    )
+
+    const error = failureOf(exit)
+    expect(error?._tag).toBe('ThetaDataRateLimitError')
+    const delay = error?._tag === 'ThetaDataRateLimitError' ? error.retryAfter : undefined
+    expect(delay).toBeGreaterThanOrEqual(min)
+    expect(delay).toBeLessThanOrEqual(max)
+  })
+
+  it('should fail on malformed CSV without retrying', async () => {
+    terminal.injectFaults('malformed')
+
+    const exit = await run(
+      Effect.flatMap(ThetaDataApiClient, (client) =>
+        client.streamBulkOptionsGreeks(params).pipe(Stream.runDrain),
+      ),
+    )
+
+    expect(failureOf(exit)).toMatchObject({ _tag: 'ThetaDataApiError' })
+    expect(terminal.requests).toHaveLength(1)
+  })
+
+  it('should surface a dropped connection as a connection error', async () => {
+    terminal.injectFaults('disconnect')
+
+    const exit = await run(
+      Effect.flatMap(ThetaDataApiClient, (client) =>
+        client.streamBulkOptionsGreeks(params).pipe(Stream.runDrain),
+      ),
+    )
+
+    expect(failureOf(exit)).toMatchObject({ _tag: 'ThetaDataConnectionError' })
+  })
+
+  it('should not parse the partial row a dropped connection leaves', async () => {
+    const row =
+      'SPXW,20240315,5000000,C,34200000,114.95,115.05,0.9988,-0.0393,0.0708,0.7094,-1.9697,1.5629,0.3383,0,34200000,5179.94,20240314'
+    // One whole row, half of the next, then the connection resets
+    const send: TerminalFetch = () =>
+      Promise.resolve(
+        new Response(
+          new ReadableStream({
+            start(controller) {
+              controller.enqueue(new TextEncoder().encode(`${row}\n${row.slice(0, 20)}`))
+            },
+            pull(controller) {
+              controller.error(new Error('ECONNRESET'))
+            },
+          }),
+        ),
+      )
+
+    const exit = await Effect.runPromiseExit(
+      Effect.flatMap(ThetaDataApiClient, (client) =>
+        client.streamBulkOptionsGreeks(params).pipe(Stream.runDrain),
+      ).pipe(
+        Effect.provide(
+          makeThetaDataApiClientLive(send).pipe(
+            Layer.provide(RateLimiterLive),
+            Layer.provide(Layer.setConfigProvider(ConfigProvider.fromMap(new Map()))),
+          ),
+        ),
+      ),
+    )
+
+    expect(failureOf(exit)).toMatchObject({ _tag: 'ThetaDataConnectionError' })
+  })
+
+  it('should fail a response body that stops sending data', async () => {
+    const row =
+      'SPXW,20240315,5000000,C,34200000,114.95,115.05,0.9988,-0.0393,0.0708,0.7094,-1.9697,1.5629,0.3383,0,34200000,5179.94,20240314'
+    // Headers and one row arrive promptly, then nothing more
+    const send: TerminalFetch = () =>
+      Promise.resolve(
+        new Response(
+          new ReadableStream({
+            start(controller) {
+              controller.enqueue(new TextEncoder().encode(`${row}\n`))
+            },
+          }),
+        ),
+      )
+
+    const exit = await Effect.runPromiseExit(
+      Effect.flatMap(ThetaDataApiClient, (client) =>
+        client.streamBulkOptionsGreeks(params).pipe(Stream.runDrain),
+      ).pipe(
+        Effect.provide(
+          makeThetaDataApiClientLive(send).pipe(
+            Layer.provide(RateLimiterLive),
+            Layer.provide(
+              Layer.setConfigProvider(
+                ConfigProvider.fromMap(new Map([['CONFIG_THETADATA_REQUEST_TIMEOUT_MS', '50']])),
+              ),
+            ),
+          ),
+        ),
+      ),
+    )
+
+    expect(failureOf(exit)).toMatchObject({
+      _tag: 'ThetaDataConnectionError',
+      message: expect.stringContaining('No data'),
+    })
+  })
+
+  it('should answer 472 for an expiration that does not exist', async () => {
+    const exit = await run(
+      Effect.flatMap(ThetaDataApiClient, (client) =>
+        client.getBulkOptionsGreeks({ ...params, expiration: '20991231' }),
+      ),
+    )
+
+    expect(failureOf(exit)).toMatchObject({ _tag: 'ThetaDataApiError', statusCode: 472 })
+  })
+
+  it('should serve recorded fixtures ahead of synthetic data', async () => {
+    const fixtureDir = `/tmp/spx-mock-terminal-${Date.now()}`
+    const row =
+      'SPXW,20240315,5000000,C,34200000,114.95,115.05,0.9988,-0.0393,0.0708,0.7094,-1.9697,1.5629,0.3383,0,34200000,5179.94,20240314'
+    await Bun.write(
+      path.join(fixtureDir, 'greeks', 'SPXW_20240315_20240314.csv'),
+      `${BULK_GREEKS_HEADER}\n${row}\n`,
+    )
+    const recorded = startMockTerminal({ port: 0, fixtureDir })
+
+    try {
+      const exit = await Effect.runPromiseExit(
+        getGreeks().pipe(
+          Effect.provide(
+            ThetaDataApiClientLive.pipe(
+              Layer.provide(RateLimiterLive),
+              Layer.provide(
+                Layer.setConfigProvider(
+                  ConfigProvider.fromMap(new Map([['CONFIG_THETADATA_BASE_URL', recorded.url]])),
+                ),
+              ),
+            ),
+          ),
+        ),
+      )
+
+      expect(Exit.isSuccess(exit) && exit.value.map((r) => [r.strike, r.bid])).toEqual([
+        [5000000, 114.95],
+      ])
+    } finally {
+      recorded.stop()
+      await Bun.$`rm -rf ${fixtureDir}`.quiet()
+    }
+  })
+
+  describe('circuit breaker', () => {
+    // Refuse every connection while down, as when the terminal process has stopped
+    const outage = { down: false, sent: 0 }
+    const flakySend: TerminalFetch = (url, init) => {
+      outage.sent++
+      return outage.down ? Promise.reject(new TypeError('Unable to connect')) : fetch(url, init)
+    }
+
+    const runFlaky = <A, E>(effect: Effect.Effect<A, E, ThetaDataApiClientService>) =>
+      Effect.runPromise(
+        effect.pipe(
+          Effect.provide(
+            makeThetaDataApiClientLive(flakySend).pipe(
+              Layer.provide(RateLimiterLive),
+              Layer.provide(
+                Layer.setConfigProvider(
+                  ConfigProvider.fromMap(
+                    new Map([
+                      ['CONFIG_THETADATA_BASE_URL', terminal.url],
+                      ['CONFIG_THETADATA_MAX_RETRIES', '1'],
+                      ['CONFIG_THETADATA_CIRCUIT_FAILURE_THRESHOLD', '2'],
+                      ['CONFIG_THETADATA_CIRCUIT_PROBE_INTERVAL_MS', '50'],
+                    ]),
+                  ),
+                ),
+              ),
+            ),
+          ),
+        ),
+      )
+
+    it('should fail fast while open and close once a probe gets through', async () => {
+      outage.down = true
+      outage.sent = 0
+
+      const { errors, sentWhileOpen, status, recovered } = await runFlaky(
+        Effect.gen(function* (_) {
+          const client = yield* _(ThetaDataApiClient)
+          const errors = []
+          for (let i = 0; i < 3; i++) {
+            errors.push(yield* _(Effect.flip(client.getBulkOptionsGreeks(params))))
+          }
+          const sentWhileOpen = outage.sent
+          const status = yield* _(client.healthCheck())
+
+          outage.down = false
+          yield* _(Effect.sleep(120))
+          const recovered = yield* _(client.getBulkOptionsGreeks(params))
+          return { errors, sentWhileOpen, status, recovered }
+        }),
+      )
+
+      expect(errors.map((error) => error._tag)).toEqual([
+        'ThetaDataConnectionError',
+        'ThetaDataConnectionError',
+        'ThetaDataConnectionError',
+      ])
+      expect(
+        errors.map((error) => error._tag === 'ThetaDataConnectionError' && error.circuitOpen),
+      ).toEqual([undefined, undefined, true])
+      // The third request and the health check were refused without being sent
+      expect(sentWhileOpen).toBe(2)
+      expect(status.status).toBe('DISCONNECTED')
+      expect(recovered).toHaveLength(154)
+    })
+  })
+})
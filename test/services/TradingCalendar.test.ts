@@ -0,0 +1,152 @@
+import { describe, expect, it } from 'bun:test'
+import { type Context, Effect } from 'effect'
+import { TradingCalendarLive } from '../../src/layers/TradingCalendarLive'
+import { TradingCalendar } from '../../src/services/TradingCalendar'
+
+const run = <A, E>(f: (calendar: Context.Tag.Service<TradingCalendar>) => Effect.Effect<A, E>) =>
+  Effect.runPromise(
+    Effect.gen(function* (_) {
+      const calendar = yield* _(TradingCalendar)
+      return yield* _(f(calendar))
+    }).pipe(Effect.provide(TradingCalendarLive)),
+  )
+
+describe('TradingCalendar', () => {
+  describe('getSession', () => {
+    it('should close on the full 2024 holiday schedule', async () => {
+      const holidays = [
+        ['20240101', "New Year's Day"],
+        ['20240115', 'Martin Luther King Jr. Day'],
+        ['20240219', "Washington's Birthday"],
+        ['20240329', 'Good Friday'],
+        ['20240527', 'Memorial Day'],
+        ['20240619', 'Juneteenth'],
+        ['20240704', 'Independence Day'],
+        ['20240902', 'Labor Day'],
+        ['20241128', 'Thanksgiving Day'],
+        ['20241225', 'Christmas Day'],
+      ]
+
+      for (const [date, holiday] of holidays) {
+        const session = await run((calendar) => calendar.getSession(date))
+        expect(session).toEqual({ date, isTradingDay: false, isHalfDay: false, holiday })
+      }
+    })
+
+    it('should compute Good Friday from Easter', async () => {
+      const goodFridays = ['20190419', '20200410', '20210402', '20220415', '20230407', '20250418']
+
+      for (const date of goodFridays) {
+        expect(await run((calendar) => calendar.isTradingDay(date))).toBe(false)
+      }
+    })
+
+    it('should shift weekend holidays to the observed weekday', async () => {
+      // Independence Day 2026 falls on a Saturday, Christmas 2022 on a Sunday
+      expect((await run((calendar) => calendar.getSession('20260703'))).holiday).toBe(
+        'Independence Day',
+      )
+      expect((await run((calendar) => calendar.getSession('20221226'))).holiday).toBe(
+        'Christmas Day',
+      )
+      // Juneteenth 2022 falls on a Sunday
+      expect(await run((calendar) => calendar.isTradingDay('20220620'))).toBe(false)
+    })
+
+    it('should not observe a Saturday New Year on the prior Friday', async () => {
+      // 2022-01-01 was a Saturday; the market was open on 2021-12-31
+      expect(await run((calendar) => calendar.isTradingDay('20211231'))).toBe(true)
+    })
+
+    it('should close for unscheduled special closures', async () => {
+      expect((await run((calendar) => calendar.getSession('20250109'))).isTradingDay).toBe(false)
+      expect((await run((calendar) => calendar.getSession('20121029'))).holiday).toBe(
+        'Hurricane Sandy',
+      )
+    })
+
+    it('should report weekends as closed without a holiday name', async () => {
+      const session = await run((calendar) => calendar.getSession('2024-01-13'))
+      expect(session).toEqual({ date: '20240113', isTradingDay: false, isHalfDay: false })
+    })
+
+    it('should report regular and early-close session hours', async () => {
+      const regular = await run((calendar) => calendar.getSession('20240116'))
+      expect(regular.isTradingDay).toBe(true)
+      expect(regular.isHalfDay).toBe(false)
+      expect(regular.openMsOfDay).toBe((9 * 60 + 30) * 60 * 1000)
+      expect(regular.closeMsOfDay).toBe(16 * 60 * 60 * 1000)
+
+      const halfDay = await run((calendar) => calendar.getSession('20241129'))
+      expect(halfDay.isHalfDay).toBe(true)
+      expect(halfDay.closeMsOfDay).toBe(13 * 60 * 60 * 1000)
+    })
+
+    it('should reject invalid dates', async () => {
+      for (const date of ['2024-02-30', '240115', 'invalid']) {
+        const result = await Effect.runPromiseExit(
+          Effect.gen(function* (_) {
+            const calendar = yield* _(TradingCalendar)
+            return yield* _(calendar.getSession(date))
+          }).pipe(Effect.provide(TradingCalendarLive)),
+        )
+        expect(result._tag).toBe('Failure')
+      }
+    })
+  })
+
+  describe('isHalfDay', () => {
+    it('should close early on July 3, Black Friday and Christmas Eve', async () => {
+      expect(await run((calendar) => calendar.isHalfDay('20240703'))).toBe(true)
+      expect(await run((calendar) => calendar.isHalfDay('20241129'))).toBe(true)
+      expect(await run((calendar) => calendar.isHalfDay('20241224'))).toBe(true)
+    })
+
+    it('should not close early when the eve falls on a Friday', async () => {
+      // 2020-07-03 was the observed Independence Day holiday, 2021-12-24 the observed Christmas
+      expect(await run((calendar) => calendar.isHalfDay('20200703'))).toBe(false)
+      expect(await run((calendar) => calendar.isHalfDay('20211224'))).toBe(false)
+      expect(await run((calendar) => calendar.isHalfDay('20240702'))).toBe(false)
+    })
+  })
+
+  describe('tradingDaysBetween', () => {
+    it('should skip weekends and holidays', async () => {
+      const days = await run((calendar) => calendar.tradingDaysBetween('20240112', '20240119'))
+      expect(days).toEqual(['20240112', '20240116', '20240117', '20240118', '20240119'])
+    })
+
+    it('should return an empty list for a closed range', async () => {
+      const days = await run((calendar) => calendar.tradingDaysBetween('2024-12-25', '2024-12-25'))
+      expect(days).toEqual([])
+    })
+  })
+
+  describe('previousTradingDays', () => {
+    it('should walk back over weekends and holidays', async () => {
+      const days = await run((calendar) => calendar.previousTradingDays('20240401', 3))
+      expect(days).toEqual(['20240327', '20240328', '20240401'])
+    })
+  })
+
+  describe('tradingDaysToExpiration', () => {
+    it('should count trading days rather than calendar days', async () => {
+      expect(
+        await run((calendar) => calendar.tradingDaysToExpiration('20240112', '20240112')),
+      ).toBe(0)
+      // Friday to the following Tuesday spans a weekend and MLK Day
+      expect(
+        await run((calendar) => calendar.tradingDaysToExpiration('20240112', '20240116')),
+      ).toBe(1)
+      expect(
+        await run((calendar) => calendar.tradingDaysToExpiration('20240112', '2024-01-19')),
+      ).toBe(4)
+    })
+
+    it('should be negative when the expiration precedes the trade date', async () => {
+      expect(
+        await run((calendar) => calendar.tradingDaysToExpiration('20240116', '20240112')),
+      ).toBe(-1)
+    })
+  })
+})
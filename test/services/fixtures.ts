@@ -0,0 +1,22 @@
+import type { OptionsGreeksData } from '../../src/services/ThetaDataApiClient'
+
+/**
+ * Greeks rows for writer tests: alternating calls and puts, 5 points apart from 4500
+ */
+export const createMockData = (count: number): OptionsGreeksData[] =>
+  Array.from({ length: count }, (_, i) => ({
+    strike: 4500 + i * 5,
+    right: i % 2 === 0 ? 'C' : 'P',
+    bid: 10 + i,
+    ask: 10.5 + i,
+    delta: 0.5 - i * 0.01,
+    theta: -0.05,
+    vega: 0.2,
+    rho: 0.1,
+    epsilon: 0.05,
+    lambda: 0.8,
+    impliedVolatility: 0.15,
+    ivError: 0,
+    underlyingPrice: 4510.25,
+    timestamp: new Date('2024-03-14T13:30:00.000Z'),
+  }))
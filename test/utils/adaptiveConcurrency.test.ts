@@ -0,0 +1,140 @@
+import { describe, expect, it } from 'bun:test'
+import { Effect, Ref } from 'effect'
+import { type AimdState, makeAdaptiveConcurrency, nextAimdState } from '@/utils/adaptiveConcurrency'
+
+describe('adaptiveConcurrency', () => {
+  const bounds = { min: 1, max: 4 }
+  const start: AimdState = { limit: 2, successes: 0, epoch: 0 }
+
+  it('should add one after a full window of successes, up to the max', () => {
+    const afterOne = nextAimdState(start, 'ok', 0, bounds)
+    expect(afterOne).toEqual({ limit: 2, successes: 1, epoch: 0 })
+    expect(nextAimdState(afterOne, 'ok', 0, bounds)).toEqual({ limit: 3, successes: 0, epoch: 0 })
+
+    const atMax: AimdState = { limit: 4, successes: 3, epoch: 0 }
+    expect(nextAimdState(atMax, 'ok', 0, bounds).limit).toBe(4)
+  })
+
+  it('should halve once per window on congestion, down to the min', () => {
+    const halved = nextAimdState({ ...start, limit: 4, successes: 3 }, 'congestion', 0, bounds)
+    expect(halved).toEqual({ limit: 2, successes: 0, epoch: 1 })
+
+    // Requests started before the decrease are part of the window that caused it
+    expect(nextAimdState(halved, 'latency', 0, bounds)).toBe(halved)
+    expect(nextAimdState(halved, 'ok', 0, bounds)).toBe(halved)
+    expect(nextAimdState(halved, 'latency', 1, bounds)).toEqual({
+      limit: 1,
+      successes: 0,
+      epoch: 2,
+    })
+    expect(nextAimdState({ limit: 1, successes: 0, epoch: 2 }, 'congestion', 2, bounds).limit).toBe(
+      1,
+    )
+    expect(nextAimdState(halved, 'neutral', 1, bounds)).toBe(halved)
+  })
+
+  it('should hold requests beyond the limit and back off on congestion errors', async () => {
+    const { maxInFlight, history, finalLimit } = await Effect.runPromise(
+      Effect.gen(function* (_) {
+        const limit = yield* _(
+          makeAdaptiveConcurrency({
+            initial: 4,
+            min: 1,
+            max: 4,
+            targetLatencyMs: 1000,
+            isCongestion: (error) => error === 'rate-limited',
+          }),
+        )
+        const inFlight = yield* _(Ref.make(0))
+        const maxInFlight = yield* _(Ref.make(0))
+        const request = (fail: boolean) =>
+          Effect.scoped(
+            Effect.gen(function* (_) {
+              yield* _(limit.slot)
+              const current = yield* _(Ref.updateAndGet(inFlight, (n) => n + 1))
+              yield* _(Ref.update(maxInFlight, (max) => Math.max(max, current)))
+              yield* _(Effect.sleep(10))
+              yield* _(Ref.update(inFlight, (n) => n - 1))
+              if (fail) {
+                yield* _(Effect.fail('rate-limited'))
+              }
+            }),
+          ).pipe(Effect.either)
+
+        yield* _(
+          Effect.all(
+            Array.from({ length: 8 }, (_, i) => request(i === 0)),
+            { concurrency: 'unbounded' },
+          ),
+        )
+        return {
+          maxInFlight: yield* _(Ref.get(maxInFlight)),
+          history: yield* _(limit.history),
+          finalLimit: yield* _(limit.current),
+        }
+      }),
+    )
+
+    expect(maxInFlight).toBe(4)
+    expect(history.map(({ concurrency, reason }) => [concurrency, reason])).toEqual([
+      [4, 'start'],
+      [2, 'congestion'],
+      [3, 'increase'],
+    ])
+    expect(finalLimit).toBe(3)
+  })
+
+  it('should measure a slot that responded only to its first response', async () => {
+    const history = await Effect.runPromise(
+      Effect.gen(function* (_) {
+        const limit = yield* _(
+          makeAdaptiveConcurrency({
+            initial: 4,
+            min: 1,
+            max: 4,
+            targetLatencyMs: 30,
+            isCongestion: () => false,
+          }),
+        )
+        // A fast answer read for a long time, then a slow answer
+        yield* _(
+          Effect.scoped(
+            Effect.flatMap(limit.slot, ({ responded }) =>
+              Effect.zipRight(responded, Effect.sleep(60)),
+            ),
+          ),
+        )
+        yield* _(Effect.scoped(Effect.zipRight(limit.slot, Effect.sleep(60))))
+        return yield* _(limit.history)
+      }),
+    )
+
+    expect(history.map(({ concurrency, reason }) => [concurrency, reason])).toEqual([
+      [4, 'start'],
+      [2, 'latency'],
+    ])
+  })
+
+  it('should keep a limit with equal bounds fixed', async () => {
+    const history = await Effect.runPromise(
+      Effect.gen(function* (_) {
+        const limit = yield* _(
+          makeAdaptiveConcurrency({
+            initial: 2,
+            min: 2,
+            max: 2,
+            targetLatencyMs: 0,
+            isCongestion: () => true,
+          }),
+        )
+        yield* _(Effect.scoped(Effect.zipRight(limit.slot, Effect.sleep(5))))
+        yield* _(
+          Effect.scoped(Effect.zipRight(limit.slot, Effect.fail('busy'))).pipe(Effect.ignore),
+        )
+        return yield* _(limit.history)
+      }),
+    )
+
+    expect(history.map(({ concurrency }) => concurrency)).toEqual([2])
+  })
+})
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'bun:test'
+import { Either } from 'effect'
+import fc from 'fast-check'
+import {
+  type ContractFields,
+  contractStringToOcc,
+  formatContractString,
+  formatOccSymbol,
+  occToContractString,
+  parseContractString,
+  parseContractSymbol,
+  parseOccSymbol,
+} from '@/utils/contractSymbol'
+
+const rootArb = fc.stringMatching(/^[A-Z][A-Z0-9]{0,5}$/)
+
+const expirationArb = fc
+  .date({ min: new Date('2000-01-01T00:00:00Z'), max: new Date('2099-12-31T00:00:00Z') })
+  .map((date) => date.toISOString().slice(0, 10))
+
+// Any strike an 8-digit thousandths field holds, so most carry 1-3 decimals
+const strikeArb = fc.integer({ min: 1, max: 99_999_999 }).map((thousandths) => thousandths / 1000)
+
+const contractArb: fc.Arbitrary<ContractFields> = fc.record({
+  root: rootArb,
+  expiration: expirationArb,
+  strike: strikeArb,
+  right: fc.constantFrom('C' as const, 'P' as const),
+})
+
+const getRight = <A, E>(either: Either.Either<A, E>) => Either.getOrThrow(either)
+
+describe('contractSymbol', () => {
+  const spxw: ContractFields = { root: 'SPXW', expiration: '2024-03-15', strike: 5000, right: 'C' }
+
+  it('should format both symbol styles', () => {
+    expect(getRight(formatOccSymbol(spxw))).toBe('SPXW  240315C05000000')
+    expect(getRight(formatContractString(spxw))).toBe('O:SPXW240315C05000000')
+    expect(getRight(formatOccSymbol({ ...spxw, root: 'spx', strike: 4512.5, right: 'P' }))).toBe(
+      'SPX   240315P04512500',
+    )
+  })
+
+  it('should parse both styles into contract info', () => {
+    const expected = { ...spxw, strike: 4512.5, contract: 'O:SPXW240315C04512500' }
+    expect(getRight(parseOccSymbol('SPXW  240315C04512500'))).toEqual(expected)
+    expect(getRight(parseContractString('O:SPXW240315C04512500'))).toEqual(expected)
+    expect(getRight(parseContractSymbol('SPXW  240315C04512500'))).toEqual(expected)
+    expect(getRight(parseContractSymbol('O:SPXW240315C04512500'))).toEqual(expected)
+  })
+
+  it('should reject malformed symbols and contracts', () => {
+    const failures: Array<Either.Either<unknown, unknown>> = [
+      parseOccSymbol('SPXW 240315C05000000'), // 20 characters
+      parseOccSymbol('SPXW  240230C05000000'), // February 30th
+      parseOccSymbol('SPXW  240315X05000000'),
+      parseContractString('SPXW240315C05000000'),
+      parseContractString('O:SPXWEEK240315C05000000'),
+      formatOccSymbol({ ...spxw, strike: 4512.0005 }),
+      formatOccSymbol({ ...spxw, strike: 100_000 }),
+      formatOccSymbol({ ...spxw, strike: 0 }),
+      formatOccSymbol({ ...spxw, root: 'SPX-W' }),
+      formatOccSymbol({ ...spxw, expiration: '1999-12-31' }),
+    ]
+
+    for (const failure of failures) {
+      expect(Either.isLeft(failure)).toBe(true)
+    }
+    expect(Either.flip(formatOccSymbol({ ...spxw, strike: 4512.0005 }))).toMatchObject(
+      Either.right({ _tag: 'ValidationError', field: 'strike' }),
+    )
+  })
+
+  it('should round-trip OCC symbols', () => {
+    fc.assert(
+      fc.property(contractArb, (contract) => {
+        const symbol = getRight(formatOccSymbol(contract))
+        expect(symbol).toHaveLength(21)
+        expect(getRight(parseOccSymbol(symbol))).toMatchObject(contract)
+      }),
+    )
+  })
+
+  it('should round-trip O: symbols', () => {
+    fc.assert(
+      fc.property(contractArb, (contract) => {
+        const symbol = getRight(formatContractString(contract))
+        expect(getRight(parseContractString(symbol))).toEqual({ ...contract, contract: symbol })
+      }),
+    )
+  })
+
+  it('should convert between the two styles without loss', () => {
+    fc.assert(
+      fc.property(contractArb, (contract) => {
+        const occ = getRight(formatOccSymbol(contract))
+        const prefixed = getRight(occToContractString(occ))
+        expect(prefixed).toBe(getRight(formatContractString(contract)))
+        expect(getRight(contractStringToOcc(prefixed))).toBe(occ)
+      }),
+    )
+  })
+})
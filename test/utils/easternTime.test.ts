@@ -0,0 +1,63 @@
+import { afterEach, describe, expect, it } from 'bun:test'
+import { easternOffsetMs, easternTimeOf, easternTimestamp } from '@/utils/easternTime'
+
+const HOUR = 3_600_000
+
+describe('easternTime', () => {
+  const hostZone = process.env.TZ
+
+  afterEach(() => {
+    process.env.TZ = hostZone
+  })
+
+  it('should read ms_of_day as Eastern time in winter and summer', () => {
+    expect(easternTimestamp('20240116', 9.5 * HOUR).toISOString()).toBe('2024-01-16T14:30:00.000Z')
+    expect(easternTimestamp('20240716', 9.5 * HOUR).toISOString()).toBe('2024-07-16T13:30:00.000Z')
+    expect(easternTimestamp('20240716', 16 * HOUR).toISOString()).toBe('2024-07-16T20:00:00.000Z')
+  })
+
+  it('should switch offsets at 02:00 on the spring-forward day', () => {
+    // 2024-03-10: 02:00 EST became 03:00 EDT
+    expect(easternTimestamp('20240310', 1.5 * HOUR).toISOString()).toBe('2024-03-10T06:30:00.000Z')
+    expect(easternTimestamp('20240310', 3.5 * HOUR).toISOString()).toBe('2024-03-10T07:30:00.000Z')
+    expect(easternTimestamp('20240310', 9.5 * HOUR).toISOString()).toBe('2024-03-10T13:30:00.000Z')
+  })
+
+  it('should switch offsets at 02:00 on the fall-back day', () => {
+    // 2024-11-03: 02:00 EDT became 01:00 EST
+    expect(easternTimestamp('20241103', 0.5 * HOUR).toISOString()).toBe('2024-11-03T04:30:00.000Z')
+    expect(easternTimestamp('20241103', 9.5 * HOUR).toISOString()).toBe('2024-11-03T14:30:00.000Z')
+    expect(easternTimestamp('20241101', 9.5 * HOUR).toISOString()).toBe('2024-11-01T13:30:00.000Z')
+    expect(easternTimestamp('20241104', 9.5 * HOUR).toISOString()).toBe('2024-11-04T14:30:00.000Z')
+  })
+
+  it('should not depend on the host time zone', () => {
+    const utc = easternTimestamp('20240311', 9.5 * HOUR)
+    process.env.TZ = 'Asia/Tokyo'
+    expect(easternTimestamp('20240311', 9.5 * HOUR)).toEqual(utc)
+    expect(easternTimeOf(utc)).toEqual({ tradeDate: '20240311', msOfDay: 9.5 * HOUR })
+  })
+
+  it('should give back the trade date and ms_of_day of an instant', () => {
+    expect(easternOffsetMs(Date.parse('2024-03-08T14:30:00Z'))).toBe(-5 * HOUR)
+    expect(easternOffsetMs(Date.parse('2024-03-11T13:30:00Z'))).toBe(-4 * HOUR)
+    // 21:00 ET on the 15th is already the 16th in UTC
+    expect(easternTimeOf(new Date('2024-03-16T01:00:00.000Z'))).toEqual({
+      tradeDate: '20240315',
+      msOfDay: 21 * HOUR,
+    })
+    for (const [day, ms] of [
+      ['20240310', 1.5 * HOUR],
+      ['20240310', 15.25 * HOUR],
+      ['20241103', 0.75 * HOUR],
+      ['20241103', 23 * HOUR],
+    ] as const) {
+      expect(easternTimeOf(easternTimestamp(day, ms))).toEqual({ tradeDate: day, msOfDay: ms })
+    }
+  })
+
+  it('should give an invalid Date for a malformed trade date', () => {
+    expect(Number.isNaN(easternTimestamp('2024-03-11').getTime())).toBe(true)
+    expect(easternTimeOf(new Date(Number.NaN))).toEqual({ tradeDate: '', msOfDay: Number.NaN })
+  })
+})
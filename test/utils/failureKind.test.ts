@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'bun:test'
+import { BulkProcessingError } from '@/services/BulkGreeksProcessor'
+import {
+  ThetaDataApiError,
+  ThetaDataConnectionError,
+  ThetaDataRateLimitError,
+} from '@/services/ThetaDataApiClient'
+import { failureKindOf } from '@/utils/failureKind'
+
+describe('failureKindOf', () => {
+  const apiError = (statusCode?: number) =>
+    new ThetaDataApiError({ message: `HTTP ${statusCode}`, statusCode })
+
+  it('should treat unreachable, throttled and overloaded terminals as transient', () => {
+    expect(failureKindOf(new ThetaDataConnectionError({ message: 'refused' }))).toBe('transient')
+    expect(failureKindOf(new ThetaDataRateLimitError({ message: 'slow down' }))).toBe('transient')
+    expect(failureKindOf(apiError(503))).toBe('transient')
+    expect(failureKindOf(apiError(429))).toBe('transient')
+  })
+
+  it('should treat rejected requests and unknown errors as permanent', () => {
+    expect(failureKindOf(apiError(400))).toBe('permanent')
+    expect(failureKindOf(apiError(404))).toBe('permanent')
+    expect(failureKindOf(apiError())).toBe('permanent')
+    expect(failureKindOf(new Error('Malformed CSV'))).toBe('permanent')
+  })
+
+  it('should classify a processing error by its cause', () => {
+    const wrapped = (cause: unknown) => new BulkProcessingError({ message: 'failed', cause })
+    expect(failureKindOf(wrapped(apiError(502)))).toBe('transient')
+    expect(failureKindOf(wrapped(apiError(400)))).toBe('permanent')
+    expect(failureKindOf(wrapped(undefined))).toBe('permanent')
+  })
+})
@@ -0,0 +1,25 @@
+import { afterEach, describe, expect, it } from 'bun:test'
+import * as crypto from 'node:crypto'
+import { sha256File } from '@/utils/fileChecksum'
+
+describe('sha256File', () => {
+  const filePath = `/tmp/spx-checksum-test-${Date.now()}-${Math.random().toString(36).slice(2)}`
+
+  afterEach(async () => {
+    await Bun.$`rm -f ${filePath}`.quiet()
+  })
+
+  it('should hash a file read over several chunks the same as hashing it whole', async () => {
+    // Larger than one read of the file's stream
+    const content = Buffer.from('4500,C,0.51,'.repeat(200_000))
+    await Bun.write(filePath, content)
+
+    expect(await sha256File(filePath)).toBe(
+      crypto.createHash('sha256').update(content).digest('hex'),
+    )
+  })
+
+  it('should resolve to undefined for a missing file', async () => {
+    expect(await sha256File(filePath)).toBeUndefined()
+  })
+})
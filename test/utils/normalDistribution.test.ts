@@ -0,0 +1,17 @@
+import { describe, expect, it } from 'bun:test'
+import { normCdf, normPdf } from '@/utils/normalDistribution'
+
+describe('normal distribution', () => {
+  it('should match standard normal table values', () => {
+    expect(normCdf(0)).toBeCloseTo(0.5, 7)
+    expect(normCdf(1)).toBeCloseTo(0.841345, 6)
+    expect(normCdf(-1.96)).toBeCloseTo(0.024998, 6)
+    expect(normPdf(0)).toBeCloseTo(0.398942, 6)
+  })
+
+  it('should be symmetric about zero', () => {
+    for (const x of [0.1, 0.5, 1.5, 3]) {
+      expect(normCdf(x) + normCdf(-x)).toBeCloseTo(1, 7)
+    }
+  })
+})
@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'bun:test'
+import { PARQUET_COMPRESSION_METHODS } from '@dsnp/parquetjs/dist/lib/compression'
+import { parquetCompression } from '@/utils/parquetCodecs'
+
+describe('parquetCompression', () => {
+  it('should pass codecs parquetjs ships through unchanged', () => {
+    expect(parquetCompression('SNAPPY')).toBe('SNAPPY')
+    expect(parquetCompression('GZIP')).toBe('GZIP')
+    expect(parquetCompression('UNCOMPRESSED')).toBe('UNCOMPRESSED')
+  })
+
+  it('should register a Zstandard codec that round-trips pages', async () => {
+    // Written into the file as the Thrift codec of the same name
+    const codec: string = parquetCompression('ZSTD')
+    expect(codec).toBe('ZSTD')
+
+    const page = Buffer.from('4500,0.51,'.repeat(100))
+    const { deflate, inflate } = PARQUET_COMPRESSION_METHODS.ZSTD
+    const compressed = await deflate(page)
+    expect(compressed.length).toBeLessThan(page.length)
+    expect(Buffer.from(await inflate(compressed))).toEqual(page)
+  })
+})
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'bun:test'
+import { Either } from 'effect'
+import {
+  pathTemplatePlaceholders,
+  renderPathTemplate,
+  validatePathTemplate,
+} from '@/utils/pathTemplate'
+
+describe('pathTemplate', () => {
+  const hive = 'root={root}/year={year}/month={month}/trade_date={tradeDate}/{dataset}_{expiration}'
+
+  it('should accept templates made of known placeholders', () => {
+    expect(validatePathTemplate(hive)).toEqual(Either.right(hive))
+    expect(validatePathTemplate('{root}_exp_{expiration}')).toEqual(
+      Either.right('{root}_exp_{expiration}'),
+    )
+    expect(pathTemplatePlaceholders(`${hive}/{root}`)).toEqual([
+      'root',
+      'year',
+      'month',
+      'tradeDate',
+      'dataset',
+      'expiration',
+    ])
+  })
+
+  it.each([
+    ['{root}/{expiry}', 'unknown placeholder {expiry}'],
+    ['{root}/{expiration', 'unbalanced braces'],
+    ['{root}/expiration}', 'unbalanced braces'],
+    ['/data/{expiration}', 'must be a relative path'],
+    ['{root}//{expiration}', 'empty path segment'],
+    ['{root}/{expiration}/', 'empty path segment'],
+    ['../{root}/{expiration}', 'must not contain . or .. segments'],
+    ['{root}/{tradeDate}', 'must include {expiration}'],
+  ])('should reject %s', (template, message) => {
+    const result = validatePathTemplate(template)
+    expect(Either.isLeft(result)).toBe(true)
+    if (Either.isLeft(result)) {
+      expect(result.left.message).toContain(message)
+      expect(result.left.field).toBe('pathTemplate')
+    }
+  })
+
+  it('should require the placeholders asked for', () => {
+    const result = validatePathTemplate('{root}/{expiration}', ['root', 'tradeDate', 'dataset'])
+    expect(Either.isLeft(result) && result.left.message).toContain(
+      'must include {tradeDate}, {dataset}',
+    )
+  })
+
+  it('should render placeholders, deriving the year and month from the trade date', () => {
+    expect(
+      renderPathTemplate(`${hive}/dte={dte}`, {
+        root: 'SPXW',
+        expiration: '2024-03-18',
+        dataset: 'greeks',
+        tradeDate: '20240314',
+        dte: 2,
+      }),
+    ).toBe('root=spxw/year=2024/month=03/trade_date=20240314/greeks_20240318/dte=2')
+  })
+
+  it('should throw when a placeholder has no value', () => {
+    expect(() =>
+      renderPathTemplate('{tradeDate}/{expiration}', {
+        root: 'SPXW',
+        expiration: '20240318',
+        dataset: 'greeks',
+      }),
+    ).toThrow('No value for {tradeDate}')
+  })
+})